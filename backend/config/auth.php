@@ -0,0 +1,188 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../load_env.php';
+require_once __DIR__ . '/../models/User.php';
+require_once __DIR__ . '/../models/Session.php';
+require_once __DIR__ . '/permissions.php';
+
+/**
+ * Signed, expiring access tokens backed by server-side sessions.
+ *
+ * An access token is base64url(payload).base64url(HMAC-SHA256(payload)) with
+ * payload {sid, uid, exp}. It is accepted only while the signature matches,
+ * exp is in the future and its session is still active, so logout takes
+ * effect immediately. Refresh tokens are opaque and rotate on every use.
+ */
+class Auth {
+    public const ACCESS_TTL = 900;          // 15 minutes
+    public const REFRESH_TTL = 604800;      // 7 days
+
+    private static ?string $secret = null;
+
+    /**
+     * APP_SECRET from the environment. There is no fallback: a key written
+     * under backend/ would sit in the web root, where anyone could download
+     * it and forge tokens, so the API refuses to sign or accept any without it.
+     */
+    private static function secret(): string {
+        if (self::$secret !== null) {
+            return self::$secret;
+        }
+        $secret = getenv('APP_SECRET') ?: '';
+        if (strlen($secret) < 32) {
+            http_response_code(500);
+            header('Content-Type: application/json');
+            echo json_encode([
+                'error' => 'APP_SECRET is not set. Add a random value of at least 32 characters to .env (see SETUP.md).',
+                'code' => 'misconfigured',
+            ]);
+            exit;
+        }
+        return self::$secret = $secret;
+    }
+
+    private static function base64url(string $data): string {
+        return rtrim(strtr(base64_encode($data), '+/', '-_'), '=');
+    }
+
+    private static function unbase64url(string $data): string {
+        return (string)base64_decode(strtr($data, '-_', '+/'), true);
+    }
+
+    private static function sign(array $payload): string {
+        $body = self::base64url(json_encode($payload));
+        return $body . '.' . self::base64url(hash_hmac('sha256', $body, self::secret(), true));
+    }
+
+    /** Payload of a well-signed, unexpired token, otherwise null. */
+    private static function decode(string $token): ?array {
+        $parts = explode('.', $token);
+        if (count($parts) !== 2) {
+            return null;
+        }
+        [$body, $signature] = $parts;
+        $expected = self::base64url(hash_hmac('sha256', $body, self::secret(), true));
+        if (!hash_equals($expected, $signature)) {
+            return null;
+        }
+        $payload = json_decode(self::unbase64url($body), true);
+        if (!is_array($payload) || ($payload['exp'] ?? 0) <= time()) {
+            return null;
+        }
+        return $payload;
+    }
+
+    private static function tokensFor(PDO $pdo, array $user, int $sessionId, string $refreshToken): array {
+        $expiresAt = time() + self::ACCESS_TTL;
+        return [
+            'user' => self::profile($pdo, $user),
+            'token' => self::sign(['sid' => $sessionId, 'uid' => (int)$user['id'], 'exp' => $expiresAt]),
+            'expires_at' => $expiresAt,
+            'refresh_token' => $refreshToken,
+        ];
+    }
+
+    /** Opens a session for a user who just proved their password. */
+    public static function login(PDO $pdo, array $user): array {
+        $refreshToken = bin2hex(random_bytes(32));
+        $sessions = new SessionModel($pdo);
+        $sessionId = $sessions->create((int)$user['id'], $refreshToken, self::REFRESH_TTL, $_SERVER['HTTP_USER_AGENT'] ?? null);
+        (new UserModel($pdo))->recordLogin((int)$user['id']);
+        return self::tokensFor($pdo, $user, $sessionId, $refreshToken);
+    }
+
+    /** New tokens for a valid refresh token, or null when the session is gone. */
+    public static function refresh(PDO $pdo, string $refreshToken): ?array {
+        $sessions = new SessionModel($pdo);
+        $session = $sessions->findActiveByRefreshToken($refreshToken);
+        if (!$session) {
+            return null;
+        }
+        $user = (new UserModel($pdo))->find((int)$session['user_id']);
+        if (!$user || !empty($user['disabled_at'])) {
+            return null;
+        }
+        $next = bin2hex(random_bytes(32));
+        $sessions->rotate((int)$session['id'], $next, self::REFRESH_TTL);
+        return self::tokensFor($pdo, $user, (int)$session['id'], $next);
+    }
+
+    public static function bearerToken(): ?string {
+        $header = $_SERVER['HTTP_AUTHORIZATION']
+            ?? $_SERVER['REDIRECT_HTTP_AUTHORIZATION']
+            ?? (function_exists('getallheaders') ? (array_change_key_case(getallheaders())['authorization'] ?? '') : '');
+        return preg_match('/^Bearer\s+(\S+)$/i', (string)$header, $m) ? $m[1] : null;
+    }
+
+    /**
+     * The signed-in user and their session id, or null. Every call checks the
+     * session row, so a revoked session is rejected before its token expires,
+     * and the session must belong to the token's user.
+     */
+    public static function user(PDO $pdo): ?array {
+        $token = self::bearerToken();
+        $payload = $token ? self::decode($token) : null;
+        if (!$payload) {
+            return null;
+        }
+        $session = (new SessionModel($pdo))->findActive((int)($payload['sid'] ?? 0));
+        if (!$session || (int)$session['user_id'] !== (int)($payload['uid'] ?? 0)) {
+            return null;
+        }
+        $user = (new UserModel($pdo))->find((int)$payload['uid']);
+        if (!$user || !empty($user['disabled_at'])) {
+            return null;
+        }
+        return $user + ['session_id' => (int)$payload['sid']];
+    }
+
+    /** The signed-in user; otherwise responds 401 and stops the request. */
+    public static function requireUser(?PDO $pdo = null): array {
+        $pdo ??= (new DatabaseConnection())->pdo();
+        $user = self::user($pdo);
+        if (!$user) {
+            http_response_code(401);
+            header('Content-Type: application/json');
+            echo json_encode(['error' => 'Your session has expired. Please sign in again.', 'code' => 'unauthenticated']);
+            exit;
+        }
+        return $user;
+    }
+
+    /** The user as the browser sees it: role, permissions and chaired programs. */
+    public static function profile(PDO $pdo, array $user): array {
+        return UserModel::publicFields($user) + [
+            'permissions' => Permissions::forRole((string)($user['role'] ?? '')),
+            'program_ids' => (new UserModel($pdo))->programIds((int)$user['id']),
+        ];
+    }
+
+    /** The signed-in user if their role grants the permission; otherwise responds 403. */
+    public static function requirePermission(string $permission, ?PDO $pdo = null): array {
+        $user = self::requireUser($pdo);
+        if (!Permissions::allows($user, $permission)) {
+            http_response_code(403);
+            header('Content-Type: application/json');
+            echo json_encode(['error' => 'You do not have permission to do this.', 'code' => 'forbidden']);
+            exit;
+        }
+        return $user;
+    }
+
+    /**
+     * Program ids a user's lists are limited to, or null for no limit. Chairs
+     * see only the programs assigned to them.
+     */
+    public static function programScope(array $user, ?PDO $pdo = null): ?array {
+        if (($user['role'] ?? '') !== 'chair') {
+            return null;
+        }
+        $pdo ??= (new DatabaseConnection())->pdo();
+        return (new UserModel($pdo))->programIds((int)$user['id']);
+    }
+
+    public static function logout(PDO $pdo, array $user): void {
+        (new SessionModel($pdo))->revoke((int)$user['session_id']);
+    }
+}
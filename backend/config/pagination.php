@@ -0,0 +1,106 @@
+<?php
+declare(strict_types=1);
+
+/**
+ * Server-side paging, sorting and filtering for the list endpoints.
+ *
+ * A list route that receives ?page= answers with
+ * {rows, total, page, size, facets} instead of the whole table:
+ *  - page, size: 1-based page number and rows per page (at most MAX_SIZE)
+ *  - sort, dir:  a column named in the model's spec, asc or desc
+ *  - q:          free text matched against the spec's search columns
+ *  - any filter named in the spec, exact match; a comma list matches any value,
+ *    e.g. ?ids=4,9,12 for rows selected across pages
+ * facets counts the rows per value of the spec's facet columns, before the
+ * filters and search are applied, for filter options and summary figures.
+ *
+ * The spec only names columns of the model's own SELECT, which is wrapped as
+ * a derived table, so nothing from the query string reaches the SQL unchecked.
+ */
+class Pagination {
+    public const MAX_SIZE = 200;
+    private const DEFAULT_SIZE = 25;
+
+    public static function requested(array $query): bool {
+        return isset($query['page']) && $query['page'] !== '';
+    }
+
+    /**
+     * $sql and $values are the model's unpaged list query. $spec:
+     *  - sort:    [param => column or [columns]]
+     *  - default: [param, 'asc'|'desc']
+     *  - search:  [columns]
+     *  - filters: [param => column]
+     *  - facets:  [param => column]
+     */
+    public static function page(PDO $pdo, string $sql, array $values, array $query, array $spec): array {
+        $size = max(1, min(self::MAX_SIZE, (int)($query['size'] ?? self::DEFAULT_SIZE)));
+        $page = max(1, (int)($query['page'] ?? 1));
+
+        $where = [];
+        $filterValues = [];
+        foreach ($spec['filters'] ?? [] as $param => $column) {
+            if (!isset($query[$param]) || $query[$param] === '') {
+                continue;
+            }
+            $options = array_values(array_filter(explode(',', (string)$query[$param]), 'strlen'));
+            $where[] = "list.$column IN (" . implode(', ', array_fill(0, count($options), '?')) . ')';
+            array_push($filterValues, ...$options);
+        }
+        $search = trim((string)($query['q'] ?? ''));
+        if ($search !== '' && !empty($spec['search'])) {
+            $columns = array_map(fn ($column) => "COALESCE(list.$column, '')", $spec['search']);
+            $where[] = "CONCAT_WS(' ', " . implode(', ', $columns) . ') LIKE ?';
+            $filterValues[] = '%' . addcslashes($search, '%_\\') . '%';
+        }
+        $clause = $where ? 'WHERE ' . implode(' AND ', $where) : '';
+
+        $count = $pdo->prepare("SELECT COUNT(*) FROM ($sql) list $clause");
+        $count->execute([...$values, ...$filterValues]);
+        $total = (int)$count->fetchColumn();
+
+        // Past the last page, e.g. after the filters narrowed the list: show the last one
+        $page = min($page, max(1, (int)ceil($total / $size)));
+        $offset = ($page - 1) * $size;
+        $order = self::order($query, $spec);
+        $stmt = $pdo->prepare("SELECT * FROM ($sql) list $clause ORDER BY $order LIMIT $size OFFSET $offset");
+        $stmt->execute([...$values, ...$filterValues]);
+
+        $result = ['rows' => $stmt->fetchAll(), 'total' => $total, 'page' => $page, 'size' => $size];
+        if (!empty($spec['facets'])) {
+            $result['facets'] = self::facets($pdo, $sql, $values, $spec['facets']);
+        }
+        return $result;
+    }
+
+    // A whitelisted sort with the row id as tie-breaker, so pages never overlap
+    private static function order(array $query, array $spec): string {
+        $sorts = $spec['sort'] ?? [];
+        [$default, $defaultDir] = $spec['default'] ?? [null, 'asc'];
+        $param = isset($query['sort'], $sorts[$query['sort']]) ? $query['sort'] : $default;
+        $dir = strtolower((string)($query['dir'] ?? ($param === $default ? $defaultDir : 'asc'))) === 'desc' ? 'DESC' : 'ASC';
+        $columns = $param !== null ? (array)$sorts[$param] : [];
+        $terms = array_map(fn ($column) => "list.$column $dir", $columns);
+        $terms[] = "list.id $dir";
+        return implode(', ', $terms);
+    }
+
+    private static function facets(PDO $pdo, string $sql, array $values, array $facets): array {
+        $result = [];
+        foreach ($facets as $param => $column) {
+            $stmt = $pdo->prepare("
+                SELECT list.$column AS value, COUNT(*) AS count FROM ($sql) list
+                WHERE list.$column IS NOT NULL
+                GROUP BY list.$column ORDER BY list.$column
+            ");
+            $stmt->execute($values);
+            $result[$param] = [];
+            foreach ($stmt->fetchAll() as $row) {
+                if ((string)$row['value'] !== '') {
+                    $result[$param][] = ['value' => (string)$row['value'], 'count' => (int)$row['count']];
+                }
+            }
+        }
+        return $result;
+    }
+}
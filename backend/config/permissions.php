@@ -0,0 +1,54 @@
+<?php
+declare(strict_types=1);
+
+/**
+ * What each role may do. Routes check these names through
+ * Auth::requirePermission and the browser receives the same list at sign-in,
+ * so this matrix is the only place access is decided.
+ */
+class Permissions {
+    public const ROLES = ['admin', 'registrar', 'dean', 'chair', 'faculty', 'committee'];
+
+    // Permissions every signed-in role has: reading the records
+    private const VIEW = [
+        'students.view',
+        'teachers.view',
+        'subjects.view',
+        'programs.view',
+        'grades.view',
+    ];
+
+    public const MATRIX = [
+        'admin' => [
+            ...self::VIEW,
+            'students.manage', 'teachers.manage', 'subjects.manage', 'programs.manage', 'grades.manage',
+            'records.import', 'grades.import', 'reports.view', 'policies.manage', 'users.manage', 'audit.view',
+            'zones.recalculate',
+        ],
+        'registrar' => [
+            ...self::VIEW,
+            'students.manage', 'teachers.manage', 'subjects.manage', 'programs.manage', 'grades.manage',
+            'records.import', 'grades.import', 'reports.view', 'audit.view', 'zones.recalculate',
+        ],
+        'dean' => [...self::VIEW, 'reports.view', 'policies.manage', 'audit.view'],
+        // Chairs only see the programs assigned to them (see Auth::programScope)
+        'chair' => [...self::VIEW, 'reports.view'],
+        // No grades.manage: grades are not linked to who teaches them, so it
+        // could not be limited to a teacher's own subjects
+        'faculty' => [...self::VIEW],
+        'committee' => [...self::VIEW, 'reports.view', 'audit.view'],
+    ];
+
+    /** Permissions granted to a role; unknown roles get none. */
+    public static function forRole(string $role): array {
+        return self::MATRIX[$role] ?? [];
+    }
+
+    public static function allows(array $user, string $permission): bool {
+        return in_array($permission, self::forRole((string)($user['role'] ?? '')), true);
+    }
+
+    public static function isRole(string $role): bool {
+        return in_array($role, self::ROLES, true);
+    }
+}
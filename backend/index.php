@@ -33,9 +33,33 @@ switch ($path) {
     case 'register':
         require __DIR__ . '/routes/register.php';
         break;
+    case 'refresh':
+        require __DIR__ . '/routes/refresh.php';
+        break;
+    case 'logout':
+        require __DIR__ . '/routes/logout.php';
+        break;
+    case 'me':
+        require __DIR__ . '/routes/me.php';
+        break;
+    case 'users':
+        require __DIR__ . '/routes/users.php';
+        break;
+    case 'invite':
+        require __DIR__ . '/routes/invite.php';
+        break;
+    case 'audit':
+        require __DIR__ . '/routes/audit.php';
+        break;
+    case 'zones':
+        require __DIR__ . '/routes/zones.php';
+        break;
+    case 'bulk':
+        require __DIR__ . '/routes/bulk.php';
+        break;
     default:
         header('Content-Type: application/json');
-        echo json_encode(['status' => 'ok', 'routes' => ['students','teachers','subjects','upload','login','register']]);
+        echo json_encode(['status' => 'ok', 'routes' => ['students','teachers','subjects','upload','login','register','refresh','logout','me','users','invite','audit','zones','bulk']]);
 }
 
 
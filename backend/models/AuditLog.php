@@ -0,0 +1,279 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+
+/**
+ * Who changed what and when. One row per created, updated or deleted record,
+ * with the changed fields as [{field, from, to}]. Rows written by one import
+ * share a batch id so the whole file can be traced.
+ */
+class AuditLogModel {
+    public const ACTIONS = ['create', 'update', 'delete'];
+    // manual: a form in the app; import: a CSV/XLSX or grade sheet upload; bulk: a bulk action
+    public const SOURCES = ['manual', 'import', 'bulk'];
+
+    // Bookkeeping columns that change on every write and say nothing about the record
+    private const IGNORED_FIELDS = ['id', 'created_at', 'updated_at', 'deleted_at'];
+
+    public function __construct(private PDO $pdo) {
+        $this->ensureTable();
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private function ensureTable(): void {
+        $this->pdo->exec('
+            CREATE TABLE IF NOT EXISTS audit_log (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                user_id INT NULL,
+                username VARCHAR(64) NULL,
+                entity VARCHAR(30) NOT NULL,
+                entity_id VARCHAR(64) NOT NULL,
+                entity_label VARCHAR(255) NULL,
+                action VARCHAR(10) NOT NULL,
+                source VARCHAR(10) NOT NULL,
+                changes TEXT NOT NULL,
+                batch_id VARCHAR(32) NULL,
+                context VARCHAR(255) NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                KEY idx_entity (entity, entity_id),
+                KEY idx_user (user_id),
+                KEY idx_created (created_at)
+            )
+        ');
+    }
+
+    /**
+     * Fields that differ between two versions of a record. A null side means
+     * the record did not exist, so every field counts as changed.
+     */
+    public static function diff(?array $before, ?array $after): array {
+        $fields = array_unique(array_merge(array_keys($before ?? []), array_keys($after ?? [])));
+        $changes = [];
+        foreach ($fields as $field) {
+            if (in_array($field, self::IGNORED_FIELDS, true)) {
+                continue;
+            }
+            $from = $before[$field] ?? null;
+            $to = $after[$field] ?? null;
+            // Stored values come back as strings; '' and null both mean empty
+            $same = ($from === null || $from === '') ? ($to === null || $to === '') : (string)$from === (string)$to;
+            if (!$same) {
+                $changes[] = ['field' => (string)$field, 'from' => $from, 'to' => $to];
+            }
+        }
+        return $changes;
+    }
+
+    /**
+     * Records one change. Updates that change nothing are not logged.
+     * $actor is the signed-in user from Auth.
+     */
+    public function record(
+        ?array $actor,
+        string $entity,
+        $entityId,
+        ?string $label,
+        string $action,
+        array $changes,
+        string $source = 'manual',
+        ?string $batchId = null,
+        ?string $context = null
+    ): void {
+        if ($action === 'update' && !$changes) {
+            return;
+        }
+        $stmt = $this->pdo->prepare('
+            INSERT INTO audit_log (user_id, username, entity, entity_id, entity_label, action, source, changes, batch_id, context)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ');
+        $stmt->execute([
+            isset($actor['id']) ? (int)$actor['id'] : null,
+            $actor['username'] ?? null,
+            $entity,
+            (string)$entityId,
+            $label !== null ? mb_substr($label, 0, 255) : null,
+            $action,
+            in_array($source, self::SOURCES, true) ? $source : 'manual',
+            json_encode($changes),
+            $batchId,
+            $context !== null ? mb_substr($context, 0, 255) : null,
+        ]);
+    }
+
+    /** Logs the difference between two versions of a record, inferring the action. */
+    public function recordDiff(?array $actor, string $entity, $entityId, ?array $before, ?array $after,
+                               string $source = 'manual', ?string $batchId = null, ?string $context = null): void {
+        $action = $before === null ? 'create' : ($after === null ? 'delete' : 'update');
+        $label = self::label($entity, $after ?? $before);
+        $this->record($actor, $entity, $entityId, $label, $action, self::diff($before, $after), $source, $batchId, $context);
+    }
+
+    /** How a record is named in the log, so entries stay readable after it is deleted. */
+    public static function label(string $entity, ?array $row): ?string {
+        if (!$row) {
+            return null;
+        }
+        $join = fn (...$parts) => trim(implode(' ', array_filter(array_map('strval', $parts), 'strlen'))) ?: null;
+        switch ($entity) {
+            case 'students':
+                return $join($row['student_id'] ?? '', $row['first_name'] ?? '', $row['last_name'] ?? '');
+            case 'teachers':
+                return $join($row['first_name'] ?? '', $row['last_name'] ?? '');
+            case 'subjects':
+                return $join($row['code'] ?? $row['subject_code'] ?? '', $row['name'] ?? $row['subject_name'] ?? '');
+            case 'programs':
+                return $join($row['program_code'] ?? '', $row['program_name'] ?? '');
+            case 'grades':
+                return $join($row['student_id_str'] ?? '', $row['subject_code'] ?? '');
+            case 'policies':
+                return $join($row['name'] ?? '', isset($row['version']) ? "v{$row['version']}" : '');
+            case 'users':
+                return $row['username'] ?? null;
+        }
+        return null;
+    }
+
+    /**
+     * Newest entries first, filtered by entity, entity_id, user_id, source,
+     * action and a from/to date range. Returns {entries, total}.
+     */
+    public function all(array $filters = []): array {
+        $where = [];
+        $values = [];
+        foreach (['entity', 'entity_id', 'user_id', 'source', 'action', 'batch_id'] as $field) {
+            if (isset($filters[$field]) && $filters[$field] !== '') {
+                $where[] = "$field = ?";
+                $values[] = (string)$filters[$field];
+            }
+        }
+        if (!empty($filters['from'])) {
+            $where[] = 'created_at >= ?';
+            $values[] = $filters['from'] . ' 00:00:00';
+        }
+        if (!empty($filters['to'])) {
+            $where[] = 'created_at <= ?';
+            $values[] = $filters['to'] . ' 23:59:59';
+        }
+        $clause = $where ? 'WHERE ' . implode(' AND ', $where) : '';
+
+        $count = $this->pdo->prepare("SELECT COUNT(*) FROM audit_log $clause");
+        $count->execute($values);
+
+        $limit = max(1, min(500, (int)($filters['limit'] ?? 100)));
+        $offset = max(0, (int)($filters['offset'] ?? 0));
+        $stmt = $this->pdo->prepare("SELECT * FROM audit_log $clause ORDER BY created_at DESC, id DESC LIMIT $limit OFFSET $offset");
+        $stmt->execute($values);
+        $entries = array_map(function ($row) {
+            $row['changes'] = json_decode($row['changes'], true) ?: [];
+            return $row;
+        }, $stmt->fetchAll());
+
+        return ['entries' => $entries, 'total' => (int)$count->fetchColumn()];
+    }
+
+    /**
+     * The dashboard activity feed, newest first. Three kinds of event:
+     *  - zone: a student or teacher moved between zones, by any means
+     *  - import: one uploaded file, with counts of what it created and updated
+     *  - edit: any other change made in the app
+     * $filters: type (one of the above), since (YYYY-MM-DD), limit (max 100).
+     */
+    public function activity(array $filters = []): array {
+        $type = $filters['type'] ?? '';
+        $limit = max(1, min(100, (int)($filters['limit'] ?? 20)));
+        $since = !empty($filters['since']) ? $filters['since'] . ' 00:00:00' : null;
+        $sinceClause = $since ? 'AND a.created_at >= ?' : '';
+        $sinceValues = $since ? [$since] : [];
+        // changes is stored with json_encode, so a zone change always contains this text
+        $zoneChange = "a.entity IN ('students', 'teachers') AND a.changes LIKE '%\"field\":\"zone\"%'";
+        // The student number tells the feed the student still exists and can be linked
+        $records = "SELECT a.*, s.student_id AS student_number FROM audit_log a
+                    LEFT JOIN students s ON a.entity = 'students' AND s.id = a.entity_id";
+        $events = [];
+
+        if ($type === '' || $type === 'zone') {
+            $stmt = $this->pdo->prepare("
+                $records WHERE a.action = 'update' AND $zoneChange $sinceClause
+                ORDER BY a.created_at DESC, a.id DESC LIMIT $limit
+            ");
+            $stmt->execute($sinceValues);
+            foreach ($stmt->fetchAll() as $row) {
+                $zone = current(array_filter(json_decode($row['changes'], true) ?: [], fn ($c) => $c['field'] === 'zone'));
+                $events[] = $this->event('zone', $row) + ['zone_from' => $zone['from'] ?? null, 'zone_to' => $zone['to'] ?? null];
+            }
+        }
+
+        if ($type === '' || $type === 'import') {
+            $stmt = $this->pdo->prepare("
+                SELECT a.batch_id, MAX(a.created_at) AS created_at, MAX(a.user_id) AS user_id, MAX(a.username) AS username,
+                       MAX(a.context) AS context, GROUP_CONCAT(DISTINCT a.entity) AS entities,
+                       SUM(a.action = 'create') AS created, SUM(a.action = 'update') AS updated
+                FROM audit_log a WHERE a.batch_id IS NOT NULL $sinceClause
+                GROUP BY a.batch_id ORDER BY created_at DESC LIMIT $limit
+            ");
+            $stmt->execute($sinceValues);
+            foreach ($stmt->fetchAll() as $row) {
+                $events[] = [
+                    'id' => 'import-' . $row['batch_id'],
+                    'type' => 'import',
+                    'created_at' => $row['created_at'],
+                    'user_id' => $row['user_id'],
+                    'username' => $row['username'],
+                    'entities' => explode(',', (string)$row['entities']),
+                    'context' => $row['context'],
+                    'batch_id' => $row['batch_id'],
+                    'created' => (int)$row['created'],
+                    'updated' => (int)$row['updated'],
+                ];
+            }
+        }
+
+        if ($type === '' || $type === 'edit') {
+            $stmt = $this->pdo->prepare("
+                $records WHERE a.batch_id IS NULL AND NOT (a.action = 'update' AND $zoneChange) $sinceClause
+                ORDER BY a.created_at DESC, a.id DESC LIMIT $limit
+            ");
+            $stmt->execute($sinceValues);
+            foreach ($stmt->fetchAll() as $row) {
+                $events[] = $this->event('edit', $row) + [
+                    'fields' => array_column(json_decode($row['changes'], true) ?: [], 'field'),
+                ];
+            }
+        }
+
+        usort($events, fn ($a, $b) => strcmp((string)$b['created_at'], (string)$a['created_at']));
+        return array_slice($events, 0, $limit);
+    }
+
+    private function event(string $type, array $row): array {
+        return [
+            'id' => 'audit-' . $row['id'],
+            'type' => $type,
+            'created_at' => $row['created_at'],
+            'user_id' => $row['user_id'],
+            'username' => $row['username'],
+            'entity' => $row['entity'],
+            'entity_id' => $row['entity_id'],
+            'entity_label' => $row['entity_label'],
+            'student_number' => $row['student_number'],
+            'action' => $row['action'],
+            'source' => $row['source'],
+        ];
+    }
+
+    /** Everyone who has changed something, for the user filter. */
+    public function actors(): array {
+        return $this->pdo->query('
+            SELECT user_id, MAX(username) AS username
+            FROM audit_log
+            WHERE user_id IS NOT NULL
+            GROUP BY user_id
+            ORDER BY username
+        ')->fetchAll();
+    }
+}
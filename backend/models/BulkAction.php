@@ -0,0 +1,206 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/AuditLog.php';
+require_once __DIR__ . '/Student.php';
+require_once __DIR__ . '/Teacher.php';
+require_once __DIR__ . '/Subject.php';
+require_once __DIR__ . '/Grade.php';
+require_once __DIR__ . '/StudentStanding.php';
+
+/**
+ * One change applied to many selected records, e.g. after a bad import.
+ * Each record is changed and audited like a single edit, with source 'bulk'
+ * and the action (and an override's reason) as context. Runs in one
+ * transaction, so either every selected record changes or none does.
+ *
+ * Setting a student's zone or at-risk flag is an override of the standing
+ * their grades give, so it needs a reason and is kept by later
+ * recalculations (see StudentStandingModel). Changing grades recomputes
+ * the standing of each student they belong to, as a single grade edit does.
+ *
+ * Subjects have no status or at-risk flag, and their zones are pass rates
+ * kept per term (see SubjectZoneModel), so only a program and delete apply.
+ */
+class BulkActions {
+    public const MAX_IDS = 1000;
+
+    public const ACTIONS = [
+        'students' => ['status', 'program', 'at_risk', 'zone', 'delete'],
+        'teachers' => ['status', 'zone', 'delete'],
+        'subjects' => ['program', 'delete'],
+        'grades' => ['status', 'delete'],
+    ];
+
+    public const STATUSES = [
+        'students' => ['Active', 'Inactive', 'Graduated', 'Dropped'],
+        'teachers' => ['Active', 'Inactive', 'On Leave'],
+        'grades' => ['Passed', 'Failed', 'Incomplete'],
+    ];
+
+    private const ZONES = ['green', 'yellow', 'red'];
+
+    private AuditLogModel $audit;
+    private StudentStandingModel $standings;
+    // Record models by entity; each has find, update and delete
+    private array $models;
+
+    // Tables are created here, before any transaction: DDL would commit it
+    public function __construct(private PDO $pdo) {
+        $this->audit = new AuditLogModel($pdo);
+        $this->standings = new StudentStandingModel($pdo);
+        $this->models = [
+            'students' => new StudentModel($pdo),
+            'teachers' => new TeacherModel($pdo),
+            'subjects' => new Subject($pdo),
+            'grades' => new GradeModel($pdo),
+        ];
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    /**
+     * Checks a request {action, ids, value, reason} for the entity and
+     * returns an error message, or null when it can run.
+     */
+    public function validate(string $entity, array $request): ?string {
+        $action = (string)($request['action'] ?? '');
+        if (!in_array($action, self::ACTIONS[$entity] ?? [], true)) {
+            return 'This action is not available for these records';
+        }
+        $ids = $request['ids'] ?? null;
+        if (!is_array($ids) || !$ids) {
+            return 'Select at least one record';
+        }
+        if (count($ids) > self::MAX_IDS) {
+            return 'Select at most ' . self::MAX_IDS . ' records at a time';
+        }
+        $value = $request['value'] ?? null;
+        switch ($action) {
+            case 'status':
+                return in_array($value, self::STATUSES[$entity], true) ? null : 'Choose a valid status';
+            case 'program':
+                return $this->program((int)$value) ? null : 'Choose an existing program';
+            case 'at_risk':
+                if (!is_bool($value)) {
+                    return 'Choose whether the records are at risk';
+                }
+                return trim((string)($request['reason'] ?? '')) === '' ? 'Give a reason for the at-risk override' : null;
+            case 'zone':
+                if (!in_array($value, self::ZONES, true)) {
+                    return 'Choose a zone';
+                }
+                return trim((string)($request['reason'] ?? '')) === '' ? 'Give a reason for the zone override' : null;
+        }
+        return null;
+    }
+
+    /**
+     * Applies a validated request and returns {entity, action, requested,
+     * changed, unchanged, missing}: ids not found are skipped, and records
+     * that already had the value count as unchanged.
+     */
+    public function run(string $entity, array $request, ?array $actor): array {
+        $action = (string)$request['action'];
+        $ids = array_values(array_unique(array_map('intval', $request['ids'])));
+        $value = $request['value'] ?? null;
+        $context = $this->context($action, $value, trim((string)($request['reason'] ?? '')));
+        $summary = ['entity' => $entity, 'action' => $action, 'requested' => count($ids), 'changed' => 0, 'unchanged' => 0, 'missing' => 0];
+        // Students whose grades changed, keyed by id
+        $gradedStudents = [];
+
+        $this->pdo->beginTransaction();
+        try {
+            foreach ($ids as $id) {
+                $before = $this->find($entity, $id);
+                if (!$before) {
+                    $summary['missing']++;
+                    continue;
+                }
+                if ($action === 'delete') {
+                    $this->delete($entity, $id);
+                    $after = null;
+                } else {
+                    $this->update($entity, $id, $action, $value);
+                    if ($entity === 'students' && in_array($action, ['zone', 'at_risk'], true)) {
+                        $this->standings->override($id, trim((string)$request['reason']));
+                    }
+                    $after = $this->find($entity, $id);
+                }
+                if ($after !== null && !AuditLogModel::diff($before, $after)) {
+                    $summary['unchanged']++;
+                    continue;
+                }
+                $summary['changed']++;
+                $this->audit->recordDiff($actor, $entity, $id, $before, $after, 'bulk', null, $context);
+                if ($entity === 'grades') {
+                    $gradedStudents[(int)$before['student_id']] = true;
+                }
+            }
+            foreach (array_keys($gradedStudents) as $studentId) {
+                $this->standings->refresh($studentId, $actor, 'bulk', null, $context);
+            }
+        } catch (Throwable $e) {
+            $this->pdo->rollBack();
+            throw $e;
+        }
+        $this->pdo->commit();
+        return $summary;
+    }
+
+    private function context(string $action, $value, string $reason): string {
+        switch ($action) {
+            case 'status':
+                return "Bulk status change to $value";
+            case 'program':
+                return 'Bulk program reassignment to ' . ($this->program((int)$value)['program_code'] ?? $value);
+            case 'at_risk':
+                return ($value ? 'Bulk flag as at risk' : 'Bulk clear at-risk flag') . ": $reason";
+            case 'zone':
+                return "Zone override to $value: $reason";
+        }
+        return 'Bulk delete';
+    }
+
+    private function program(int $id): ?array {
+        $stmt = $this->pdo->prepare('SELECT id, program_code FROM programs WHERE id = ?');
+        $stmt->execute([$id]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    private function find(string $entity, int $id): ?array {
+        return $this->models[$entity]->find($id);
+    }
+
+    private function update(string $entity, int $id, string $action, $value): void {
+        if ($entity === 'subjects') {
+            // Subjects name their program by code
+            $stmt = $this->pdo->prepare('UPDATE subjects SET program = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+            $stmt->execute([$this->program((int)$value)['program_code'], $id]);
+            return;
+        }
+        switch ($action) {
+            case 'status':
+                $data = ['status' => $value];
+                break;
+            case 'program':
+                $data = ['program_id' => (int)$value];
+                break;
+            case 'at_risk':
+                $data = ['at_risk' => $value ? 1 : 0];
+                break;
+            default:
+                $data = ['zone' => $value];
+        }
+        $this->models[$entity]->update($id, $data);
+    }
+
+    private function delete(string $entity, int $id): void {
+        $this->models[$entity]->delete($id);
+    }
+}
@@ -2,67 +2,189 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/../config/pagination.php';
+require_once __DIR__ . '/RecordTables.php';
+require_once __DIR__ . '/GradeScale.php';
 
 class GradeModel {
-    public function __construct(private PDO $pdo) {}
+    public function __construct(private PDO $pdo) {
+        RecordTables::ensureColumns($pdo);
+    }
 
     public static function withDefaultConnection(): self {
         $db = new DatabaseConnection();
         return new self($db->pdo());
     }
 
-    public function all(): array {
-        $stmt = $this->pdo->query('
+    // Sortable, searchable and filterable columns for Pagination
+    private const LIST_SPEC = [
+        'sort' => [
+            'student' => 'student_id_str',
+            'name' => ['last_name', 'first_name'],
+            'subject' => 'subject_code',
+            'term' => ['academic_year', 'semester'],
+            'midterm_grade' => 'midterm_grade',
+            'final_grade' => 'final_grade',
+            'final_rating' => 'final_rating',
+            'status' => 'status',
+            'created_at' => 'created_at',
+        ],
+        'default' => ['created_at', 'desc'],
+        'search' => ['student_id_str', 'first_name', 'last_name', 'subject_code', 'subject_name'],
+        'filters' => ['ids' => 'id', 'status' => 'status', 'student_id' => 'student_id', 'subject_id' => 'subject_id'],
+        'facets' => ['status' => 'status'],
+    ];
+
+    /** Grades, optionally limited to one academic year and/or semester. */
+    public function all(array $filters = []): array {
+        [$sql, $values] = $this->listQuery($filters);
+        $stmt = $this->pdo->prepare("$sql ORDER BY g.created_at DESC");
+        $stmt->execute($values);
+        return $stmt->fetchAll();
+    }
+
+    /** One page of all(), see Pagination. */
+    public function page(array $query): array {
+        [$sql, $values] = $this->listQuery($query);
+        return Pagination::page($this->pdo, $sql, $values, $query, self::LIST_SPEC);
+    }
+
+    /** Deleted grades, most recent first, for restoring (see RecordTables). */
+    public function deleted(array $filters = []): array {
+        [$sql, $values] = $this->listQuery(['deleted' => true] + $filters);
+        $stmt = $this->pdo->prepare("$sql ORDER BY g.deleted_at DESC LIMIT 100");
+        $stmt->execute($values);
+        return $stmt->fetchAll();
+    }
+
+    private function listQuery(array $filters): array {
+        // Grades of deleted students and subjects are hidden with them
+        $where = empty($filters['deleted'])
+            ? ['g.deleted_at IS NULL', 's.deleted_at IS NULL', 'sub.deleted_at IS NULL']
+            : ['g.deleted_at IS NOT NULL'];
+        $values = [];
+        foreach (['academic_year', 'semester'] as $field) {
+            if (!empty($filters[$field])) {
+                $where[] = "g.$field = ?";
+                $values[] = $filters[$field];
+            }
+        }
+        // A chair's scope; an empty list matches nothing
+        if (isset($filters['program_ids']) && is_array($filters['program_ids'])) {
+            $ids = array_map('intval', $filters['program_ids']);
+            $where[] = $ids ? 's.program_id IN (' . implode(',', $ids) . ')' : '1 = 0';
+        }
+        // The units, the student's program and the scaled ratings are for GWAs, see src/lib/gwa.ts
+        $sql = '
             SELECT g.*, 
-                   s.first_name, s.last_name, s.student_id,
-                   sub.subject_code, sub.subject_name
+                   s.first_name, s.last_name, s.student_id AS student_id_str, s.program_id AS student_program_id,
+                   sub.subject_code, sub.subject_name, sub.units,
+                   ' . GradeScale::ratingColumns('COALESCE(g.final_rating, g.final_grade)') . '
             FROM student_grades g
             LEFT JOIN students s ON g.student_id = s.id
             LEFT JOIN subjects sub ON g.subject_id = sub.id
-            ORDER BY g.created_at DESC
-        ');
-        return $stmt->fetchAll();
+            WHERE ' . implode(' AND ', $where);
+        return [$sql, $values];
+    }
+
+    /**
+     * Mean student GWA per program and overall, for one term's grades
+     * ($filters as for all()). A student's GWA is the unit-weighted mean of
+     * their ratings on $scale, without $excluded statuses; subjects without
+     * units count once, as in src/lib/gwa.ts. Students with no counted grade
+     * are left out.
+     */
+    public function gwaSummary(array $filters, string $scale, array $excluded): array {
+        [$sql, $values] = $this->listQuery($filters);
+        $rating = GradeScale::column($scale);
+        $weight = 'GREATEST(1, COALESCE(units, 1))';
+        $where = ["$rating IS NOT NULL"];
+        if ($excluded) {
+            $where[] = 'status NOT IN (' . implode(',', array_fill(0, count($excluded), '?')) . ')';
+            $values = array_merge($values, array_values($excluded));
+        }
+        $stmt = $this->pdo->prepare("
+            SELECT student_program_id AS program_id, AVG(gwa) AS gwa, COUNT(*) AS students
+            FROM (
+                SELECT student_id, student_program_id, SUM($rating * $weight) / SUM($weight) AS gwa
+                FROM ($sql) rated
+                WHERE " . implode(' AND ', $where) . "
+                GROUP BY student_id, student_program_id
+            ) per_student
+            GROUP BY student_program_id
+        ");
+        $stmt->execute($values);
+
+        $programs = [];
+        $total = 0.0;
+        $students = 0;
+        foreach ($stmt->fetchAll() as $row) {
+            $count = (int)$row['students'];
+            $total += (float)$row['gwa'] * $count;
+            $students += $count;
+            if ($row['program_id'] !== null) {
+                $programs[] = ['program_id' => (int)$row['program_id'], 'gwa' => (float)$row['gwa'], 'students' => $count];
+            }
+        }
+        return [
+            'overall' => ['gwa' => $students > 0 ? $total / $students : null, 'students' => $students],
+            'programs' => $programs,
+        ];
     }
 
     public function find(int $id): ?array {
         $stmt = $this->pdo->prepare('
             SELECT g.*, 
-                   s.first_name, s.last_name, s.student_id,
+                   s.first_name, s.last_name, s.student_id AS student_id_str, s.program_id AS student_program_id,
                    sub.subject_code, sub.subject_name
             FROM student_grades g
             LEFT JOIN students s ON g.student_id = s.id
             LEFT JOIN subjects sub ON g.subject_id = sub.id
-            WHERE g.id = ?
+            WHERE g.id = ? AND g.deleted_at IS NULL
         ');
         $stmt->execute([$id]);
         $row = $stmt->fetch();
         return $row ?: null;
     }
 
+    // A student's transcript: every grade with the subject's units, oldest term first
     public function findByStudent(int $studentId): array {
         $stmt = $this->pdo->prepare('
             SELECT g.*, 
-                   s.first_name, s.last_name, s.student_id,
-                   sub.subject_code, sub.subject_name
+                   s.first_name, s.last_name, s.student_id AS student_id_str, s.program_id AS student_program_id,
+                   sub.subject_code, sub.subject_name, sub.units,
+                   ' . GradeScale::ratingColumns('COALESCE(g.final_rating, g.final_grade)') . '
             FROM student_grades g
             LEFT JOIN students s ON g.student_id = s.id
             LEFT JOIN subjects sub ON g.subject_id = sub.id
-            WHERE g.student_id = ?
-            ORDER BY g.academic_year DESC, g.semester DESC
+            WHERE g.student_id = ? AND g.deleted_at IS NULL AND sub.deleted_at IS NULL
+            ORDER BY g.academic_year, g.semester, sub.subject_code
         ');
         $stmt->execute([$studentId]);
         return $stmt->fetchAll();
     }
 
+    // A student has one grade per subject and term; imports update it rather than add another
+    public function findByKey(int $studentId, int $subjectId, string $academicYear, string $semester): ?array {
+        $stmt = $this->pdo->prepare('
+            SELECT id FROM student_grades
+            WHERE student_id = ? AND subject_id = ? AND academic_year = ? AND semester = ? AND deleted_at IS NULL
+            ORDER BY id LIMIT 1
+        ');
+        $stmt->execute([$studentId, $subjectId, $academicYear, $semester]);
+        $row = $stmt->fetch();
+        return $row ? $this->find((int)$row['id']) : null;
+    }
+
     public function findBySubject(int $subjectId): array {
         $stmt = $this->pdo->prepare('
             SELECT g.*, 
-                   s.first_name, s.last_name, s.student_id,
+                   s.first_name, s.last_name, s.student_id AS student_id_str,
                    sub.subject_code, sub.subject_name
             FROM student_grades g
             LEFT JOIN students s ON g.student_id = s.id
             LEFT JOIN subjects sub ON g.subject_id = sub.id
-            WHERE g.subject_id = ?
+            WHERE g.subject_id = ? AND g.deleted_at IS NULL
             ORDER BY g.final_rating DESC
         ');
         $stmt->execute([$subjectId]);
@@ -108,15 +230,15 @@ class GradeModel {
             $fields[] = 'semester = ?';
             $values[] = $data['semester'];
         }
-        if (isset($data['midterm_grade'])) {
+        if (array_key_exists('midterm_grade', $data)) {
             $fields[] = 'midterm_grade = ?';
             $values[] = $data['midterm_grade'];
         }
-        if (isset($data['final_grade'])) {
+        if (array_key_exists('final_grade', $data)) {
             $fields[] = 'final_grade = ?';
             $values[] = $data['final_grade'];
         }
-        if (isset($data['final_rating'])) {
+        if (array_key_exists('final_rating', $data)) {
             $fields[] = 'final_rating = ?';
             $values[] = $data['final_rating'];
         }
@@ -135,9 +257,13 @@ class GradeModel {
         return $stmt->execute($values);
     }
 
+    // Soft delete, see RecordTables
     public function delete(int $id): bool {
-        $stmt = $this->pdo->prepare('DELETE FROM student_grades WHERE id = ?');
-        return $stmt->execute([$id]);
+        return RecordTables::softDelete($this->pdo, 'grades', $id);
+    }
+
+    public function restore(int $id): bool {
+        return RecordTables::restore($this->pdo, 'grades', $id);
     }
 }
 
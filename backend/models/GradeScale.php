@@ -0,0 +1,36 @@
+<?php
+declare(strict_types=1);
+
+/**
+ * The scales a GWA can be computed on and the statuses it can leave out.
+ * The student GWA policy names both (see ThresholdPolicyModel); the server's
+ * zones and the GWAs shown in the browser (src/lib/gwa.ts) use the policy
+ * in force.
+ *
+ * Ratings are stored as entered, so a column can hold both scales: values up
+ * to 5 are on the 1.0-5.0 scale and higher ones are percentages. Percentages
+ * map linearly onto 1.0-5.0 so that 100 is 1.0 and the passing mark of 60 is
+ * 3.0, with failing marks at 5.0. The conversion only happens here, in SQL,
+ * so grade queries carry every rating on both scales.
+ */
+class GradeScale {
+    public const SCALES = ['philippine', 'percentage'];
+    public const STATUSES = ['Passed', 'Failed', 'Incomplete', 'Dropped'];
+    public const DEFAULT_SCALE = 'philippine';
+    public const DEFAULT_EXCLUDED = ['Dropped', 'Incomplete'];
+
+    // 1.0 is the best grade on the 1.0-5.0 scale, 100 the best percentage
+    public const DIRECTIONS = ['philippine' => 'lower-is-better', 'percentage' => 'higher-is-better'];
+    public const DECIMALS = ['philippine' => 2, 'percentage' => 1];
+
+    /** Select-list columns rating_philippine and rating_percentage for a stored rating. */
+    public static function ratingColumns(string $rating): string {
+        return "CASE WHEN $rating <= 5 THEN $rating WHEN $rating < 60 THEN 5
+                     ELSE ROUND(1 + (100 - LEAST($rating, 100)) / 20, 2) END AS rating_philippine,
+                CASE WHEN $rating <= 5 THEN 100 - ($rating - 1) * 20 ELSE $rating END AS rating_percentage";
+    }
+
+    public static function column(string $scale): string {
+        return "rating_$scale";
+    }
+}
@@ -2,27 +2,47 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/RecordTables.php';
 
 class ProgramModel {
-    public function __construct(private PDO $pdo) {}
+    public function __construct(private PDO $pdo) {
+        RecordTables::ensureColumns($pdo);
+    }
 
     public static function withDefaultConnection(): self {
         $db = new DatabaseConnection();
         return new self($db->pdo());
     }
 
-    public function all(): array {
-        $stmt = $this->pdo->query('
+    /** Programs with zone counts over the students enrolled in the given term, if any. */
+    public function all(array $filters = []): array {
+        $join = '';
+        $where = ['p.deleted_at IS NULL'];
+        $values = [];
+        foreach (['academic_year', 'semester'] as $field) {
+            if (!empty($filters[$field])) {
+                $join .= " AND s.$field = ?";
+                $values[] = $filters[$field];
+            }
+        }
+        // A chair's scope; an empty list matches nothing
+        if (isset($filters['program_ids']) && is_array($filters['program_ids'])) {
+            $ids = array_map('intval', $filters['program_ids']);
+            $where[] = $ids ? 'p.id IN (' . implode(',', $ids) . ')' : '1 = 0';
+        }
+        $stmt = $this->pdo->prepare('
             SELECT p.*, 
                    COUNT(s.id) as student_count,
                    COUNT(CASE WHEN s.zone = "red" THEN 1 END) as red_zone_count,
                    COUNT(CASE WHEN s.zone = "yellow" THEN 1 END) as yellow_zone_count,
                    COUNT(CASE WHEN s.zone = "green" THEN 1 END) as green_zone_count
             FROM programs p 
-            LEFT JOIN students s ON p.id = s.program_id 
+            LEFT JOIN students s ON p.id = s.program_id AND s.deleted_at IS NULL' . $join . '
+            WHERE ' . implode(' AND ', $where) . '
             GROUP BY p.id 
             ORDER BY p.program_name ASC
         ');
+        $stmt->execute($values);
         return $stmt->fetchAll();
     }
 
@@ -34,8 +54,8 @@ class ProgramModel {
                    COUNT(CASE WHEN s.zone = "yellow" THEN 1 END) as yellow_zone_count,
                    COUNT(CASE WHEN s.zone = "green" THEN 1 END) as green_zone_count
             FROM programs p 
-            LEFT JOIN students s ON p.id = s.program_id 
-            WHERE p.id = ? 
+            LEFT JOIN students s ON p.id = s.program_id AND s.deleted_at IS NULL
+            WHERE p.id = ? AND p.deleted_at IS NULL
             GROUP BY p.id
         ');
         $stmt->execute([$id]);
@@ -43,6 +63,35 @@ class ProgramModel {
         return $row ?: null;
     }
 
+    /** Deleted programs, most recent first, for restoring (see RecordTables). */
+    public function deleted(array $filters = []): array {
+        $where = 'p.deleted_at IS NOT NULL';
+        // A chair's scope; an empty list matches nothing
+        if (isset($filters['program_ids']) && is_array($filters['program_ids'])) {
+            $ids = array_map('intval', $filters['program_ids']);
+            $where .= $ids ? ' AND p.id IN (' . implode(',', $ids) . ')' : ' AND 1 = 0';
+        }
+        return $this->pdo->query("SELECT p.* FROM programs p WHERE $where ORDER BY p.deleted_at DESC LIMIT 100")->fetchAll();
+    }
+
+    // Deleted programs included, see RecordTables
+    public function findByCode(string $code): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM programs WHERE program_code = ?');
+        $stmt->execute([$code]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    /** Codes of the given programs, e.g. a chair's scope for subjects, which name their program by code. */
+    public function codes(array $ids): array {
+        $ids = array_map('intval', $ids);
+        if (!$ids) {
+            return [];
+        }
+        return $this->pdo->query('SELECT program_code FROM programs WHERE id IN (' . implode(',', $ids) . ')')
+            ->fetchAll(PDO::FETCH_COLUMN);
+    }
+
     public function create(array $data): int {
         $stmt = $this->pdo->prepare('
             INSERT INTO programs (program_code, program_name, description, duration_years) 
@@ -88,9 +137,10 @@ class ProgramModel {
         return $stmt->execute($values);
     }
 
+    // Soft delete, see RecordTables
     public function delete(int $id): bool {
         // Check if program has students
-        $stmt = $this->pdo->prepare('SELECT COUNT(*) FROM students WHERE program_id = ?');
+        $stmt = $this->pdo->prepare('SELECT COUNT(*) FROM students WHERE program_id = ? AND deleted_at IS NULL');
         $stmt->execute([$id]);
         $count = $stmt->fetchColumn();
         
@@ -98,8 +148,11 @@ class ProgramModel {
             throw new Exception('Cannot delete program with existing students');
         }
         
-        $stmt = $this->pdo->prepare('DELETE FROM programs WHERE id = ?');
-        return $stmt->execute([$id]);
+        return RecordTables::softDelete($this->pdo, 'programs', $id);
+    }
+
+    public function restore(int $id): bool {
+        return RecordTables::restore($this->pdo, 'programs', $id);
     }
 }
 
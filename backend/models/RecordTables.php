@@ -0,0 +1,86 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/AuditLog.php';
+
+/**
+ * Soft delete and edit conflicts for the record tables.
+ *
+ * Deleting a student, teacher, subject, program or grade stamps deleted_at
+ * instead of removing the row, so an accidental delete can be restored; the
+ * models leave stamped rows out of their lists and finds. Lookups by natural
+ * key (student number, subject code, ...) still see them, so a new record
+ * cannot take a deleted one's key and an import can bring it back.
+ *
+ * updated_at doubles as the row version: an edit sends the updated_at it was
+ * opened with as expected_updated_at and is refused when the row has changed
+ * since. The column has one-second precision, so two saves within the same
+ * second are not told apart.
+ */
+class RecordTables {
+    // Entity (as in the audit log and permissions) => table
+    public const TABLES = [
+        'students' => 'students',
+        'teachers' => 'teachers',
+        'subjects' => 'subjects',
+        'programs' => 'programs',
+        'grades' => 'student_grades',
+    ];
+
+    private static bool $ensured = false;
+
+    /**
+     * Adds updated_at and deleted_at to tables created by an older version.
+     * The record models call this from their constructors, so it runs before
+     * any transaction: DDL would commit it.
+     */
+    public static function ensureColumns(PDO $pdo): void {
+        if (self::$ensured) {
+            return;
+        }
+        foreach (self::TABLES as $table) {
+            self::addColumn($pdo, $table, 'updated_at', 'TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP');
+            self::addColumn($pdo, $table, 'deleted_at', 'TIMESTAMP NULL DEFAULT NULL');
+        }
+        self::$ensured = true;
+    }
+
+    public static function addColumn(PDO $pdo, string $table, string $name, string $definition): void {
+        if ($pdo->query("SHOW COLUMNS FROM $table LIKE '$name'")->fetch()) {
+            return;
+        }
+        $pdo->exec("ALTER TABLE $table ADD COLUMN $name $definition");
+    }
+
+    /** True when $data carries an expected_updated_at that $current no longer has. */
+    public static function isStale(array $current, array $data): bool {
+        if (!array_key_exists('expected_updated_at', $data)) {
+            return false;
+        }
+        return (string)$data['expected_updated_at'] !== (string)($current['updated_at'] ?? '');
+    }
+
+    public static function softDelete(PDO $pdo, string $entity, int $id): bool {
+        $table = self::TABLES[$entity];
+        $stmt = $pdo->prepare("UPDATE $table SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL");
+        $stmt->execute([$id]);
+        return $stmt->rowCount() > 0;
+    }
+
+    /** Clears deleted_at; false when the record is not deleted. */
+    public static function restore(PDO $pdo, string $entity, int $id): bool {
+        $table = self::TABLES[$entity];
+        $stmt = $pdo->prepare("UPDATE $table SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL");
+        $stmt->execute([$id]);
+        return $stmt->rowCount() > 0;
+    }
+
+    /** Deleted rows as {id, label, deleted_at}, for the Recently deleted list. */
+    public static function summaries(string $entity, array $rows): array {
+        return array_map(fn ($row) => [
+            'id' => (int)$row['id'],
+            'label' => AuditLogModel::label($entity, $row),
+            'deleted_at' => $row['deleted_at'],
+        ], $rows);
+    }
+}
@@ -0,0 +1,88 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+
+/**
+ * Server-side login sessions. Access tokens name their session, so logging
+ * out (revoking the session) invalidates them before they expire. Refresh
+ * tokens are stored hashed and rotated on every use.
+ */
+class SessionModel {
+    public function __construct(private PDO $pdo) {
+        $this->ensureTable();
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private function ensureTable(): void {
+        $this->pdo->exec('
+            CREATE TABLE IF NOT EXISTS user_sessions (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                user_id INT NOT NULL,
+                refresh_hash CHAR(64) NOT NULL,
+                expires_at DATETIME NOT NULL,
+                revoked_at DATETIME NULL,
+                user_agent VARCHAR(255) NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                UNIQUE KEY uniq_refresh (refresh_hash),
+                KEY idx_user (user_id),
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )
+        ');
+    }
+
+    public function create(int $userId, string $refreshToken, int $ttlSeconds, ?string $userAgent): int {
+        $stmt = $this->pdo->prepare('
+            INSERT INTO user_sessions (user_id, refresh_hash, expires_at, user_agent)
+            VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? SECOND), ?)
+        ');
+        $stmt->execute([$userId, hash('sha256', $refreshToken), $ttlSeconds, $userAgent !== null ? substr($userAgent, 0, 255) : null]);
+        return intval($this->pdo->lastInsertId());
+    }
+
+    /** The session when it exists, is not revoked and has not expired. */
+    public function findActive(int $id): ?array {
+        $stmt = $this->pdo->prepare('
+            SELECT * FROM user_sessions
+            WHERE id = ? AND revoked_at IS NULL AND expires_at > NOW()
+        ');
+        $stmt->execute([$id]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    public function findActiveByRefreshToken(string $refreshToken): ?array {
+        $stmt = $this->pdo->prepare('
+            SELECT * FROM user_sessions
+            WHERE refresh_hash = ? AND revoked_at IS NULL AND expires_at > NOW()
+        ');
+        $stmt->execute([hash('sha256', $refreshToken)]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    /** Swaps in a new refresh token and slides the session expiry forward. */
+    public function rotate(int $id, string $refreshToken, int $ttlSeconds): void {
+        $stmt = $this->pdo->prepare('
+            UPDATE user_sessions
+            SET refresh_hash = ?, expires_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+            WHERE id = ?
+        ');
+        $stmt->execute([hash('sha256', $refreshToken), $ttlSeconds, $id]);
+    }
+
+    public function revoke(int $id): void {
+        $stmt = $this->pdo->prepare('UPDATE user_sessions SET revoked_at = NOW() WHERE id = ? AND revoked_at IS NULL');
+        $stmt->execute([$id]);
+    }
+
+    public function revokeAllForUser(int $userId): void {
+        $stmt = $this->pdo->prepare('UPDATE user_sessions SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL');
+        $stmt->execute([$userId]);
+    }
+}
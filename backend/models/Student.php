@@ -2,23 +2,88 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/../config/pagination.php';
+require_once __DIR__ . '/RecordTables.php';
 
 class StudentModel {
-    public function __construct(private PDO $pdo) {}
+    public function __construct(private PDO $pdo) {
+        RecordTables::ensureColumns($pdo);
+    }
 
     public static function withDefaultConnection(): self {
         $db = new DatabaseConnection();
         return new self($db->pdo());
     }
 
-    public function all(): array {
-        $stmt = $this->pdo->query('
+    // Sortable, searchable and filterable columns for Pagination
+    private const LIST_SPEC = [
+        'sort' => [
+            'student_id' => 'student_id',
+            'name' => ['last_name', 'first_name'],
+            'program' => 'program_code',
+            'year_level' => 'year_level',
+            'semester' => 'semester',
+            'status' => 'status',
+            'zone' => 'zone',
+            'at_risk' => 'at_risk',
+            'created_at' => 'created_at',
+        ],
+        'default' => ['created_at', 'desc'],
+        'search' => ['student_id', 'first_name', 'last_name', 'email', 'program_code'],
+        'filters' => [
+            'ids' => 'id',
+            'program_id' => 'program_id',
+            'program' => 'program_code',
+            'year_level' => 'year_level',
+            'status' => 'status',
+            'zone' => 'zone',
+            'at_risk' => 'at_risk',
+        ],
+        'facets' => ['program' => 'program_code', 'status' => 'status', 'zone' => 'zone', 'at_risk' => 'at_risk'],
+    ];
+
+    /** Students, optionally limited to one academic year and/or semester. */
+    public function all(array $filters = []): array {
+        [$sql, $values] = $this->listQuery($filters);
+        $stmt = $this->pdo->prepare("$sql ORDER BY s.created_at DESC");
+        $stmt->execute($values);
+        return $stmt->fetchAll();
+    }
+
+    /** One page of all(), see Pagination. */
+    public function page(array $query): array {
+        [$sql, $values] = $this->listQuery($query);
+        return Pagination::page($this->pdo, $sql, $values, $query, self::LIST_SPEC);
+    }
+
+    /** Deleted students, most recent first, for restoring (see RecordTables). */
+    public function deleted(array $filters = []): array {
+        [$sql, $values] = $this->listQuery(['deleted' => true] + $filters);
+        $stmt = $this->pdo->prepare("$sql ORDER BY s.deleted_at DESC LIMIT 100");
+        $stmt->execute($values);
+        return $stmt->fetchAll();
+    }
+
+    private function listQuery(array $filters): array {
+        $where = [empty($filters['deleted']) ? 's.deleted_at IS NULL' : 's.deleted_at IS NOT NULL'];
+        $values = [];
+        foreach (['academic_year', 'semester'] as $field) {
+            if (!empty($filters[$field])) {
+                $where[] = "s.$field = ?";
+                $values[] = $filters[$field];
+            }
+        }
+        // A chair's scope; an empty list matches nothing
+        if (isset($filters['program_ids']) && is_array($filters['program_ids'])) {
+            $ids = array_map('intval', $filters['program_ids']);
+            $where[] = $ids ? 's.program_id IN (' . implode(',', $ids) . ')' : '1 = 0';
+        }
+        $sql = '
             SELECT s.*, p.program_name, p.program_code
             FROM students s 
             LEFT JOIN programs p ON s.program_id = p.id 
-            ORDER BY s.created_at DESC
-        ');
-        return $stmt->fetchAll();
+            WHERE ' . implode(' AND ', $where);
+        return [$sql, $values];
     }
 
     public function find(int $id): ?array {
@@ -26,13 +91,21 @@ class StudentModel {
             SELECT s.*, p.program_name, p.program_code
             FROM students s 
             LEFT JOIN programs p ON s.program_id = p.id 
-            WHERE s.id = ?
+            WHERE s.id = ? AND s.deleted_at IS NULL
         ');
         $stmt->execute([$id]);
         $row = $stmt->fetch();
         return $row ?: null;
     }
 
+    // Deleted students included, see RecordTables
+    public function findByStudentId(string $studentId): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM students WHERE student_id = ?');
+        $stmt->execute([$studentId]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
     public function create(array $data): int {
         $stmt = $this->pdo->prepare('
             INSERT INTO students (student_id, first_name, last_name, middle_name, email, program_id, 
@@ -124,9 +197,13 @@ class StudentModel {
         return $stmt->execute($values);
     }
 
+    // Soft delete, see RecordTables
     public function delete(int $id): bool {
-        $stmt = $this->pdo->prepare('DELETE FROM students WHERE id = ?');
-        return $stmt->execute([$id]);
+        return RecordTables::softDelete($this->pdo, 'students', $id);
+    }
+
+    public function restore(int $id): bool {
+        return RecordTables::restore($this->pdo, 'students', $id);
     }
 }
 
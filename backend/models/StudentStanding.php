@@ -0,0 +1,254 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/ThresholdPolicy.php';
+require_once __DIR__ . '/AuditLog.php';
+require_once __DIR__ . '/Student.php';
+require_once __DIR__ . '/GradeScale.php';
+
+/**
+ * A student's zone and at-risk flag as their grades put them, with the
+ * reason in words ("failed 9 units in 1st sem 2024-2025").
+ *
+ * Standing is judged on one term, with the student's earlier grades for
+ * repeated failures. The zone is the worst of:
+ *  - the term's unit-weighted GWA under the student_gwa policy, on the
+ *    policy's grade scale and without the statuses it leaves out,
+ *  - yellow for any failed units, red from FAILED_UNITS_RED,
+ *  - yellow from INCOMPLETES_YELLOW incompletes,
+ *  - red for a subject failed in two or more terms.
+ * A student is at risk when in the red zone or with any incomplete.
+ *
+ * A zone or flag set by hand is an override: it needs a justification
+ * (zone_override_reason) and is kept until cleared, so recalculations and
+ * grade changes leave the student alone.
+ */
+class StudentStandingModel {
+    public const FAILED_UNITS_RED = 9;
+    public const INCOMPLETES_YELLOW = 2;
+
+    private const ZONE_RANK = ['green' => 0, 'yellow' => 1, 'red' => 2];
+
+    private static bool $ensured = false;
+
+    private ThresholdPolicyModel $policies;
+    private AuditLogModel $audit;
+    private StudentModel $students;
+
+    // Columns are added here, before any transaction: DDL would commit it
+    public function __construct(private PDO $pdo) {
+        self::ensureColumns($pdo);
+        $this->policies = new ThresholdPolicyModel($pdo);
+        $this->audit = new AuditLogModel($pdo);
+        $this->students = new StudentModel($pdo);
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private static function ensureColumns(PDO $pdo): void {
+        if (self::$ensured) {
+            return;
+        }
+        RecordTables::addColumn($pdo, 'students', 'zone_reason', 'VARCHAR(255) NULL');
+        RecordTables::addColumn($pdo, 'students', 'zone_override', 'TINYINT(1) NOT NULL DEFAULT 0');
+        RecordTables::addColumn($pdo, 'students', 'zone_override_reason', 'VARCHAR(255) NULL');
+        self::$ensured = true;
+    }
+
+    public static function termLabel(string $academicYear, string $semester): string {
+        return $semester === 'Summer' ? "Summer {$academicYear}" : "{$semester} sem {$academicYear}";
+    }
+
+    /**
+     * Standing for one term from a student's grades up to and including it:
+     * {zone, at_risk, gwa, reason}, or null when the student has no grades
+     * that term. Each grade is {subject_id, subject_code, academic_year,
+     * semester, status, units} with its rating on both scales (see
+     * GradeScale::ratingColumns); subjects without units count once.
+     */
+    public static function evaluate(array $grades, array $policy, string $academicYear, string $semester): ?array {
+        $term = array_filter($grades, fn($g) => $g['academic_year'] === $academicYear && $g['semester'] === $semester);
+        if (!$term) {
+            return null;
+        }
+        $label = self::termLabel($academicYear, $semester);
+        $scale = $policy['grade_scale'] ?? GradeScale::DEFAULT_SCALE;
+        $excluded = $policy['excluded_statuses'] ?? GradeScale::DEFAULT_EXCLUDED;
+        $zone = 'green';
+        $reasons = [];
+        $raise = function (string $to) use (&$zone) {
+            if (self::ZONE_RANK[$to] > self::ZONE_RANK[$zone]) {
+                $zone = $to;
+            }
+        };
+
+        $weighted = 0.0;
+        $rated = 0.0;
+        $failedUnits = 0.0;
+        $incompletes = 0;
+        foreach ($term as $g) {
+            $units = max(1.0, (float)($g['units'] ?? 1));
+            if ($g['status'] === 'Failed') {
+                $failedUnits += $units;
+            }
+            if ($g['status'] === 'Incomplete') {
+                $incompletes++;
+            }
+            $rating = $g[GradeScale::column($scale)];
+            if ($rating !== null && !in_array($g['status'], $excluded, true)) {
+                $weighted += (float)$rating * $units;
+                $rated += $units;
+            }
+        }
+
+        $decimals = GradeScale::DECIMALS[$scale];
+        $gwa = $rated > 0 ? round($weighted / $rated, $decimals) : null;
+        if ($gwa !== null) {
+            $raise(ThresholdPolicyModel::zoneFor($policy, $gwa));
+            $reasons[] = sprintf("GWA %.{$decimals}f in %s", $gwa, $label);
+        }
+        if ($failedUnits > 0) {
+            $raise($failedUnits >= self::FAILED_UNITS_RED ? 'red' : 'yellow');
+            $reasons[] = sprintf('failed %g units in %s', $failedUnits, $label);
+        }
+        if ($incompletes > 0) {
+            if ($incompletes >= self::INCOMPLETES_YELLOW) {
+                $raise('yellow');
+            }
+            $reasons[] = $incompletes === 1 ? "1 incomplete in {$label}" : "{$incompletes} incompletes in {$label}";
+        }
+
+        // Subjects failed in more than one term, counted over the whole record so far
+        $failedTerms = [];
+        foreach ($grades as $g) {
+            if ($g['status'] === 'Failed') {
+                $failedTerms[$g['subject_code'] ?? $g['subject_id']]["{$g['academic_year']}|{$g['semester']}"] = true;
+            }
+        }
+        foreach ($failedTerms as $subject => $terms) {
+            if (count($terms) > 1) {
+                $raise('red');
+                $reasons[] = "failed {$subject} " . (count($terms) === 2 ? 'twice' : count($terms) . ' times');
+            }
+        }
+
+        return [
+            'zone' => $zone,
+            'at_risk' => $zone === 'red' || $incompletes > 0,
+            'gwa' => $gwa,
+            'reason' => mb_substr($reasons ? ucfirst(implode('; ', $reasons)) : "No rated grades in {$label}", 0, 255),
+        ];
+    }
+
+    /** Standing for the term of every student with grades in it, keyed by student id. */
+    public function forTerm(string $academicYear, string $semester, ?int $studentId = null): array {
+        $policy = $this->policies->activeSet($academicYear, $semester)['student_gwa'];
+        $byStudent = [];
+        foreach ($this->gradesUpTo($academicYear, $semester, $studentId) as $row) {
+            $byStudent[(int)$row['student_id']][] = $row;
+        }
+        $standings = [];
+        foreach ($byStudent as $id => $grades) {
+            $standing = self::evaluate($grades, $policy, $academicYear, $semester);
+            if ($standing !== null) {
+                $standings[$id] = $standing;
+            }
+        }
+        return $standings;
+    }
+
+    private function gradesUpTo(string $academicYear, string $semester, ?int $studentId): array {
+        $sql = '
+            SELECT g.student_id, g.subject_id, sub.code AS subject_code, g.academic_year, g.semester, g.status,
+                   sub.units, ' . GradeScale::ratingColumns('COALESCE(g.final_rating, g.final_grade)') . '
+            FROM student_grades g
+            LEFT JOIN subjects sub ON sub.id = g.subject_id
+            WHERE g.deleted_at IS NULL AND (g.academic_year < ? OR (g.academic_year = ? AND g.semester <= ?))
+        ';
+        $values = [$academicYear, $academicYear, $semester];
+        if ($studentId !== null) {
+            $sql .= ' AND g.student_id = ?';
+            $values[] = $studentId;
+        }
+        $stmt = $this->pdo->prepare($sql);
+        $stmt->execute($values);
+        return $stmt->fetchAll();
+    }
+
+    /** Saves a computed standing; true when anything changed. */
+    public function apply(int $id, array $standing): bool {
+        $stmt = $this->pdo->prepare('
+            UPDATE students SET zone = ?, at_risk = ?, zone_reason = ?
+            WHERE id = ? AND (zone <> ? OR at_risk <> ? OR NOT (zone_reason <=> ?))
+        ');
+        $atRisk = $standing['at_risk'] ? 1 : 0;
+        $stmt->execute([$standing['zone'], $atRisk, $standing['reason'], $id, $standing['zone'], $atRisk, $standing['reason']]);
+        return $stmt->rowCount() > 0;
+    }
+
+    /** Each student's latest term with grades, as "academic_year|semester", keyed by student id. */
+    public function latestTerms(): array {
+        $stmt = $this->pdo->query("
+            SELECT student_id, MAX(CONCAT(academic_year, '|', semester)) AS term
+            FROM student_grades WHERE deleted_at IS NULL
+            GROUP BY student_id
+        ");
+        $terms = [];
+        foreach ($stmt->fetchAll() as $row) {
+            $terms[(int)$row['student_id']] = $row['term'];
+        }
+        return $terms;
+    }
+
+    /**
+     * Recomputes a student's standing from their latest term with grades,
+     * after their grades changed. Students with an override, or without
+     * grades, are left alone. The change is audited like the grade change
+     * that caused it.
+     */
+    public function refresh(int $studentId, ?array $actor, string $source = 'manual', ?string $batchId = null, ?string $context = null): void {
+        $before = $this->students->find($studentId);
+        if (!$before || !empty($before['zone_override'])) {
+            return;
+        }
+        $stmt = $this->pdo->prepare('
+            SELECT academic_year, semester FROM student_grades
+            WHERE student_id = ? AND deleted_at IS NULL
+            ORDER BY academic_year DESC, semester DESC LIMIT 1
+        ');
+        $stmt->execute([$studentId]);
+        $latest = $stmt->fetch();
+        if (!$latest) {
+            return;
+        }
+        $standing = $this->forTerm($latest['academic_year'], $latest['semester'], $studentId)[$studentId] ?? null;
+        if ($standing !== null && $this->apply($studentId, $standing)) {
+            $this->audit->recordDiff($actor, 'students', $studentId, $before, $this->students->find($studentId),
+                $source, $batchId, $context ?? 'Standing recomputed from grades');
+        }
+    }
+
+    /** True when $data sets a zone or at-risk flag other than the student's, or a new student's defaults. */
+    public static function changesStanding(?array $before, array $data): bool {
+        $zone = $before['zone'] ?? 'green';
+        $atRisk = !empty($before['at_risk']);
+        return (isset($data['zone']) && $data['zone'] !== $zone)
+            || (isset($data['at_risk']) && !empty($data['at_risk']) !== $atRisk);
+    }
+
+    /** Marks a student's zone and flag as set by hand, for the given reason. */
+    public function override(int $studentId, string $reason): void {
+        $stmt = $this->pdo->prepare('UPDATE students SET zone_override = 1, zone_override_reason = ? WHERE id = ?');
+        $stmt->execute([mb_substr($reason, 0, 255), $studentId]);
+    }
+
+    /** Drops a student's override; refresh() then brings back the standing their grades give. */
+    public function clearOverride(int $studentId): void {
+        $stmt = $this->pdo->prepare('UPDATE students SET zone_override = 0, zone_override_reason = NULL WHERE id = ?');
+        $stmt->execute([$studentId]);
+    }
+}
@@ -1,23 +1,55 @@
 <?php
+require_once __DIR__ . '/ThresholdPolicy.php';
+require_once __DIR__ . '/SubjectZone.php';
+require_once __DIR__ . '/RecordTables.php';
+
 class Subject {
     private $conn;
     private $table = 'subjects';
+    private $passRatePolicy = null;
 
     public function __construct($db) {
         $this->conn = $db;
+        RecordTables::ensureColumns($db);
+    }
+
+    // Pass-rate zone under the subject_pass policy in force for the term
+    private function zoneFor($passRate, $academicYear = null, $semester = null) {
+        if ($this->passRatePolicy === null) {
+            $policies = new ThresholdPolicyModel($this->conn);
+            $this->passRatePolicy = $policies->activeSet($academicYear, $semester)['subject_pass'];
+        }
+        return ThresholdPolicyModel::zoneFor($this->passRatePolicy, (float)$passRate);
     }
 
-    public function getAll() {
-        $query = "SELECT * FROM {$this->table} ORDER BY code";
+    // $programCodes is a chair's scope, see Auth::programScope; an empty list matches nothing
+    public function getAll($academicYear = null, $semester = null, ?array $programCodes = null) {
+        // Subjects are offered per semester; the academic year only picks the policy
+        $query = "SELECT * FROM {$this->table} WHERE deleted_at IS NULL" . ($semester ? " AND semester = :semester" : "")
+            . self::programClause($programCodes) . " ORDER BY code";
         
         $stmt = $this->conn->prepare($query);
+        if ($semester) {
+            $stmt->bindParam(':semester', $semester);
+        }
+        self::bindPrograms($stmt, $programCodes);
         $stmt->execute();
+        // Real figures from the term's last zone recalculation, where there is one
+        $recalculated = ($academicYear && $semester)
+            ? (new SubjectZoneModel($this->conn))->forTerm($academicYear, $semester)
+            : [];
         
         $subjects = [];
         while ($row = $stmt->fetch(PDO::FETCH_ASSOC)) {
-            // Calculate enrolled and passing students (mock data for now)
-            $enrolled = rand(20, 50);
-            $passing = rand(15, $enrolled);
+            $stored = $recalculated[(int)$row['id']] ?? null;
+            if ($stored) {
+                $enrolled = (int)$stored['enrolled'];
+                $passing = (int)$stored['passing'];
+            } else {
+                // Calculate enrolled and passing students (mock data for now)
+                $enrolled = rand(20, 50);
+                $passing = rand(15, $enrolled);
+            }
             $passRate = $enrolled > 0 ? round(($passing / $enrolled) * 100) : 0;
             
             $subjects[] = [
@@ -33,16 +65,17 @@ class Subject {
                 'enrolled_students' => $enrolled,
                 'passing_students' => $passing,
                 'cutoff_grade' => (float)$row['cutoff'],
-                'zone' => $passRate >= 80 ? 'green' : ($passRate >= 60 ? 'yellow' : 'red'),
-                'created_at' => $row['created_at']
+                'zone' => $stored ? $stored['zone'] : $this->zoneFor($passRate, $academicYear, $semester),
+                'created_at' => $row['created_at'],
+                'updated_at' => $row['updated_at']
             ];
         }
         
         return $subjects;
     }
 
-    public function getById($id) {
-        $query = "SELECT * FROM {$this->table} WHERE id = :id";
+    public function getById($id, $academicYear = null, $semester = null) {
+        $query = "SELECT * FROM {$this->table} WHERE id = :id AND deleted_at IS NULL";
         
         $stmt = $this->conn->prepare($query);
         $stmt->bindParam(':id', $id);
@@ -66,14 +99,33 @@ class Subject {
                 'enrolled_students' => $enrolled,
                 'passing_students' => $passing,
                 'cutoff_grade' => (float)$row['cutoff'],
-                'zone' => $passRate >= 80 ? 'green' : ($passRate >= 60 ? 'yellow' : 'red'),
-                'created_at' => $row['created_at']
+                'zone' => $this->zoneFor($passRate, $academicYear, $semester),
+                'created_at' => $row['created_at'],
+                'updated_at' => $row['updated_at']
             ];
         }
         
         return null;
     }
 
+    // Raw subjects row for a subject code, or null; deleted subjects included, see RecordTables
+    public function findByCode($code) {
+        $stmt = $this->conn->prepare("SELECT * FROM {$this->table} WHERE code = :code");
+        $stmt->bindValue(':code', $code);
+        $stmt->execute();
+        $row = $stmt->fetch(PDO::FETCH_ASSOC);
+        return $row ?: null;
+    }
+
+    // The stored row as is, without the computed enrolment figures of getById
+    public function find($id) {
+        $stmt = $this->conn->prepare("SELECT * FROM {$this->table} WHERE id = :id AND deleted_at IS NULL");
+        $stmt->bindValue(':id', (int)$id, PDO::PARAM_INT);
+        $stmt->execute();
+        $row = $stmt->fetch(PDO::FETCH_ASSOC);
+        return $row ?: null;
+    }
+
     public function create($data) {
         $query = "INSERT INTO {$this->table} 
                   (code, name, description, units, grade_level, semester, program, cutoff) 
@@ -86,7 +138,7 @@ class Subject {
         $stmt->bindParam(':units', $data['units']);
         $stmt->bindParam(':grade_level', $data['year_level']);
         $stmt->bindParam(':semester', $data['semester']);
-        $stmt->bindParam(':program', $data['program_name'] ?? 'BSIT');
+        $stmt->bindValue(':program', $data['program_name'] ?? 'BSIT');
         $stmt->bindParam(':cutoff', $data['cutoff_grade']);
         
         if ($stmt->execute()) {
@@ -96,40 +148,69 @@ class Subject {
         throw new Exception('Failed to create subject');
     }
 
+    // Only the fields given change; they are named as in getAll()
     public function update($id, $data) {
-        $query = "UPDATE {$this->table} 
-                  SET code = :code, 
-                      name = :name, 
-                      description = :description, 
-                      units = :units, 
-                      grade_level = :grade_level, 
-                      semester = :semester, 
-                      program = :program, 
-                      cutoff = :cutoff,
-                      updated_at = CURRENT_TIMESTAMP
-                  WHERE id = :id";
+        $columns = [
+            'subject_code' => 'code',
+            'subject_name' => 'name',
+            'description' => 'description',
+            'units' => 'units',
+            'year_level' => 'grade_level',
+            'semester' => 'semester',
+            'program_name' => 'program',
+            'cutoff_grade' => 'cutoff',
+        ];
+        $fields = [];
+        $values = [':id' => (int)$id];
+        foreach ($columns as $field => $column) {
+            if (isset($data[$field])) {
+                $fields[] = "$column = :$column";
+                $values[":$column"] = $data[$field];
+            }
+        }
         
-        $stmt = $this->conn->prepare($query);
-        $stmt->bindParam(':id', $id);
-        $stmt->bindParam(':code', $data['subject_code']);
-        $stmt->bindParam(':name', $data['subject_name']);
-        $stmt->bindParam(':description', $data['description']);
-        $stmt->bindParam(':units', $data['units']);
-        $stmt->bindParam(':grade_level', $data['year_level']);
-        $stmt->bindParam(':semester', $data['semester']);
-        $stmt->bindParam(':program', $data['program_name'] ?? 'BSIT');
-        $stmt->bindParam(':cutoff', $data['cutoff_grade']);
+        if (empty($fields)) {
+            return false;
+        }
         
-        return $stmt->execute();
+        $query = "UPDATE {$this->table} SET " . implode(', ', $fields) . ", updated_at = CURRENT_TIMESTAMP WHERE id = :id";
+        $stmt = $this->conn->prepare($query);
+        return $stmt->execute($values);
     }
 
+    // Soft delete, see RecordTables
     public function delete($id) {
-        $query = "DELETE FROM {$this->table} WHERE id = :id";
-        
-        $stmt = $this->conn->prepare($query);
-        $stmt->bindParam(':id', $id);
-        
-        return $stmt->execute();
+        return RecordTables::softDelete($this->conn, 'subjects', (int)$id);
+    }
+
+    public function restore($id) {
+        return RecordTables::restore($this->conn, 'subjects', (int)$id);
+    }
+
+    // Deleted subjects as raw rows, most recent first, for restoring
+    public function getDeleted(?array $programCodes = null) {
+        $stmt = $this->conn->prepare("SELECT * FROM {$this->table} WHERE deleted_at IS NOT NULL"
+            . self::programClause($programCodes) . " ORDER BY deleted_at DESC LIMIT 100");
+        self::bindPrograms($stmt, $programCodes);
+        $stmt->execute();
+        return $stmt->fetchAll(PDO::FETCH_ASSOC);
+    }
+
+    private static function programClause(?array $programCodes) {
+        if ($programCodes === null) {
+            return '';
+        }
+        if (!$programCodes) {
+            return ' AND 1 = 0';
+        }
+        $params = array_map(fn ($i) => ":program$i", array_keys(array_values($programCodes)));
+        return ' AND program IN (' . implode(', ', $params) . ')';
+    }
+
+    private static function bindPrograms($stmt, ?array $programCodes) {
+        foreach (array_values($programCodes ?? []) as $i => $code) {
+            $stmt->bindValue(":program$i", $code);
+        }
     }
 
     public function getByProgram($program_id) {
@@ -0,0 +1,56 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+
+/**
+ * Subject pass rates and zones per term, as of the last zone recalculation.
+ * Subjects are not stored per term, so their figures live here.
+ */
+class SubjectZoneModel {
+    public function __construct(private PDO $pdo) {
+        $this->ensureTable();
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private function ensureTable(): void {
+        $this->pdo->exec('
+            CREATE TABLE IF NOT EXISTS subject_zones (
+                subject_id INT NOT NULL,
+                academic_year VARCHAR(9) NOT NULL,
+                semester VARCHAR(10) NOT NULL,
+                enrolled INT NOT NULL,
+                passing INT NOT NULL,
+                pass_rate DECIMAL(5,2) NOT NULL,
+                zone VARCHAR(10) NOT NULL,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                PRIMARY KEY (subject_id, academic_year, semester)
+            )
+        ');
+    }
+
+    /** The term's rows keyed by subject id. */
+    public function forTerm(string $academicYear, string $semester): array {
+        $stmt = $this->pdo->prepare('SELECT * FROM subject_zones WHERE academic_year = ? AND semester = ?');
+        $stmt->execute([$academicYear, $semester]);
+        $rows = [];
+        foreach ($stmt->fetchAll() as $row) {
+            $rows[(int)$row['subject_id']] = $row;
+        }
+        return $rows;
+    }
+
+    public function save(int $subjectId, string $academicYear, string $semester, int $enrolled, int $passing, float $passRate, string $zone): void {
+        $stmt = $this->pdo->prepare('
+            INSERT INTO subject_zones (subject_id, academic_year, semester, enrolled, passing, pass_rate, zone)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE enrolled = VALUES(enrolled), passing = VALUES(passing),
+                                    pass_rate = VALUES(pass_rate), zone = VALUES(zone)
+        ');
+        $stmt->execute([$subjectId, $academicYear, $semester, $enrolled, $passing, $passRate, $zone]);
+    }
+}
@@ -2,29 +2,121 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/../config/pagination.php';
+require_once __DIR__ . '/TeacherSnapshot.php';
+require_once __DIR__ . '/RecordTables.php';
 
 class TeacherModel {
-    public function __construct(private PDO $pdo) {}
+    public function __construct(private PDO $pdo) {
+        RecordTables::ensureColumns($pdo);
+    }
 
     public static function withDefaultConnection(): self {
         $db = new DatabaseConnection();
         return new self($db->pdo());
     }
 
-    public function all(): array {
-        $stmt = $this->pdo->query('
-            SELECT t.*
-            FROM teachers t 
-            ORDER BY t.created_at DESC
-        ');
+    // Sortable, searchable and filterable columns for Pagination
+    private const LIST_SPEC = [
+        'sort' => [
+            'teacher_id' => 'teacher_id',
+            'name' => ['last_name', 'first_name'],
+            'department' => 'department',
+            'enrolled_students' => 'enrolled_students',
+            'p1_failed' => 'p1_failed', 'p1_percent' => 'p1_percent',
+            'p2_failed' => 'p2_failed', 'p2_percent' => 'p2_percent',
+            'p3_failed' => 'p3_failed', 'p3_percent' => 'p3_percent',
+            'status' => 'status',
+            'zone' => 'zone',
+            'created_at' => 'created_at',
+        ],
+        'default' => ['created_at', 'desc'],
+        'search' => ['teacher_id', 'first_name', 'last_name', 'department'],
+        'filters' => ['ids' => 'id', 'department' => 'department', 'status' => 'status', 'zone' => 'zone'],
+        'facets' => ['department' => 'department', 'status' => 'status', 'zone' => 'zone'],
+    ];
+
+    /**
+     * Teachers, with p1/p2/p3 figures taken from the performance snapshots of
+     * the given term. Teachers imported before snapshots existed keep the
+     * figures stored on their row; teachers with snapshots only in other
+     * terms are left out.
+     */
+    public function all(array $filters = []): array {
+        [$sql, $values] = $this->listQuery($filters);
+        $stmt = $this->pdo->prepare("$sql ORDER BY t.created_at DESC");
+        $stmt->execute($values);
         return $stmt->fetchAll();
     }
 
+    /** One page of all(), see Pagination. */
+    public function page(array $query): array {
+        [$sql, $values] = $this->listQuery($query);
+        return Pagination::page($this->pdo, $sql, $values, $query, self::LIST_SPEC);
+    }
+
+    /** Deleted teachers, most recent first, for restoring (see RecordTables). */
+    public function deleted(): array {
+        return $this->pdo->query('SELECT t.* FROM teachers t WHERE t.deleted_at IS NOT NULL ORDER BY t.deleted_at DESC LIMIT 100')->fetchAll();
+    }
+
+    private function listQuery(array $filters): array {
+        if (empty($filters['academic_year']) || empty($filters['semester'])) {
+            return ['SELECT t.* FROM teachers t WHERE t.deleted_at IS NULL', []];
+        }
+
+        new TeacherSnapshotModel($this->pdo);
+        $none = 's1.id IS NULL AND s2.id IS NULL AND s3.id IS NULL';
+        $columns = ["IF($none, t.enrolled_students, COALESCE(s1.enrolled_students, s2.enrolled_students, s3.enrolled_students)) AS enrolled_students"];
+        $joins = [];
+        $values = [];
+        foreach (['p1' => 's1', 'p2' => 's2', 'p3' => 's3'] as $period => $alias) {
+            foreach (['failed', 'percent', 'category'] as $field) {
+                // The teachers table has no p3 columns
+                $legacy = $period === 'p3' ? 'NULL' : "t.{$period}_{$field}";
+                $columns[] = "IF($none, $legacy, $alias.$field) AS {$period}_{$field}";
+            }
+            $joins[] = "LEFT JOIN teacher_performance_snapshots $alias ON $alias.teacher_id = t.id
+                        AND $alias.academic_year = ? AND $alias.semester = ? AND $alias.period = '$period'";
+            $values[] = $filters['academic_year'];
+            $values[] = $filters['semester'];
+        }
+
+        // Named rather than t.* so the term's figures are the only columns by
+        // those names; Pagination wraps this query, which needs unique names
+        $sql = '
+            SELECT t.id, t.teacher_id, t.first_name, t.last_name, t.middle_name, t.email, t.department,
+                   t.position, t.status, t.zone, t.notes, t.created_at, t.updated_at, ' . implode(', ', $columns) . '
+            FROM teachers t
+            ' . implode("\n", $joins) . '
+            WHERE t.deleted_at IS NULL
+              AND (NOT (' . $none . ')
+                   OR NOT EXISTS (SELECT 1 FROM teacher_performance_snapshots x WHERE x.teacher_id = t.id))
+        ';
+        return [$sql, $values];
+    }
+
+    // Deleted teachers included, see RecordTables
+    public function findByTeacherId(string $teacherId): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM teachers WHERE teacher_id = ?');
+        $stmt->execute([$teacherId]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    // Grade sheets only carry the teacher's name
+    public function findByName(string $firstName, string $lastName): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM teachers WHERE first_name = ? AND last_name = ? LIMIT 1');
+        $stmt->execute([$firstName, $lastName]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
     public function find(int $id): ?array {
         $stmt = $this->pdo->prepare('
             SELECT t.*
             FROM teachers t 
-            WHERE t.id = ?
+            WHERE t.id = ? AND t.deleted_at IS NULL
         ');
         $stmt->execute([$id]);
         $row = $stmt->fetch();
@@ -70,10 +162,10 @@ class TeacherModel {
             $data['enrolled_students'] ?? 0,
             $data['p1_failed'] ?? 0,
             $data['p1_percent'] ?? 0.00,
-            $data['p1_category'] ?? 'GREEN (0.01%-10%)',
+            $data['p1_category'] ?? 'GREEN (0%)',
             $data['p2_failed'] ?? 0,
             $data['p2_percent'] ?? 0.00,
-            $data['p2_category'] ?? 'GREEN (0.01%-10%)',
+            $data['p2_category'] ?? 'GREEN (0%)',
         ]);
         return intval($this->pdo->lastInsertId());
     }
@@ -161,9 +253,13 @@ class TeacherModel {
         return $stmt->execute($values);
     }
 
+    // Soft delete, see RecordTables
     public function delete(int $id): bool {
-        $stmt = $this->pdo->prepare('DELETE FROM teachers WHERE id = ?');
-        return $stmt->execute([$id]);
+        return RecordTables::softDelete($this->pdo, 'teachers', $id);
+    }
+
+    public function restore(int $id): bool {
+        return RecordTables::restore($this->pdo, 'teachers', $id);
     }
 }
 
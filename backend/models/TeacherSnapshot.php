@@ -0,0 +1,101 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+
+/**
+ * Per-term teacher performance, one row per teacher, academic year, semester
+ * and grading period. Imports write here so a new term no longer overwrites
+ * the previous one.
+ */
+class TeacherSnapshotModel {
+    public const PERIODS = ['p1', 'p2', 'p3'];
+
+    public function __construct(private PDO $pdo) {
+        $this->ensureTable();
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private function ensureTable(): void {
+        $this->pdo->exec('
+            CREATE TABLE IF NOT EXISTS teacher_performance_snapshots (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                teacher_id INT NOT NULL,
+                academic_year VARCHAR(9) NOT NULL,
+                semester VARCHAR(10) NOT NULL,
+                period VARCHAR(2) NOT NULL,
+                enrolled_students INT NOT NULL DEFAULT 0,
+                failed INT NOT NULL DEFAULT 0,
+                percent DECIMAL(6,2) NULL,
+                category VARCHAR(40) NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                UNIQUE KEY uniq_teacher_term_period (teacher_id, academic_year, semester, period),
+                KEY idx_term (academic_year, semester),
+                FOREIGN KEY (teacher_id) REFERENCES teachers(id) ON DELETE CASCADE
+            )
+        ');
+    }
+
+    /** Every snapshot of one teacher, oldest term first. */
+    public function forTeacher(int $teacherId): array {
+        $stmt = $this->pdo->prepare('
+            SELECT * FROM teacher_performance_snapshots
+            WHERE teacher_id = ?
+            ORDER BY academic_year ASC, semester ASC, period ASC
+        ');
+        $stmt->execute([$teacherId]);
+        return $stmt->fetchAll();
+    }
+
+    public function upsert(int $teacherId, string $academicYear, string $semester, string $period, array $data): void {
+        if (!in_array($period, self::PERIODS, true)) {
+            throw new InvalidArgumentException("Unknown grading period: $period");
+        }
+        $stmt = $this->pdo->prepare('
+            INSERT INTO teacher_performance_snapshots (teacher_id, academic_year, semester, period,
+                                                       enrolled_students, failed, percent, category)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE
+                enrolled_students = VALUES(enrolled_students),
+                failed = VALUES(failed),
+                percent = VALUES(percent),
+                category = VALUES(category)
+        ');
+        $stmt->execute([
+            $teacherId,
+            $academicYear,
+            $semester,
+            $period,
+            $data['enrolled_students'] ?? 0,
+            $data['failed'] ?? 0,
+            $data['percent'] ?? null,
+            $data['category'] ?? null,
+        ]);
+    }
+
+    /**
+     * Snapshots for each period found in a teacher row (p1_failed, p1_percent,
+     * p1_category, ...). Periods with no figures at all are skipped.
+     */
+    public function recordFromRow(int $teacherId, string $academicYear, string $semester, array $row): int {
+        $written = 0;
+        foreach (self::PERIODS as $period) {
+            if (!isset($row["{$period}_failed"]) && !isset($row["{$period}_percent"]) && !isset($row["{$period}_category"])) {
+                continue;
+            }
+            $this->upsert($teacherId, $academicYear, $semester, $period, [
+                'enrolled_students' => $row['enrolled_students'] ?? 0,
+                'failed' => $row["{$period}_failed"] ?? 0,
+                'percent' => $row["{$period}_percent"] ?? null,
+                'category' => $row["{$period}_category"] ?? null,
+            ]);
+            $written++;
+        }
+        return $written;
+    }
+}
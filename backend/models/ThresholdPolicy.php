@@ -0,0 +1,310 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/RecordTables.php';
+require_once __DIR__ . '/GradeScale.php';
+
+/**
+ * Versioned GREEN/YELLOW/RED cut-offs per academic year and semester.
+ *
+ * Each save creates a new version; the policy in force for a term is the
+ * latest version saved for that term, or for the closest earlier term.
+ *
+ * The student GWA policy also names the grade scale its bands are on and the
+ * grade statuses GWAs leave out, see GradeScale.
+ */
+class ThresholdPolicyModel {
+    public const KINDS = ['teacher_failure', 'subject_pass', 'student_gwa'];
+    public const SEMESTERS = ['1st', '2nd', 'Summer'];
+    public const DIRECTIONS = ['lower-is-better', 'higher-is-better'];
+
+    private const ZONE_RANK = ['green' => 0, 'yellow' => 1, 'red' => 2];
+
+    public function __construct(private PDO $pdo) {
+        $this->ensureTable();
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private function ensureTable(): void {
+        $this->pdo->exec('
+            CREATE TABLE IF NOT EXISTS threshold_policies (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                kind VARCHAR(32) NOT NULL,
+                name VARCHAR(120) NOT NULL,
+                academic_year VARCHAR(9) NOT NULL,
+                semester VARCHAR(10) NOT NULL,
+                version INT NOT NULL DEFAULT 1,
+                direction VARCHAR(20) NOT NULL,
+                unit VARCHAR(8) NOT NULL DEFAULT "",
+                min_value DECIMAL(8,2) NOT NULL,
+                max_value DECIMAL(8,2) NOT NULL,
+                step DECIMAL(6,4) NOT NULL DEFAULT 0.01,
+                bands TEXT NOT NULL,
+                grade_scale VARCHAR(16) NULL,
+                excluded_statuses TEXT NULL,
+                notes TEXT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE KEY uniq_policy_version (kind, academic_year, semester, version)
+            )
+        ');
+        RecordTables::addColumn($this->pdo, 'threshold_policies', 'grade_scale', 'VARCHAR(16) NULL');
+        RecordTables::addColumn($this->pdo, 'threshold_policies', 'excluded_statuses', 'TEXT NULL');
+    }
+
+    /**
+     * Built-in policies used when nothing has been saved yet. Mirrors the
+     * defaults in src/lib/classification.ts.
+     */
+    public static function defaults(): array {
+        return [
+            'teacher_failure' => [
+                'kind' => 'teacher_failure', 'name' => 'Default teacher failure rate',
+                'direction' => 'lower-is-better', 'unit' => '%', 'min' => 0, 'max' => 100, 'step' => 0.01,
+                'bands' => [
+                    ['zone' => 'green', 'limit' => 0],
+                    ['zone' => 'green', 'limit' => 10],
+                    ['zone' => 'yellow', 'limit' => 40],
+                    ['zone' => 'red', 'limit' => 100],
+                ],
+            ],
+            'subject_pass' => [
+                'kind' => 'subject_pass', 'name' => 'Default subject pass rate',
+                'direction' => 'higher-is-better', 'unit' => '%', 'min' => 0, 'max' => 100, 'step' => 0.01,
+                'bands' => [
+                    ['zone' => 'green', 'limit' => 80],
+                    ['zone' => 'yellow', 'limit' => 60],
+                    ['zone' => 'red', 'limit' => 0],
+                ],
+            ],
+            'student_gwa' => [
+                'kind' => 'student_gwa', 'name' => 'Default student GWA',
+                'direction' => 'lower-is-better', 'unit' => '', 'min' => 1, 'max' => 5, 'step' => 0.01,
+                'grade_scale' => GradeScale::DEFAULT_SCALE, 'excluded_statuses' => GradeScale::DEFAULT_EXCLUDED,
+                'bands' => [
+                    ['zone' => 'green', 'limit' => 2],
+                    ['zone' => 'yellow', 'limit' => 3],
+                    ['zone' => 'red', 'limit' => 5],
+                ],
+            ],
+        ];
+    }
+
+    /** Zone ("green" | "yellow" | "red") of a value under a policy. */
+    public static function zoneFor(array $policy, float $value): string {
+        $bands = $policy['bands'];
+        $lowerIsBetter = $policy['direction'] === 'lower-is-better';
+        usort($bands, fn($a, $b) => $lowerIsBetter ? $a['limit'] <=> $b['limit'] : $b['limit'] <=> $a['limit']);
+        foreach ($bands as $band) {
+            if ($lowerIsBetter ? $value <= $band['limit'] : $value >= $band['limit']) {
+                return $band['zone'];
+            }
+        }
+        return $bands[count($bands) - 1]['zone'];
+    }
+
+    public function all(array $filters = []): array {
+        $where = [];
+        $values = [];
+        foreach (['kind', 'academic_year', 'semester'] as $field) {
+            if (!empty($filters[$field])) {
+                $where[] = "$field = ?";
+                $values[] = $filters[$field];
+            }
+        }
+        $sql = 'SELECT * FROM threshold_policies'
+            . ($where ? ' WHERE ' . implode(' AND ', $where) : '')
+            . ' ORDER BY academic_year DESC, semester DESC, kind ASC, version DESC';
+        $stmt = $this->pdo->prepare($sql);
+        $stmt->execute($values);
+        return array_map([$this, 'hydrate'], $stmt->fetchAll());
+    }
+
+    public function find(int $id): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM threshold_policies WHERE id = ?');
+        $stmt->execute([$id]);
+        $row = $stmt->fetch();
+        return $row ? $this->hydrate($row) : null;
+    }
+
+    /** The policy in force for one kind and term, or null when only defaults apply. */
+    public function activeFor(string $kind, ?string $academicYear = null, ?string $semester = null): ?array {
+        if ($academicYear === null || $academicYear === '') {
+            $stmt = $this->pdo->prepare('
+                SELECT * FROM threshold_policies WHERE kind = ?
+                ORDER BY academic_year DESC, semester DESC, version DESC LIMIT 1
+            ');
+            $stmt->execute([$kind]);
+        } else {
+            $stmt = $this->pdo->prepare('
+                SELECT * FROM threshold_policies
+                WHERE kind = ? AND (academic_year < ? OR (academic_year = ? AND semester <= ?))
+                ORDER BY academic_year DESC, semester DESC, version DESC LIMIT 1
+            ');
+            $stmt->execute([$kind, $academicYear, $academicYear, $semester ?: 'Summer']);
+        }
+        $row = $stmt->fetch();
+        return $row ? $this->hydrate($row) : null;
+    }
+
+    /** Policies in force for a term, keyed by kind, with defaults filled in. */
+    public function activeSet(?string $academicYear = null, ?string $semester = null): array {
+        $set = [];
+        foreach (self::KINDS as $kind) {
+            $set[$kind] = $this->activeFor($kind, $academicYear, $semester) ?? self::defaults()[$kind];
+        }
+        return $set;
+    }
+
+    public function create(array $data): int {
+        $kind = $data['kind'] ?? '';
+        if (!in_array($kind, self::KINDS, true)) {
+            throw new InvalidArgumentException('Unknown policy kind');
+        }
+        // activeFor compares terms as strings, so a malformed one would apply to every term
+        $academicYear = (string)($data['academic_year'] ?? '');
+        if (!preg_match('/^(\d{4})-(\d{4})$/', $academicYear, $years) || (int)$years[2] !== (int)$years[1] + 1) {
+            throw new InvalidArgumentException('Give the academic year as 2024-2025');
+        }
+        $semester = (string)($data['semester'] ?? '');
+        if (!in_array($semester, self::SEMESTERS, true)) {
+            throw new InvalidArgumentException('Choose the 1st, 2nd or Summer semester');
+        }
+
+        $default = self::defaults()[$kind];
+        $direction = $data['direction'] ?? $default['direction'];
+        if (!in_array($direction, self::DIRECTIONS, true)) {
+            throw new InvalidArgumentException('Direction must be lower-is-better or higher-is-better');
+        }
+        foreach (['min', 'max', 'step'] as $field) {
+            if (isset($data[$field]) && !is_numeric($data[$field])) {
+                throw new InvalidArgumentException("The scale's $field must be a number");
+            }
+        }
+        $min = (float)($data['min'] ?? $default['min']);
+        $max = (float)($data['max'] ?? $default['max']);
+        $step = (float)($data['step'] ?? 0.01);
+        if ($min >= $max || $step <= 0) {
+            throw new InvalidArgumentException("The scale's minimum must be below its maximum, with a positive step");
+        }
+        $bands = self::checkBands($data['bands'] ?? [], $direction, $min, $max);
+
+        $gwa = $kind === 'student_gwa' ? self::gwaSettings($data) : ['grade_scale' => null, 'excluded_statuses' => null];
+
+        $stmt = $this->pdo->prepare('
+            SELECT COALESCE(MAX(version), 0) + 1 FROM threshold_policies
+            WHERE kind = ? AND academic_year = ? AND semester = ?
+        ');
+        $stmt->execute([$kind, $academicYear, $semester]);
+        $version = intval($stmt->fetchColumn());
+
+        $stmt = $this->pdo->prepare('
+            INSERT INTO threshold_policies (kind, name, academic_year, semester, version, direction,
+                                            unit, min_value, max_value, step, bands, grade_scale, excluded_statuses, notes)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ');
+        $stmt->execute([
+            $kind,
+            $data['name'] ?? self::defaults()[$kind]['name'],
+            $academicYear,
+            $semester,
+            $version,
+            $direction,
+            $data['unit'] ?? $default['unit'],
+            $min,
+            $max,
+            $step,
+            json_encode($bands),
+            $gwa['grade_scale'],
+            $gwa['excluded_statuses'] !== null ? json_encode($gwa['excluded_statuses']) : null,
+            $data['notes'] ?? null,
+        ]);
+        return intval($this->pdo->lastInsertId());
+    }
+
+    /**
+     * Bands as stored, {zone, limit}, once they make an unambiguous policy:
+     * at least two, each limit on the scale and used once, and zones that
+     * never get better as the value gets worse.
+     */
+    private static function checkBands($bands, string $direction, float $min, float $max): array {
+        if (!is_array($bands) || count($bands) < 2) {
+            throw new InvalidArgumentException('A policy needs at least two bands');
+        }
+        $checked = [];
+        foreach ($bands as $band) {
+            if (!isset(self::ZONE_RANK[$band['zone'] ?? '']) || !is_numeric($band['limit'] ?? null)) {
+                throw new InvalidArgumentException('Each band needs a zone and a numeric limit');
+            }
+            $limit = (float)$band['limit'];
+            if ($limit < $min || $limit > $max) {
+                throw new InvalidArgumentException("Band limits must be between {$min} and {$max}");
+            }
+            $checked[] = ['zone' => $band['zone'], 'limit' => $limit];
+        }
+        $limits = array_column($checked, 'limit');
+        if (count(array_unique($limits, SORT_REGULAR)) !== count($limits)) {
+            throw new InvalidArgumentException('Two bands cannot share the same limit');
+        }
+        $ordered = $checked;
+        usort($ordered, fn($a, $b) => $direction === 'lower-is-better' ? $a['limit'] <=> $b['limit'] : $b['limit'] <=> $a['limit']);
+        for ($i = 1; $i < count($ordered); $i++) {
+            if (self::ZONE_RANK[$ordered[$i]['zone']] < self::ZONE_RANK[$ordered[$i - 1]['zone']]) {
+                throw new InvalidArgumentException('Bands must run from green to red as the value gets worse');
+            }
+        }
+        return $checked;
+    }
+
+    // The student GWA policy's scale and excluded statuses; its bands must run the scale's way
+    private static function gwaSettings(array $data): array {
+        $scale = $data['grade_scale'] ?? GradeScale::DEFAULT_SCALE;
+        if (!in_array($scale, GradeScale::SCALES, true)) {
+            throw new InvalidArgumentException('Unknown grade scale');
+        }
+        $excluded = $data['excluded_statuses'] ?? GradeScale::DEFAULT_EXCLUDED;
+        if (!is_array($excluded) || array_diff($excluded, GradeScale::STATUSES)) {
+            throw new InvalidArgumentException('Excluded statuses must be among ' . implode(', ', GradeScale::STATUSES));
+        }
+        if (($data['direction'] ?? self::defaults()['student_gwa']['direction']) !== GradeScale::DIRECTIONS[$scale]) {
+            throw new InvalidArgumentException("A GWA on the {$scale} scale is " . GradeScale::DIRECTIONS[$scale]);
+        }
+        return ['grade_scale' => $scale, 'excluded_statuses' => array_values(array_unique($excluded))];
+    }
+
+    public function delete(int $id): bool {
+        $stmt = $this->pdo->prepare('DELETE FROM threshold_policies WHERE id = ?');
+        return $stmt->execute([$id]);
+    }
+
+    private function hydrate(array $row): array {
+        $gwa = $row['kind'] === 'student_gwa'
+            ? [
+                'grade_scale' => $row['grade_scale'] ?: GradeScale::DEFAULT_SCALE,
+                'excluded_statuses' => $row['excluded_statuses'] !== null
+                    ? json_decode($row['excluded_statuses'], true)
+                    : GradeScale::DEFAULT_EXCLUDED,
+            ]
+            : [];
+        return [
+            'id' => (int)$row['id'],
+            'kind' => $row['kind'],
+            'name' => $row['name'],
+            'academic_year' => $row['academic_year'],
+            'semester' => $row['semester'],
+            'version' => (int)$row['version'],
+            'direction' => $row['direction'],
+            'unit' => $row['unit'],
+            'min' => (float)$row['min_value'],
+            'max' => (float)$row['max_value'],
+            'step' => (float)$row['step'],
+            'bands' => json_decode($row['bands'], true) ?: [],
+            'notes' => $row['notes'],
+            'created_at' => $row['created_at'],
+        ] + $gwa;
+    }
+}
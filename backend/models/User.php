@@ -0,0 +1,214 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+
+class UserModel {
+    // How long an invite link stays valid
+    public const INVITE_TTL = 604800;       // 7 days
+    public const MIN_PASSWORD_LENGTH = 8;
+
+    public function __construct(private PDO $pdo) {
+        $this->ensureTable();
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    private function ensureTable(): void {
+        $this->pdo->exec("
+            CREATE TABLE IF NOT EXISTS users (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                username VARCHAR(64) NOT NULL UNIQUE,
+                password_hash VARCHAR(255) NOT NULL,
+                role VARCHAR(20) NOT NULL DEFAULT 'committee',
+                department VARCHAR(100) NULL,
+                disabled_at DATETIME NULL,
+                last_login_at DATETIME NULL,
+                invite_hash CHAR(64) NULL,
+                invite_expires_at DATETIME NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+            )
+        ");
+        // Accounts created before roles existed had full access; keep it
+        if ($this->addColumn('role', "VARCHAR(20) NOT NULL DEFAULT 'committee'")) {
+            $this->pdo->exec("UPDATE users SET role = 'admin'");
+        }
+        $this->addColumn('department', 'VARCHAR(100) NULL');
+        $this->addColumn('disabled_at', 'DATETIME NULL');
+        $this->addColumn('last_login_at', 'DATETIME NULL');
+        $this->addColumn('invite_hash', 'CHAR(64) NULL');
+        $this->addColumn('invite_expires_at', 'DATETIME NULL');
+        // Programs a chair is responsible for
+        $this->pdo->exec('
+            CREATE TABLE IF NOT EXISTS user_programs (
+                user_id INT NOT NULL,
+                program_id INT NOT NULL,
+                PRIMARY KEY (user_id, program_id)
+            )
+        ');
+    }
+
+    // Adds a column to a users table created by an older version; true when it was missing
+    private function addColumn(string $name, string $definition): bool {
+        if ($this->pdo->query("SHOW COLUMNS FROM users LIKE '$name'")->fetch()) {
+            return false;
+        }
+        $this->pdo->exec("ALTER TABLE users ADD COLUMN $name $definition");
+        return true;
+    }
+
+    public function count(): int {
+        return (int)$this->pdo->query('SELECT COUNT(*) FROM users')->fetchColumn();
+    }
+
+    /** Every account with the programs each chair is assigned, for the Users page. */
+    public function all(): array {
+        $users = $this->pdo->query('SELECT * FROM users ORDER BY username')->fetchAll();
+        $programs = [];
+        foreach ($this->pdo->query('SELECT user_id, program_id FROM user_programs')->fetchAll() as $row) {
+            $programs[(int)$row['user_id']][] = (int)$row['program_id'];
+        }
+        return array_map(
+            fn ($user) => self::managedFields($user) + ['program_ids' => $programs[(int)$user['id']] ?? []],
+            $users
+        );
+    }
+
+    public function find(int $id): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM users WHERE id = ?');
+        $stmt->execute([$id]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    public function findByUsername(string $username): ?array {
+        $stmt = $this->pdo->prepare('SELECT * FROM users WHERE username = ?');
+        $stmt->execute([$username]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    /** A null password creates an account that can only be activated through an invite. */
+    public function create(string $username, ?string $password, string $role = 'committee', ?string $department = null): int {
+        $stmt = $this->pdo->prepare('INSERT INTO users (username, password_hash, role, department) VALUES (?, ?, ?, ?)');
+        $stmt->execute([
+            $username,
+            $password === null ? '' : password_hash($password, PASSWORD_DEFAULT),
+            $role,
+            $department,
+        ]);
+        return intval($this->pdo->lastInsertId());
+    }
+
+    public function update(int $id, array $data): bool {
+        $fields = [];
+        $values = [];
+        foreach (['role', 'department'] as $column) {
+            if (array_key_exists($column, $data)) {
+                $fields[] = "$column = ?";
+                $values[] = $data[$column] === '' ? null : $data[$column];
+            }
+        }
+        if (!$fields) {
+            return false;
+        }
+        $values[] = $id;
+        $stmt = $this->pdo->prepare('UPDATE users SET ' . implode(', ', $fields) . ' WHERE id = ?');
+        return $stmt->execute($values);
+    }
+
+    /** Sets a new password and cancels any outstanding invite. */
+    public function setPassword(int $id, string $password): void {
+        $stmt = $this->pdo->prepare('UPDATE users SET password_hash = ?, invite_hash = NULL, invite_expires_at = NULL WHERE id = ?');
+        $stmt->execute([password_hash($password, PASSWORD_DEFAULT), $id]);
+    }
+
+    public function setDisabled(int $id, bool $disabled): void {
+        $stmt = $this->pdo->prepare('UPDATE users SET disabled_at = ' . ($disabled ? 'NOW()' : 'NULL') . ' WHERE id = ?');
+        $stmt->execute([$id]);
+    }
+
+    public function recordLogin(int $id): void {
+        $this->pdo->prepare('UPDATE users SET last_login_at = NOW() WHERE id = ?')->execute([$id]);
+    }
+
+    /**
+     * Starts an invite for the account and returns its one-time token. Only
+     * a hash is stored; a new invite replaces the previous one.
+     */
+    public function issueInvite(int $id): array {
+        $token = bin2hex(random_bytes(24));
+        $expiresAt = date('Y-m-d H:i:s', time() + self::INVITE_TTL);
+        $stmt = $this->pdo->prepare('UPDATE users SET invite_hash = ?, invite_expires_at = ? WHERE id = ?');
+        $stmt->execute([hash('sha256', $token), $expiresAt, $id]);
+        return ['invite_token' => $token, 'invite_expires_at' => $expiresAt];
+    }
+
+    /** The enabled account an unexpired invite token belongs to. */
+    public function findByInviteToken(string $token): ?array {
+        $stmt = $this->pdo->prepare('
+            SELECT * FROM users
+            WHERE invite_hash = ? AND invite_expires_at > NOW() AND disabled_at IS NULL
+        ');
+        $stmt->execute([hash('sha256', $token)]);
+        $row = $stmt->fetch();
+        return $row ?: null;
+    }
+
+    /** @return int[] */
+    public function programIds(int $userId): array {
+        $stmt = $this->pdo->prepare('SELECT program_id FROM user_programs WHERE user_id = ? ORDER BY program_id');
+        $stmt->execute([$userId]);
+        return array_map('intval', $stmt->fetchAll(PDO::FETCH_COLUMN));
+    }
+
+    /** @param int[] $programIds */
+    public function setPrograms(int $userId, array $programIds): void {
+        $this->pdo->prepare('DELETE FROM user_programs WHERE user_id = ?')->execute([$userId]);
+        $stmt = $this->pdo->prepare('INSERT INTO user_programs (user_id, program_id) VALUES (?, ?)');
+        foreach (array_unique(array_map('intval', $programIds)) as $programId) {
+            $stmt->execute([$userId, $programId]);
+        }
+    }
+
+    /** The user when the password matches, otherwise null. */
+    public function verify(string $username, string $password): ?array {
+        $user = $this->findByUsername($username);
+        if (!$user || !password_verify($password, $user['password_hash'])) {
+            return null;
+        }
+        return $user;
+    }
+
+    /** Why a new password is not acceptable, or null when it is. */
+    public static function passwordProblem(string $password): ?string {
+        return strlen($password) < self::MIN_PASSWORD_LENGTH
+            ? 'Password must be at least ' . self::MIN_PASSWORD_LENGTH . ' characters'
+            : null;
+    }
+
+    /** Fields that are safe to send to the browser. */
+    public static function publicFields(array $user): array {
+        return [
+            'id' => (int)$user['id'],
+            'username' => $user['username'],
+            'role' => $user['role'] ?? 'committee',
+        ];
+    }
+
+    /** Fields the Users page shows to admins. */
+    public static function managedFields(array $user): array {
+        return self::publicFields($user) + [
+            'department' => $user['department'] ?? null,
+            'disabled' => !empty($user['disabled_at']),
+            'last_login_at' => $user['last_login_at'] ?? null,
+            'created_at' => $user['created_at'] ?? null,
+            'invite_pending' => !empty($user['invite_hash']),
+            'invite_expires_at' => $user['invite_expires_at'] ?? null,
+        ];
+    }
+}
@@ -0,0 +1,204 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/connection.php';
+require_once __DIR__ . '/ThresholdPolicy.php';
+require_once __DIR__ . '/AuditLog.php';
+require_once __DIR__ . '/Teacher.php';
+require_once __DIR__ . '/SubjectZone.php';
+require_once __DIR__ . '/StudentStanding.php';
+
+/**
+ * Recomputes zones for one term under the policies in force for it:
+ * students from their grades (see StudentStandingModel), teachers from their
+ * failure rate and subjects from their pass rate. Records with no figures
+ * for the term keep their zone, as do students with a manual override.
+ * A student has one standing, from their latest term with grades (see
+ * StudentStandingModel::refresh), so students with grades in a later term
+ * keep it too.
+ * Student and teacher moves are audited as bulk changes; subject zones are
+ * kept per term by SubjectZoneModel.
+ */
+class ZoneRecalculator {
+    // Moves listed per record type in the summary; the counts cover all of them
+    private const MAX_MOVES = 200;
+
+    private ThresholdPolicyModel $policies;
+    private AuditLogModel $audit;
+    private TeacherModel $teachers;
+    private SubjectZoneModel $subjectZones;
+    private StudentStandingModel $standings;
+
+    // Tables are created here, before any transaction: DDL would commit it
+    public function __construct(private PDO $pdo) {
+        $this->policies = new ThresholdPolicyModel($pdo);
+        $this->audit = new AuditLogModel($pdo);
+        $this->teachers = new TeacherModel($pdo);
+        $this->subjectZones = new SubjectZoneModel($pdo);
+        $this->standings = new StudentStandingModel($pdo);
+        new TeacherSnapshotModel($pdo);
+    }
+
+    public static function withDefaultConnection(): self {
+        $db = new DatabaseConnection();
+        return new self($db->pdo());
+    }
+
+    /**
+     * Recalculates every zone for the term and returns what moved:
+     * {academic_year, semester, students, subjects, teachers}, each with
+     * {total, changed, unchanged, skipped, overridden, zones: {green, yellow, red}, moves}.
+     * Runs in one transaction; a dry run rolls it back.
+     */
+    public function run(string $academicYear, string $semester, ?array $actor, bool $dryRun = false): array {
+        $policies = $this->policies->activeSet($academicYear, $semester);
+        $context = "Zone recalculation {$academicYear} {$semester}";
+
+        $this->pdo->beginTransaction();
+        try {
+            $summary = [
+                'academic_year' => $academicYear,
+                'semester' => $semester,
+                'dry_run' => $dryRun,
+                'students' => $this->students($academicYear, $semester, $actor, $context),
+                'subjects' => $this->subjects($policies['subject_pass'], $academicYear, $semester),
+                'teachers' => $this->teachers($policies['teacher_failure'], $academicYear, $semester, $actor, $context),
+            ];
+        } catch (Throwable $e) {
+            $this->pdo->rollBack();
+            throw $e;
+        }
+        if ($dryRun) {
+            $this->pdo->rollBack();
+        } else {
+            $this->pdo->commit();
+        }
+        return $summary;
+    }
+
+    private function students(string $academicYear, string $semester, ?array $actor, string $context): array {
+        $standings = $this->standings->forTerm($academicYear, $semester);
+        $latestTerms = $this->standings->latestTerms();
+        $term = "{$academicYear}|{$semester}";
+        $summary = self::emptySummary();
+        $students = $this->pdo->query('
+            SELECT id, student_id, first_name, last_name, zone, at_risk, zone_reason, zone_override
+            FROM students WHERE deleted_at IS NULL ORDER BY last_name, first_name
+        ');
+        foreach ($students->fetchAll() as $student) {
+            $id = (int)$student['id'];
+            $label = AuditLogModel::label('students', $student);
+            if (!empty($student['zone_override'])) {
+                $summary['total']++;
+                $summary['overridden']++;
+                continue;
+            }
+            if (isset($standings[$id]) && ($latestTerms[$id] ?? $term) !== $term) {
+                $summary['total']++;
+                $summary['later_term']++;
+                continue;
+            }
+            $standing = $standings[$id] ?? null;
+            $this->tally($summary, $id, $label, $student['zone'], $standing['zone'] ?? null, $standing['gwa'] ?? null, $standing['reason'] ?? null);
+            // The flag and reason are saved even when the zone stays
+            if ($standing !== null && $this->standings->apply($id, $standing)) {
+                $after = ['zone' => $standing['zone'], 'at_risk' => $standing['at_risk'] ? 1 : 0, 'zone_reason' => $standing['reason']];
+                $before = array_intersect_key($student, $after);
+                $this->audit->record($actor, 'students', $id, $label, 'update', AuditLogModel::diff($before, $after), 'bulk', null, $context);
+            }
+        }
+        return $summary;
+    }
+
+    private function subjects(array $policy, string $academicYear, string $semester): array {
+        $stmt = $this->pdo->prepare("
+            SELECT sub.id, sub.code, sub.name, z.zone AS previous_zone,
+                   COUNT(g.id) AS enrolled, COALESCE(SUM(g.status = 'Passed'), 0) AS passing
+            FROM subjects sub
+            LEFT JOIN student_grades g ON g.subject_id = sub.id AND g.academic_year = ? AND g.semester = ?
+                                      AND g.deleted_at IS NULL
+            LEFT JOIN subject_zones z ON z.subject_id = sub.id AND z.academic_year = ? AND z.semester = ?
+            WHERE sub.deleted_at IS NULL
+            GROUP BY sub.id, sub.code, sub.name, z.zone
+            ORDER BY sub.code
+        ");
+        $stmt->execute([$academicYear, $semester, $academicYear, $semester]);
+
+        $summary = self::emptySummary();
+        foreach ($stmt->fetchAll() as $subject) {
+            $enrolled = (int)$subject['enrolled'];
+            $passRate = $enrolled > 0 ? round((int)$subject['passing'] / $enrolled * 100, 2) : null;
+            $zone = $passRate === null ? null : ThresholdPolicyModel::zoneFor($policy, $passRate);
+            $this->tally($summary, (int)$subject['id'], AuditLogModel::label('subjects', $subject),
+                $subject['previous_zone'], $zone, $passRate);
+            // Saved even when unchanged so the figures stay current
+            if ($zone !== null) {
+                $this->subjectZones->save((int)$subject['id'], $academicYear, $semester, $enrolled, (int)$subject['passing'], $passRate, $zone);
+            }
+        }
+        return $summary;
+    }
+
+    private function teachers(array $policy, string $academicYear, string $semester, ?array $actor, string $context): array {
+        $summary = self::emptySummary();
+        $update = $this->pdo->prepare('UPDATE teachers SET zone = ? WHERE id = ?');
+        foreach ($this->teachers->all(['academic_year' => $academicYear, 'semester' => $semester]) as $teacher) {
+            $id = (int)$teacher['id'];
+            $percent = self::latestFailureRate($teacher);
+            $zone = $percent === null ? null : ThresholdPolicyModel::zoneFor($policy, $percent);
+            $label = AuditLogModel::label('teachers', $teacher);
+            if ($this->tally($summary, $id, $label, $teacher['zone'], $zone, $percent)) {
+                $update->execute([$zone, $id]);
+                $this->audit->record($actor, 'teachers', $id, $label, 'update',
+                    [['field' => 'zone', 'from' => $teacher['zone'], 'to' => $zone]], 'bulk', null, $context);
+            }
+        }
+        return $summary;
+    }
+
+    // Failure rate of the latest grading period with figures, as in teacherPeriodPerformance
+    private static function latestFailureRate(array $teacher): ?float {
+        foreach (['p3', 'p2', 'p1'] as $period) {
+            $failed = $teacher["{$period}_failed"] ?? null;
+            $enrolled = (float)($teacher['enrolled_students'] ?? 0);
+            if (is_numeric($failed) && $enrolled > 0) {
+                return round((float)$failed / $enrolled * 100, 2);
+            }
+            if (is_numeric($teacher["{$period}_percent"] ?? null)) {
+                return (float)$teacher["{$period}_percent"];
+            }
+        }
+        return null;
+    }
+
+    private static function emptySummary(): array {
+        return [
+            'total' => 0, 'changed' => 0, 'unchanged' => 0, 'skipped' => 0,
+            // Students whose zone was set by hand, see StudentStandingModel
+            'overridden' => 0,
+            // Students whose standing comes from a later term with grades
+            'later_term' => 0,
+            'zones' => ['green' => 0, 'yellow' => 0, 'red' => 0],
+            'moves' => [],
+        ];
+    }
+
+    /** Counts one record; true when its zone moved. A null zone means no figures for the term. */
+    private function tally(array &$summary, int $id, ?string $label, ?string $from, ?string $to, ?float $value, ?string $reason = null): bool {
+        $summary['total']++;
+        if ($to === null) {
+            $summary['skipped']++;
+            return false;
+        }
+        $summary['zones'][$to]++;
+        if ($from === $to) {
+            $summary['unchanged']++;
+            return false;
+        }
+        $summary['changed']++;
+        if (count($summary['moves']) < self::MAX_MOVES) {
+            $summary['moves'][] = ['id' => $id, 'label' => $label, 'from' => $from, 'to' => $to, 'value' => $value, 'reason' => $reason];
+        }
+        return true;
+    }
+}
@@ -0,0 +1,37 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/auth.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+// The audit log is read-only; entries are written by the routes that change records
+try {
+    $pdo = (new DatabaseConnection())->pdo();
+    Auth::requirePermission('audit.view', $pdo);
+    if (($_SERVER['REQUEST_METHOD'] ?? 'GET') !== 'GET') {
+        http_response_code(405); echo json_encode(['error' => 'Method not allowed']); exit;
+    }
+    $model = new AuditLogModel($pdo);
+    // ?actors=1 lists the users that appear in the log, for the user filter;
+    // ?activity=1 is the dashboard feed built from the same entries
+    if (isset($_GET['actors'])) {
+        echo json_encode($model->actors());
+    } elseif (isset($_GET['activity'])) {
+        echo json_encode($model->activity($_GET));
+    } else {
+        echo json_encode($model->all($_GET));
+    }
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
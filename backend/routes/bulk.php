@@ -0,0 +1,44 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/auth.php';
+require_once __DIR__ . '/../models/BulkAction.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
+
+// POST ?entity=students {action, ids, value, reason} changes every selected record (see BulkActions)
+try {
+    $entity = (string)($_GET['entity'] ?? '');
+    if (!isset(BulkActions::ACTIONS[$entity])) {
+        http_response_code(404); echo json_encode(['error' => 'Unknown record type']); exit;
+    }
+    $pdo = (new DatabaseConnection())->pdo();
+    $user = Auth::requirePermission("$entity.manage", $pdo);
+    if (($_SERVER['REQUEST_METHOD'] ?? 'GET') !== 'POST') {
+        http_response_code(405); echo json_encode(['error' => 'Method not allowed']); exit;
+    }
+    $bulk = new BulkActions($pdo);
+    $data = body();
+    $error = $bulk->validate($entity, $data);
+    if ($error !== null) {
+        http_response_code(422); echo json_encode(['error' => $error]); exit;
+    }
+    echo json_encode($bulk->run($entity, $data, $user));
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
@@ -1,94 +1,126 @@
 <?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../models/Grade.php';
+require_once __DIR__ . '/../models/StudentStanding.php';
+require_once __DIR__ . '/../models/ThresholdPolicy.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+require_once __DIR__ . '/../models/RecordTables.php';
+
+header('Content-Type: application/json');
 header('Access-Control-Allow-Origin: *');
 header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS');
 header('Access-Control-Allow-Headers: Content-Type, Authorization');
 
 if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
     http_response_code(200);
-    exit();
+    exit;
 }
 
-require_once '../config/connection.php';
-require_once '../models/Grade.php';
+require_once __DIR__ . '/../config/auth.php';
+$method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+$user = Auth::requirePermission($method === 'GET' ? 'grades.view' : 'grades.manage');
 
-$grade = new Grade($conn);
+$scope = Auth::programScope($user);
+$model = GradeModel::withDefaultConnection();
+$audit = AuditLogModel::withDefaultConnection();
+// A student's zone and at-risk flag follow their grades, see StudentStandingModel
+$standings = StudentStandingModel::withDefaultConnection();
 
-$method = $_SERVER['REQUEST_METHOD'];
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
 
-switch ($method) {
-    case 'GET':
-        try {
-            $grades = $grade->getAll();
-            echo json_encode($grades);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+try {
+    if ($method === 'GET') {
+        // ?deleted=1 lists deleted grades for restoring
+        if (!empty($_GET['deleted'])) {
+            echo json_encode(RecordTables::summaries('grades', $model->deleted($scope === null ? [] : ['program_ids' => $scope]))); exit;
         }
-        break;
-        
-    case 'POST':
-        try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            
-            $data = [
-                'student_id' => $input['student_id'] ?? 0,
-                'subject_id' => $input['subject_id'] ?? 0,
-                'academic_year' => $input['academic_year'] ?? date('Y') . '-' . (date('Y') + 1),
-                'semester' => $input['semester'] ?? '1st',
-                'midterm_grade' => $input['midterm_grade'] ?? null,
-                'final_grade' => $input['final_grade'] ?? null,
-                'final_rating' => $input['final_rating'] ?? null,
-                'status' => $input['status'] ?? 'Failed'
-            ];
-            
-            $result = $grade->create($data);
-            echo json_encode(['success' => true, 'id' => $result]);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+        // ?student_id= lists one student's grades for the transcript
+        if (isset($_GET['student_id'])) {
+            $rows = $model->findByStudent(intval($_GET['student_id']));
+            if ($scope !== null) {
+                $rows = array_values(array_filter($rows, fn($row) => in_array((int)$row['student_program_id'], $scope, true)));
+            }
+            echo json_encode($rows); exit;
         }
-        break;
-        
-    case 'PUT':
-        try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            $id = $input['id'] ?? 0;
-            
-            $data = [
-                'student_id' => $input['student_id'] ?? 0,
-                'subject_id' => $input['subject_id'] ?? 0,
-                'academic_year' => $input['academic_year'] ?? date('Y') . '-' . (date('Y') + 1),
-                'semester' => $input['semester'] ?? '1st',
-                'midterm_grade' => $input['midterm_grade'] ?? null,
-                'final_grade' => $input['final_grade'] ?? null,
-                'final_rating' => $input['final_rating'] ?? null,
-                'status' => $input['status'] ?? 'Failed'
-            ];
-            
-            $result = $grade->update($id, $data);
-            echo json_encode(['success' => $result]);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+        if (isset($_GET['id'])) {
+            $row = $model->find(intval($_GET['id']));
+            if ($row && $scope !== null && !in_array((int)$row['student_program_id'], $scope, true)) { $row = null; }
+            if (!$row) { http_response_code(404); echo json_encode(['error' => 'Grade not found']); exit; }
+            echo json_encode($row); exit;
         }
-        break;
-        
-    case 'DELETE':
-        try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            $id = $input['id'] ?? 0;
-            
-            $result = $grade->delete($id);
-            echo json_encode(['success' => $result]);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+        // ?gwa=1 returns the term's mean student GWAs per program and overall,
+        // on the scale of the student GWA policy in force, instead of its grades
+        if (!empty($_GET['gwa'])) {
+            $term = [$_GET['academic_year'] ?? null, $_GET['semester'] ?? null];
+            $policy = ThresholdPolicyModel::withDefaultConnection()->activeSet(...$term)['student_gwa'];
+            $filters = ['academic_year' => $term[0], 'semester' => $term[1]] + ($scope === null ? [] : ['program_ids' => $scope]);
+            echo json_encode($model->gwaSummary($filters, $policy['grade_scale'], $policy['excluded_statuses'])); exit;
         }
-        break;
-        
-    default:
-        http_response_code(405);
-        echo json_encode(['error' => 'Method not allowed']);
-        break;
+        // ?academic_year=&semester= limit the list to one term; ?page= pages it (see Pagination)
+        $filters = $scope === null ? $_GET : ['program_ids' => $scope] + $_GET;
+        echo json_encode(Pagination::requested($_GET) ? $model->page($filters) : $model->all($filters)); exit;
+    }
+
+    // POST ?id=&restore=1 undoes a delete
+    if ($method === 'POST' && !empty($_GET['restore'])) {
+        $id = intval($_GET['id'] ?? 0);
+        if (!$model->restore($id)) { http_response_code(404); echo json_encode(['error' => 'No deleted grade with this ID']); exit; }
+        $restored = $model->find($id);
+        $audit->recordDiff($user, 'grades', $id, null, $restored, 'manual', null, 'Restored after deletion');
+        $standings->refresh((int)$restored['student_id'], $user);
+        echo json_encode(['success' => true]); exit;
+    }
+
+    if ($method === 'POST') {
+        $id = $model->create(body());
+        $created = $model->find($id);
+        $audit->recordDiff($user, 'grades', $id, null, $created);
+        $standings->refresh((int)$created['student_id'], $user);
+        echo json_encode(['id' => $id, 'success' => true]); exit;
+    }
+
+    if ($method === 'PUT' || $method === 'PATCH') {
+        if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing grade ID']); exit; }
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) { http_response_code(404); echo json_encode(['error' => 'Grade not found']); exit; }
+        $data = body();
+        // Edits carry the updated_at they were opened with, see RecordTables
+        if (RecordTables::isStale($before, $data)) {
+            http_response_code(409);
+            echo json_encode(['error' => 'This grade was changed by someone else after you opened it', 'current' => $before]); exit;
+        }
+        $ok = $model->update($id, $data);
+        $after = $model->find($id);
+        $audit->recordDiff($user, 'grades', $id, $before, $after);
+        // A grade moved to another student changes both
+        foreach (array_unique([(int)$before['student_id'], (int)$after['student_id']]) as $studentId) {
+            $standings->refresh($studentId, $user);
+        }
+        echo json_encode(['success' => $ok]); exit;
+    }
+
+    if ($method === 'DELETE') {
+        if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing grade ID']); exit; }
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) { http_response_code(404); echo json_encode(['error' => 'Grade not found']); exit; }
+        // Soft delete: the grade can be restored with POST ?restore=1
+        $ok = $model->delete($id);
+        if ($ok) {
+            $audit->recordDiff($user, 'grades', $id, $before, null);
+            $standings->refresh((int)$before['student_id'], $user);
+        }
+        echo json_encode(['success' => $ok]); exit;
+    }
+
+    http_response_code(405); echo json_encode(['error' => 'Method not allowed']);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
 }
-?>
\ No newline at end of file
@@ -0,0 +1,47 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/auth.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
+
+// GET ?token= names the invited account; POST {token, password} activates it and signs in
+try {
+    $method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+    $pdo = (new DatabaseConnection())->pdo();
+    $model = new UserModel($pdo);
+    $data = $method === 'POST' ? body() : $_GET;
+    $user = $model->findByInviteToken((string)($data['token'] ?? ''));
+    if (!$user) { http_response_code(404); echo json_encode(['error' => 'This invite link is invalid or has expired']); exit; }
+
+    if ($method === 'GET') {
+        echo json_encode(['username' => $user['username']]); exit;
+    }
+
+    if ($method === 'POST') {
+        $password = (string)($data['password'] ?? '');
+        $problem = UserModel::passwordProblem($password);
+        if ($problem) { http_response_code(422); echo json_encode(['error' => $problem]); exit; }
+        $model->setPassword((int)$user['id'], $password);
+        echo json_encode(Auth::login($pdo, $user)); exit;
+    }
+
+    http_response_code(405); echo json_encode(['error' => 'Method not allowed']);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
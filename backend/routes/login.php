@@ -1,9 +1,17 @@
 <?php
 declare(strict_types=1);
 
-require_once __DIR__ . '/../models/User.php';
+require_once __DIR__ . '/../config/auth.php';
 
 header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
 
 function body(): array {
     $raw = file_get_contents('php://input') ?: '';
@@ -20,19 +28,13 @@ try {
     $password = $data['password'] ?? '';
     if ($username === '' || $password === '') { http_response_code(400); echo json_encode(['error' => 'Missing credentials']); exit; }
 
-    $model = UserModel::withDefaultConnection();
-    $user = $model->verify($username, $password);
+    $pdo = (new DatabaseConnection())->pdo();
+    $user = (new UserModel($pdo))->verify($username, $password);
     if (!$user) { http_response_code(401); echo json_encode(['error' => 'Invalid credentials']); exit; }
+    if (!empty($user['disabled_at'])) { http_response_code(403); echo json_encode(['error' => 'This account has been disabled']); exit; }
 
-    echo json_encode([
-        'id' => $user['id'],
-        'username' => $user['username'],
-        'token' => base64_encode($user['username'] . '|' . time()),
-    ]);
+    echo json_encode(Auth::login($pdo, $user));
 } catch (Throwable $e) {
     http_response_code(500);
     echo json_encode(['error' => $e->getMessage()]);
 }
-
-
-
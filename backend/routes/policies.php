@@ -0,0 +1,73 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../models/ThresholdPolicy.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, DELETE, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+require_once __DIR__ . '/../config/auth.php';
+$method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+// Every page classifies with the policies in force, so anyone signed in may read them
+if ($method === 'GET') {
+    $user = Auth::requireUser();
+} else {
+    $user = Auth::requirePermission('policies.manage');
+}
+
+$model = ThresholdPolicyModel::withDefaultConnection();
+$audit = AuditLogModel::withDefaultConnection();
+
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
+
+try {
+    if ($method === 'GET') {
+        if (isset($_GET['id'])) {
+            $row = $model->find(intval($_GET['id']));
+            if (!$row) { http_response_code(404); echo json_encode(['error' => 'Policy not found']); exit; }
+            echo json_encode($row); exit;
+        }
+        // ?active=1 returns the policy in force per kind for the requested term
+        if (isset($_GET['active'])) {
+            echo json_encode($model->activeSet($_GET['academic_year'] ?? null, $_GET['semester'] ?? null)); exit;
+        }
+        echo json_encode($model->all($_GET)); exit;
+    }
+
+    if ($method === 'POST') {
+        $id = $model->create(body());
+        $audit->recordDiff($user, 'policies', $id, null, $model->find($id));
+        echo json_encode(['id' => $id, 'success' => true]); exit;
+    }
+
+    if ($method === 'DELETE') {
+        if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing policy ID']); exit; }
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        $ok = $model->delete($id);
+        if ($ok && $before) {
+            $audit->recordDiff($user, 'policies', $id, $before, null);
+        }
+        echo json_encode(['success' => $ok]); exit;
+    }
+
+    http_response_code(405); echo json_encode(['error' => 'Method not allowed']);
+} catch (InvalidArgumentException $e) {
+    http_response_code(422);
+    echo json_encode(['error' => $e->getMessage()]);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
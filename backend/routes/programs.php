@@ -2,19 +2,26 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/../models/Program.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+require_once __DIR__ . '/../models/RecordTables.php';
 
 header('Content-Type: application/json');
 header('Access-Control-Allow-Origin: *');
 header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS');
-header('Access-Control-Allow-Headers: Content-Type');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
 
 if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
     http_response_code(200);
     exit;
 }
 
-$model = ProgramModel::withDefaultConnection();
+require_once __DIR__ . '/../config/auth.php';
 $method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+$user = Auth::requirePermission($method === 'GET' ? 'programs.view' : 'programs.manage');
+
+$scope = Auth::programScope($user);
+$model = ProgramModel::withDefaultConnection();
+$audit = AuditLogModel::withDefaultConnection();
 
 function body(): array {
     $raw = file_get_contents('php://input') ?: '';
@@ -24,8 +31,16 @@ function body(): array {
 
 try {
     if ($method === 'GET') {
+        // ?deleted=1 lists deleted programs for restoring
+        if (!empty($_GET['deleted'])) {
+            echo json_encode(RecordTables::summaries('programs', $model->deleted($scope === null ? [] : ['program_ids' => $scope])));
+            exit;
+        }
         if (isset($_GET['id'])) {
             $row = $model->find(intval($_GET['id']));
+            if ($row && $scope !== null && !in_array((int)$row['id'], $scope, true)) {
+                $row = null;
+            }
             if (!$row) { 
                 http_response_code(404); 
                 echo json_encode(['error' => 'Program not found']); 
@@ -34,12 +49,26 @@ try {
             echo json_encode($row); 
             exit;
         }
-        echo json_encode($model->all()); 
+        echo json_encode($model->all($scope === null ? $_GET : ['program_ids' => $scope] + $_GET)); 
+        exit;
+    }
+
+    // POST ?id=&restore=1 undoes a delete
+    if ($method === 'POST' && !empty($_GET['restore'])) {
+        $id = intval($_GET['id'] ?? 0);
+        if (!$model->restore($id)) {
+            http_response_code(404);
+            echo json_encode(['error' => 'No deleted program with this ID']);
+            exit;
+        }
+        $audit->recordDiff($user, 'programs', $id, null, $model->find($id), 'manual', null, 'Restored after deletion');
+        echo json_encode(['success' => true]);
         exit;
     }
 
     if ($method === 'POST') {
         $id = $model->create(body());
+        $audit->recordDiff($user, 'programs', $id, null, $model->find($id));
         echo json_encode(['id' => $id, 'success' => true]); 
         exit;
     }
@@ -50,7 +79,22 @@ try {
             echo json_encode(['error' => 'Missing program ID']); 
             exit; 
         }
-        $ok = $model->update(intval($_GET['id']), body());
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) {
+            http_response_code(404);
+            echo json_encode(['error' => 'Program not found']);
+            exit;
+        }
+        $data = body();
+        // Edits carry the updated_at they were opened with, see RecordTables
+        if (RecordTables::isStale($before, $data)) {
+            http_response_code(409);
+            echo json_encode(['error' => 'This program was changed by someone else after you opened it', 'current' => $before]);
+            exit;
+        }
+        $ok = $model->update($id, $data);
+        $audit->recordDiff($user, 'programs', $id, $before, $model->find($id));
         echo json_encode(['success' => $ok]); 
         exit;
     }
@@ -61,7 +105,18 @@ try {
             echo json_encode(['error' => 'Missing program ID']); 
             exit; 
         }
-        $ok = $model->delete(intval($_GET['id']));
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) {
+            http_response_code(404);
+            echo json_encode(['error' => 'Program not found']);
+            exit;
+        }
+        // Soft delete: the program can be restored with POST ?restore=1
+        $ok = $model->delete($id);
+        if ($ok) {
+            $audit->recordDiff($user, 'programs', $id, $before, null);
+        }
         echo json_encode(['success' => $ok]); 
         exit;
     }
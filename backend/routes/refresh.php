@@ -0,0 +1,39 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/auth.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
+
+// Exchanges a refresh token for a new access token and a new refresh token
+try {
+    $method = $_SERVER['REQUEST_METHOD'] ?? 'POST';
+    if ($method !== 'POST') { http_response_code(405); echo json_encode(['error' => 'Method not allowed']); exit; }
+
+    $refreshToken = (string)(body()['refresh_token'] ?? '');
+    $tokens = $refreshToken !== '' ? Auth::refresh((new DatabaseConnection())->pdo(), $refreshToken) : null;
+    if (!$tokens) {
+        http_response_code(401);
+        echo json_encode(['error' => 'Your session has expired. Please sign in again.', 'code' => 'unauthenticated']);
+        exit;
+    }
+
+    echo json_encode($tokens);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
@@ -1,9 +1,18 @@
 <?php
 declare(strict_types=1);
 
-require_once __DIR__ . '/../models/User.php';
+require_once __DIR__ . '/../config/auth.php';
+require_once __DIR__ . '/../models/AuditLog.php';
 
 header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
 
 function body(): array {
     $raw = file_get_contents('php://input') ?: '';
@@ -18,13 +27,34 @@ try {
     $data = body();
     $username = trim($data['username'] ?? '');
     $password = $data['password'] ?? '';
-    if ($username === '' || $password === '') { http_response_code(400); echo json_encode(['error' => 'Missing fields']); exit; }
+    // An invited user picks their own password from the invite link
+    $invite = !empty($data['invite']);
+    if ($username === '' || ($password === '' && !$invite)) { http_response_code(400); echo json_encode(['error' => 'Missing fields']); exit; }
+    $problem = $invite ? null : UserModel::passwordProblem($password);
+    if ($problem) { http_response_code(422); echo json_encode(['error' => $problem]); exit; }
 
-    $model = UserModel::withDefaultConnection();
+    $pdo = (new DatabaseConnection())->pdo();
+    $model = new UserModel($pdo);
+    // Anyone may create the first account, which becomes the admin; after that only admins can add more
+    $first = $model->count() === 0;
+    $actor = null;
+    if (!$first) {
+        $actor = Auth::requirePermission('users.manage', $pdo);
+    } elseif ($invite) {
+        http_response_code(422); echo json_encode(['error' => 'The first account needs a password']); exit;
+    }
+    $role = $first ? 'admin' : (string)($data['role'] ?? 'committee');
+    if (!Permissions::isRole($role)) { http_response_code(422); echo json_encode(['error' => 'Unknown role']); exit; }
     $existing = $model->findByUsername($username);
     if ($existing) { http_response_code(409); echo json_encode(['error' => 'Username taken']); exit; }
-    $id = $model->create($username, $password);
-    echo json_encode(['id' => $id, 'username' => $username]);
+    $department = trim((string)($data['department'] ?? ''));
+    $id = $model->create($username, $invite ? null : $password, $role, $department === '' ? null : $department);
+    if ($role === 'chair' && is_array($data['program_ids'] ?? null)) {
+        $model->setPrograms($id, $data['program_ids']);
+    }
+    (new AuditLogModel($pdo))->recordDiff($actor, 'users', $id, null, UserModel::managedFields($model->find($id)));
+    $response = ['id' => $id, 'username' => $username, 'role' => $role];
+    echo json_encode($invite ? $response + $model->issueInvite($id) : $response);
 } catch (Throwable $e) {
     http_response_code(500);
     echo json_encode(['error' => $e->getMessage()]);
@@ -1,98 +1,125 @@
 <?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../models/Student.php';
+require_once __DIR__ . '/../models/StudentStanding.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+require_once __DIR__ . '/../models/RecordTables.php';
+
+header('Content-Type: application/json');
 header('Access-Control-Allow-Origin: *');
 header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS');
 header('Access-Control-Allow-Headers: Content-Type, Authorization');
 
 if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
     http_response_code(200);
-    exit();
+    exit;
 }
 
-require_once '../config/connection.php';
-require_once '../models/Student.php';
+require_once __DIR__ . '/../config/auth.php';
+$method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+$user = Auth::requirePermission($method === 'GET' ? 'students.view' : 'students.manage');
 
-$student = new Student($conn);
+$scope = Auth::programScope($user);
+$model = StudentModel::withDefaultConnection();
+$audit = AuditLogModel::withDefaultConnection();
+$standings = StudentStandingModel::withDefaultConnection();
 
-$method = $_SERVER['REQUEST_METHOD'];
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
 
-switch ($method) {
-    case 'GET':
-        try {
-            $students = $student->getAll();
-            echo json_encode($students);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+try {
+    if ($method === 'GET') {
+        // ?deleted=1 lists deleted students for restoring
+        if (!empty($_GET['deleted'])) {
+            echo json_encode(RecordTables::summaries('students', $model->deleted($scope === null ? [] : ['program_ids' => $scope]))); exit;
+        }
+        if (isset($_GET['id'])) {
+            $row = $model->find(intval($_GET['id']));
+            if ($row && $scope !== null && !in_array((int)$row['program_id'], $scope, true)) { $row = null; }
+            if (!$row) { http_response_code(404); echo json_encode(['error' => 'Student not found']); exit; }
+            echo json_encode($row); exit;
         }
-        break;
-        
-    case 'POST':
-        try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            
-            $data = [
-                'student_id' => $input['student_id'] ?? '',
-                'first_name' => $input['first_name'] ?? '',
-                'last_name' => $input['last_name'] ?? '',
-                'middle_name' => $input['middle_name'] ?? '',
-                'email' => $input['email'] ?? '',
-                'program_id' => $input['program_id'] ?? 1,
-                'year_level' => $input['year_level'] ?? 1,
-                'semester' => $input['semester'] ?? '1st',
-                'academic_year' => $input['academic_year'] ?? date('Y') . '-' . (date('Y') + 1),
-                'status' => $input['status'] ?? 'Active'
-            ];
-            
-            $result = $student->create($data);
-            echo json_encode(['success' => true, 'id' => $result]);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+        // ?academic_year=&semester= limit the list to one term; ?page= pages it (see Pagination)
+        $filters = $scope === null ? $_GET : ['program_ids' => $scope] + $_GET;
+        echo json_encode(Pagination::requested($_GET) ? $model->page($filters) : $model->all($filters)); exit;
+    }
+
+    // POST ?id=&restore=1 undoes a delete
+    if ($method === 'POST' && !empty($_GET['restore'])) {
+        $id = intval($_GET['id'] ?? 0);
+        if (!$model->restore($id)) { http_response_code(404); echo json_encode(['error' => 'No deleted student with this ID']); exit; }
+        $audit->recordDiff($user, 'students', $id, null, $model->find($id), 'manual', null, 'Restored after deletion');
+        echo json_encode(['success' => true]); exit;
+    }
+
+    // A zone or at-risk flag set by hand is an override and needs a reason, see StudentStandingModel
+    $data = body();
+    $reason = trim((string)($data['zone_override_reason'] ?? ''));
+
+    if ($method === 'POST') {
+        $overriding = StudentStandingModel::changesStanding(null, $data);
+        if ($overriding && $reason === '') {
+            http_response_code(422); echo json_encode(['error' => 'Give a reason for setting the zone or at-risk flag by hand']); exit;
         }
-        break;
-        
-    case 'PUT':
-        try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            $id = $input['id'] ?? 0;
-            
-            $data = [
-                'student_id' => $input['student_id'] ?? '',
-                'first_name' => $input['first_name'] ?? '',
-                'last_name' => $input['last_name'] ?? '',
-                'middle_name' => $input['middle_name'] ?? '',
-                'email' => $input['email'] ?? '',
-                'program_id' => $input['program_id'] ?? 1,
-                'year_level' => $input['year_level'] ?? 1,
-                'semester' => $input['semester'] ?? '1st',
-                'academic_year' => $input['academic_year'] ?? date('Y') . '-' . (date('Y') + 1),
-                'status' => $input['status'] ?? 'Active'
-            ];
-            
-            $result = $student->update($id, $data);
-            echo json_encode(['success' => $result]);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+        $id = $model->create($data);
+        if ($overriding) {
+            $standings->override($id, $reason);
         }
-        break;
-        
-    case 'DELETE':
-        try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            $id = $input['id'] ?? 0;
-            
-            $result = $student->delete($id);
-            echo json_encode(['success' => $result]);
-        } catch (Exception $e) {
-            http_response_code(500);
-            echo json_encode(['error' => $e->getMessage()]);
+        $audit->recordDiff($user, 'students', $id, null, $model->find($id), 'manual', null, $overriding ? "Zone override: $reason" : null);
+        echo json_encode(['id' => $id, 'success' => true]); exit;
+    }
+
+    if ($method === 'PUT' || $method === 'PATCH') {
+        if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing student ID']); exit; }
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) { http_response_code(404); echo json_encode(['error' => 'Student not found']); exit; }
+        // Edits carry the updated_at they were opened with, see RecordTables
+        if (RecordTables::isStale($before, $data)) {
+            http_response_code(409);
+            echo json_encode(['error' => 'This student was changed by someone else after you opened it', 'current' => $before]); exit;
         }
-        break;
-        
-    default:
-        http_response_code(405);
-        echo json_encode(['error' => 'Method not allowed']);
-        break;
+        // clear_override returns the student to the standing their grades give
+        $clearing = !empty($data['clear_override']);
+        $overriding = !$clearing && StudentStandingModel::changesStanding($before, $data);
+        if ($overriding && $reason === '') {
+            http_response_code(422); echo json_encode(['error' => 'Give a reason for setting the zone or at-risk flag by hand']); exit;
+        }
+        if ($clearing) {
+            unset($data['zone'], $data['at_risk']);
+        }
+        $ok = $model->update($id, $data);
+        if ($overriding) {
+            $standings->override($id, $reason);
+        } elseif ($clearing) {
+            $standings->clearOverride($id);
+        }
+        $audit->recordDiff($user, 'students', $id, $before, $model->find($id), 'manual', null, $overriding ? "Zone override: $reason" : null);
+        if ($clearing) {
+            $standings->refresh($id, $user);
+        }
+        echo json_encode(['success' => $ok]); exit;
+    }
+
+    if ($method === 'DELETE') {
+        if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing student ID']); exit; }
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) { http_response_code(404); echo json_encode(['error' => 'Student not found']); exit; }
+        // Soft delete: the student can be restored with POST ?restore=1
+        $ok = $model->delete($id);
+        if ($ok) {
+            $audit->recordDiff($user, 'students', $id, $before, null);
+        }
+        echo json_encode(['success' => $ok]); exit;
+    }
+
+    http_response_code(405); echo json_encode(['error' => 'Method not allowed']);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
 }
-?>
\ No newline at end of file
@@ -10,15 +10,43 @@ if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
 
 require_once '../config/connection.php';
 require_once '../models/Subject.php';
+require_once '../models/Program.php';
+require_once '../models/AuditLog.php';
+require_once '../models/RecordTables.php';
+require_once '../config/auth.php';
 
-$subject = new Subject($conn);
-
+$conn = (new DatabaseConnection())->pdo();
 $method = $_SERVER['REQUEST_METHOD'];
+$user = Auth::requirePermission($method === 'GET' ? 'subjects.view' : 'subjects.manage', $conn);
+
+$subject = new Subject($conn);
+$audit = new AuditLogModel($conn);
+// A chair's programs by code, which is how subjects name theirs; null for everyone else
+$scope = Auth::programScope($user, $conn);
+$scopeCodes = $scope === null ? null : (new ProgramModel($conn))->codes($scope);
 
 switch ($method) {
     case 'GET':
         try {
-            $subjects = $subject->getAll();
+            // ?deleted=1 lists deleted subjects for restoring
+            if (!empty($_GET['deleted'])) {
+                echo json_encode(RecordTables::summaries('subjects', $subject->getDeleted($scopeCodes)));
+                break;
+            }
+            if (isset($_GET['id'])) {
+                $row = $subject->getById((int)$_GET['id'], $_GET['academic_year'] ?? null, $_GET['semester'] ?? null);
+                if ($row && $scopeCodes !== null && !in_array($row['program_name'], $scopeCodes, true)) {
+                    $row = null;
+                }
+                if (!$row) {
+                    http_response_code(404);
+                    echo json_encode(['error' => 'Subject not found']);
+                    break;
+                }
+                echo json_encode($row);
+                break;
+            }
+            $subjects = $subject->getAll($_GET['academic_year'] ?? null, $_GET['semester'] ?? null, $scopeCodes);
             echo json_encode($subjects);
         } catch (Exception $e) {
             http_response_code(500);
@@ -28,6 +56,19 @@ switch ($method) {
         
     case 'POST':
         try {
+            // POST ?id=&restore=1 undoes a delete
+            if (!empty($_GET['restore'])) {
+                $id = (int)($_GET['id'] ?? 0);
+                if (!$subject->restore($id)) {
+                    http_response_code(404);
+                    echo json_encode(['error' => 'No deleted subject with this ID']);
+                    break;
+                }
+                $audit->recordDiff($user, 'subjects', $id, null, $subject->find($id), 'manual', null, 'Restored after deletion');
+                echo json_encode(['success' => true]);
+                break;
+            }
+
             $input = json_decode(file_get_contents('php://input'), true);
             
             $data = [
@@ -38,10 +79,12 @@ switch ($method) {
                 'year_level' => $input['year_level'] ?? 1,
                 'semester' => $input['semester'] ?? '',
                 'program_id' => $input['program_id'] ?? 1,
+                'program_name' => $input['program_name'] ?? 'BSIT',
                 'cutoff_grade' => $input['cutoff_grade'] ?? 60.0
             ];
             
             $result = $subject->create($data);
+            $audit->recordDiff($user, 'subjects', $result, null, $subject->find($result));
             echo json_encode(['success' => true, 'id' => $result]);
         } catch (Exception $e) {
             http_response_code(500);
@@ -51,21 +94,30 @@ switch ($method) {
         
     case 'PUT':
         try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            $id = $input['id'] ?? 0;
+            if (!isset($_GET['id'])) {
+                http_response_code(400);
+                echo json_encode(['error' => 'Missing subject ID']);
+                break;
+            }
+            $id = (int)$_GET['id'];
+            $input = json_decode(file_get_contents('php://input'), true) ?: [];
             
-            $data = [
-                'subject_code' => $input['subject_code'] ?? '',
-                'subject_name' => $input['subject_name'] ?? '',
-                'description' => $input['description'] ?? '',
-                'units' => $input['units'] ?? 0,
-                'year_level' => $input['year_level'] ?? 1,
-                'semester' => $input['semester'] ?? '',
-                'program_id' => $input['program_id'] ?? 1,
-                'cutoff_grade' => $input['cutoff_grade'] ?? 60.0
-            ];
+            $before = $subject->find($id);
+            if (!$before) {
+                http_response_code(404);
+                echo json_encode(['error' => 'Subject not found']);
+                break;
+            }
+            // Edits carry the updated_at they were opened with, see RecordTables
+            if (RecordTables::isStale($before, $input)) {
+                http_response_code(409);
+                echo json_encode(['error' => 'This subject was changed by someone else after you opened it', 'current' => $subject->getById($id)]);
+                break;
+            }
             
-            $result = $subject->update($id, $data);
+            // Fields the edit leaves out keep their values
+            $result = $subject->update($id, $input);
+            $audit->recordDiff($user, 'subjects', $id, $before, $subject->find($id));
             echo json_encode(['success' => $result]);
         } catch (Exception $e) {
             http_response_code(500);
@@ -75,10 +127,24 @@ switch ($method) {
         
     case 'DELETE':
         try {
-            $input = json_decode(file_get_contents('php://input'), true);
-            $id = $input['id'] ?? 0;
+            if (!isset($_GET['id'])) {
+                http_response_code(400);
+                echo json_encode(['error' => 'Missing subject ID']);
+                break;
+            }
+            $id = (int)$_GET['id'];
             
+            $before = $subject->find($id);
+            if (!$before) {
+                http_response_code(404);
+                echo json_encode(['error' => 'Subject not found']);
+                break;
+            }
+            // Soft delete: the subject can be restored with POST ?restore=1
             $result = $subject->delete($id);
+            if ($result) {
+                $audit->recordDiff($user, 'subjects', $id, $before, null);
+            }
             echo json_encode(['success' => $result]);
         } catch (Exception $e) {
             http_response_code(500);
@@ -0,0 +1,32 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../models/TeacherSnapshot.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+require_once __DIR__ . '/../config/auth.php';
+Auth::requirePermission('teachers.view');
+
+$model = TeacherSnapshotModel::withDefaultConnection();
+$method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+
+try {
+    if ($method === 'GET') {
+        if (!isset($_GET['teacher_id'])) { http_response_code(400); echo json_encode(['error' => 'Missing teacher ID']); exit; }
+        echo json_encode($model->forTeacher(intval($_GET['teacher_id']))); exit;
+    }
+
+    http_response_code(405); echo json_encode(['error' => 'Method not allowed']);
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
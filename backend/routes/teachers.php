@@ -2,19 +2,25 @@
 declare(strict_types=1);
 
 require_once __DIR__ . '/../models/Teacher.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+require_once __DIR__ . '/../models/RecordTables.php';
 
 header('Content-Type: application/json');
 header('Access-Control-Allow-Origin: *');
 header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS');
-header('Access-Control-Allow-Headers: Content-Type');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
 
 if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
     http_response_code(200);
     exit;
 }
 
-$model = TeacherModel::withDefaultConnection();
+require_once __DIR__ . '/../config/auth.php';
 $method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+$user = Auth::requirePermission($method === 'GET' ? 'teachers.view' : 'teachers.manage');
+
+$model = TeacherModel::withDefaultConnection();
+$audit = AuditLogModel::withDefaultConnection();
 
 function body(): array {
     $raw = file_get_contents('php://input') ?: '';
@@ -24,28 +30,59 @@ function body(): array {
 
 try {
     if ($method === 'GET') {
+        // ?deleted=1 lists deleted teachers for restoring
+        if (!empty($_GET['deleted'])) {
+            echo json_encode(RecordTables::summaries('teachers', $model->deleted())); exit;
+        }
         if (isset($_GET['id'])) {
             $row = $model->find(intval($_GET['id']));
             if (!$row) { http_response_code(404); echo json_encode(['error' => 'Not found']); exit; }
             echo json_encode($row); exit;
         }
-        echo json_encode($model->all()); exit;
+        // ?page= pages the list (see Pagination)
+        echo json_encode(Pagination::requested($_GET) ? $model->page($_GET) : $model->all($_GET)); exit;
+    }
+
+    // POST ?id=&restore=1 undoes a delete
+    if ($method === 'POST' && !empty($_GET['restore'])) {
+        $id = intval($_GET['id'] ?? 0);
+        if (!$model->restore($id)) { http_response_code(404); echo json_encode(['error' => 'No deleted teacher with this ID']); exit; }
+        $audit->recordDiff($user, 'teachers', $id, null, $model->find($id), 'manual', null, 'Restored after deletion');
+        echo json_encode(['success' => true]); exit;
     }
 
     if ($method === 'POST') {
         $id = $model->create(body());
+        $audit->recordDiff($user, 'teachers', $id, null, $model->find($id));
         echo json_encode(['id' => $id]); exit;
     }
 
     if ($method === 'PUT' || $method === 'PATCH') {
         if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing id']); exit; }
-        $ok = $model->update(intval($_GET['id']), body());
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) { http_response_code(404); echo json_encode(['error' => 'Not found']); exit; }
+        $data = body();
+        // Edits carry the updated_at they were opened with, see RecordTables
+        if (RecordTables::isStale($before, $data)) {
+            http_response_code(409);
+            echo json_encode(['error' => 'This teacher was changed by someone else after you opened it', 'current' => $before]); exit;
+        }
+        $ok = $model->update($id, $data);
+        $audit->recordDiff($user, 'teachers', $id, $before, $model->find($id));
         echo json_encode(['success' => $ok]); exit;
     }
 
     if ($method === 'DELETE') {
         if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing id']); exit; }
-        $ok = $model->delete(intval($_GET['id']));
+        $id = intval($_GET['id']);
+        $before = $model->find($id);
+        if (!$before) { http_response_code(404); echo json_encode(['error' => 'Not found']); exit; }
+        // Soft delete: the teacher can be restored with POST ?restore=1
+        $ok = $model->delete($id);
+        if ($ok) {
+            $audit->recordDiff($user, 'teachers', $id, $before, null);
+        }
         echo json_encode(['success' => $ok]); exit;
     }
 
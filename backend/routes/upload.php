@@ -13,6 +13,10 @@ require_once '../models/Student.php';
 require_once '../models/Teacher.php';
 require_once '../models/Subject.php';
 require_once '../models/Program.php';
+require_once '../models/AuditLog.php';
+require_once '../config/auth.php';
+
+$user = Auth::requirePermission('records.import');
 
 // Check if file was uploaded
 if (!isset($_FILES['file']) || $_FILES['file']['error'] !== UPLOAD_ERR_OK) {
@@ -23,6 +27,14 @@ if (!isset($_FILES['file']) || $_FILES['file']['error'] !== UPLOAD_ERR_OK) {
 
 $file = $_FILES['file'];
 $uploadType = $_POST['type'] ?? 'students';
+// Term the records belong to, used when a row does not carry its own
+$term = [
+    'academic_year' => $_POST['academic_year'] ?? null,
+    'semester' => $_POST['semester'] ?? null,
+];
+// Dry runs report what would change and write nothing
+$dryRun = in_array($_POST['dry_run'] ?? '', ['1', 'true'], true);
+$conn = (new DatabaseConnection())->pdo();
 
 // Validate file type - support CSV and provide helpful error for Excel
 $allowedTypes = ['text/csv', 'text/plain', 'application/csv'];
@@ -83,16 +95,31 @@ if (!move_uploaded_file($file['tmp_name'], $filePath)) {
 
 try {
     $data = parseFile($filePath, $fileType);
-    $result = processData($data, $uploadType, $conn);
+    // Every row this upload writes is logged under one batch id
+    $audit = [
+        'log' => new AuditLogModel($conn),
+        'actor' => $user,
+        'batch' => bin2hex(random_bytes(8)),
+        'context' => $file['name'],
+    ];
+    $result = processData($data, $uploadType, $conn, $term, $dryRun, $audit);
     
     // Clean up uploaded file
     unlink($filePath);
     
+    $summary = $result['summary'];
+    $rest = "{$summary['unchanged']} unchanged, {$summary['skip']} skipped";
     echo json_encode([
         'success' => true,
-        'message' => "Successfully imported {$result['count']} {$uploadType} records",
+        'dry_run' => $dryRun,
+        'message' => $dryRun
+            ? "Dry run for {$uploadType}: {$summary['create']} to create, {$summary['update']} to update, {$rest}"
+            : "Successfully imported {$result['count']} {$uploadType} records "
+                . "({$summary['create']} created, {$summary['update']} updated, {$rest})",
         'count' => $result['count'],
-        'errors' => $result['errors'] ?? []
+        'errors' => $result['errors'],
+        'summary' => $summary,
+        'rows' => $result['rows'],
     ]);
     
 } catch (Exception $e) {
@@ -108,12 +135,14 @@ try {
 function parseFile($filePath, $fileType) {
     $data = [];
     
-    if ($fileType === 'text/csv') {
+    if ($fileType === 'text/csv' || str_ends_with(strtolower($filePath), '.csv')) {
         // Parse CSV
         $handle = fopen($filePath, 'r');
         if ($handle) {
             $headers = fgetcsv($handle);
             while (($row = fgetcsv($handle)) !== false) {
+                // Short or ragged rows are padded so every header gets a value
+                $row = array_pad(array_slice($row, 0, count($headers)), count($headers), '');
                 $data[] = array_combine($headers, $row);
             }
             fclose($handle);
@@ -128,108 +157,349 @@ function parseFile($filePath, $fileType) {
     return $data;
 }
 
-function processData($data, $type, $conn) {
-    $count = 0;
+/**
+ * Imports the parsed rows inside one transaction. Each row is classified as
+ * create, update (with the fields that change), unchanged or skip before it
+ * is written; a dry run performs the same writes and then rolls them back,
+ * so the report matches what a real import would do, including rows that
+ * repeat earlier rows of the same file. Writes are audited in the same
+ * transaction, so a dry run leaves no audit entries either.
+ */
+function processData($data, $type, $conn, $term = [], $dryRun = false, $audit = null) {
+    $importer = importerFor($type, $conn, $term);
+    $summary = ['create' => 0, 'update' => 0, 'unchanged' => 0, 'skip' => 0];
+    $rows = [];
     $errors = [];
-    
+
+    $conn->beginTransaction();
+    try {
+        foreach ($data as $index => $row) {
+            $line = $index + 2; // header is line 1
+            $key = null;
+            // A row that fails halfway leaves nothing behind
+            $conn->exec('SAVEPOINT import_row');
+            try {
+                $record = $importer['build']($row);
+                $key = $record[$importer['key']] ?? null;
+                $existing = $importer['find']($record);
+                $changes = $existing ? recordChanges($existing, $record, $importer['columns'], $importer['partial']) : [];
+                // A row for a deleted record brings it back
+                $restore = $existing && !empty($existing['deleted_at']);
+                if ($restore) {
+                    $changes[] = ['field' => 'deleted_at', 'from' => $existing['deleted_at'], 'to' => null];
+                }
+                $action = !$existing ? 'create' : ($changes ? 'update' : 'unchanged');
+                if ($action !== 'unchanged') {
+                    if ($restore) {
+                        RecordTables::restore($conn, $type, (int)$existing['id']);
+                    }
+                    $importer['write']($record, $existing);
+                    if ($audit) {
+                        $saved = $importer['find']($record);
+                        $audit['log']->record(
+                            $audit['actor'],
+                            $type,
+                            $saved['id'] ?? $key,
+                            AuditLogModel::label($type, $saved ?? $record),
+                            $action,
+                            $action === 'create' ? AuditLogModel::diff(null, $record) : $changes,
+                            'import',
+                            $audit['batch'],
+                            $audit['context']
+                        );
+                    }
+                }
+                $rows[] = ['line' => $line, 'key' => $key, 'action' => $action, 'changes' => $changes];
+                $summary[$action]++;
+            } catch (Exception $e) {
+                $conn->exec('ROLLBACK TO SAVEPOINT import_row');
+                $rows[] = ['line' => $line, 'key' => $key, 'action' => 'skip', 'reason' => $e->getMessage()];
+                $errors[] = "Row {$line}: " . $e->getMessage();
+                $summary['skip']++;
+            }
+        }
+    } catch (Throwable $e) {
+        $conn->rollBack();
+        throw $e;
+    }
+
+    if ($dryRun) {
+        $conn->rollBack();
+    } else {
+        $conn->commit();
+    }
+
+    return [
+        'count' => $summary['create'] + $summary['update'],
+        'errors' => $errors,
+        'summary' => $summary,
+        'rows' => $rows,
+    ];
+}
+
+/**
+ * How one upload type builds, finds and writes a record:
+ *  - build:   CSV row -> record, throwing for rows that cannot be imported
+ *  - key:     record field shown in the report
+ *  - find:    existing database row for the record, or null
+ *  - columns: record field => database column compared for the diff
+ *  - partial: the update path ignores null fields, so they are not changes
+ *  - write:   creates or updates the record
+ * Models are created here, before the import transaction starts, because
+ * some create their tables on first use and DDL would end the transaction.
+ */
+function importerFor($type, $conn, $term) {
     switch ($type) {
         case 'students':
             $student = new StudentModel($conn);
-            foreach ($data as $row) {
-                try {
-                    $studentData = [
-                        'student_id' => $row['student_id'] ?? '',
-                        'first_name' => $row['first_name'] ?? '',
-                        'last_name' => $row['last_name'] ?? '',
-                        'email' => $row['email'] ?? '',
-                        'program' => $row['program'] ?? 'BSIT',
-                        'year_level' => $row['year_level'] ?? '1st Year',
-                        'status' => $row['status'] ?? 'active',
-                        'gpa' => $row['gpa'] ?? null,
-                        'at_risk' => isset($row['at_risk']) ? (bool)$row['at_risk'] : false,
-                        'notes' => $row['notes'] ?? null
+            return [
+                'key' => 'student_id',
+                'partial' => true,
+                // No zone or at-risk flag: those come from grades, see StudentStandingModel
+                'columns' => sameColumns(['student_id', 'first_name', 'last_name', 'email', 'program_id', 'year_level',
+                                          'academic_year', 'semester', 'status', 'notes']),
+                'build' => function ($row) use ($conn, $term) {
+                    if (empty($row['student_id']) || empty($row['first_name']) || empty($row['last_name'])) {
+                        throw new Exception('Missing required fields: student_id, first_name and last_name');
+                    }
+                    $programId = programIdFor($conn, $row['program'] ?? null);
+                    if (!empty($row['program']) && $programId === null) {
+                        throw new Exception("Unknown program code: {$row['program']}");
+                    }
+                    return [
+                        'student_id' => $row['student_id'],
+                        'first_name' => $row['first_name'],
+                        'last_name' => $row['last_name'],
+                        'email' => ($row['email'] ?? '') ?: null,
+                        'program_id' => $programId,
+                        'year_level' => (int)($row['year_level'] ?? 1) ?: 1,
+                        'academic_year' => ($row['academic_year'] ?? '') ?: ($term['academic_year'] ?? null),
+                        'semester' => ($row['semester'] ?? '') ?: ($term['semester'] ?? null),
+                        'status' => ($row['status'] ?? '') ?: 'active',
+                        'notes' => ($row['notes'] ?? '') ?: null,
                     ];
-                    $student->create($studentData);
-                    $count++;
-                } catch (Exception $e) {
-                    $errors[] = "Row " . ($count + 1) . ": " . $e->getMessage();
-                }
-            }
-            break;
-            
+                },
+                'find' => fn ($record) => $student->findByStudentId($record['student_id']),
+                'write' => function ($record, $existing) use ($student) {
+                    if ($existing) {
+                        $student->update((int)$existing['id'], $record);
+                    } else {
+                        $student->create($record);
+                    }
+                },
+            ];
+
         case 'teachers':
             $teacher = new TeacherModel($conn);
-            foreach ($data as $row) {
-                try {
-                    // Handle both old format and new performance format
-                    $teacherData = [
-                        'teacher_id' => $row['FacultyNo'] ?? $row['teacher_id'] ?? '',
-                        'first_name' => $row['FacultyName'] ?? $row['first_name'] ?? '',
-                        'last_name' => '', // Will be extracted from FacultyName
-                        'middle_name' => null,
-                        'email' => $row['email'] ?? null,
-                        'department' => $row['department'] ?? 'General',
-                        'position' => $row['position'] ?? null,
-                        'status' => $row['status'] ?? 'Active',
-                        'zone' => $row['zone'] ?? 'green',
-                        'notes' => $row['notes'] ?? null,
-                        'enrolled_students' => (int)($row['EnrolledStudents'] ?? $row['enrolled_students'] ?? 0),
-                        'p1_failed' => (int)($row['P1_Failed'] ?? $row['p1_failed'] ?? 0),
-                        'p1_percent' => (float)($row['P1_Percent'] ?? $row['p1_percent'] ?? 0.00),
-                        'p1_category' => $row['P1_Category'] ?? $row['p1_category'] ?? 'GREEN (0.01%-10%)',
-                        'p2_failed' => (int)($row['P2_Failed'] ?? $row['p2_failed'] ?? 0),
-                        'p2_percent' => (float)($row['P2_Percent'] ?? $row['p2_percent'] ?? 0.00),
-                        'p2_category' => $row['P2_Category'] ?? $row['p2_category'] ?? 'GREEN (0.01%-10%)'
-                    ];
-                    
-                    // Extract first and last name from FacultyName if using new format
-                    if (isset($row['FacultyName']) && !empty($row['FacultyName'])) {
-                        $nameParts = explode(' ', trim($row['FacultyName']));
-                        if (count($nameParts) >= 2) {
-                            $teacherData['last_name'] = array_pop($nameParts); // Last part is last name
-                            $teacherData['first_name'] = implode(' ', $nameParts); // Everything else is first name
-                        } else {
-                            $teacherData['first_name'] = $row['FacultyName'];
-                            $teacherData['last_name'] = '';
+            $snapshots = new TeacherSnapshotModel($conn);
+            $hasTerm = !empty($term['academic_year']) && !empty($term['semester']);
+            return [
+                'key' => 'teacher_id',
+                'partial' => false,
+                'columns' => sameColumns(['first_name', 'last_name', 'middle_name', 'email', 'department', 'position',
+                                          'status', 'zone', 'notes', 'enrolled_students',
+                                          'p1_failed', 'p1_percent', 'p1_category', 'p2_failed', 'p2_percent', 'p2_category',
+                                          'p3_failed', 'p3_percent', 'p3_category']),
+                'build' => 'teacherRecord',
+                'find' => function ($record) use ($teacher, $snapshots, $term, $hasTerm) {
+                    $existing = $teacher->findByTeacherId($record['teacher_id']);
+                    if (!$existing || !$hasTerm) {
+                        return $existing;
+                    }
+                    // Period figures are compared with what is stored for this term,
+                    // not with the legacy columns of whichever term was imported last
+                    foreach (TeacherSnapshotModel::PERIODS as $period) {
+                        $existing["{$period}_failed"] = null;
+                        $existing["{$period}_percent"] = null;
+                        $existing["{$period}_category"] = null;
+                    }
+                    foreach ($snapshots->forTeacher((int)$existing['id']) as $snapshot) {
+                        if ($snapshot['academic_year'] === $term['academic_year'] && $snapshot['semester'] === $term['semester']) {
+                            $existing["{$snapshot['period']}_failed"] = $snapshot['failed'];
+                            $existing["{$snapshot['period']}_percent"] = $snapshot['percent'];
+                            $existing["{$snapshot['period']}_category"] = $snapshot['category'];
+                            $existing['enrolled_students'] = $snapshot['enrolled_students'];
                         }
                     }
-                    
-                    // Validate required fields
-                    if (empty($teacherData['teacher_id']) || empty($teacherData['first_name'])) {
-                        throw new Exception('Missing required fields: FacultyNo/teacher_id and FacultyName/first_name');
+                    return $existing;
+                },
+                'write' => function ($record) use ($teacher, $snapshots, $term, $hasTerm) {
+                    // Upserts on teacher_id
+                    $teacher->create($record);
+                    if ($hasTerm) {
+                        $saved = $teacher->findByTeacherId($record['teacher_id']);
+                        $snapshots->recordFromRow((int)$saved['id'], $term['academic_year'], $term['semester'], $record);
                     }
-                    
-                    $teacher->create($teacherData);
-                    $count++;
-                } catch (Exception $e) {
-                    $errors[] = "Row " . ($count + 1) . ": " . $e->getMessage();
-                }
-            }
-            break;
-            
+                },
+            ];
+
         case 'subjects':
-            $subject = new SubjectModel($conn);
-            foreach ($data as $row) {
-                try {
-                    $subjectData = [
-                        'subject_code' => $row['subject_code'] ?? '',
-                        'subject_name' => $row['subject_name'] ?? '',
+            $subject = new Subject($conn);
+            return [
+                'key' => 'subject_code',
+                'partial' => false,
+                'columns' => [
+                    'subject_name' => 'name',
+                    'description' => 'description',
+                    'units' => 'units',
+                    'year_level' => 'grade_level',
+                    'semester' => 'semester',
+                    'program_name' => 'program',
+                    'cutoff_grade' => 'cutoff',
+                ],
+                'build' => function ($row) use ($term) {
+                    if (empty($row['subject_code']) || empty($row['subject_name'])) {
+                        throw new Exception('Missing required fields: subject_code and subject_name');
+                    }
+                    return [
+                        'subject_code' => $row['subject_code'],
+                        'subject_name' => $row['subject_name'],
                         'description' => $row['description'] ?? '',
                         'units' => (int)($row['units'] ?? 3),
                         'year_level' => (int)($row['year_level'] ?? 1),
-                        'semester' => $row['semester'] ?? 'Y1S1',
-                        'program_name' => $row['program'] ?? 'BSIT',
-                        'cutoff_grade' => (float)($row['cutoff'] ?? 60.0)
+                        'semester' => ($row['semester'] ?? '') ?: ($term['semester'] ?? 'Y1S1'),
+                        'program_name' => ($row['program'] ?? '') ?: 'BSIT',
+                        'cutoff_grade' => (float)(($row['cutoff'] ?? '') ?: 60.0),
                     ];
-                    $subject->create($subjectData);
-                    $count++;
-                } catch (Exception $e) {
-                    $errors[] = "Row " . ($count + 1) . ": " . $e->getMessage();
-                }
-            }
-            break;
+                },
+                'find' => fn ($record) => $subject->findByCode($record['subject_code']),
+                'write' => function ($record, $existing) use ($subject) {
+                    if ($existing) {
+                        $subject->update($existing['id'], $record);
+                    } else {
+                        $subject->create($record);
+                    }
+                },
+            ];
+
+        case 'programs':
+            $program = new ProgramModel($conn);
+            return [
+                'key' => 'program_code',
+                'partial' => true,
+                'columns' => sameColumns(['program_name', 'description', 'duration_years']),
+                'build' => function ($row) {
+                    if (empty($row['program_code']) || empty($row['program_name'])) {
+                        throw new Exception('Missing required fields: program_code and program_name');
+                    }
+                    return [
+                        'program_code' => $row['program_code'],
+                        'program_name' => $row['program_name'],
+                        'description' => ($row['description'] ?? '') ?: null,
+                        'duration_years' => (int)($row['duration_years'] ?? 4) ?: 4,
+                    ];
+                },
+                'find' => fn ($record) => $program->findByCode($record['program_code']),
+                'write' => function ($record, $existing) use ($program) {
+                    if ($existing) {
+                        $program->update((int)$existing['id'], $record);
+                    } else {
+                        $program->create($record);
+                    }
+                },
+            ];
+    }
+
+    throw new Exception("Unknown upload type: {$type}");
+}
+
+// Teacher performance row, in either the registrar's export format or ours
+function teacherRecord($row) {
+    $teacherData = [
+        'teacher_id' => $row['FacultyNo'] ?? $row['teacher_id'] ?? '',
+        'first_name' => $row['FacultyName'] ?? $row['first_name'] ?? '',
+        'last_name' => $row['last_name'] ?? '', // Extracted from FacultyName when given
+        'middle_name' => null,
+        'email' => ($row['email'] ?? '') ?: null,
+        'department' => ($row['department'] ?? '') ?: 'General',
+        'position' => ($row['position'] ?? '') ?: null,
+        'status' => ($row['status'] ?? '') ?: 'Active',
+        'zone' => ($row['zone'] ?? '') ?: 'green',
+        'notes' => ($row['notes'] ?? '') ?: null,
+        'enrolled_students' => (int)($row['EnrolledStudents'] ?? $row['enrolled_students'] ?? 0),
+    ];
+    // A sheet may carry one period only (P3 is only in 2nd semester sheets), so
+    // periods whose cells are all missing or blank are left out rather than
+    // zeroed, and the term's stored snapshot for them is kept
+    foreach (TeacherSnapshotModel::PERIODS as $period) {
+        $prefix = strtoupper($period);
+        $failed = $row["{$prefix}_Failed"] ?? $row["{$period}_failed"] ?? '';
+        $percent = $row["{$prefix}_Percent"] ?? $row["{$period}_percent"] ?? '';
+        $category = $row["{$prefix}_Category"] ?? $row["{$period}_category"] ?? '';
+        if (trim((string)$failed) === '' && trim((string)$percent) === '' && trim((string)$category) === '') {
+            continue;
+        }
+        $teacherData["{$period}_failed"] = (int)$failed;
+        $teacherData["{$period}_percent"] = (float)$percent;
+        $teacherData["{$period}_category"] = trim((string)$category) !== '' ? $category : null;
+    }
+    
+    // Extract first and last name from FacultyName if using new format
+    $fullName = $row['FacultyName'] ?? $row['full_name'] ?? '';
+    if (!empty($fullName)) {
+        $nameParts = explode(' ', trim($fullName));
+        if (count($nameParts) >= 2) {
+            $teacherData['last_name'] = array_pop($nameParts); // Last part is last name
+            $teacherData['first_name'] = implode(' ', $nameParts); // Everything else is first name
+        } else {
+            $teacherData['first_name'] = $fullName;
+            $teacherData['last_name'] = '';
+        }
     }
     
-    return ['count' => $count, 'errors' => $errors];
+    // Validate required fields
+    if (empty($teacherData['teacher_id']) || empty($teacherData['first_name'])) {
+        throw new Exception('Missing required fields: FacultyNo/teacher_id and FacultyName/first_name');
+    }
+
+    return $teacherData;
+}
+
+function sameColumns(array $fields) {
+    return array_combine($fields, $fields);
+}
+
+// Fields of $record whose value differs from the stored row, as {field, from, to}
+function recordChanges(array $existing, array $record, array $columns, bool $partial) {
+    $changes = [];
+    foreach ($columns as $field => $column) {
+        if (!array_key_exists($field, $record) || !array_key_exists($column, $existing)) {
+            continue;
+        }
+        $new = $record[$field];
+        if ($partial && $new === null) {
+            continue;
+        }
+        if (!sameValue($existing[$column], $new)) {
+            $changes[] = ['field' => $field, 'from' => $existing[$column], 'to' => $new];
+        }
+    }
+    return $changes;
+}
+
+// Loose comparison between a stored column and an imported value: DECIMAL
+// columns come back as "9.80", booleans as 0/1, and empty means null
+function sameValue($stored, $imported) {
+    if (is_bool($imported)) {
+        $imported = (int)$imported;
+    }
+    if (($stored === null || $stored === '') && ($imported === null || $imported === '')) {
+        return true;
+    }
+    if (is_numeric($stored) && is_numeric($imported)) {
+        return abs((float)$stored - (float)$imported) < 0.0001;
+    }
+    return (string)$stored === (string)$imported;
+}
+
+// Resolves a program code such as "BSIT" to its id; null when unknown
+function programIdFor($conn, $code) {
+    if ($code === null || $code === '') {
+        return null;
+    }
+    $stmt = $conn->prepare('SELECT id FROM programs WHERE program_code = ?');
+    $stmt->execute([$code]);
+    $id = $stmt->fetchColumn();
+    return $id === false ? null : (int)$id;
 }
 ?>
\ No newline at end of file
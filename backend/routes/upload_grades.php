@@ -13,6 +13,12 @@ require_once '../models/Student.php';
 require_once '../models/Subject.php';
 require_once '../models/Teacher.php';
 require_once '../models/Grade.php';
+require_once '../models/Program.php';
+require_once '../config/auth.php';
+require_once '../models/AuditLog.php';
+require_once '../models/StudentStanding.php';
+
+$user = Auth::requirePermission('grades.import');
 
 // Check if file was uploaded
 if (!isset($_FILES['file']) || $_FILES['file']['error'] !== UPLOAD_ERR_OK) {
@@ -22,6 +28,7 @@ if (!isset($_FILES['file']) || $_FILES['file']['error'] !== UPLOAD_ERR_OK) {
 }
 
 $file = $_FILES['file'];
+$conn = (new DatabaseConnection())->pdo();
 
 // Validate file type
 $allowedTypes = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel', 'text/csv', 'text/plain'];
@@ -56,18 +63,31 @@ if (!move_uploaded_file($file['tmp_name'], $filePath)) {
 
 try {
     $data = parseGradeData($filePath);
-    $result = processGradeData($data, $conn);
+    // Every record this sheet creates or updates is logged under one batch id
+    $audit = [
+        'log' => new AuditLogModel($conn),
+        'actor' => $user,
+        'batch' => bin2hex(random_bytes(8)),
+        'context' => $file['name'],
+    ];
+    $result = processGradeData($data, $conn, $audit);
     
     // Clean up uploaded file
     unlink($filePath);
     
     echo json_encode([
         'success' => true,
-        'message' => "Successfully imported {$result['count']} grade records",
-        'count' => $result['count'],
+        'message' => "Imported {$result['created']} new and {$result['updated']} updated grade records",
+        'count' => $result['created'] + $result['updated'],
+        'grades_created' => $result['created'],
+        'grades_updated' => $result['updated'],
         'students_created' => $result['students_created'],
         'subjects_created' => $result['subjects_created'],
         'teachers_created' => $result['teachers_created'],
+        // Every student, subject and teacher the sheet touched, for linking from the UI
+        'students' => array_values($result['students']),
+        'subjects' => array_values($result['subjects']),
+        'teachers' => array_values($result['teachers']),
         'errors' => $result['errors'] ?? []
     ]);
     
@@ -81,37 +101,30 @@ try {
     echo json_encode(['error' => $e->getMessage()]);
 }
 
+// Column order of the registrar grade sheet; the file has no header row
+const GRADE_SHEET_COLUMNS = [
+    'academic_year', 'college', 'program', 'student_id', 'student_name', 'middle_name',
+    'year_semester', 'subject_code', 'subject_name', 'subject_type', 'units', 'section',
+    'teacher_name', 'schedule', 'student_type', 'enrollment_type', 'gender', 'grade',
+    'remarks', 'other1', 'other2',
+];
+
 function parseGradeData($filePath) {
     $data = [];
     $handle = fopen($filePath, 'r');
     
     if ($handle) {
-        while (($line = fgetcsv($handle)) !== false) {
-            if (count($line) >= 15) { // Ensure we have enough columns
-                $data[] = [
-                    'academic_year' => trim($line[0]),
-                    'college' => trim($line[1]),
-                    'program' => trim($line[2]),
-                    'student_id' => trim($line[3]),
-                    'student_name' => trim($line[4]),
-                    'middle_name' => trim($line[5]),
-                    'year_semester' => trim($line[6]),
-                    'subject_code' => trim($line[7]),
-                    'subject_name' => trim($line[8]),
-                    'subject_type' => trim($line[9]),
-                    'units' => (int)trim($line[10]),
-                    'section' => trim($line[11]),
-                    'teacher_name' => trim($line[12]),
-                    'schedule' => trim($line[13]),
-                    'student_type' => trim($line[14]),
-                    'enrollment_type' => trim($line[15]),
-                    'gender' => trim($line[16]),
-                    'grade' => trim($line[17]),
-                    'remarks' => trim($line[18]),
-                    'other1' => trim($line[19]),
-                    'other2' => trim($line[20])
-                ];
+        $line = 0;
+        while (($cells = fgetcsv($handle)) !== false) {
+            $line++;
+            if (count($cells) < 15) { // Ensure we have enough columns
+                continue;
             }
+            $cells = array_pad(array_slice($cells, 0, count(GRADE_SHEET_COLUMNS)), count(GRADE_SHEET_COLUMNS), '');
+            $row = array_combine(GRADE_SHEET_COLUMNS, array_map('trim', $cells));
+            $row['units'] = (int)$row['units'];
+            $row['line'] = $line;
+            $data[] = $row;
         }
         fclose($handle);
     }
@@ -119,140 +132,195 @@ function parseGradeData($filePath) {
     return $data;
 }
 
-function processGradeData($data, $conn) {
-    $count = 0;
+function processGradeData($data, $conn, $audit = null) {
+    $created = 0;
+    $updated = 0;
     $studentsCreated = 0;
     $subjectsCreated = 0;
     $teachersCreated = 0;
     $errors = [];
     
     $student = new StudentModel($conn);
-    $subject = new SubjectModel($conn);
+    $subject = new Subject($conn);
     $teacher = new TeacherModel($conn);
     $grade = new GradeModel($conn);
+    $programs = new ProgramModel($conn);
+    $logSave = function (string $entity, int $id, ?array $before, ?array $saved) use ($audit) {
+        if ($audit && $saved) {
+            $audit['log']->recordDiff($audit['actor'], $entity, $id, $before, $saved, 'import', $audit['batch'], $audit['context']);
+        }
+    };
     
-    // Track existing records to avoid duplicates
-    $existingStudents = [];
-    $existingSubjects = [];
-    $existingTeachers = [];
+    // Records touched by the sheet, keyed by their natural key
+    $students = [];
+    $subjects = [];
+    $teachers = [];
     
     foreach ($data as $row) {
         try {
+            if ($row['student_id'] === '' || $row['subject_code'] === '') {
+                throw new Exception('Missing student ID or subject code');
+            }
+            $semester = extractSemester($row['year_semester']);
+
             // Process student
             $studentId = $row['student_id'];
-            if (!isset($existingStudents[$studentId])) {
-                $studentName = explode(' ', $row['student_name'], 2);
-                $firstName = $studentName[0] ?? '';
-                $lastName = $studentName[1] ?? '';
-                
-                $studentData = [
-                    'student_id' => $studentId,
-                    'first_name' => $firstName,
-                    'last_name' => $lastName,
-                    'email' => strtolower(str_replace(' ', '.', $row['student_name'])) . '@school.edu',
-                    'program' => $row['program'],
-                    'year_level' => extractYearLevel($row['year_semester']),
-                    'status' => 'active',
-                    'gpa' => null,
-                    'at_risk' => 0,
-                    'notes' => null,
-                    'grade_level' => extractGradeLevel($row['year_semester'])
-                ];
-                
-                try {
-                    $student->create($studentData);
+            if (!isset($students[$studentId])) {
+                [$firstName, $lastName] = splitName($row['student_name']);
+                $existing = $student->findByStudentId($studentId);
+                if ($existing) {
+                    $id = (int)$existing['id'];
+                } else {
+                    $program = $row['program'] !== '' ? $programs->findByCode($row['program']) : null;
+                    $id = $student->create([
+                        'student_id' => $studentId,
+                        'first_name' => $firstName,
+                        'last_name' => $lastName,
+                        'middle_name' => $row['middle_name'] ?: null,
+                        'email' => strtolower(str_replace(' ', '.', $row['student_name'])) . '@school.edu',
+                        'program_id' => $program ? (int)$program['id'] : null,
+                        'year_level' => extractGradeLevel($row['year_semester']),
+                        'academic_year' => $row['academic_year'] ?: null,
+                        'semester' => $semester,
+                        'status' => 'active',
+                    ]);
+                    $logSave('students', $id, null, $student->find($id));
                     $studentsCreated++;
-                } catch (Exception $e) {
-                    // Student might already exist, continue
                 }
-                
-                $existingStudents[$studentId] = true;
+                $students[$studentId] = [
+                    'id' => $id,
+                    'student_id' => $studentId,
+                    'name' => $existing ? trim("{$existing['first_name']} {$existing['last_name']}") : $row['student_name'],
+                    'created' => !$existing,
+                ];
             }
             
             // Process teacher
             $teacherName = $row['teacher_name'];
-            if (!isset($existingTeachers[$teacherName])) {
-                $teacherNameParts = explode(' ', $teacherName, 2);
-                $teacherFirstName = $teacherNameParts[0] ?? '';
-                $teacherLastName = $teacherNameParts[1] ?? '';
-                
-                $teacherData = [
-                    'first_name' => $teacherFirstName,
-                    'last_name' => $teacherLastName,
-                    'email' => strtolower(str_replace(' ', '.', $teacherName)) . '@school.edu',
-                    'department' => 'Information Technology'
-                ];
-                
-                try {
-                    $teacher->create($teacherData);
+            if ($teacherName !== '' && !isset($teachers[$teacherName])) {
+                [$teacherFirstName, $teacherLastName] = splitName($teacherName);
+                $existing = $teacher->findByName($teacherFirstName, $teacherLastName);
+                if ($existing) {
+                    $id = (int)$existing['id'];
+                } else {
+                    // The sheet has no faculty number, so one is derived from the name;
+                    // the same name always maps to the same placeholder
+                    $teacherId = 'GS-' . strtoupper(substr(md5(strtolower($teacherName)), 0, 8));
+                    $teacher->create([
+                        'teacher_id' => $teacherId,
+                        'first_name' => $teacherFirstName,
+                        'last_name' => $teacherLastName,
+                        'email' => strtolower(str_replace(' ', '.', $teacherName)) . '@school.edu',
+                        'department' => $row['college'] ?: 'General',
+                    ]);
+                    $id = (int)$teacher->findByTeacherId($teacherId)['id'];
+                    $logSave('teachers', $id, null, $teacher->find($id));
                     $teachersCreated++;
-                } catch (Exception $e) {
-                    // Teacher might already exist, continue
                 }
-                
-                $existingTeachers[$teacherName] = true;
+                $teachers[$teacherName] = ['id' => $id, 'name' => $teacherName, 'created' => !$existing];
             }
             
             // Process subject
             $subjectCode = $row['subject_code'];
-            if (!isset($existingSubjects[$subjectCode])) {
-                $subjectData = [
-                    'subject_code' => $subjectCode,
-                    'subject_name' => $row['subject_name'],
-                    'description' => $row['subject_name'],
-                    'units' => $row['units'],
-                    'year_level' => extractGradeLevel($row['year_semester']),
-                    'semester' => $row['year_semester'],
-                    'program_name' => $row['program'],
-                    'cutoff_grade' => 60.0
-                ];
-                
-                try {
-                    $subject->create($subjectData);
+            if (!isset($subjects[$subjectCode])) {
+                $existing = $subject->findByCode($subjectCode);
+                if ($existing) {
+                    $id = (int)$existing['id'];
+                } else {
+                    $id = (int)$subject->create([
+                        'subject_code' => $subjectCode,
+                        'subject_name' => $row['subject_name'],
+                        'description' => $row['subject_name'],
+                        'units' => $row['units'],
+                        'year_level' => extractGradeLevel($row['year_semester']),
+                        'semester' => $row['year_semester'],
+                        'program_name' => $row['program'] ?: 'BSIT',
+                        'cutoff_grade' => 60.0
+                    ]);
+                    $logSave('subjects', $id, null, $subject->find($id));
                     $subjectsCreated++;
-                } catch (Exception $e) {
-                    // Subject might already exist, continue
                 }
-                
-                $existingSubjects[$subjectCode] = true;
+                $subjects[$subjectCode] = [
+                    'id' => $id,
+                    'subject_code' => $subjectCode,
+                    'name' => $existing['name'] ?? $row['subject_name'],
+                    'created' => !$existing,
+                ];
             }
             
             // Process grade
             $gradeValue = $row['grade'];
-            if ($gradeValue !== 'NA' && $gradeValue !== '-' && !empty($gradeValue)) {
-                $gradeData = [
-                    'student_id' => $studentId,
-                    'subject_code' => $subjectCode,
-                    'academic_year' => $row['academic_year'],
-                    'semester' => $row['year_semester'],
-                    'midterm_grade' => null,
+            if ($gradeValue !== 'NA' && $gradeValue !== '-' && $gradeValue !== '') {
+                if (!is_numeric($gradeValue)) {
+                    throw new Exception("Grade \"{$gradeValue}\" is not a number");
+                }
+                $remarks = strtolower($row['remarks']);
+                $passed = in_array($remarks, ['passed', 'failed'], true) ? $remarks === 'passed' : (float)$gradeValue >= 60;
+                $values = [
                     'final_grade' => (float)$gradeValue,
                     'final_rating' => (float)$gradeValue,
-                    'status' => (float)$gradeValue >= 60 ? 'Passed' : 'Failed'
+                    'status' => $passed ? 'Passed' : 'Failed',
                 ];
-                
-                try {
-                    $grade->create($gradeData);
-                    $count++;
-                } catch (Exception $e) {
-                    $errors[] = "Grade for {$studentId} in {$subjectCode}: " . $e->getMessage();
+                // Re-uploading a sheet updates the grades it already imported
+                $before = $grade->findByKey($students[$studentId]['id'], $subjects[$subjectCode]['id'], $row['academic_year'], $semester);
+                if ($before) {
+                    $gradeId = (int)$before['id'];
+                    $grade->update($gradeId, $values);
+                    $logSave('grades', $gradeId, $before, $grade->find($gradeId));
+                    $updated++;
+                } else {
+                    $gradeId = $grade->create($values + [
+                        'student_id' => $students[$studentId]['id'],
+                        'subject_id' => $subjects[$subjectCode]['id'],
+                        'academic_year' => $row['academic_year'],
+                        'semester' => $semester,
+                        'midterm_grade' => null,
+                    ]);
+                    $logSave('grades', $gradeId, null, $grade->find($gradeId));
+                    $created++;
                 }
             }
             
         } catch (Exception $e) {
-            $errors[] = "Row " . ($count + 1) . ": " . $e->getMessage();
+            $errors[] = "Row {$row['line']}: " . $e->getMessage();
         }
     }
+
+    // Zones and at-risk flags follow the new grades, see StudentStandingModel
+    $standings = new StudentStandingModel($conn);
+    foreach ($students as $touched) {
+        $standings->refresh((int)$touched['id'], $audit['actor'] ?? null, 'import', $audit['batch'] ?? null, $audit['context'] ?? null);
+    }
     
     return [
-        'count' => $count,
+        'created' => $created,
+        'updated' => $updated,
         'students_created' => $studentsCreated,
         'subjects_created' => $subjectsCreated,
         'teachers_created' => $teachersCreated,
+        'students' => $students,
+        'subjects' => $subjects,
+        'teachers' => $teachers,
         'errors' => $errors
     ];
 }
 
+// "DELA CRUZ, JUAN" or "JUAN DELA CRUZ" -> [first, last]
+function splitName($name) {
+    if (str_contains($name, ',')) {
+        [$last, $first] = array_map('trim', explode(',', $name, 2));
+        return [$first, $last];
+    }
+    $parts = explode(' ', trim($name));
+    $last = count($parts) > 1 ? array_pop($parts) : '';
+    return [implode(' ', $parts), $last];
+}
+
+// "Y1S1" -> "1st", "Y2S2" -> "2nd"; the semester the rest of the app filters by
+function extractSemester($yearSemester) {
+    return strpos($yearSemester, 'S2') !== false ? '2nd' : '1st';
+}
+
 function extractYearLevel($yearSemester) {
     if (strpos($yearSemester, 'Y1') !== false) return '1st Year';
     if (strpos($yearSemester, 'Y2') !== false) return '2nd Year';
@@ -0,0 +1,98 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/auth.php';
+require_once __DIR__ . '/../models/AuditLog.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: GET, POST, PUT, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+$pdo = (new DatabaseConnection())->pdo();
+$admin = Auth::requirePermission('users.manage', $pdo);
+$model = new UserModel($pdo);
+$audit = new AuditLogModel($pdo);
+$method = $_SERVER['REQUEST_METHOD'] ?? 'GET';
+
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
+
+// Accounts are created through register.php; this route lists and administers them
+try {
+    if ($method === 'GET') {
+        echo json_encode($model->all()); exit;
+    }
+
+    if (!isset($_GET['id'])) { http_response_code(400); echo json_encode(['error' => 'Missing user ID']); exit; }
+    $id = intval($_GET['id']);
+    $user = $model->find($id);
+    if (!$user) { http_response_code(404); echo json_encode(['error' => 'User not found']); exit; }
+    $self = $id === (int)$admin['id'];
+
+    // POST ?id= issues a fresh invite link, e.g. to let the user reset their own password
+    if ($method === 'POST') {
+        if (!empty($user['disabled_at'])) { http_response_code(422); echo json_encode(['error' => 'Enable the account before inviting it']); exit; }
+        echo json_encode($model->issueInvite($id)); exit;
+    }
+
+    if ($method === 'PUT') {
+        $data = body();
+        // Admins cannot lock themselves out
+        if ($self && (!empty($data['disabled']) || (isset($data['role']) && $data['role'] !== $user['role']))) {
+            http_response_code(422); echo json_encode(['error' => 'You cannot disable your own account or change your own role']); exit;
+        }
+        if (isset($data['role']) && !Permissions::isRole((string)$data['role'])) {
+            http_response_code(422); echo json_encode(['error' => 'Unknown role']); exit;
+        }
+        if (isset($data['password'])) {
+            $problem = UserModel::passwordProblem((string)$data['password']);
+            if ($problem) { http_response_code(422); echo json_encode(['error' => $problem]); exit; }
+        }
+
+        // Audited without the password hash; a reset shows up as its own change
+        $snapshot = fn () => UserModel::managedFields($model->find($id)) + ['program_ids' => implode(',', $model->programIds($id))];
+        $before = $snapshot();
+        // Created before the transaction: creating its table would commit it
+        $sessions = new SessionModel($pdo);
+        $pdo->beginTransaction();
+        $model->update($id, $data);
+        if (array_key_exists('program_ids', $data)) {
+            $model->setPrograms($id, is_array($data['program_ids']) ? $data['program_ids'] : []);
+        }
+        if (isset($data['password'])) {
+            $model->setPassword($id, (string)$data['password']);
+            // Sessions opened with the old password end
+            $sessions->revokeAllForUser($id);
+        }
+        if (array_key_exists('disabled', $data)) {
+            $model->setDisabled($id, (bool)$data['disabled']);
+            if ($data['disabled']) {
+                $sessions->revokeAllForUser($id);
+            }
+        }
+        $changes = AuditLogModel::diff($before, $snapshot());
+        if (isset($data['password'])) {
+            $changes[] = ['field' => 'password', 'from' => null, 'to' => 'reset'];
+        }
+        $audit->record($admin, 'users', $id, $user['username'], 'update', $changes);
+        $pdo->commit();
+        echo json_encode(['success' => true]); exit;
+    }
+
+    http_response_code(405); echo json_encode(['error' => 'Method not allowed']);
+} catch (Throwable $e) {
+    if ($pdo->inTransaction()) {
+        $pdo->rollBack();
+    }
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
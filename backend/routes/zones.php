@@ -0,0 +1,41 @@
+<?php
+declare(strict_types=1);
+
+require_once __DIR__ . '/../config/auth.php';
+require_once __DIR__ . '/../models/ZoneRecalculation.php';
+
+header('Content-Type: application/json');
+header('Access-Control-Allow-Origin: *');
+header('Access-Control-Allow-Methods: POST, OPTIONS');
+header('Access-Control-Allow-Headers: Content-Type, Authorization');
+
+if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
+    http_response_code(200);
+    exit;
+}
+
+function body(): array {
+    $raw = file_get_contents('php://input') ?: '';
+    $data = json_decode($raw, true);
+    return is_array($data) ? $data : [];
+}
+
+// POST {academic_year, semester, dry_run} recalculates every zone for the term
+try {
+    $pdo = (new DatabaseConnection())->pdo();
+    $user = Auth::requirePermission('zones.recalculate', $pdo);
+    if (($_SERVER['REQUEST_METHOD'] ?? 'GET') !== 'POST') {
+        http_response_code(405); echo json_encode(['error' => 'Method not allowed']); exit;
+    }
+    $data = body();
+    $academicYear = trim((string)($data['academic_year'] ?? ''));
+    $semester = trim((string)($data['semester'] ?? ''));
+    if ($academicYear === '' || $semester === '') {
+        http_response_code(422); echo json_encode(['error' => 'Choose the academic year and semester to recalculate']); exit;
+    }
+    $recalculator = new ZoneRecalculator($pdo);
+    echo json_encode($recalculator->run($academicYear, $semester, $user, !empty($data['dry_run'])));
+} catch (Throwable $e) {
+    http_response_code(500);
+    echo json_encode(['error' => $e->getMessage()]);
+}
@@ -1,25 +1,61 @@
 import { Toaster } from "./components/ui/toaster";
 import { Toaster as Sonner } from "./components/ui/sonner";
 import { TooltipProvider } from "./components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import Layout from "./components/Layout";
 import Dashboard from "./pages/Dashboard";
 import Students from "./pages/Students";
+import AtRisk from "./pages/AtRisk";
 import Teachers from "./pages/Teachers";
 import Subjects from "./pages/Subjects";
 import Programs from "./pages/Programs";
 import Grades from "./pages/Grades";
 import TeacherReports from "./pages/TeacherReports";
+import TeacherDetail from "./pages/TeacherDetail";
+import StudentDetail from "./pages/StudentDetail";
+import Settings from "./pages/Settings";
 import Login from "./pages/Login";
+import AcceptInvite from "./pages/AcceptInvite";
+import Users from "./pages/Users";
+import Audit from "./pages/Audit";
 import NotFound from "./pages/NotFound";
+import Forbidden from "./pages/Forbidden";
+import { toast } from "./hooks/use-toast";
+import { errorMessage, isAbortError } from "./lib/api";
+import { useSession } from "./hooks/use-session";
+import { hasPermission, type Permission } from "./lib/permissions";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Serve cached lists instantly when switching pages and refresh them in the background
+      staleTime: 30_000,
+      refetchOnWindowFocus: true,
+      retry: 1,
+    },
+  },
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      // Queries marked silent show their own error state
+      if (isAbortError(error) || query.meta?.silent) return;
+      toast({
+        title: "Failed to load data",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  }),
+});
 
-// Protected Route component
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const user = localStorage.getItem('user');
-  return user ? <>{children}</> : <Navigate to="/login" replace />;
+// Sends signed-out users to /login, remembering where they were headed, and
+// turns away users whose role lacks the page's permission
+const ProtectedRoute = ({ children, permission }: { children: React.ReactNode; permission?: Permission }) => {
+  const session = useSession();
+  const location = useLocation();
+  if (!session) return <Navigate to="/login" state={{ from: location }} replace />;
+  if (permission && !hasPermission(session.user, permission)) return <Forbidden />;
+  return <>{children}</>;
 };
 
 const App = () => (
@@ -30,6 +66,7 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/invite/:token" element={<AcceptInvite />} />
           <Route path="/" element={
             <ProtectedRoute>
               <Layout>
@@ -38,47 +75,89 @@ const App = () => (
             </ProtectedRoute>
           } />
           <Route path="/students" element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="students.view">
               <Layout>
                 <Students />
               </Layout>
             </ProtectedRoute>
           } />
+          <Route path="/students/:id" element={
+            <ProtectedRoute permission="students.view">
+              <Layout>
+                <StudentDetail />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/at-risk" element={
+            <ProtectedRoute permission="students.view">
+              <Layout>
+                <AtRisk />
+              </Layout>
+            </ProtectedRoute>
+          } />
           <Route path="/teachers" element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="teachers.view">
               <Layout>
                 <Teachers />
               </Layout>
             </ProtectedRoute>
           } />
+          <Route path="/teachers/:id" element={
+            <ProtectedRoute permission="teachers.view">
+              <Layout>
+                <TeacherDetail />
+              </Layout>
+            </ProtectedRoute>
+          } />
           <Route path="/reports" element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="reports.view">
               <Layout>
                 <TeacherReports />
               </Layout>
             </ProtectedRoute>
           } />
           <Route path="/subjects" element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="subjects.view">
               <Layout>
                 <Subjects />
               </Layout>
             </ProtectedRoute>
           } />
           <Route path="/programs" element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="programs.view">
               <Layout>
                 <Programs />
               </Layout>
             </ProtectedRoute>
           } />
           <Route path="/grades" element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="grades.view">
               <Layout>
                 <Grades />
               </Layout>
             </ProtectedRoute>
           } />
+          <Route path="/settings" element={
+            <ProtectedRoute permission="policies.manage">
+              <Layout>
+                <Settings />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/users" element={
+            <ProtectedRoute permission="users.manage">
+              <Layout>
+                <Users />
+              </Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/audit" element={
+            <ProtectedRoute permission="audit.view">
+              <Layout>
+                <Audit />
+              </Layout>
+            </ProtectedRoute>
+          } />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
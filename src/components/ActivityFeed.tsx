@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronRight, Loader2 } from "lucide-react";
+import { useActivity } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { ZONE_LABELS } from "@/lib/classification";
+import { cn } from "@/lib/utils";
+import type { ActivityEvent, ActivityType, Zone } from "@/lib/schemas";
+
+const TYPES: { value: ActivityType | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "zone", label: "Zone changes" },
+  { value: "import", label: "Imports" },
+  { value: "edit", label: "Edits" },
+];
+
+const ZONE_DOTS: Record<Zone, string> = { green: "bg-zone-green", yellow: "bg-zone-yellow", red: "bg-zone-red" };
+
+const NOUNS: Record<string, string> = {
+  students: "student",
+  teachers: "teacher",
+  subjects: "subject",
+  programs: "program",
+  grades: "grade",
+  policies: "policy",
+  users: "user",
+};
+
+const describe = (event: ActivityEvent) => {
+  const name = event.entity_label ?? `${NOUNS[event.entity ?? ""] ?? "record"} #${event.entity_id}`;
+  if (event.type === "zone") {
+    if (!event.zone_from && event.zone_to) return `${name} was placed in ${ZONE_LABELS[event.zone_to]}`;
+    if (event.zone_from && !event.zone_to) return `${name} was taken out of ${ZONE_LABELS[event.zone_from]}`;
+    if (event.zone_from && event.zone_to) {
+      return `${name} moved from ${ZONE_LABELS[event.zone_from]} to ${ZONE_LABELS[event.zone_to]}`;
+    }
+    return `${name} changed zone`;
+  }
+  if (event.type === "import") {
+    const counts = [
+      event.created ? `${event.created} new` : null,
+      event.updated ? `${event.updated} updated` : null,
+    ].filter(Boolean);
+    const records = event.entities.join(", ") || "records";
+    return `${event.context ?? "A file"} imported into ${records}${counts.length ? ` (${counts.join(", ")})` : ""}`;
+  }
+  const noun = NOUNS[event.entity ?? ""] ?? "record";
+  if (event.action === "create") return `Added ${noun} ${name}`;
+  if (event.action === "delete") return `Deleted ${noun} ${name}`;
+  const fields = event.fields.map((field) => field.replace(/_/g, " ")).join(", ");
+  return `Updated ${noun} ${name}${fields ? `: ${fields}` : ""}`;
+};
+
+const dotClass = (event: ActivityEvent) => {
+  if (event.type === "zone") return event.zone_to ? ZONE_DOTS[event.zone_to] : "bg-muted-foreground";
+  return event.type === "import" ? "bg-primary" : "bg-accent";
+};
+
+/**
+ * Recent zone transitions, imports and edits, built from the audit log.
+ * Students and teachers that still exist link to their records.
+ */
+const ActivityFeed = () => {
+  const { search } = useTerm();
+  const [type, setType] = useState<ActivityType | "all">("all");
+  // e.g. the date of the last committee meeting
+  const [since, setSince] = useState("");
+  const { data: events = [], isLoading, isError } = useActivity({
+    type: type === "all" ? undefined : type,
+    since: since || undefined,
+    limit: 15,
+  });
+
+  const linkTo = (event: ActivityEvent) => {
+    if (event.action === "delete") return null;
+    if (event.entity === "students" && event.student_number && event.entity_id) {
+      return { pathname: `/students/${event.entity_id}`, search };
+    }
+    if (event.entity === "teachers" && event.entity_id) {
+      return { pathname: `/teachers/${event.entity_id}`, search };
+    }
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Recent Activity</CardTitle>
+            <CardDescription>
+              Zone changes, imports and edits, newest first. <Link to="/audit" className="underline">Full audit log</Link>
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="activity_since" className="text-sm whitespace-nowrap">Since</Label>
+            <Input
+              id="activity_since"
+              type="date"
+              value={since}
+              onChange={(e) => setSince(e.target.value)}
+              className="w-40"
+            />
+          </div>
+        </div>
+        <Tabs value={type} onValueChange={(value) => setType(value as ActivityType | "all")}>
+          <TabsList>
+            {TYPES.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value}>{label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading activity...
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-destructive">Could not load recent activity.</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has happened{since ? " since then" : " yet"}.</p>
+        ) : (
+          <div className="space-y-1">
+            {events.map((event) => {
+              const to = linkTo(event);
+              const content = (
+                <>
+                  <div className={cn("w-2 h-2 rounded-full shrink-0", dotClass(event))} />
+                  <span
+                    className="text-muted-foreground w-28 shrink-0"
+                    title={new Date(event.created_at).toLocaleString()}
+                  >
+                    {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                  </span>
+                  <span className="flex-1">
+                    {describe(event)}
+                    {event.username && <span className="text-muted-foreground"> by {event.username}</span>}
+                  </span>
+                  {to && <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />}
+                </>
+              );
+              return to ? (
+                <Link
+                  key={event.id}
+                  to={to}
+                  className="flex items-center gap-3 text-sm rounded-md px-2 py-1.5 hover:bg-muted"
+                >
+                  {content}
+                </Link>
+              ) : (
+                <div key={event.id} className="flex items-center gap-3 text-sm px-2 py-1.5">
+                  {content}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityFeed;
@@ -0,0 +1,135 @@
+import type { ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { useAuditLog } from "@/hooks/use-resources";
+import { useCan } from "@/hooks/use-session";
+import { AUDIT_SOURCE_LABELS } from "@/lib/audit";
+import type { AuditEntity, AuditEntry } from "@/lib/schemas";
+
+const ACTION_STYLES: Record<AuditEntry["action"], { label: string; className: string }> = {
+  create: { label: "Created", className: "bg-zone-green text-white hover:bg-zone-green" },
+  update: { label: "Updated", className: "bg-primary text-primary-foreground hover:bg-primary" },
+  delete: { label: "Deleted", className: "bg-destructive text-destructive-foreground hover:bg-destructive" },
+};
+
+const display = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "(empty)" : String(value);
+
+const fieldLabel = (field: string) => field.replace(/_/g, " ");
+
+export const AuditActionBadge = ({ action }: { action: AuditEntry["action"] }) => (
+  <Badge className={ACTION_STYLES[action].className}>{ACTION_STYLES[action].label}</Badge>
+);
+
+/**
+ * The fields an entry changed. Creations list the values the record started
+ * with and deletions the values it had, so only updates show both sides.
+ */
+export const AuditChangeList = ({ entry }: { entry: AuditEntry }) => {
+  if (entry.changes.length === 0) {
+    return <span className="text-muted-foreground">No field changes</span>;
+  }
+  return (
+    <ul className="space-y-1">
+      {entry.changes.map((change) => (
+        <li key={change.field} className="flex flex-wrap items-center gap-1">
+          <span className="font-medium">{fieldLabel(change.field)}:</span>
+          {entry.action === "create" ? (
+            <span>{display(change.to)}</span>
+          ) : entry.action === "delete" ? (
+            <span className="line-through text-muted-foreground">{display(change.from)}</span>
+          ) : (
+            <>
+              <span className="line-through text-muted-foreground">{display(change.from)}</span>
+              <ArrowRight className="h-3 w-3" />
+              <span>{display(change.to)}</span>
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/** Who changed the record and how, including who the change came from. */
+export const AuditEntryMeta = ({ entry }: { entry: AuditEntry }) => (
+  <div className="text-xs text-muted-foreground">
+    {new Date(entry.created_at).toLocaleString()} by {entry.username ?? "system"} via{" "}
+    {AUDIT_SOURCE_LABELS[entry.source]}
+    {entry.context && ` (${entry.context})`}
+  </div>
+);
+
+interface AuditHistoryProps {
+  entity: AuditEntity;
+  entityId: number;
+}
+
+/** Change history of one record, newest first, for the History tab of a View dialog. */
+const AuditHistory = ({ entity, entityId }: AuditHistoryProps) => {
+  const { data, isLoading, isError } = useAuditLog({ entity, entity_id: entityId, limit: 50 });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+  if (isError || !data) {
+    return <p className="py-8 text-center text-sm text-destructive">Could not load the history of this record.</p>;
+  }
+  if (data.entries.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No recorded changes yet.</p>;
+  }
+
+  return (
+    <div className="max-h-[50vh] overflow-y-auto space-y-3 pr-1">
+      {data.entries.map((entry) => (
+        <div key={entry.id} className="border rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <AuditActionBadge action={entry.action} />
+            <AuditEntryMeta entry={entry} />
+          </div>
+          <div className="text-sm">
+            <AuditChangeList entry={entry} />
+          </div>
+        </div>
+      ))}
+      {data.total > data.entries.length && (
+        <p className="text-xs text-center text-muted-foreground">
+          Showing the latest {data.entries.length} of {data.total} changes. See the Audit page for the rest.
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface HistoryTabsProps extends AuditHistoryProps {
+  children: ReactNode;
+}
+
+/**
+ * Details and History tabs for a View dialog. Users without audit.view only
+ * see the details. The history is fetched when its tab is first opened.
+ */
+export const HistoryTabs = ({ entity, entityId, children }: HistoryTabsProps) => {
+  const can = useCan();
+  if (!can("audit.view")) return <>{children}</>;
+  return (
+    <Tabs defaultValue="details">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="details">Details</TabsTrigger>
+        <TabsTrigger value="history">History</TabsTrigger>
+      </TabsList>
+      <TabsContent value="details">{children}</TabsContent>
+      <TabsContent value="history">
+        <AuditHistory entity={entity} entityId={entityId} />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default AuditHistory;
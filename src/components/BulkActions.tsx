@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, Download, Loader2 } from "lucide-react";
+import { useCan } from "@/hooks/use-session";
+import { useActivePolicies, useBulkAction, usePrograms } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import { BULK_ACTIONS, BULK_ACTION_LABELS, BULK_STATUSES, bulkSummary, exportSelection } from "@/lib/bulk";
+import { ZONES, ZONE_LABELS } from "@/lib/classification";
+import type { BulkActionName, BulkEntity } from "@/lib/client";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import type { Subject } from "@/lib/schemas";
+
+interface BulkActionsProps {
+  entity: BulkEntity;
+  // Plural, e.g. "students"
+  noun: string;
+  selected: ReadonlySet<number>;
+  // Called once the selected records are deleted, to clear the selection
+  onDeleted: () => void;
+  // The subjects on screen, for exporting a subject selection
+  subjects?: Subject[];
+}
+
+/**
+ * Export and bulk changes for the rows selected in a list, shown in the
+ * DataTable's selection bar. Changes need the manage permission for the
+ * records; the server applies and audits them in one go.
+ */
+const BulkActions = ({ entity, noun, selected, onDeleted, subjects }: BulkActionsProps) => {
+  const { term } = useTerm();
+  const can = useCan();
+  const policies = useActivePolicies(term);
+  const { data: programs = [] } = usePrograms();
+  const bulkAction = useBulkAction(entity);
+  const { toast } = useToast();
+  const [action, setAction] = useState<BulkActionName | null>(null);
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  const ids = [...selected];
+  const canManage = can(`${entity}.manage` as const);
+
+  const open = (next: BulkActionName) => {
+    setAction(next);
+    setValue("");
+    setReason("");
+  };
+
+  // Zones and at-risk flags set by hand are overrides and need a reason
+  const needsReason = action === "zone" || action === "at_risk";
+  const ready =
+    action === "delete" || (value !== "" && (!needsReason || reason.trim() !== ""));
+
+  const apply = async () => {
+    if (!action) return;
+    try {
+      const result = await bulkAction.mutateAsync({
+        action,
+        ids,
+        value: action === "program" ? Number(value) : action === "at_risk" ? value === "1" : value || undefined,
+        reason: needsReason ? reason.trim() : undefined,
+      });
+      toast({ title: BULK_ACTION_LABELS[action], description: bulkSummary(result, noun) });
+      setAction(null);
+      if (action === "delete") onDeleted();
+    } catch (error) {
+      toast({ title: `${BULK_ACTION_LABELS[action]} failed`, description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const download = async () => {
+    setExporting(true);
+    try {
+      const rows = await exportSelection(entity, ids, { term, teacherPolicy: policies.teacher_failure, subjects });
+      downloadCsv(toCsv(rows), `${entity}_selection.csv`);
+    } catch (error) {
+      toast({ title: "Export failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const changes = BULK_ACTIONS[entity].filter((name) => name !== "delete");
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={download} disabled={exporting}>
+        {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+        Export CSV
+      </Button>
+      {canManage && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm">
+              Bulk actions
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {changes.map((name) => (
+              <DropdownMenuItem key={name} onSelect={() => open(name)}>
+                {BULK_ACTION_LABELS[name]}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="text-destructive" onSelect={() => open("delete")}>
+              {BULK_ACTION_LABELS.delete}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Dialog open={action !== null} onOpenChange={(isOpen) => !isOpen && setAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action && BULK_ACTION_LABELS[action]}</DialogTitle>
+            <DialogDescription>
+              {action === "delete"
+                ? `Delete ${ids.length} ${noun}? They move to Recently deleted, where each can be restored.`
+                : `Applies to the ${ids.length} selected ${noun}. Each change is recorded in the audit log.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {action === "status" && (
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_STATUSES[entity].map((status) => (
+                    <SelectItem key={status} value={status}>{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === "program" && (
+            <div className="space-y-2">
+              <Label>Program</Label>
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select program" />
+                </SelectTrigger>
+                <SelectContent>
+                  {programs.map((program) => (
+                    <SelectItem key={program.id} value={String(program.id)}>
+                      {program.program_code} - {program.program_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === "at_risk" && (
+            <div className="space-y-2">
+              <Label>At-risk flag</Label>
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select flag" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">At risk</SelectItem>
+                  <SelectItem value="0">Not at risk</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === "zone" && (
+            <div className="space-y-2">
+              <Label>Zone</Label>
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select zone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ZONES.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{ZONE_LABELS[zone]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {needsReason && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-override-reason">Reason</Label>
+              <Textarea
+                id="bulk-override-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why this is set by hand, e.g. grades corrected after the import"
+              />
+              <p className="text-xs text-muted-foreground">
+                {entity === "students"
+                  ? "Students keep a value set by hand through recalculations, until the override is cleared from their Edit dialog."
+                  : "The next zone recalculation replaces overridden zones."}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>Cancel</Button>
+            <Button
+              variant={action === "delete" ? "destructive" : "default"}
+              onClick={apply}
+              disabled={!ready || bulkAction.isPending}
+            >
+              {bulkAction.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {action === "delete" ? `Delete ${ids.length} ${noun}` : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkActions;
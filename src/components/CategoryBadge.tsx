@@ -1,25 +1,18 @@
-import { Badge } from "@/components/ui/badge";
+import ZoneBadge from "@/components/ZoneBadge";
 import { cn } from "@/lib/utils";
+import type { Category } from "@/lib/classification";
 
 interface CategoryBadgeProps {
-  category?: string | null;
+  category?: Category | null;
   className?: string;
 }
 
-const CategoryBadge = ({ category, className }: CategoryBadgeProps) => {
-  const label = (category || 'N/A').trim();
-  const upper = label.toUpperCase();
+const CategoryBadge = ({ category, className }: CategoryBadgeProps) => (
+  <ZoneBadge
+    category={category}
+    label={category?.label ?? 'N/A'}
+    className={cn("text-xs", className)}
+  />
+);
 
-  let colorClass = "bg-muted text-muted-foreground";
-  if (upper.startsWith('GREEN')) colorClass = "bg-zone-green text-white";
-  else if (upper.startsWith('YELLOW')) colorClass = "bg-zone-yellow text-black";
-  else if (upper.startsWith('RED')) colorClass = "bg-zone-red text-white";
-
-  return (
-    <Badge variant="default" className={cn("text-xs", colorClass, className)}>
-      {label}
-    </Badge>
-  );
-};
-
-export default CategoryBadge;
\ No newline at end of file
+export default CategoryBadge;
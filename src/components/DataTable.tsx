@@ -0,0 +1,434 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  ListFilter,
+  Loader2,
+  Search,
+  Settings,
+  X,
+} from "lucide-react";
+import { PAGE_SIZES, type ListState } from "@/hooks/use-list-params";
+import { cn } from "@/lib/utils";
+import type { Facet, Page } from "@/lib/schemas";
+
+export interface DataTableColumn<Row> {
+  id: string;
+  header: ReactNode;
+  // Name in the Columns menu, when the header is not plain text
+  label?: string;
+  cell: (row: Row) => ReactNode;
+  // Sort parameter the list accepts for this column; sortable when set
+  sort?: string;
+  className?: string;
+  // Always shown in its place, e.g. the actions column
+  fixed?: boolean;
+  defaultHidden?: boolean;
+}
+
+interface DataTableProps<Row, Key extends string | number> {
+  columns: DataTableColumn<Row>[];
+  data: Page<Row> | undefined;
+  list: ListState;
+  loading?: boolean;
+  // Set while a new page loads and the previous one is still shown
+  fetching?: boolean;
+  rowKey: (row: Row) => Key;
+  // Plural, for "Showing 1 to 25 of 300 teachers"
+  noun: string;
+  searchPlaceholder?: string;
+  // Extra controls next to the search box, e.g. filters
+  toolbar?: ReactNode;
+  // Row selection; the checkbox column shows when onSelectedChange is set.
+  // Selected keys are kept across pages and filters until cleared.
+  selected?: ReadonlySet<Key>;
+  onSelectedChange?: (selected: Set<Key>) => void;
+  // Shown next to the selection count while rows are selected
+  selectionActions?: ReactNode;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Page numbers to show: the first, the last and two either side of the current one
+const pageWindow = (page: number, pages: number) => {
+  const numbers = new Set([1, pages]);
+  for (let n = page - 2; n <= page + 2; n++) {
+    if (n >= 1 && n <= pages) numbers.add(n);
+  }
+  return [...numbers].sort((a, b) => a - b);
+};
+
+// The saved order applies to the movable columns; fixed ones keep their place
+const arrange = <Row,>(columns: DataTableColumn<Row>[], order: string[] = []) => {
+  const movable = columns.filter((c) => !c.fixed);
+  const rank = (column: DataTableColumn<Row>) => {
+    const index = order.indexOf(column.id);
+    return index === -1 ? order.length + movable.indexOf(column) : index;
+  };
+  const sorted = [...movable].sort((a, b) => rank(a) - rank(b));
+  let next = 0;
+  return columns.map((column) => (column.fixed ? column : sorted[next++]));
+};
+
+const columnName = <Row,>(column: DataTableColumn<Row>) =>
+  column.label ?? (typeof column.header === "string" ? column.header : column.id);
+
+/**
+ * A paged list table. Paging, sorting, search and filters come from
+ * useListParams, so they live in the URL; column order, hidden columns and
+ * page size are the user's saved view of the table.
+ */
+function DataTable<Row, Key extends string | number>({
+  columns,
+  data,
+  list,
+  loading,
+  fetching,
+  rowKey,
+  noun,
+  searchPlaceholder = "Search...",
+  toolbar,
+  selected,
+  onSelectedChange,
+  selectionActions,
+}: DataTableProps<Row, Key>) {
+  const { params, setPage, setSize, toggleSort, setSearch, clearFilters, view, updateView } = list;
+  const [query, setQuery] = useState(params.q ?? "");
+
+  // Follow the URL when it changes from elsewhere, e.g. a link with ?q=
+  useEffect(() => setQuery((current) => (current.trim() === (params.q ?? "") ? current : params.q ?? "")), [params.q]);
+
+  useEffect(() => {
+    if (query.trim() === (params.q ?? "")) return;
+    const timer = window.setTimeout(() => setSearch(query), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [query, params.q, setSearch]);
+
+  const hidden = new Set(view.hidden ?? columns.filter((c) => c.defaultHidden).map((c) => c.id));
+  const arranged = arrange(columns, view.order);
+  const movable = arranged.filter((c) => !c.fixed);
+  const visible = arranged.filter((c) => c.fixed || !hidden.has(c.id));
+  const rows = data?.rows ?? [];
+  const total = data?.total ?? 0;
+  const page = data?.page ?? params.page;
+  const pages = Math.max(1, Math.ceil(total / params.size));
+  const first = total === 0 ? 0 : (page - 1) * params.size + 1;
+  const last = Math.min(page * params.size, total);
+  const filtered = Boolean(params.q) || Object.keys(params.filters ?? {}).length > 0;
+
+  const selectable = Boolean(onSelectedChange);
+  const chosen = selected ?? new Set<Key>();
+  const pageKeys = rows.map(rowKey);
+  const pageChosen = pageKeys.filter((key) => chosen.has(key)).length;
+  const span = visible.length + (selectable ? 1 : 0);
+
+  const toggleColumn = (id: string, show: boolean) =>
+    updateView({ hidden: [...hidden].filter((c) => c !== id).concat(show ? [] : [id]) });
+
+  const moveColumn = (index: number, offset: number) => {
+    const order = movable.map((c) => c.id);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    updateView({ order });
+  };
+
+  const selectRows = (keys: Key[], add: boolean) => {
+    const next = new Set(chosen);
+    keys.forEach((key) => (add ? next.add(key) : next.delete(key)));
+    onSelectedChange?.(next);
+  };
+
+  const sortIcon = (column: DataTableColumn<Row>) => {
+    if (params.sort !== column.sort) return <ArrowUpDown className="h-4 w-4" />;
+    return params.dir === "desc" ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Search className="h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder={searchPlaceholder}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="max-w-sm"
+        />
+        {toolbar}
+        {filtered && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Settings className="h-4 w-4 mr-2" />
+                Columns
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 p-2">
+              <div className="px-2 py-1.5 text-sm font-semibold">Show and order columns</div>
+              <Separator className="my-1" />
+              {movable.map((column, index) => (
+                <div key={column.id} className="flex items-center gap-2 rounded-sm px-2 py-1 text-sm hover:bg-accent">
+                  <Checkbox
+                    id={`${noun}-column-${column.id}`}
+                    checked={!hidden.has(column.id)}
+                    onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                  />
+                  <label htmlFor={`${noun}-column-${column.id}`} className="flex-1 cursor-pointer">
+                    {columnName(column)}
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === 0}
+                    onClick={() => moveColumn(index, -1)}
+                    aria-label={`Move ${columnName(column)} up`}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === movable.length - 1}
+                    onClick={() => moveColumn(index, 1)}
+                    aria-label={`Move ${columnName(column)} down`}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Separator className="my-1" />
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => updateView(null)}>
+                Reset view
+              </Button>
+            </PopoverContent>
+          </Popover>
+          <Label htmlFor={`${noun}-page-size`} className="text-sm">Show:</Label>
+          <Select value={String(params.size)} onValueChange={(value) => setSize(Number(value))}>
+            <SelectTrigger id={`${noun}-page-size`} className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {selectable && chosen.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+          <span className="font-medium">{chosen.size} selected</span>
+          <Button variant="ghost" size="sm" onClick={() => onSelectedChange?.(new Set())}>
+            Clear selection
+          </Button>
+          {selectionActions && <div className="flex flex-wrap items-center gap-2 ml-auto">{selectionActions}</div>}
+        </div>
+      )}
+
+      {/* Scrolls inside the card, so the header row stays in view */}
+      <div className={cn("relative max-h-[70vh] overflow-auto rounded-md border transition-opacity", fetching && "opacity-60")}>
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-card shadow-[0_1px_0_hsl(var(--border))]">
+            <TableRow>
+              {selectable && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={pageChosen > 0 && pageChosen === pageKeys.length ? true : pageChosen > 0 ? "indeterminate" : false}
+                    onCheckedChange={(checked) => selectRows(pageKeys, checked === true)}
+                    disabled={pageKeys.length === 0}
+                    aria-label="Select all rows on this page"
+                  />
+                </TableHead>
+              )}
+              {visible.map((column) => (
+                <TableHead
+                  key={column.id}
+                  className={cn(column.sort && "cursor-pointer hover:bg-muted/50", column.className)}
+                  onClick={column.sort ? () => toggleSort(column.sort as string) : undefined}
+                >
+                  {column.sort ? (
+                    <div className="flex items-center gap-1">
+                      {column.header}
+                      {sortIcon(column)}
+                    </div>
+                  ) : (
+                    column.header
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={span}>
+                  <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading {noun}...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={span} className="text-center py-8 text-muted-foreground">
+                  No {noun} found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => {
+                const key = rowKey(row);
+                return (
+                  <TableRow key={key} data-state={chosen.has(key) ? "selected" : undefined}>
+                    {selectable && (
+                      <TableCell className="w-10">
+                        <Checkbox
+                          checked={chosen.has(key)}
+                          onCheckedChange={(checked) => selectRows([key], checked === true)}
+                          aria-label="Select row"
+                        />
+                      </TableCell>
+                    )}
+                    {visible.map((column) => (
+                      <TableCell key={column.id} className={column.className}>
+                        {column.cell(row)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          Showing {first} to {last} of {total} {noun}
+        </div>
+        {pages > 1 && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <div className="flex items-center gap-1">
+              {pageWindow(page, pages).map((n, index, numbers) => (
+                <span key={n} className="flex items-center gap-1">
+                  {index > 0 && n - numbers[index - 1] > 1 && <span className="text-muted-foreground">...</span>}
+                  <Button
+                    variant={n === page ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setPage(n)}
+                    className="w-8 h-8 p-0"
+                  >
+                    {n}
+                  </Button>
+                </span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pages}>
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+
+interface DataTableFilterProps {
+  list: ListState;
+  name: string;
+  // Button label, e.g. "Department"
+  title: string;
+  options: Facet[] | undefined;
+  format?: (value: string) => string;
+  className?: string;
+}
+
+/**
+ * A filter over one facet of the list, e.g. the departments present in it.
+ * Several values can be checked; a row matching any of them is shown.
+ */
+export const DataTableFilter = ({ list, name, title, options = [], format = (v) => v, className }: DataTableFilterProps) => {
+  const values = list.params.filters?.[name]?.split(",").filter(Boolean) ?? [];
+
+  const toggle = (value: string, checked: boolean) => {
+    const next = checked ? [...values, value] : values.filter((v) => v !== value);
+    list.setFilter(name, next.length > 0 ? next.join(",") : undefined);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("border-dashed", className)}>
+          <ListFilter className="h-4 w-4 mr-2" />
+          {title}
+          {values.length > 0 && (
+            <>
+              <Separator orientation="vertical" className="mx-2 h-4" />
+              <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                {values.length === 1 ? format(values[0]) : `${values.length} selected`}
+              </Badge>
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-60 p-2">
+        {options.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Nothing to filter by.</p>
+        ) : (
+          options.map(({ value, count }) => (
+            <label
+              key={value}
+              className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+            >
+              <Checkbox checked={values.includes(value)} onCheckedChange={(checked) => toggle(value, checked === true)} />
+              <span className="flex-1">{format(value)}</span>
+              <span className="text-xs text-muted-foreground">{count}</span>
+            </label>
+          ))
+        )}
+        {values.length > 0 && (
+          <>
+            <Separator className="my-1" />
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => list.setFilter(name, undefined)}>
+              Clear filter
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DataTable;
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { Loader2 } from "lucide-react";
+import { useRestoreRecord } from "@/hooks/use-resources";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import type { RecordEntity } from "@/lib/client";
+
+interface DeleteRecordDialogProps {
+  entity: RecordEntity;
+  // Singular, e.g. "student"
+  noun: string;
+  // The record to delete and how to name it, or null when closed
+  target: { id: number; label: string } | null;
+  onClose: () => void;
+  remove: (id: number) => Promise<unknown>;
+  onDeleted?: (id: number) => void;
+}
+
+/**
+ * Confirms a delete. Deletes are soft, so the toast that follows offers an
+ * Undo, and the record stays under Recently deleted until restored.
+ */
+const DeleteRecordDialog = ({ entity, noun, target, onClose, remove, onDeleted }: DeleteRecordDialogProps) => {
+  const restore = useRestoreRecord(entity);
+  const { toast } = useToast();
+  const [deleting, setDeleting] = useState(false);
+
+  const undo = async (id: number, label: string) => {
+    try {
+      await restore.mutateAsync(id);
+      toast({ title: "Restored", description: `${label} is back.` });
+    } catch (error) {
+      toast({ title: "Restore failed", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const confirm = async () => {
+    if (!target) return;
+    const { id, label } = target;
+    setDeleting(true);
+    try {
+      await remove(id);
+      onClose();
+      onDeleted?.(id);
+      toast({
+        title: `Deleted ${label}`,
+        description: `The ${noun} was moved to Recently deleted.`,
+        action: (
+          <ToastAction altText={`Restore ${label}`} onClick={() => undo(id, label)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      toast({ title: `Failed to delete ${noun}`, description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={target !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {target?.label}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The {noun} disappears from lists and reports. You can restore it from Recently deleted.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={confirm} disabled={deleting}>
+            {deleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Delete
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteRecordDialog;
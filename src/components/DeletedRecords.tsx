@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArchiveRestore, Loader2, RotateCcw } from "lucide-react";
+import { useDeletedRecords, useRestoreRecord } from "@/hooks/use-resources";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import type { RecordEntity } from "@/lib/client";
+import type { DeletedRecord } from "@/lib/schemas";
+
+interface DeletedRecordsProps {
+  entity: RecordEntity;
+  // Plural, e.g. "students"
+  noun: string;
+}
+
+/** A Recently deleted button and list, for restoring records deleted by mistake. */
+const DeletedRecords = ({ entity, noun }: DeletedRecordsProps) => {
+  const [open, setOpen] = useState(false);
+  const { data: records = [], isLoading, error } = useDeletedRecords(entity, open);
+  const restore = useRestoreRecord(entity);
+  const { toast } = useToast();
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const name = (record: DeletedRecord) => record.label ?? `#${record.id}`;
+
+  const handleRestore = async (record: DeletedRecord) => {
+    setRestoring(record.id);
+    try {
+      await restore.mutateAsync(record.id);
+      toast({ title: "Restored", description: `${name(record)} is back.` });
+    } catch (restoreError) {
+      toast({ title: "Restore failed", description: errorMessage(restoreError), variant: "destructive" });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <ArchiveRestore className="h-4 w-4 mr-2" />
+        Recently deleted
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Recently deleted {noun}</DialogTitle>
+            <DialogDescription>
+              Deleted {noun} are kept here, newest first. Restoring one brings it back with its history.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{errorMessage(error)}</p>
+          ) : records.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No deleted {noun}.</p>
+          ) : (
+            <ul className="max-h-96 divide-y overflow-y-auto">
+              {records.map((record) => (
+                <li key={record.id} className="flex items-center justify-between gap-4 py-2">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium">{name(record)}</div>
+                    <div className="text-xs text-muted-foreground" title={new Date(record.deleted_at).toLocaleString()}>
+                      Deleted {formatDistanceToNow(new Date(record.deleted_at), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(record)}
+                    disabled={restoring !== null}
+                  >
+                    {restoring === record.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DeletedRecords;
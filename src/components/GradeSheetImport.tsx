@@ -0,0 +1,415 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, ArrowLeft, FileUp, Loader2, Upload } from "lucide-react";
+import { useUploadGradeSheet } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import { GRADE_SHEET_COLUMNS, gradeRowErrors, toGradeSheetCsv } from "@/lib/grade-sheet";
+import type { GradeSheetResult } from "@/lib/schemas";
+import { ACCEPTED_EXTENSIONS, readSheetRows, readSourceFile, type SourceFile } from "@/lib/spreadsheet";
+import { cn } from "@/lib/utils";
+
+const PREVIEW_ROWS = 30;
+const FIRST_ROW_CHOICES = 10;
+
+type Step = "file" | "preview" | "result";
+
+interface GradeSheetImportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sheets may start with title or header lines; data starts at the first valid row
+const guessFirstDataRow = (rows: string[][]) => {
+  const index = rows
+    .slice(0, FIRST_ROW_CHOICES)
+    .findIndex((row) => Object.keys(gradeRowErrors(row)).length === 0);
+  return Math.max(0, index);
+};
+
+/** Import flow for the registrar's 21-column grade sheet (upload_grades.php). */
+const GradeSheetImport = ({ open, onOpenChange }: GradeSheetImportProps) => {
+  const { toast } = useToast();
+  const { search } = useTerm();
+  const uploadGradeSheet = useUploadGradeSheet();
+  const [step, setStep] = useState<Step>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<SourceFile | null>(null);
+  const [firstRow, setFirstRow] = useState(0);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<GradeSheetResult | null>(null);
+
+  const rows = useMemo(
+    () =>
+      (source?.rows.slice(firstRow) ?? []).map((cells, index) => ({
+        line: firstRow + index + 1,
+        cells,
+        errors: gradeRowErrors(cells),
+      })),
+    [source, firstRow]
+  );
+  const invalidRows = rows.filter((row) => Object.keys(row.errors).length > 0);
+  const rowsToSend = skipInvalid ? rows.filter((row) => Object.keys(row.errors).length === 0) : rows;
+  const previewRows = [...invalidRows, ...rows.filter((row) => Object.keys(row.errors).length === 0)].slice(0, PREVIEW_ROWS);
+
+  const reset = () => {
+    setStep("file");
+    setFile(null);
+    setSource(null);
+    setFirstRow(0);
+    setSkipInvalid(false);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (uploadGradeSheet.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = "";
+    if (!chosen) return;
+    setIsReading(true);
+    try {
+      const read = await readSourceFile(chosen);
+      if (read.rows.length === 0) {
+        toast({ title: "Empty file", description: "The file has no rows.", variant: "destructive" });
+        return;
+      }
+      setFile(chosen);
+      setSource(read);
+      setFirstRow(guessFirstDataRow(read.rows));
+      setStep("preview");
+    } catch (error) {
+      toast({ title: "Could not read file", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleSheetChange = async (name: string) => {
+    if (!file || !source) return;
+    setIsReading(true);
+    try {
+      const sheetRows = await readSheetRows(file, name);
+      setSource({ ...source, sheet: name, rows: sheetRows });
+      setFirstRow(guessFirstDataRow(sheetRows));
+    } catch (error) {
+      toast({ title: "Could not read sheet", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!source || rowsToSend.length === 0) return;
+    const csv = toGradeSheetCsv(rowsToSend.map((row) => row.cells));
+    const csvFile = new File([csv], source.fileName.replace(/\.[^.]+$/, "") + ".csv", { type: "text/csv" });
+    setProgress(0);
+    try {
+      const uploaded = await uploadGradeSheet.mutateAsync({ file: csvFile, onProgress: setProgress });
+      setResult(uploaded);
+      setStep("result");
+      toast({ title: "Grade sheet imported", description: uploaded.message });
+    } catch (error) {
+      toast({ title: "Import failed", description: errorMessage(error, "Failed to upload grade sheet"), variant: "destructive" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const listLink = (pathname: string, q: string) => {
+    const params = new URLSearchParams(search);
+    params.set("q", q);
+    return `${pathname}?${params.toString()}`;
+  };
+
+  const newBadge = (created: boolean) =>
+    created ? <Badge className="bg-zone-green text-white hover:bg-zone-green">New</Badge> : <Badge variant="outline">Existing</Badge>;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Registrar Grade Sheet</DialogTitle>
+          <DialogDescription>
+            {step === "file" && "The 21-column grade sheet from the registrar, as CSV or Excel. Missing students, subjects and teachers are created; grades already imported for a student, subject and term are updated."}
+            {step === "preview" && source && `${source.fileName}: ${rows.length} rows. Check the columns line up before importing.`}
+            {step === "result" && result && result.message}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-muted/50">
+            {isReading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <FileUp className="h-8 w-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">
+              {isReading ? "Reading file..." : "Click to choose a grade sheet (.csv or .xlsx)"}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              Columns: {GRADE_SHEET_COLUMNS.map((c) => c.label).join(", ")}
+            </span>
+            <input
+              type="file"
+              accept={ACCEPTED_EXTENSIONS.join(",")}
+              className="hidden"
+              onChange={handleFile}
+              disabled={isReading}
+              aria-label="Choose grade sheet"
+            />
+          </label>
+        )}
+
+        {step === "preview" && source && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              {source.sheets.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Sheet</Label>
+                  <Select value={source.sheet ?? undefined} onValueChange={handleSheetChange} disabled={isReading}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {source.sheets.map((name) => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label>First data row</Label>
+                <Select value={String(firstRow)} onValueChange={(value) => setFirstRow(Number(value))}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {source.rows.slice(0, FIRST_ROW_CHOICES).map((_, index) => (
+                      <SelectItem key={index} value={String(index)}>Row {index + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Badge variant="outline">{rows.length} rows</Badge>
+                {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+              </div>
+            </div>
+
+            {invalidRows.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some rows do not match the grade sheet format</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>Invalid cells are highlighted. Rows with errors are listed first.</p>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="skip-invalid-grades"
+                      checked={skipInvalid}
+                      onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                    />
+                    <Label htmlFor="skip-invalid-grades">Skip the {invalidRows.length} invalid row(s)</Label>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="border rounded-md overflow-x-auto max-h-[45vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    {GRADE_SHEET_COLUMNS.map((c) => (
+                      <TableHead key={c.key} className="whitespace-nowrap">{c.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      {GRADE_SHEET_COLUMNS.map((c, index) => (
+                        <TableCell
+                          key={c.key}
+                          title={row.errors[index]}
+                          className={cn(
+                            "whitespace-nowrap text-xs",
+                            row.errors[index] && "bg-destructive/15 text-destructive font-medium"
+                          )}
+                        >
+                          {row.cells[index] || (row.errors[index] ? "(missing)" : "")}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {rows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">Showing {PREVIEW_ROWS} of {rows.length} rows.</p>
+            )}
+          </div>
+        )}
+
+        {step === "result" && result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {[
+                { label: "Grades created", value: result.grades_created },
+                { label: "Grades updated", value: result.grades_updated },
+                { label: "Students created", value: result.students_created },
+                { label: "Subjects created", value: result.subjects_created },
+                { label: "Teachers created", value: result.teachers_created },
+              ].map((stat) => (
+                <div key={stat.label} className="border rounded-md p-3">
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                  <div className="text-xs text-muted-foreground">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <Tabs defaultValue="students">
+              <TabsList>
+                <TabsTrigger value="students">Students ({result.students.length})</TabsTrigger>
+                <TabsTrigger value="subjects">Subjects ({result.subjects.length})</TabsTrigger>
+                <TabsTrigger value="teachers">Teachers ({result.teachers.length})</TabsTrigger>
+                <TabsTrigger value="errors" disabled={result.errors.length === 0}>
+                  Errors ({result.errors.length})
+                </TabsTrigger>
+              </TabsList>
+              <div className="border rounded-md mt-2 max-h-[40vh] overflow-y-auto">
+                <TabsContent value="students" className="mt-0">
+                  <Table>
+                    <TableBody>
+                      {result.students.map((s) => (
+                        <TableRow key={s.id}>
+                          <TableCell>
+                            <Link className="font-medium text-primary hover:underline" to={listLink("/students", s.student_id)}>
+                              {s.student_id}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{s.name}</TableCell>
+                          <TableCell className="text-right">{newBadge(s.created)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+                <TabsContent value="subjects" className="mt-0">
+                  <Table>
+                    <TableBody>
+                      {result.subjects.map((s) => (
+                        <TableRow key={s.id}>
+                          <TableCell>
+                            <Link className="font-medium text-primary hover:underline" to={listLink("/subjects", s.subject_code)}>
+                              {s.subject_code}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{s.name}</TableCell>
+                          <TableCell className="text-right">{newBadge(s.created)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+                <TabsContent value="teachers" className="mt-0">
+                  <Table>
+                    <TableBody>
+                      {result.teachers.map((t) => (
+                        <TableRow key={t.id}>
+                          <TableCell>
+                            <Link
+                              className="font-medium text-primary hover:underline"
+                              to={{ pathname: `/teachers/${t.id}`, search }}
+                            >
+                              {t.name}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">{newBadge(t.created)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+                <TabsContent value="errors" className="mt-0 p-3">
+                  <ul className="space-y-1 text-sm text-destructive">
+                    {result.errors.map((error) => <li key={error}>{error}</li>)}
+                  </ul>
+                </TabsContent>
+              </div>
+            </Tabs>
+          </div>
+        )}
+
+        {progress !== null && (
+          <div className="space-y-1">
+            <Progress value={progress * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {progress < 1 ? `Uploading... ${Math.round(progress * 100)}%` : "Upload complete, processing rows on the server..."}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={uploadGradeSheet.isPending}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={uploadGradeSheet.isPending || rowsToSend.length === 0 || (invalidRows.length > 0 && !skipInvalid)}
+              >
+                {uploadGradeSheet.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                {uploadGradeSheet.isPending ? "Importing..." : `Import ${rowsToSend.length} Rows`}
+              </Button>
+            </>
+          )}
+          {step === "result" && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GradeSheetImport;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight } from "lucide-react";
+import type { ImportAction, UploadResult } from "@/lib/schemas";
+
+const ACTIONS: { action: ImportAction; label: string; className: string }[] = [
+  { action: "create", label: "Create", className: "bg-zone-green text-white hover:bg-zone-green" },
+  { action: "update", label: "Update", className: "bg-primary text-primary-foreground hover:bg-primary" },
+  { action: "unchanged", label: "Unchanged", className: "bg-muted text-muted-foreground hover:bg-muted" },
+  { action: "skip", label: "Skip", className: "bg-destructive text-destructive-foreground hover:bg-destructive" },
+];
+
+const display = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "(empty)" : String(value);
+
+interface ImportChangesProps {
+  result: UploadResult;
+  // Labels for record fields; unknown fields fall back to the field name
+  fieldLabels?: Record<string, string>;
+}
+
+/** Dry-run report of an import: what each row of the file would do. */
+const ImportChanges = ({ result, fieldLabels = {} }: ImportChangesProps) => {
+  const [filter, setFilter] = useState<ImportAction | "all">("all");
+  const counts = Object.fromEntries(
+    ACTIONS.map(({ action }) => [action, result.rows.filter((row) => row.action === action).length])
+  ) as Record<ImportAction, number>;
+  const rows = filter === "all" ? result.rows : result.rows.filter((row) => row.action === filter);
+  const label = (field: string) => fieldLabels[field] ?? field.replace(/_/g, " ");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {ACTIONS.map(({ action, label: actionLabel }) => (
+          <div key={action} className="border rounded-md p-3">
+            <div className="text-2xl font-bold">{counts[action]}</div>
+            <div className="text-xs text-muted-foreground">
+              {action === "unchanged" ? "Unchanged" : `To ${actionLabel.toLowerCase()}`}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as ImportAction | "all")}>
+        <TabsList>
+          <TabsTrigger value="all">All ({result.rows.length})</TabsTrigger>
+          {ACTIONS.map(({ action, label: actionLabel }) => (
+            <TabsTrigger key={action} value={action} disabled={counts[action] === 0}>
+              {actionLabel} ({counts[action]})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="border rounded-md max-h-[45vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Line</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const meta = ACTIONS.find((a) => a.action === row.action);
+              return (
+                <TableRow key={row.line}>
+                  <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                  <TableCell className="font-medium">{row.key || "—"}</TableCell>
+                  <TableCell>
+                    <Badge className={meta?.className}>{meta?.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.action === "skip" && <span className="text-destructive">{row.reason}</span>}
+                    {row.action === "create" && <span className="text-muted-foreground">New record</span>}
+                    {row.action === "unchanged" && <span className="text-muted-foreground">Same as stored</span>}
+                    {row.action === "update" && (
+                      <ul className="space-y-1">
+                        {row.changes.map((change) => (
+                          <li key={change.field} className="flex flex-wrap items-center gap-1">
+                            <span className="font-medium">{label(change.field)}:</span>
+                            <span className="line-through text-muted-foreground">{display(change.from)}</span>
+                            <ArrowRight className="h-3 w-3" />
+                            <span>{display(change.to)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportChanges;
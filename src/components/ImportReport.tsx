@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { downloadCsv } from "@/lib/csv";
+import { importReportCsv, type ImportReportRow } from "@/lib/import";
+
+interface ImportReportProps {
+  rows: ImportReportRow[];
+  // Base name for the downloaded report
+  fileName: string;
+}
+
+/** Outcome of every source row after an import, downloadable as CSV. */
+const ImportReport = ({ rows, fileName }: ImportReportProps) => {
+  const errorCount = rows.filter((row) => row.status === "error").length;
+  const [errorsOnly, setErrorsOnly] = useState(errorCount > 0);
+  const shown = errorsOnly ? rows.filter((row) => row.status === "error") : rows;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{rows.length} rows</Badge>
+          <Badge variant="outline" className="text-zone-green border-zone-green">
+            {rows.length - errorCount} OK
+          </Badge>
+          {errorCount > 0 && <Badge variant="destructive">{errorCount} errors</Badge>}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="errors-only" checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+            <Label htmlFor="errors-only">Errors only</Label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => downloadCsv(importReportCsv(rows), `${fileName.replace(/\.[^.]+$/, "")}_import_report.csv`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download Report
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-md max-h-[45vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Row</TableHead>
+              <TableHead>Identifier</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Message</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No rows to show
+                </TableCell>
+              </TableRow>
+            ) : (
+              shown.map((row) => (
+                <TableRow key={row.line}>
+                  <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                  <TableCell className="font-medium">{row.identifier || "—"}</TableCell>
+                  <TableCell>
+                    {row.status === "ok" ? (
+                      <Badge className="bg-zone-green text-white hover:bg-zone-green">OK</Badge>
+                    ) : (
+                      <Badge variant="destructive">Error</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className={row.status === "error" ? "text-sm text-destructive" : "text-sm"}>
+                    {row.message}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
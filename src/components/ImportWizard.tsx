@@ -0,0 +1,614 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, ArrowRight, CheckCircle2, FileUp, Loader2, Save, Upload } from "lucide-react";
+import ImportChanges from "@/components/ImportChanges";
+import ImportReport from "@/components/ImportReport";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import type { UploadOptions, UploadType } from "@/lib/client";
+import {
+  applyMapping,
+  autoMap,
+  deleteSavedMapping,
+  findSavedMapping,
+  IMPORT_DEFINITIONS,
+  loadSavedMappings,
+  mappingForHeaders,
+  mappingProblems,
+  rowHasErrors,
+  saveMapping,
+  toUploadCsv,
+  buildImportReport,
+  type ColumnMapping,
+  type ImportReportRow,
+  type MappedRow,
+} from "@/lib/import";
+import type { UploadResult } from "@/lib/schemas";
+import {
+  ACCEPTED_EXTENSIONS,
+  guessHeaderRow,
+  headerNames,
+  readSheetRows,
+  readSourceFile,
+  type SourceFile,
+} from "@/lib/spreadsheet";
+import { cn } from "@/lib/utils";
+
+const IGNORE = "__ignore";
+const PREVIEW_ROWS = 50;
+const SOURCE_PREVIEW_ROWS = 10;
+
+type Step = "file" | "source" | "map" | "review" | "changes" | "report";
+
+interface ImportWizardProps {
+  type: UploadType;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Sends the canonical CSV built from the mapped rows; a dry run writes nothing
+  upload: (file: File, options: UploadOptions) => Promise<UploadResult>;
+  title?: string;
+}
+
+const ImportWizard = ({ type, open, onOpenChange, upload, title }: ImportWizardProps) => {
+  const definition = IMPORT_DEFINITIONS[type];
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<SourceFile | null>(null);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [isReading, setIsReading] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mappingName, setMappingName] = useState("");
+  const [savedMappings, setSavedMappings] = useState(() => loadSavedMappings(type));
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [preview, setPreview] = useState<{ file: File; sent: MappedRow[]; result: UploadResult } | null>(null);
+  // Fraction of the upload sent, while a request is in flight
+  const [progress, setProgress] = useState<number | null>(null);
+  const [report, setReport] = useState<ImportReportRow[] | null>(null);
+
+  // The table below the chosen header row
+  const sheet = useMemo(() => {
+    if (!source) return null;
+    const width = Math.max(0, ...source.rows.map((row) => row.length));
+    return {
+      headers: headerNames(source.rows[headerRow] ?? [], width),
+      rows: source.rows.slice(headerRow + 1),
+    };
+  }, [source, headerRow]);
+
+  const reset = () => {
+    setStep("file");
+    setFile(null);
+    setSource(null);
+    setHeaderRow(0);
+    setMapping({});
+    setMappingName("");
+    setSkipInvalid(false);
+    setPreview(null);
+    setReport(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isUploading) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = "";
+    if (!chosen) return;
+    setIsReading(true);
+    try {
+      const read = await readSourceFile(chosen);
+      if (read.rows.length < 2) {
+        toast({ title: "Empty file", description: "The file has no data rows.", variant: "destructive" });
+        return;
+      }
+      setFile(chosen);
+      setSource(read);
+      setHeaderRow(guessHeaderRow(read.rows));
+      setStep("source");
+    } catch (error) {
+      toast({ title: "Could not read file", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleSheetChange = async (name: string) => {
+    if (!file || !source) return;
+    setIsReading(true);
+    try {
+      const rows = await readSheetRows(file, name);
+      setSource({ ...source, sheet: name, rows });
+      setHeaderRow(guessHeaderRow(rows));
+    } catch (error) {
+      toast({ title: "Could not read sheet", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const continueToMapping = () => {
+    if (!sheet) return;
+    const saved = findSavedMapping(type, sheet.headers);
+    setMapping(saved ? mappingForHeaders(saved.mapping, sheet.headers) : autoMap(sheet.headers, definition));
+    setMappingName(saved?.name ?? "");
+    setStep("map");
+    if (saved) toast({ title: "Saved mapping applied", description: `Using "${saved.name}".` });
+  };
+
+  const problems = useMemo(() => mappingProblems(mapping, definition), [mapping, definition]);
+
+  const mappedRows = useMemo(
+    () => (sheet && step === "review" ? applyMapping(sheet.headers, sheet.rows, mapping, definition, headerRow + 2) : []),
+    [sheet, step, mapping, definition, headerRow]
+  );
+  const invalidRows = mappedRows.filter(rowHasErrors);
+  const rowsToSend = skipInvalid ? mappedRows.filter((row) => !rowHasErrors(row)) : mappedRows;
+  const mappedFields = definition.fields.filter((f) => Object.values(mapping).includes(f.key));
+  // Rows with errors first, so they are visible without scrolling
+  const previewRows = [...invalidRows, ...mappedRows.filter((row) => !rowHasErrors(row))].slice(0, PREVIEW_ROWS);
+
+  const handleSaveMapping = () => {
+    if (!sheet || !mappingName.trim()) return;
+    saveMapping({ name: mappingName.trim(), type, headers: sheet.headers, mapping });
+    setSavedMappings(loadSavedMappings(type));
+    toast({ title: "Mapping saved", description: `"${mappingName.trim()}" will be applied to files with the same columns.` });
+  };
+
+  const handleApplySaved = (name: string) => {
+    const saved = savedMappings.find((m) => m.name === name);
+    if (!saved || !sheet) return;
+    setMapping(mappingForHeaders(saved.mapping, sheet.headers));
+    setMappingName(saved.name);
+  };
+
+  const handleDeleteSaved = () => {
+    deleteSavedMapping(type, mappingName.trim());
+    setSavedMappings(loadSavedMappings(type));
+    setMappingName("");
+  };
+
+  // Server report lines refer to the generated CSV; point them back at the source file
+  const withSourceLines = (result: UploadResult, sent: MappedRow[]): UploadResult => ({
+    ...result,
+    rows: result.rows.map((row) => ({ ...row, line: sent[row.line - 2]?.line ?? row.line })),
+  });
+
+  const send = async (file: File, dryRun: boolean) => {
+    setProgress(0);
+    try {
+      return await upload(file, { dryRun, onProgress: setProgress });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleCheckChanges = async () => {
+    if (!source || rowsToSend.length === 0) return;
+    const csv = toUploadCsv(rowsToSend, mapping, definition);
+    const csvFile = new File([csv], source.fileName.replace(/\.[^.]+$/, "") + ".csv", { type: "text/csv" });
+    setIsUploading(true);
+    try {
+      const result = await send(csvFile, true);
+      setPreview({ file: csvFile, sent: rowsToSend, result: withSourceLines(result, rowsToSend) });
+      setStep("changes");
+    } catch (error) {
+      toast({ title: "Dry run failed", description: errorMessage(error, "Failed to check the file"), variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsUploading(true);
+    try {
+      const result = await send(preview.file, false);
+      const heldBack = mappedRows.filter(rowHasErrors);
+      setReport(buildImportReport(preview.sent, heldBack, result, definition));
+      setStep("report");
+      toast({
+        title: result.errors.length || heldBack.length ? "Import finished with errors" : "Import successful",
+        description: result.message,
+        variant: result.count === 0 && (result.errors.length > 0 || heldBack.length > 0) ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({ title: "Import failed", description: errorMessage(error, "Failed to upload file"), variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const fieldLabels = Object.fromEntries(definition.fields.map((f) => [f.key, f.label]));
+  const pendingWrites = preview ? (preview.result.summary?.create ?? 0) + (preview.result.summary?.update ?? 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title ?? `Import ${type}`}</DialogTitle>
+          <DialogDescription>
+            {step === "file" && "Choose a CSV file or Excel workbook. Nothing is saved until you confirm the import."}
+            {step === "source" && source && `${source.fileName}: choose the sheet and the row that holds the column headers.`}
+            {step === "map" && source && sheet && `${source.fileName}: ${sheet.rows.length} rows. Match each column to a field.`}
+            {step === "review" && source && `${source.fileName}: check the rows before importing.`}
+            {step === "changes" && source && `${source.fileName}: dry run finished. Nothing has been saved yet.`}
+            {step === "report" && source && `${source.fileName}: import finished. Download the report to fix and re-run failed rows.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-muted/50">
+            {isReading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <FileUp className="h-8 w-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">
+              {isReading ? "Reading file..." : "Click to choose a CSV or Excel (.xlsx) file"}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              Required fields: {definition.fields.filter((f) => f.required).map((f) => f.label).join(", ")}
+            </span>
+            <input
+              type="file"
+              accept={ACCEPTED_EXTENSIONS.join(",")}
+              className="hidden"
+              onChange={handleFile}
+              disabled={isReading}
+              aria-label="Choose file to import"
+            />
+          </label>
+        )}
+
+        {step === "source" && source && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              {source.sheets.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Sheet</Label>
+                  <Select value={source.sheet ?? undefined} onValueChange={handleSheetChange} disabled={isReading}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {source.sheets.map((name) => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label>Header row</Label>
+                <Select value={String(headerRow)} onValueChange={(value) => setHeaderRow(Number(value))}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {source.rows.slice(0, SOURCE_PREVIEW_ROWS).map((_, index) => (
+                      <SelectItem key={index} value={String(index)}>Row {index + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isReading && <Loader2 className="h-5 w-5 mb-2 animate-spin text-muted-foreground" />}
+            </div>
+
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableBody>
+                  {source.rows.slice(0, SOURCE_PREVIEW_ROWS).map((row, index) => (
+                    <TableRow
+                      key={index}
+                      onClick={() => setHeaderRow(index)}
+                      className={cn(
+                        "cursor-pointer",
+                        index === headerRow && "bg-primary/10 font-semibold",
+                        index < headerRow && "text-muted-foreground opacity-60"
+                      )}
+                    >
+                      <TableCell className="text-muted-foreground w-12">{index + 1}</TableCell>
+                      {row.map((cell, column) => (
+                        <TableCell key={column} className="whitespace-nowrap max-w-[200px] truncate">{cell}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Click a row to use it as the header row. Rows above it are skipped; {sheet?.rows.length ?? 0} data rows follow it.
+            </p>
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              {savedMappings.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Saved mappings</Label>
+                  <Select value={savedMappings.some((m) => m.name === mappingName) ? mappingName : undefined} onValueChange={handleApplySaved}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="Apply a saved mapping" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedMappings.map((m) => (
+                        <SelectItem key={m.name} value={m.name}>{m.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="mapping-name">Save this mapping as</Label>
+                <Input
+                  id="mapping-name"
+                  className="w-56"
+                  value={mappingName}
+                  onChange={(e) => setMappingName(e.target.value)}
+                  placeholder="e.g. Registrar export"
+                />
+              </div>
+              <Button variant="outline" onClick={handleSaveMapping} disabled={!mappingName.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Mapping
+              </Button>
+              {savedMappings.some((m) => m.name === mappingName.trim()) && (
+                <Button variant="ghost" onClick={handleDeleteSaved}>Forget</Button>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source column</TableHead>
+                  <TableHead>Sample values</TableHead>
+                  <TableHead>Imports as</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sheet.headers.map((header, column) => (
+                  <TableRow key={header}>
+                    <TableCell className="font-medium">{header}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[280px] truncate">
+                      {sheet.rows.slice(0, 3).map((row) => row[column] ?? "").filter(Boolean).join(" · ") || "(empty)"}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[header] ?? IGNORE}
+                        onValueChange={(value) => setMapping({ ...mapping, [header]: value === IGNORE ? null : value })}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Ignore this column</SelectItem>
+                          {definition.fields.map((field) => (
+                            <SelectItem key={field.key} value={field.key}>
+                              {field.label}{field.required ? " *" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {problems.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Mapping incomplete</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-5">
+                    {problems.map((problem) => <li key={problem}>{problem}</li>)}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === "review" && sheet && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{mappedRows.length} rows</Badge>
+              <Badge variant="outline" className="text-zone-green border-zone-green">
+                {mappedRows.length - invalidRows.length} valid
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="destructive">{invalidRows.length} with errors</Badge>
+              )}
+            </div>
+
+            {invalidRows.length > 0 ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some rows need fixing</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>
+                    Invalid cells are highlighted below. Fix the source file and choose it again, or import only the valid rows.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="skip-invalid"
+                      checked={skipInvalid}
+                      onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                    />
+                    <Label htmlFor="skip-invalid">Skip the {invalidRows.length} invalid row(s)</Label>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>All rows are valid</AlertTitle>
+                <AlertDescription>{mappedRows.length} rows are ready to import.</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    {mappedFields.map((field) => (
+                      <TableHead key={field.key} className="whitespace-nowrap">{field.label}</TableHead>
+                    ))}
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row) => (
+                    <TableRow key={row.line} className={cn(rowHasErrors(row) && "bg-destructive/5")}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      {mappedFields.map((field) => {
+                        const error = row.fieldErrors[field.key];
+                        return (
+                          <TableCell
+                            key={field.key}
+                            title={error}
+                            className={cn("whitespace-nowrap", error && "bg-destructive/15 text-destructive font-medium")}
+                          >
+                            {row.values[field.key] || (error ? "(missing)" : "")}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-xs text-destructive">
+                        {[
+                          ...Object.entries(row.fieldErrors).map(
+                            ([key, message]) => `${definition.fields.find((f) => f.key === key)?.label}: ${message}`
+                          ),
+                          ...row.rowErrors,
+                        ].join("; ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {mappedRows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing {PREVIEW_ROWS} of {mappedRows.length} rows, rows with errors first.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "changes" && preview && (
+          <ImportChanges result={preview.result} fieldLabels={fieldLabels} />
+        )}
+
+        {step === "report" && report && source && (
+          <ImportReport rows={report} fileName={source.fileName} />
+        )}
+
+        {progress !== null && (
+          <div className="space-y-1">
+            <Progress value={progress * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {progress < 1 ? `Uploading... ${Math.round(progress * 100)}%` : "Upload complete, processing rows on the server..."}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "file" && step !== "report" && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                const previous: Record<Step, Step> = {
+                  file: "file",
+                  source: "file",
+                  map: "source",
+                  review: "map",
+                  changes: "review",
+                  report: "report",
+                };
+                setPreview(null);
+                setStep(previous[step]);
+              }}
+              disabled={isUploading || isReading}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          )}
+          {step === "source" && (
+            <Button onClick={continueToMapping} disabled={isReading || !sheet || sheet.rows.length === 0}>
+              Map Columns
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+          {step === "map" && (
+            <Button onClick={() => setStep("review")} disabled={problems.length > 0}>
+              Review Rows
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+          {step === "review" && (
+            <Button
+              onClick={handleCheckChanges}
+              disabled={isUploading || rowsToSend.length === 0 || (invalidRows.length > 0 && !skipInvalid)}
+            >
+              {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowRight className="h-4 w-4 mr-2" />}
+              {isUploading ? "Checking..." : `Check Changes for ${rowsToSend.length} Rows`}
+            </Button>
+          )}
+          {step === "changes" && (
+            <Button onClick={handleImport} disabled={isUploading || pendingWrites === 0}>
+              {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              {isUploading ? "Importing..." : `Confirm Import (${pendingWrites} Changes)`}
+            </Button>
+          )}
+          {step === "report" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Import Another File
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
@@ -8,9 +8,40 @@ import {
   Menu,
   LogOut,
   School,
-  FileText
+  FileText,
+  Settings,
+  UserCog,
+  History,
+  AlertTriangle,
+  type LucideIcon,
 } from "lucide-react";
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useTerm } from "@/hooks/use-term";
+import { logout } from "@/lib/auth";
+import { useCan, useSession } from "@/hooks/use-session";
+import { roleLabel, type Permission } from "@/lib/permissions";
+
+interface NavItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  // Hidden unless the user's role grants it
+  permission?: Permission;
+}
+
+const NAVIGATION: NavItem[] = [
+  { name: "Dashboard", href: "/", icon: BarChart3 },
+  { name: "Students", href: "/students", icon: GraduationCap, permission: "students.view" },
+  { name: "At-Risk Review", href: "/at-risk", icon: AlertTriangle, permission: "students.view" },
+  { name: "Teachers", href: "/teachers", icon: Users, permission: "teachers.view" },
+  { name: "Subjects", href: "/subjects", icon: BookOpen, permission: "subjects.view" },
+  { name: "Programs", href: "/programs", icon: School, permission: "programs.view" },
+  { name: "Grades", href: "/grades", icon: FileText, permission: "grades.view" },
+  { name: "Users", href: "/users", icon: UserCog, permission: "users.manage" },
+  { name: "Audit Log", href: "/audit", icon: History, permission: "audit.view" },
+  { name: "Settings", href: "/settings", icon: Settings, permission: "policies.manage" },
+];
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -20,20 +51,18 @@ const Layout = ({ children }: LayoutProps) => {
   const location = useLocation();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { search } = useTerm();
+  const queryClient = useQueryClient();
+  const user = useSession()?.user;
+  const can = useCan();
 
-  const handleLogout = () => {
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    await logout();
+    queryClient.clear();
     navigate('/login');
   };
 
-  const navigation = [
-    { name: "Dashboard", href: "/", icon: BarChart3 },
-    { name: "Students", href: "/students", icon: GraduationCap },
-    { name: "Teachers", href: "/teachers", icon: Users },
-    { name: "Subjects", href: "/subjects", icon: BookOpen },
-    { name: "Programs", href: "/programs", icon: School },
-    { name: "Grades", href: "/grades", icon: FileText },
-  ];
+  const navigation = NAVIGATION.filter((item) => !item.permission || can(item.permission));
 
   return (
     <div className="min-h-screen bg-background">
@@ -58,6 +87,12 @@ const Layout = ({ children }: LayoutProps) => {
           </div>
           
           <div className="flex items-center gap-4">
+            {user && (
+              <div className="hidden sm:block text-right leading-tight">
+                <div className="text-sm font-medium">{user.username}</div>
+                <div className="text-xs text-muted-foreground">{roleLabel(user.role)}</div>
+              </div>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -81,10 +116,11 @@ const Layout = ({ children }: LayoutProps) => {
           <nav className="flex flex-col gap-2 p-4">
             {navigation.map((item) => {
               const Icon = item.icon;
-              const isActive = location.pathname === item.href;
+              const isActive = location.pathname === item.href ||
+                (item.href !== "/" && location.pathname.startsWith(`${item.href}/`));
               
               return (
-                <Link key={item.href} to={item.href}>
+                <Link key={item.href} to={{ pathname: item.href, search }}>
                   <Button
                     variant={isActive ? "default" : "ghost"}
                     className="w-full justify-start gap-3"
@@ -0,0 +1,94 @@
+import type { ReactNode } from "react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+interface RecordEditDialogProps<Values extends FieldValues> {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  description: string;
+  // Singular, e.g. "student"
+  noun: string;
+  form: UseFormReturn<Values>;
+  // The record changed after the dialog was opened; see useRecordEditor
+  conflict: boolean;
+  onLoadLatest: () => void;
+  onSave: () => void;
+  saving: boolean;
+  children: ReactNode;
+}
+
+/**
+ * The shell of a record's Edit dialog: the page supplies the fields. While
+ * the record has a newer version on the server, saving is blocked until the
+ * user loads it, so nobody's changes are overwritten unseen.
+ */
+const RecordEditDialog = <Values extends FieldValues>({
+  open,
+  onClose,
+  title,
+  description,
+  noun,
+  form,
+  conflict,
+  onLoadLatest,
+  onSave,
+  saving,
+  children,
+}: RecordEditDialogProps<Values>) => (
+  <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+    <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+      {conflict && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="space-y-2">
+            <p>
+              Someone else saved changes to this {noun} after you opened it. Load their version, then make your
+              changes again.
+            </p>
+            <Button variant="outline" size="sm" onClick={onLoadLatest}>
+              Load latest version
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      <Form {...form}>
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onSave();
+          }}
+        >
+          {children}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || conflict}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  </Dialog>
+);
+
+export default RecordEditDialog;
@@ -0,0 +1,306 @@
+import type { FieldPath, FieldValues, UseFormReturn } from "react-hook-form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ZONES, ZONE_LABELS } from "@/lib/classification";
+import {
+  isStandingOverride,
+  type GradeForm,
+  type ProgramForm,
+  type StudentForm,
+  type SubjectForm,
+  type TeacherForm,
+} from "@/lib/record-forms";
+import type { Program, Student, Subject } from "@/lib/schemas";
+
+/**
+ * The fields of each record's Add and Edit forms, bound to a react-hook-form
+ * form built from the schemas in lib/record-forms. Each renders inside a
+ * <Form>; messages show under the field they are about.
+ */
+
+interface FieldProps<Values extends FieldValues> {
+  form: UseFormReturn<Values>;
+  name: FieldPath<Values>;
+  label: string;
+}
+
+const TextField = <Values extends FieldValues>({
+  form,
+  name,
+  label,
+  type,
+  placeholder,
+  multiline = false,
+}: FieldProps<Values> & { type?: string; placeholder?: string; multiline?: boolean }) => (
+  <FormField
+    control={form.control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          {multiline ? (
+            <Textarea placeholder={placeholder} {...field} />
+          ) : (
+            <Input type={type} step={type === "number" ? "any" : undefined} placeholder={placeholder} {...field} />
+          )}
+        </FormControl>
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const SelectField = <Values extends FieldValues>({
+  form,
+  name,
+  label,
+  options,
+  placeholder,
+}: FieldProps<Values> & { options: { value: string; label: string }[]; placeholder?: string }) => (
+  <FormField
+    control={form.control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <Select value={field.value} onValueChange={field.onChange}>
+          <FormControl>
+            <SelectTrigger>
+              <SelectValue placeholder={placeholder} />
+            </SelectTrigger>
+          </FormControl>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const options = (values: string[], label = (value: string) => value) =>
+  values.map((value) => ({ value, label: label(value) }));
+
+const YEAR_LEVELS = options(["1", "2", "3", "4"], (year) => `Year ${year}`);
+
+const TERM_SEMESTERS = [
+  { value: "1st", label: "1st Semester" },
+  { value: "2nd", label: "2nd Semester" },
+  { value: "Summer", label: "Summer" },
+];
+
+// Subjects are placed by year and semester of the curriculum
+const SUBJECT_SEMESTERS = options(["Y1S1", "Y1S2", "Y2S1", "Y2S2", "Y3S1", "Y3S2", "Y4S1", "Y4S2"]);
+
+const ZONE_OPTIONS = ZONES.map((zone) => ({ value: zone, label: ZONE_LABELS[zone] }));
+
+// A current value missing from the options still shows, rather than a blank select
+const withCurrent = (choices: { value: string; label: string }[], current: string) =>
+  !current || choices.some((choice) => choice.value === current) ? choices : [...choices, { value: current, label: current }];
+
+export const StudentFields = ({ form, programs }: { form: UseFormReturn<StudentForm>; programs: Program[] }) => (
+  <>
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="student_id" label="Student ID *" placeholder="2024-BSCRIM-001" />
+      <SelectField form={form} name="year_level" label="Year Level" options={YEAR_LEVELS} placeholder="Select year level" />
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="first_name" label="First Name *" placeholder="Juan" />
+      <TextField form={form} name="last_name" label="Last Name *" placeholder="Santos" />
+    </div>
+    <TextField form={form} name="middle_name" label="Middle Name" placeholder="Miguel" />
+    <TextField form={form} name="email" label="Email" type="email" placeholder="juan.santos@phinma.edu.ph" />
+    <SelectField
+      form={form}
+      name="program_id"
+      label="Program"
+      placeholder="No program"
+      options={programs.map((program) => ({
+        value: String(program.id),
+        label: `${program.program_code} - ${program.program_name}`,
+      }))}
+    />
+    <div className="grid grid-cols-2 gap-4">
+      <SelectField form={form} name="semester" label="Semester" options={TERM_SEMESTERS} placeholder="Select semester" />
+      <TextField form={form} name="academic_year" label="Academic Year" placeholder="2024-2025" />
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <SelectField
+        form={form}
+        name="status"
+        label="Status"
+        options={options(["Active", "Inactive", "Graduated", "Dropped"])}
+        placeholder="Select status"
+      />
+      <SelectField form={form} name="zone" label="Performance Zone" options={ZONE_OPTIONS} />
+    </div>
+    <FormField
+      control={form.control}
+      name="at_risk"
+      render={({ field }) => (
+        <FormItem className="flex items-center gap-2 space-y-0">
+          <FormControl>
+            <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+          </FormControl>
+          <FormLabel>At risk</FormLabel>
+        </FormItem>
+      )}
+    />
+    {form.watch("standing.overridden") && (
+      <FormField
+        control={form.control}
+        name="clear_override"
+        render={({ field }) => (
+          <FormItem className="space-y-1">
+            <div className="flex items-center gap-2">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel>Return to the zone computed from grades</FormLabel>
+            </div>
+            <FormDescription>Set by hand: {form.watch("standing.override_reason")}</FormDescription>
+          </FormItem>
+        )}
+      />
+    )}
+    {isStandingOverride(form.watch()) && (
+      <TextField
+        form={form}
+        name="zone_override_reason"
+        label="Reason for override *"
+        placeholder="Zones and the at-risk flag come from grades; say why this one is set by hand"
+        multiline
+      />
+    )}
+    <TextField form={form} name="notes" label="Notes" placeholder="Additional notes..." multiline />
+  </>
+);
+
+export const TeacherFields = ({ form }: { form: UseFormReturn<TeacherForm> }) => (
+  <>
+    <TextField form={form} name="teacher_id" label="Faculty No. *" placeholder="14-007-F" />
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="first_name" label="First Name *" placeholder="First Name" />
+      <TextField form={form} name="last_name" label="Last Name *" placeholder="Last Name" />
+    </div>
+    <TextField form={form} name="middle_name" label="Middle Name" placeholder="Middle Name" />
+    <TextField form={form} name="email" label="Email" type="email" placeholder="teacher@school.com" />
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="department" label="Department *" placeholder="General Education" />
+      <TextField form={form} name="position" label="Position" placeholder="Faculty" />
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <SelectField form={form} name="status" label="Status" options={options(["Active", "Inactive", "On Leave"])} />
+      <SelectField form={form} name="zone" label="Zone" options={ZONE_OPTIONS} />
+    </div>
+    <TextField form={form} name="notes" label="Notes" placeholder="Additional notes..." multiline />
+  </>
+);
+
+export const SubjectFields = ({ form, programs }: { form: UseFormReturn<SubjectForm>; programs: Program[] }) => (
+  <>
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="subject_code" label="Subject Code *" placeholder="ITE 101" />
+      <SelectField form={form} name="year_level" label="Year Level" options={YEAR_LEVELS} placeholder="Select year" />
+    </div>
+    <TextField form={form} name="subject_name" label="Subject Name *" placeholder="Enter subject name" />
+    <TextField form={form} name="description" label="Description" placeholder="Enter subject description" />
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="units" label="Units *" type="number" placeholder="3" />
+      <SelectField
+        form={form}
+        name="semester"
+        label="Semester"
+        options={withCurrent(SUBJECT_SEMESTERS, form.watch("semester"))}
+        placeholder="Select semester"
+      />
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <SelectField
+        form={form}
+        name="program_name"
+        label="Program *"
+        placeholder="Select program"
+        options={options(programs.map((program) => program.program_code))}
+      />
+      <TextField form={form} name="cutoff_grade" label="Pass Cutoff (%) *" type="number" placeholder="60" />
+    </div>
+  </>
+);
+
+export const ProgramFields = ({ form }: { form: UseFormReturn<ProgramForm> }) => (
+  <>
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="program_code" label="Program Code *" placeholder="BSCRIM" />
+      <SelectField
+        form={form}
+        name="duration_years"
+        label="Duration (Years)"
+        options={options(["1", "2", "3", "4", "5", "6"], (years) => `${years} years`)}
+        placeholder="Select duration"
+      />
+    </div>
+    <TextField form={form} name="program_name" label="Program Name *" placeholder="Bachelor of Science in Criminology" />
+    <TextField form={form} name="description" label="Description" placeholder="Program description..." multiline />
+  </>
+);
+
+interface GradeFieldsProps {
+  form: UseFormReturn<GradeForm>;
+  // Pickers for a new grade; an existing grade keeps its student and subject
+  students?: Student[];
+  subjects?: Subject[];
+}
+
+export const GradeFields = ({ form, students, subjects }: GradeFieldsProps) => (
+  <>
+    {students && subjects && (
+      <div className="grid grid-cols-2 gap-4">
+        <SelectField
+          form={form}
+          name="student_id"
+          label="Student *"
+          placeholder="Select student"
+          options={students.map((student) => ({
+            value: String(student.id),
+            label: `${student.student_id} - ${student.first_name} ${student.last_name}`,
+          }))}
+        />
+        <SelectField
+          form={form}
+          name="subject_id"
+          label="Subject *"
+          placeholder="Select subject"
+          options={subjects.map((subject) => ({
+            value: String(subject.id),
+            label: `${subject.subject_code} - ${subject.subject_name}`,
+          }))}
+        />
+      </div>
+    )}
+    <div className="grid grid-cols-2 gap-4">
+      <TextField form={form} name="academic_year" label="Academic Year" placeholder="2024-2025" />
+      <SelectField form={form} name="semester" label="Semester" options={TERM_SEMESTERS} />
+    </div>
+    <div className="grid grid-cols-3 gap-4">
+      <TextField form={form} name="midterm_grade" label="Midterm Grade" type="number" placeholder="85.5" />
+      <TextField form={form} name="final_grade" label="Final Grade" type="number" placeholder="88.0" />
+      <TextField form={form} name="final_rating" label="Final Rating" type="number" placeholder="87.0" />
+    </div>
+    <SelectField
+      form={form}
+      name="status"
+      label="Status"
+      options={options(["Passed", "Failed", "Incomplete", "Dropped"])}
+    />
+  </>
+);
@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download } from "lucide-react";
+import ZoneBadge from "@/components/ZoneBadge";
+import { useActivePolicies, usePrograms, useStudents, useSubjects, useTeachers } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { ZONES } from "@/lib/classification";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import { REPORTS, buildReport, type ReportKind } from "@/lib/reports";
+import type { Zone } from "@/lib/schemas";
+
+// Select items cannot have an empty value, so "all" stands for no filter
+const ALL = "all";
+
+interface ReportBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Builds a CSV report for the selected term from the records already loaded. */
+const ReportBuilder = ({ open, onOpenChange }: ReportBuilderProps) => {
+  const { term, academicYear, semester } = useTerm();
+  const { data: students = [] } = useStudents(term);
+  const { data: subjects = [] } = useSubjects(term);
+  const { data: teachers = [] } = useTeachers(term);
+  const { data: programs = [] } = usePrograms(term);
+  const policies = useActivePolicies(term);
+
+  const [kind, setKind] = useState<ReportKind>("students");
+  const [zones, setZones] = useState<Zone[]>(ZONES);
+  const [programId, setProgramId] = useState(ALL);
+
+  const rows = useMemo(
+    () =>
+      buildReport(
+        kind,
+        { students, subjects, teachers, teacherPolicy: policies.teacher_failure },
+        { zones, programId: programId === ALL ? undefined : Number(programId) }
+      ),
+    [kind, students, subjects, teachers, policies.teacher_failure, zones, programId]
+  );
+  const count = rows.length - 1;
+
+  const toggleZone = (zone: Zone, checked: boolean) =>
+    setZones((current) => (checked ? ZONES.filter((z) => z === zone || current.includes(z)) : current.filter((z) => z !== zone)));
+
+  const download = () => {
+    const suffix = [academicYear, semester].filter(Boolean).join("_").replace(/\s+/g, "-");
+    downloadCsv(toCsv(rows), `${kind}_report${suffix ? `_${suffix}` : ""}.csv`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Generate Report</DialogTitle>
+          <DialogDescription>
+            {semester && academicYear ? `For ${semester} semester ${academicYear}.` : "For all terms."} Downloaded as CSV.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Report</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as ReportKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REPORTS) as ReportKind[]).map((key) => (
+                  <SelectItem key={key} value={key}>{REPORTS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{REPORTS[kind].description}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Zones</Label>
+            <div className="flex gap-4">
+              {ZONES.map((zone) => (
+                <label key={zone} className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={zones.includes(zone)}
+                    onCheckedChange={(checked) => toggleZone(zone, checked === true)}
+                  />
+                  <ZoneBadge zone={zone} />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {kind !== "teachers" && (
+            <div className="space-y-2">
+              <Label>Program</Label>
+              <Select value={programId} onValueChange={setProgramId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All programs</SelectItem>
+                  {programs.map((program) => (
+                    <SelectItem key={program.id} value={String(program.id)}>
+                      {program.program_code} - {program.program_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            {count} {count === 1 ? "row" : "rows"} will be included.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={download} disabled={count === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportBuilder;
@@ -0,0 +1,70 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { academicYearOptions, SEMESTERS, useTerm } from "@/hooks/use-term";
+import { PERIODS, type Period } from "@/lib/classification";
+
+interface TermSelectorProps {
+  // Pages without per-period figures hide the P1/P2/P3 select
+  showPeriod?: boolean;
+}
+
+const TermSelector = ({ showPeriod = true }: TermSelectorProps) => {
+  const { academicYear, semester, period, setTerm } = useTerm();
+  const academicYears = academicYearOptions();
+  if (!academicYears.includes(academicYear)) academicYears.unshift(academicYear);
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Academic Year:</span>
+        <Select value={academicYear} onValueChange={(value) => setTerm({ academicYear: value })}>
+          <SelectTrigger className="w-32 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {academicYears.map((year) => (
+              <SelectItem key={year} value={year}>
+                {year}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Semester:</span>
+        <Select value={semester} onValueChange={(value) => setTerm({ semester: value })}>
+          <SelectTrigger className="w-28 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SEMESTERS.map((s) => (
+              <SelectItem key={s} value={s}>{s}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {showPeriod && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Period:</span>
+          <Select value={period} onValueChange={(value) => setTerm({ period: value as Period })}>
+            <SelectTrigger className="w-20 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((p) => (
+                <SelectItem key={p} value={p}>{p.toUpperCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TermSelector;
@@ -1,13 +1,19 @@
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import type { Category } from "@/lib/classification";
+import type { Zone } from "@/lib/schemas";
 
 interface ZoneBadgeProps {
-  zone: "green" | "yellow" | "red";
+  zone?: Zone | null;
+  // When given, the zone comes from the category and its label is shown on hover
+  category?: Category | null;
+  // Overrides the default "Green Zone" style text
+  label?: string;
   className?: string;
 }
 
-const ZoneBadge = ({ zone, className }: ZoneBadgeProps) => {
-  const getZoneConfig = (zone: string) => {
+const ZoneBadge = ({ zone, category, label, className }: ZoneBadgeProps) => {
+  const getZoneConfig = (zone?: Zone | null) => {
     switch (zone) {
       case "green":
         return {
@@ -33,16 +39,17 @@ const ZoneBadge = ({ zone, className }: ZoneBadgeProps) => {
     }
   };
 
-  const config = getZoneConfig(zone);
+  const config = getZoneConfig(category?.zone ?? zone);
 
   return (
     <Badge
       variant="default"
       className={cn(config.className, className)}
+      title={category?.label}
     >
-      {config.label}
+      {label ?? config.label}
     </Badge>
   );
 };
 
-export default ZoneBadge;
\ No newline at end of file
+export default ZoneBadge;
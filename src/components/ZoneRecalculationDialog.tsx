@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, Loader2, RefreshCw } from "lucide-react";
+import ZoneBadge from "@/components/ZoneBadge";
+import { useRecalculateZones } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/api";
+import type { ZoneRecalculation, ZoneRecalculationPart } from "@/lib/schemas";
+
+type Part = "students" | "subjects" | "teachers";
+
+const PARTS: { key: Part; label: string; measure: string; format: (value: number) => string }[] = [
+  { key: "students", label: "Students", measure: "GWA", format: (value) => value.toFixed(2) },
+  { key: "subjects", label: "Subjects", measure: "Pass rate", format: (value) => `${value.toFixed(2)}%` },
+  { key: "teachers", label: "Teachers", measure: "Failure rate", format: (value) => `${value.toFixed(2)}%` },
+];
+
+const Moves = ({ part, measure, format }: { part: ZoneRecalculationPart; measure: string; format: (value: number) => string }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-3 gap-2 text-center">
+      <div className="border rounded-md p-2">
+        <div className="text-xl font-bold">{part.changed}</div>
+        <div className="text-xs text-muted-foreground">Moved</div>
+      </div>
+      <div className="border rounded-md p-2">
+        <div className="text-xl font-bold">{part.unchanged}</div>
+        <div className="text-xs text-muted-foreground">Unchanged</div>
+      </div>
+      <div className="border rounded-md p-2">
+        <div className="text-xl font-bold">{part.skipped}</div>
+        <div className="text-xs text-muted-foreground">No figures this term</div>
+      </div>
+    </div>
+    {part.overridden > 0 && (
+      <p className="text-xs text-muted-foreground">
+        {part.overridden} kept a zone set by hand. Clear the override from the student's Edit dialog to recalculate it.
+      </p>
+    )}
+    {part.later_term > 0 && (
+      <p className="text-xs text-muted-foreground">
+        {part.later_term} have grades in a later term and keep the standing from that term.
+      </p>
+    )}
+    {part.moves.length === 0 ? (
+      <p className="text-sm text-muted-foreground text-center py-4">No zone changes.</p>
+    ) : (
+      <div className="border rounded-md max-h-[40vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Record</TableHead>
+              <TableHead>{measure}</TableHead>
+              <TableHead>Zone</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {part.moves.map((move) => (
+              <TableRow key={move.id}>
+                <TableCell>
+                  <div className="font-medium">{move.label ?? `#${move.id}`}</div>
+                  {move.reason && <div className="text-xs text-muted-foreground">{move.reason}</div>}
+                </TableCell>
+                <TableCell>{move.value === undefined ? "—" : format(move.value)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {move.from ? <ZoneBadge zone={move.from} /> : <span className="text-muted-foreground">New</span>}
+                    <ArrowRight className="h-3 w-3" />
+                    <ZoneBadge zone={move.to} />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    )}
+    {part.changed > part.moves.length && (
+      <p className="text-xs text-muted-foreground">
+        Showing {part.moves.length} of {part.changed} moves.
+      </p>
+    )}
+  </div>
+);
+
+interface ZoneRecalculationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Recalculates student, subject and teacher zones for the selected term under
+ * the policies in force. The moves are previewed first and only saved once
+ * confirmed.
+ */
+const ZoneRecalculationDialog = ({ open, onOpenChange }: ZoneRecalculationDialogProps) => {
+  const { academicYear, semester } = useTerm();
+  const recalculate = useRecalculateZones({ academic_year: academicYear, semester });
+  const [result, setResult] = useState<ZoneRecalculation | null>(null);
+  const { toast } = useToast();
+
+  const run = async (dryRun: boolean) => {
+    try {
+      const summary = await recalculate.mutateAsync({ dryRun });
+      setResult(summary);
+      if (!dryRun) {
+        const moved = summary.students.changed + summary.subjects.changed + summary.teachers.changed;
+        toast({ title: "Zones updated", description: `${moved} records moved to a new zone` });
+      }
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Could not recalculate zones"), variant: "destructive" });
+    }
+  };
+
+  const close = (next: boolean) => {
+    if (!next) setResult(null);
+    onOpenChange(next);
+  };
+
+  const moved = result ? result.students.changed + result.subjects.changed + result.teachers.changed : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Update Zone Classifications</DialogTitle>
+          <DialogDescription>
+            Recalculates every student, subject and teacher zone for {semester} semester {academicYear} under
+            the policies in force for that term.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <p className="text-sm text-muted-foreground">
+            Students are classified from their grades (GWA, failed units, incompletes and repeated failures),
+            which also sets their at-risk flag; subjects by their pass rate and teachers by their failure rate.
+            Records without figures for the term, and students with a zone set by hand, keep their zone. You can
+            review the changes before they are saved.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <Alert>
+              <AlertDescription>
+                {result.dry_run
+                  ? `Preview: ${moved} records would move. Nothing has been saved yet.`
+                  : `Saved: ${moved} records moved. Student and teacher changes are in the audit log.`}
+              </AlertDescription>
+            </Alert>
+            <Tabs defaultValue="students">
+              <TabsList>
+                {PARTS.map(({ key, label }) => (
+                  <TabsTrigger key={key} value={key}>
+                    {label} ({result[key].changed})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {PARTS.map(({ key, measure, format }) => (
+                <TabsContent key={key} value={key}>
+                  <Moves part={result[key]} measure={measure} format={format} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => close(false)}>
+            {result && !result.dry_run ? "Done" : "Cancel"}
+          </Button>
+          {(!result || result.dry_run) && (
+            <Button onClick={() => run(!result)} disabled={recalculate.isPending}>
+              {recalculate.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              {result ? "Apply changes" : "Preview changes"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ZoneRecalculationDialog;
@@ -0,0 +1,101 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useTableView } from "@/hooks/use-table-view";
+import type { ListParams, SortDirection } from "@/lib/client";
+import type { TableView } from "@/lib/table-view";
+
+/**
+ * Page, page size, sort, search and column filters of a server-paged list,
+ * kept in the URL (?page=2&size=50&sort=name&dir=desc&q=cruz&zone=red) next
+ * to the term so a filtered view can be bookmarked or shared. Defaults are
+ * left out of the URL. With a table id, the user's saved view of the table
+ * (see lib/table-view.ts) comes along, and its page size is the default.
+ */
+
+export const PAGE_SIZES = [10, 25, 50, 100] as const;
+
+export interface ListOptions {
+  // Saves the view settings under this id, e.g. "teachers"
+  table?: string;
+  // Filter names read from the URL; anything else is ignored
+  filters?: readonly string[];
+  defaultSize?: number;
+}
+
+export interface ListState {
+  params: ListParams;
+  setPage: (page: number) => void;
+  setSize: (size: number) => void;
+  // Sorts by the column, or reverses the direction when it is already sorted by it
+  toggleSort: (sort: string) => void;
+  setSearch: (q: string) => void;
+  setFilter: (name: string, value: string | undefined) => void;
+  // Clears the search and every filter
+  clearFilters: () => void;
+  view: TableView;
+  updateView: (patch: TableView | null) => void;
+}
+
+const NO_FILTERS: readonly string[] = [];
+
+const pageSize = (value: number | undefined) => PAGE_SIZES.find((size) => size === value);
+
+export const useListParams = ({ table, filters = NO_FILTERS, defaultSize = 25 }: ListOptions = {}): ListState => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [view, updateView] = useTableView(table);
+
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const size = pageSize(Number(searchParams.get("size"))) ?? pageSize(view.size) ?? defaultSize;
+  const sort = searchParams.get("sort") || undefined;
+  const dir: SortDirection | undefined = sort ? (searchParams.get("dir") === "desc" ? "desc" : "asc") : undefined;
+  const q = searchParams.get("q") || undefined;
+  const filterKey = filters.map((name) => `${name}=${searchParams.get(name) ?? ""}`).join("&");
+
+  const params = useMemo<ListParams>(() => {
+    const values: Record<string, string> = {};
+    new URLSearchParams(filterKey).forEach((value, name) => {
+      if (value) values[name] = value;
+    });
+    return { page, size, sort, dir, q, filters: values };
+  }, [page, size, sort, dir, q, filterKey]);
+
+  // Every change but paging starts again from the first page
+  const update = useCallback(
+    (patch: Record<string, string | undefined>, keepPage = false) =>
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          Object.entries(patch).forEach(([name, value]) => {
+            if (value) next.set(name, value);
+            else next.delete(name);
+          });
+          if (!keepPage) next.delete("page");
+          return next;
+        },
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  const setPage = useCallback((next: number) => update({ page: next > 1 ? String(next) : undefined }, true), [update]);
+  const setSize = useCallback(
+    (next: number) => {
+      update({ size: next === defaultSize ? undefined : String(next) });
+      updateView({ size: next });
+    },
+    [update, updateView, defaultSize]
+  );
+  const toggleSort = useCallback(
+    (column: string) =>
+      update({ sort: column, dir: sort === column && dir === "asc" ? "desc" : undefined }),
+    [update, sort, dir]
+  );
+  const setSearch = useCallback((next: string) => update({ q: next.trim() || undefined }), [update]);
+  const setFilter = useCallback((name: string, value: string | undefined) => update({ [name]: value }), [update]);
+  const clearFilters = useCallback(
+    () => update(Object.fromEntries([...filters, "q"].map((name) => [name, undefined]))),
+    [update, filters]
+  );
+
+  return { params, setPage, setSize, toggleSort, setSearch, setFilter, clearFilters, view, updateView };
+};
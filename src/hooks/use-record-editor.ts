@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useForm, type FieldValues } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { ZodType, ZodTypeDef } from "zod";
+import { editConflict } from "@/lib/record-forms";
+
+interface RecordEditorOptions<Row, Form> {
+  // Parses the newer version the server sends back with a 409
+  schema: ZodType<Row, ZodTypeDef, unknown>;
+  // Validates the form, see lib/record-forms
+  formSchema: ZodType<Form, ZodTypeDef, Form>;
+  toForm: (row: Row) => Form;
+}
+
+interface EditState<Row> {
+  row: Row;
+  // The newer version of the row, once a save was refused as stale
+  conflict: Row | null;
+}
+
+/**
+ * State for an Edit dialog: the row being edited and its form. save()
+ * validates, then writes with the updated_at the row was opened with; when
+ * the server refuses that as stale, conflict holds the newer version until
+ * loadLatest() puts it in the form.
+ */
+export const useRecordEditor = <Row extends { updated_at?: string }, Form extends FieldValues>({
+  schema,
+  formSchema,
+  toForm,
+}: RecordEditorOptions<Row, Form>) => {
+  const form = useForm<Form>({ resolver: zodResolver(formSchema) });
+  const [state, setState] = useState<EditState<Row> | null>(null);
+
+  const open = (row: Row) => {
+    form.reset(toForm(row));
+    setState({ row, conflict: null });
+  };
+
+  const close = () => setState(null);
+
+  const loadLatest = () => {
+    if (!state?.conflict) return;
+    form.reset(toForm(state.conflict));
+    setState({ row: state.conflict, conflict: null });
+  };
+
+  /**
+   * Resolves true once saved and closed, false when the form is invalid or
+   * the row changed since it was opened. Other errors are thrown.
+   */
+  const save = async (write: (values: Form, version: string | undefined) => Promise<unknown>) => {
+    if (!state || !(await form.trigger())) return false;
+    try {
+      await write(form.getValues(), state.row.updated_at);
+    } catch (error) {
+      const newer = editConflict(error, schema);
+      if (!newer) throw error;
+      setState((current) => current && { ...current, conflict: newer });
+      return false;
+    }
+    setState(null);
+    return true;
+  };
+
+  return {
+    row: state?.row ?? null,
+    form,
+    conflict: state?.conflict ?? null,
+    open,
+    close,
+    loadLatest,
+    save,
+  };
+};
@@ -0,0 +1,420 @@
+import { keepPreviousData, useMutation, useQueries, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { DEFAULT_POLICIES, type PolicyKind, type ThresholdPolicy } from "@/lib/classification";
+import { gwaOptionsOf } from "@/lib/gwa";
+import {
+  createGrade,
+  createPolicy,
+  createProgram,
+  createStudent,
+  createSubject,
+  createTeacher,
+  createUser,
+  deleteGrade,
+  deletePolicy,
+  deleteProgram,
+  deleteStudent,
+  deleteSubject,
+  deleteTeacher,
+  getActivePolicies,
+  getGwaSummary,
+  getStudent,
+  getTeacher,
+  inviteUser,
+  listActivity,
+  listAudit,
+  listAuditActors,
+  listDeleted,
+  listGradePage,
+  listGrades,
+  listPolicies,
+  listPrograms,
+  listStudentGrades,
+  listStudentPage,
+  listStudents,
+  listSubjects,
+  listTeacherSnapshots,
+  listTeacherPage,
+  listTeachers,
+  listUsers,
+  recalculateZones,
+  restoreRecord,
+  runBulkAction,
+  updateGrade,
+  updateProgram,
+  updateStudent,
+  updateSubject,
+  updateTeacher,
+  updateUser,
+  uploadGradeSheet,
+  uploadRecords,
+  type ActivityFilters,
+  type AuditFilters,
+  type BulkEntity,
+  type BulkRequest,
+  type GradeInput,
+  type ListParams,
+  type PolicyInput,
+  type ProgramInput,
+  type RecordEdit,
+  type RecordEntity,
+  type StudentInput,
+  type SubjectInput,
+  type TeacherInput,
+  type Term,
+  type UploadOptions,
+  type UploadType,
+  type UserInput,
+  type UserUpdate,
+} from "@/lib/client";
+
+// List keys are prefixes: queries append the term, so invalidating
+// ["students"] refreshes every term's list.
+export const queryKeys = {
+  students: ["students"] as const,
+  student: (id: number) => ["students", "detail", id] as const,
+  studentGrades: (id: number) => ["grades", "student", id] as const,
+  teachers: ["teachers"] as const,
+  teacher: (id: number) => ["teachers", "detail", id] as const,
+  teacherSnapshots: (id: number) => ["teachers", "snapshots", id] as const,
+  subjects: ["subjects"] as const,
+  programs: ["programs"] as const,
+  grades: ["grades"] as const,
+  policies: ["policies"] as const,
+  users: ["users"] as const,
+  audit: ["audit"] as const,
+  activePolicies: (term: Term) =>
+    ["policies", "active", term.academic_year ?? "", term.semester ?? ""] as const,
+};
+
+// Which cached resources go stale when a resource changes. Program rows carry
+// student zone counts, subject rows carry pass rates derived from grades.
+// Every write is also logged, so the audit log goes stale with it.
+const related: Record<keyof typeof queryKeys, QueryKey[]> = {
+  students: [queryKeys.students, queryKeys.programs, queryKeys.grades, queryKeys.audit],
+  student: [queryKeys.students],
+  studentGrades: [queryKeys.grades],
+  teachers: [queryKeys.teachers, queryKeys.audit],
+  teacher: [queryKeys.teachers],
+  teacherSnapshots: [queryKeys.teachers],
+  subjects: [queryKeys.subjects, queryKeys.grades, queryKeys.audit],
+  programs: [queryKeys.programs, queryKeys.students, queryKeys.subjects, queryKeys.audit],
+  // Students' zones and at-risk flags follow their grades
+  grades: [queryKeys.grades, queryKeys.subjects, queryKeys.students, queryKeys.audit],
+  // Subject zones are classified server-side with the active pass-rate policy,
+  // GWA summaries with the student GWA policy
+  policies: [queryKeys.policies, queryKeys.subjects, queryKeys.grades, queryKeys.audit],
+  activePolicies: [queryKeys.policies],
+  users: [queryKeys.users, queryKeys.audit],
+  audit: [queryKeys.audit],
+};
+
+const useInvalidate = (resource: keyof typeof queryKeys) => {
+  const queryClient = useQueryClient();
+  return () =>
+    Promise.all(related[resource].map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+};
+
+// Queries
+
+export const useStudents = (term: Term = {}) =>
+  useQuery({ queryKey: [...queryKeys.students, term], queryFn: ({ signal }) => listStudents(term, signal) });
+
+// Pages keep showing the previous rows while the next page loads
+export const useStudentPage = (term: Term, params: ListParams) =>
+  useQuery({
+    queryKey: [...queryKeys.students, "page", term, params],
+    queryFn: ({ signal }) => listStudentPage(term, params, signal),
+    placeholderData: keepPreviousData,
+  });
+
+export const useStudent = (id: number) =>
+  useQuery({
+    queryKey: queryKeys.student(id),
+    queryFn: ({ signal }) => getStudent(id, signal),
+    enabled: Number.isFinite(id),
+  });
+
+export const useStudentGrades = (id: number) =>
+  useQuery({
+    queryKey: queryKeys.studentGrades(id),
+    queryFn: ({ signal }) => listStudentGrades(id, signal),
+    enabled: Number.isFinite(id),
+  });
+
+export const useTeachers = (term: Term = {}) =>
+  useQuery({ queryKey: [...queryKeys.teachers, term], queryFn: ({ signal }) => listTeachers(term, signal) });
+
+export const useTeacherPage = (term: Term, params: ListParams) =>
+  useQuery({
+    queryKey: [...queryKeys.teachers, "page", term, params],
+    queryFn: ({ signal }) => listTeacherPage(term, params, signal),
+    placeholderData: keepPreviousData,
+  });
+
+export const useTeacher = (id: number) =>
+  useQuery({
+    queryKey: queryKeys.teacher(id),
+    queryFn: ({ signal }) => getTeacher(id, signal),
+    enabled: Number.isFinite(id),
+  });
+
+export const useTeacherSnapshots = (id: number) =>
+  useQuery({
+    queryKey: queryKeys.teacherSnapshots(id),
+    queryFn: ({ signal }) => listTeacherSnapshots(id, signal),
+    enabled: Number.isFinite(id),
+  });
+
+export const useSubjects = (term: Term = {}) =>
+  useQuery({ queryKey: [...queryKeys.subjects, term], queryFn: ({ signal }) => listSubjects(term, signal) });
+
+export const usePrograms = (term: Term = {}) =>
+  useQuery({ queryKey: [...queryKeys.programs, term], queryFn: ({ signal }) => listPrograms(term, signal) });
+
+export const useGrades = (term: Term = {}) =>
+  useQuery({ queryKey: [...queryKeys.grades, term], queryFn: ({ signal }) => listGrades(term, signal) });
+
+export const useGwaSummary = (term: Term) =>
+  useQuery({ queryKey: [...queryKeys.grades, "gwa", term], queryFn: ({ signal }) => getGwaSummary(term, signal) });
+
+export const useGradePage = (term: Term, params: ListParams) =>
+  useQuery({
+    queryKey: [...queryKeys.grades, "page", term, params],
+    queryFn: ({ signal }) => listGradePage(term, params, signal),
+    placeholderData: keepPreviousData,
+  });
+
+export const useUsers = () =>
+  useQuery({ queryKey: queryKeys.users, queryFn: ({ signal }) => listUsers(signal) });
+
+export const useAuditLog = (filters: AuditFilters = {}, enabled = true) =>
+  useQuery({
+    queryKey: [...queryKeys.audit, filters],
+    queryFn: ({ signal }) => listAudit(filters, signal),
+    enabled,
+  });
+
+export const useAuditActors = () =>
+  useQuery({ queryKey: [...queryKeys.audit, "actors"], queryFn: ({ signal }) => listAuditActors(signal) });
+
+export const useActivity = (filters: ActivityFilters = {}, enabled = true) =>
+  useQuery({
+    queryKey: [...queryKeys.audit, "activity", filters],
+    queryFn: ({ signal }) => listActivity(filters, signal),
+    enabled,
+  });
+
+export const usePolicies = () =>
+  useQuery({ queryKey: queryKeys.policies, queryFn: ({ signal }) => listPolicies(signal) });
+
+/**
+ * The policy in force per kind for a term. Falls back to the built-in
+ * defaults while loading or when the policies endpoint is unavailable, so
+ * badges always render.
+ */
+export const useActivePolicies = (term: Term = {}): Record<PolicyKind, ThresholdPolicy> => {
+  const { data } = useQuery({
+    queryKey: queryKeys.activePolicies(term),
+    queryFn: ({ signal }) => getActivePolicies(term, signal),
+    staleTime: 5 * 60_000,
+  });
+  return data ?? DEFAULT_POLICIES;
+};
+
+/** How GWAs are computed for a term: the scale and excluded statuses of its student GWA policy. */
+export const useGwaOptions = (term: Term = {}) => {
+  const policy = useActivePolicies(term).student_gwa;
+  return useMemo(() => gwaOptionsOf(policy), [policy]);
+};
+
+/**
+ * Active policies for several terms at once, e.g. to classify a history that
+ * spans years under the cut-offs that applied at the time.
+ */
+export const useActivePoliciesByTerm = (terms: Term[]) => {
+  const results = useQueries({
+    queries: terms.map((term) => ({
+      queryKey: queryKeys.activePolicies(term),
+      queryFn: ({ signal }: { signal: AbortSignal }) => getActivePolicies(term, signal),
+      staleTime: 5 * 60_000,
+    })),
+  });
+  return (term: Term): Record<PolicyKind, ThresholdPolicy> => {
+    const index = terms.findIndex(
+      (t) => t.academic_year === term.academic_year && t.semester === term.semester
+    );
+    return results[index]?.data ?? DEFAULT_POLICIES;
+  };
+};
+
+// Mutations
+
+export const useCreateStudent = () => {
+  const invalidate = useInvalidate("students");
+  return useMutation({ mutationFn: (data: StudentInput) => createStudent(data), onSuccess: invalidate });
+};
+
+export const useUpdateStudent = () => {
+  const invalidate = useInvalidate("students");
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RecordEdit<StudentInput> }) => updateStudent(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteStudent = () => {
+  const invalidate = useInvalidate("students");
+  return useMutation({ mutationFn: (id: number) => deleteStudent(id), onSuccess: invalidate });
+};
+
+export const useCreateTeacher = () => {
+  const invalidate = useInvalidate("teachers");
+  return useMutation({ mutationFn: (data: TeacherInput) => createTeacher(data), onSuccess: invalidate });
+};
+
+export const useUpdateTeacher = () => {
+  const invalidate = useInvalidate("teachers");
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RecordEdit<TeacherInput> }) => updateTeacher(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteTeacher = () => {
+  const invalidate = useInvalidate("teachers");
+  return useMutation({ mutationFn: (id: number) => deleteTeacher(id), onSuccess: invalidate });
+};
+
+export const useCreateSubject = () => {
+  const invalidate = useInvalidate("subjects");
+  return useMutation({ mutationFn: (data: SubjectInput) => createSubject(data), onSuccess: invalidate });
+};
+
+export const useUpdateSubject = () => {
+  const invalidate = useInvalidate("subjects");
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RecordEdit<SubjectInput> }) => updateSubject(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteSubject = () => {
+  const invalidate = useInvalidate("subjects");
+  return useMutation({ mutationFn: (id: number) => deleteSubject(id), onSuccess: invalidate });
+};
+
+export const useCreateProgram = () => {
+  const invalidate = useInvalidate("programs");
+  return useMutation({ mutationFn: (data: ProgramInput) => createProgram(data), onSuccess: invalidate });
+};
+
+export const useUpdateProgram = () => {
+  const invalidate = useInvalidate("programs");
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RecordEdit<ProgramInput> }) => updateProgram(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteProgram = () => {
+  const invalidate = useInvalidate("programs");
+  return useMutation({ mutationFn: (id: number) => deleteProgram(id), onSuccess: invalidate });
+};
+
+export const useCreateGrade = () => {
+  const invalidate = useInvalidate("grades");
+  return useMutation({ mutationFn: (data: GradeInput) => createGrade(data), onSuccess: invalidate });
+};
+
+export const useUpdateGrade = () => {
+  const invalidate = useInvalidate("grades");
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RecordEdit<GradeInput> }) => updateGrade(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteGrade = () => {
+  const invalidate = useInvalidate("grades");
+  return useMutation({ mutationFn: (id: number) => deleteGrade(id), onSuccess: invalidate });
+};
+
+// Soft-deleted records of one kind, fetched while the Recently deleted list is open
+export const useDeletedRecords = (entity: RecordEntity, enabled = true) =>
+  useQuery({
+    queryKey: [...queryKeys[entity], "deleted"],
+    queryFn: ({ signal }) => listDeleted(entity, signal),
+    enabled,
+  });
+
+export const useRestoreRecord = (entity: RecordEntity) => {
+  const invalidate = useInvalidate(entity);
+  return useMutation({ mutationFn: (id: number) => restoreRecord(entity, id), onSuccess: invalidate });
+};
+
+export const useUploadRecords = (type: UploadType, term: Term = {}) => {
+  const invalidate = useInvalidate(type);
+  return useMutation({
+    mutationFn: ({ file, ...options }: { file: File } & UploadOptions) =>
+      uploadRecords(type, file, term, options),
+    // A dry run changes nothing, so there is nothing to refetch
+    onSuccess: (_result, { dryRun }) => (dryRun ? undefined : invalidate()),
+  });
+};
+
+export const useUploadGradeSheet = () => {
+  const invalidateGrades = useInvalidate("grades");
+  const invalidateTeachers = useInvalidate("teachers");
+  return useMutation({
+    mutationFn: ({ file, ...options }: { file: File } & UploadOptions) => uploadGradeSheet(file, options),
+    onSuccess: () => Promise.all([invalidateGrades(), invalidateTeachers()]),
+  });
+};
+
+/** Recalculates every zone for a term; a dry run previews the moves and changes nothing. */
+export const useRecalculateZones = (term: Required<Term>) => {
+  const invalidateStudents = useInvalidate("students");
+  const invalidateSubjects = useInvalidate("subjects");
+  const invalidateTeachers = useInvalidate("teachers");
+  return useMutation({
+    mutationFn: ({ dryRun }: { dryRun: boolean }) => recalculateZones(term, dryRun),
+    onSuccess: (_result, { dryRun }) =>
+      dryRun ? undefined : Promise.all([invalidateStudents(), invalidateSubjects(), invalidateTeachers()]),
+  });
+};
+
+/** Applies one change to many selected records of a kind. */
+export const useBulkAction = (entity: BulkEntity) => {
+  const invalidate = useInvalidate(entity);
+  return useMutation({ mutationFn: (request: BulkRequest) => runBulkAction(entity, request), onSuccess: invalidate });
+};
+
+export const useCreatePolicy = () => {
+  const invalidate = useInvalidate("policies");
+  return useMutation({ mutationFn: (data: PolicyInput) => createPolicy(data), onSuccess: invalidate });
+};
+
+export const useDeletePolicy = () => {
+  const invalidate = useInvalidate("policies");
+  return useMutation({ mutationFn: (id: number) => deletePolicy(id), onSuccess: invalidate });
+};
+
+export const useCreateUser = () => {
+  const invalidate = useInvalidate("users");
+  return useMutation({ mutationFn: (data: UserInput) => createUser(data), onSuccess: invalidate });
+};
+
+export const useUpdateUser = () => {
+  const invalidate = useInvalidate("users");
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UserUpdate }) => updateUser(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+// A fresh invite link, for a pending invite that expired or a forgotten password
+export const useInviteUser = () => {
+  const invalidate = useInvalidate("users");
+  return useMutation({ mutationFn: (id: number) => inviteUser(id), onSuccess: invalidate });
+};
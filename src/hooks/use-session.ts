@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { getSession, subscribe } from "@/lib/auth";
+import { hasPermission, type Permission } from "@/lib/permissions";
+
+/** The signed-in session, or null once it is missing, revoked or expired. */
+export const useSession = () => useSyncExternalStore(subscribe, getSession);
+
+/** Checks the signed-in user's permissions, e.g. `can("students.manage")`. */
+export const useCan = () => {
+  const user = useSession()?.user;
+  return useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+};
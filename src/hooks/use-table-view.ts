@@ -0,0 +1,33 @@
+import { useCallback, useState } from "react";
+import { useSession } from "@/hooks/use-session";
+import { loadTableView, saveTableView, type TableView } from "@/lib/table-view";
+
+const load = (userId: number | undefined, table: string | undefined): TableView =>
+  userId !== undefined && table ? loadTableView(userId, table) : {};
+
+/**
+ * The signed-in user's saved view of a table, and a setter that merges a
+ * patch into it (null resets it). Without a table id or a session the view
+ * only lasts until the page is left.
+ */
+export const useTableView = (table: string | undefined) => {
+  const userId = useSession()?.user.id;
+  const [state, setState] = useState(() => ({ userId, table, view: load(userId, table) }));
+
+  // Another user signed in, or the page switched tables
+  let current = state;
+  if (state.userId !== userId || state.table !== table) {
+    current = { userId, table, view: load(userId, table) };
+    setState(current);
+  }
+
+  const updateView = useCallback(
+    (patch: TableView | null) => {
+      if (userId !== undefined && table) saveTableView(userId, table, patch);
+      setState((prev) => ({ userId, table, view: patch === null ? {} : { ...prev.view, ...patch } }));
+    },
+    [userId, table]
+  );
+
+  return [current.view, updateView] as const;
+};
@@ -0,0 +1,86 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { PERIODS, type Period } from "@/lib/classification";
+import type { Term } from "@/lib/client";
+
+/**
+ * The academic year, semester and grading period being viewed. Stored in the
+ * URL (?year=2024-2025&semester=1st&period=p1) so a view can be bookmarked or
+ * shared, and so two tabs can compare different terms side by side.
+ */
+
+// In term order, as grades, transcripts and standings sort them
+export const SEMESTERS = ["1st", "2nd", "Summer"] as const;
+
+// Academic years from 2023 to the one starting this calendar year
+export const academicYearOptions = (now = new Date()) => {
+  const years: string[] = [];
+  for (let year = 2023; year <= now.getFullYear(); year++) {
+    years.push(`${year}-${year + 1}`);
+  }
+  return years;
+};
+
+// Philippine academic years start in June (1st semester) and the 2nd semester in November
+const currentTerm = (now = new Date()) => {
+  const year = now.getFullYear();
+  const month = now.getMonth() + 1;
+  const startYear = month >= 6 ? year : year - 1;
+  return {
+    academicYear: `${startYear}-${startYear + 1}`,
+    semester: month >= 6 && month <= 10 ? "1st" : "2nd",
+  };
+};
+
+const TERM_PARAMS = ["year", "semester", "period"] as const;
+
+export interface TermState {
+  academicYear: string;
+  semester: string;
+  period: Period;
+  // For list endpoints and query keys
+  term: Term;
+  setTerm: (patch: Partial<Pick<TermState, "academicYear" | "semester" | "period">>) => void;
+  // "?year=...&semester=...&period=..." for links that should keep the term
+  search: string;
+}
+
+export const useTerm = (): TermState => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fallback = currentTerm();
+
+  const academicYear = searchParams.get("year") || fallback.academicYear;
+  const semesterParam = searchParams.get("semester");
+  const semester = SEMESTERS.find((s) => s === semesterParam) ?? fallback.semester;
+  const periodParam = searchParams.get("period");
+  const period = PERIODS.find((p) => p === periodParam) ?? "p1";
+
+  const setTerm = useCallback<TermState["setTerm"]>(
+    (patch) =>
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (patch.academicYear) next.set("year", patch.academicYear);
+          if (patch.semester) next.set("semester", patch.semester);
+          if (patch.period) next.set("period", patch.period);
+          return next;
+        },
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  const search = useMemo(() => {
+    const params = new URLSearchParams();
+    TERM_PARAMS.forEach((key) => {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    });
+    const qs = params.toString();
+    return qs ? `?${qs}` : "";
+  }, [searchParams]);
+
+  const term = useMemo<Term>(() => ({ academic_year: academicYear, semester }), [academicYear, semester]);
+
+  return { academicYear, semester, period, term, setTerm, search };
+};
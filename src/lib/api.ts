@@ -1,4 +1,217 @@
+import type { ZodType, ZodTypeDef } from "zod";
+
 const DEFAULT_BASE = 'http://localhost/deliberation';
 export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || DEFAULT_BASE).replace(/\/+$/, '');
 
-export const apiUrl = (path: string) => `${API_BASE_URL}/routes/${path}`;
\ No newline at end of file
+export const apiUrl = (path: string) => `${API_BASE_URL}/routes/${path}`;
+
+// Shape of the error body every PHP route sends back ({ error, instructions?, ... })
+export interface ApiErrorPayload {
+  error?: string;
+  instructions?: string[];
+  [key: string]: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly path: string;
+  readonly payload: ApiErrorPayload;
+
+  constructor(message: string, status: number, path: string, payload: ApiErrorPayload = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.path = path;
+    this.payload = payload;
+  }
+
+  get instructions(): string[] {
+    return Array.isArray(this.payload.instructions) ? this.payload.instructions : [];
+  }
+
+  // True when the response arrived but did not match the expected schema
+  get isSchemaMismatch(): boolean {
+    return this.payload.kind === 'schema';
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const errorMessage = (error: unknown, fallback = 'Something went wrong') => {
+  if (error instanceof ApiError) return error.message;
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: QueryParams;
+  body?: unknown;
+  signal?: AbortSignal;
+  // Fraction of the request body sent so far (0-1). Only reported for
+  // FormData bodies, which are then sent with XMLHttpRequest because fetch
+  // has no upload progress events.
+  onUploadProgress?: (fraction: number) => void;
+}
+
+export const withQuery = (path: string, query?: QueryParams) => {
+  if (!query) return path;
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    params.append(key, String(value));
+  });
+  const qs = params.toString();
+  if (!qs) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}${qs}`;
+};
+
+const readJson = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: text.trim().slice(0, 300) };
+  }
+};
+
+const toPayload = (data: unknown): ApiErrorPayload =>
+  data && typeof data === 'object' && !Array.isArray(data) ? (data as ApiErrorPayload) : {};
+
+/**
+ * Parses a fetch Response with the given schema, throwing an ApiError for
+ * non-2xx statuses and for bodies that do not match the schema.
+ */
+export const parseResponse = async <T>(
+  response: Response,
+  path: string,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): Promise<T> => {
+  const data = await readJson(response);
+
+  if (!response.ok) {
+    const payload = toPayload(data);
+    throw new ApiError(
+      payload.error || `Request to ${path} failed with status ${response.status}`,
+      response.status,
+      path,
+      payload
+    );
+  }
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+    throw new ApiError(
+      `Unexpected response from ${path}${where}: ${issue?.message ?? 'invalid data'}`,
+      response.status,
+      path,
+      { kind: 'schema', issues: parsed.error.issues }
+    );
+  }
+  return parsed.data;
+};
+
+/**
+ * Hooks the session module registers so every request carries the access
+ * token and a 401 gets one silent refresh before the user is signed out.
+ * Kept as callbacks so this module does not depend on the session store.
+ */
+export interface AuthHandlers {
+  token: () => string | null;
+  refresh: () => Promise<boolean>;
+  onUnauthorized: () => void;
+}
+
+let authHandlers: AuthHandlers | null = null;
+
+export const setAuthHandlers = (handlers: AuthHandlers | null) => {
+  authHandlers = handlers;
+};
+
+// Endpoints that answer 401 for bad credentials rather than an expired session
+const AUTH_PATHS = ['login.php', 'refresh.php', 'logout.php'];
+
+const authHeaders = (): Record<string, string> => {
+  const token = authHandlers?.token();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Sends a form with XMLHttpRequest and resolves with a fetch-style Response
+const sendWithProgress = (
+  url: string,
+  method: string,
+  form: FormData,
+  onUploadProgress: (fraction: number) => void,
+  signal?: AbortSignal
+) =>
+  new Promise<Response>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort);
+    const done = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded / event.total);
+    };
+    xhr.upload.onload = () => onUploadProgress(1);
+    xhr.onload = () => {
+      done();
+      resolve(new Response(xhr.responseText, { status: xhr.status, statusText: xhr.statusText }));
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+    xhr.open(method, url);
+    Object.entries(authHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.send(form);
+  });
+
+const send = (target: string, { method = 'GET', body, signal, onUploadProgress }: RequestOptions) => {
+  const isForm = body instanceof FormData;
+  if (isForm && onUploadProgress) {
+    return sendWithProgress(apiUrl(target), method, body, onUploadProgress, signal);
+  }
+  return fetch(apiUrl(target), {
+    method,
+    signal,
+    headers: {
+      ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+      ...authHeaders(),
+    },
+    body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+  });
+};
+
+export const apiRequest = async <T>(
+  path: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const target = withQuery(path, options.query);
+  let response = await send(target, options);
+
+  if (response.status === 401 && authHandlers && !AUTH_PATHS.includes(path)) {
+    // The access token may just have expired; retry once with a fresh one
+    if (await authHandlers.refresh()) {
+      response = await send(target, options);
+    }
+    if (response.status === 401) authHandlers.onUnauthorized();
+  }
+
+  return parseResponse(response, path, schema);
+};
@@ -0,0 +1,19 @@
+import type { AuditEntity, AuditSource } from "@/lib/schemas";
+
+// Display names for the entity and source columns of backend/models/AuditLog.php
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  students: "Students",
+  teachers: "Teachers",
+  subjects: "Subjects",
+  programs: "Programs",
+  grades: "Grades",
+  policies: "Policies",
+  users: "Users",
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  manual: "Form",
+  import: "Import",
+  bulk: "Bulk action",
+};
@@ -0,0 +1,148 @@
+import { ApiError, setAuthHandlers } from "@/lib/api";
+import * as client from "@/lib/client";
+import type { SessionTokens, User } from "@/lib/schemas";
+
+/**
+ * The signed-in session. Access tokens are short-lived and signed by the
+ * server; the refresh token is exchanged for a new pair shortly before the
+ * access token expires, and again whenever a request comes back 401.
+ * Stored in localStorage so other tabs share the session and sign out together.
+ */
+
+export interface Session {
+  user: User;
+  token: string;
+  refreshToken: string;
+  // Milliseconds since the epoch
+  expiresAt: number;
+}
+
+const STORAGE_KEY = "session";
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60_000;
+
+// Wait before trying again when the server could not be reached
+const RETRY_MS = 30_000;
+
+const read = (): Session | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return parsed && typeof parsed.token === "string" && typeof parsed.refreshToken === "string"
+      ? (parsed as Session)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+let current = read();
+const listeners = new Set<() => void>();
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+let refreshing: Promise<boolean> | null = null;
+
+const scheduleRefresh = (delay?: number) => {
+  clearTimeout(refreshTimer);
+  if (!current) return;
+  const wait = delay ?? Math.max(current.expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+  refreshTimer = setTimeout(() => refresh().catch(() => scheduleRefresh(RETRY_MS)), wait);
+};
+
+const setSession = (session: Session | null, persist = true) => {
+  current = session;
+  if (persist) {
+    if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(STORAGE_KEY);
+  }
+  scheduleRefresh();
+  listeners.forEach((listener) => listener());
+};
+
+const fromTokens = (tokens: SessionTokens): Session => ({
+  user: tokens.user as User,
+  token: tokens.token,
+  refreshToken: tokens.refresh_token,
+  expiresAt: tokens.expires_at * 1000,
+});
+
+export const getSession = () => current;
+
+export const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Exchanges the refresh token for new tokens. Concurrent callers share one
+ * request because the server rotates the refresh token on every use. Only a
+ * rejected refresh token (401 or 403) signs the user out; other failures,
+ * such as a network error or a 5xx, are rethrown and the session is kept.
+ */
+export const refresh = (): Promise<boolean> => {
+  if (refreshing) return refreshing;
+  const refreshToken = current?.refreshToken;
+  if (!refreshToken) return Promise.resolve(false);
+
+  refreshing = client
+    .refreshSession(refreshToken)
+    .then((tokens) => {
+      setSession(fromTokens(tokens));
+      return true;
+    })
+    .catch((error) => {
+      // Another tab may have rotated the token first and stored the result
+      const stored = read();
+      if (stored && stored.refreshToken !== refreshToken) {
+        setSession(stored, false);
+        return true;
+      }
+      if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+        setSession(null);
+        return false;
+      }
+      throw error;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+export const login = async (credentials: { username: string; password: string }) => {
+  const tokens = await client.login(credentials);
+  setSession(fromTokens(tokens));
+  return tokens.user as User;
+};
+
+/** Sets the password on an invited account and signs straight in. */
+export const acceptInvite = async (token: string, password: string) => {
+  const tokens = await client.acceptInvite(token, password);
+  setSession(fromTokens(tokens));
+  return tokens.user as User;
+};
+
+/** Revokes the session on the server, then forgets it locally either way. */
+export const logout = async () => {
+  try {
+    if (current) await client.logout();
+  } catch {
+    // The session is dropped locally even if the server cannot be reached
+  } finally {
+    setSession(null);
+  }
+};
+
+setAuthHandlers({
+  token: () => current?.token ?? null,
+  refresh,
+  // Protected routes redirect to /login as soon as the session is cleared
+  onUnauthorized: () => setSession(null),
+});
+
+window.addEventListener("storage", (event) => {
+  if (event.key === STORAGE_KEY) setSession(read(), false);
+});
+
+scheduleRefresh();
@@ -0,0 +1,80 @@
+import {
+  listAllPages,
+  listGradePage,
+  listStudentPage,
+  listTeacherPage,
+  type BulkActionName,
+  type BulkEntity,
+  type Term,
+} from "@/lib/client";
+import type { ThresholdPolicy } from "@/lib/classification";
+import type { CsvRows } from "@/lib/csv";
+import { gradeRows, studentRows, subjectRows, teacherRows } from "@/lib/reports";
+import type { BulkResult, Subject } from "@/lib/schemas";
+
+/**
+ * Bulk actions per kind of record, as backend/models/BulkAction.php allows
+ * them. Subjects have no status or at-risk flag and their zones are per-term
+ * pass rates, so only a program and delete apply to them.
+ */
+
+export const BULK_ACTIONS: Record<BulkEntity, BulkActionName[]> = {
+  students: ["status", "program", "at_risk", "zone", "delete"],
+  teachers: ["status", "zone", "delete"],
+  subjects: ["program", "delete"],
+  grades: ["status", "delete"],
+};
+
+export const BULK_STATUSES: Record<BulkEntity, string[]> = {
+  students: ["Active", "Inactive", "Graduated", "Dropped"],
+  teachers: ["Active", "Inactive", "On Leave"],
+  subjects: [],
+  grades: ["Passed", "Failed", "Incomplete"],
+};
+
+export const BULK_ACTION_LABELS: Record<BulkActionName, string> = {
+  status: "Change status",
+  program: "Reassign program",
+  at_risk: "Set at-risk flag",
+  zone: "Override zone",
+  delete: "Delete",
+};
+
+/** A toast line for the result, e.g. "12 students updated, 3 already had that value." */
+export const bulkSummary = (result: BulkResult, noun: string) => {
+  const verb = result.action === "delete" ? "deleted" : "updated";
+  const parts = [`${result.changed} ${noun} ${verb}`];
+  if (result.unchanged > 0) parts.push(`${result.unchanged} already had that value`);
+  if (result.missing > 0) parts.push(`${result.missing} no longer exist`);
+  return `${parts.join(", ")}.`;
+};
+
+export interface ExportContext {
+  term: Term;
+  teacherPolicy: ThresholdPolicy;
+  // Subjects are loaded whole and their figures worked out per request, so
+  // the export takes the rows on screen rather than listing them again
+  subjects?: Subject[];
+}
+
+/**
+ * The selected records as CSV rows. The paged lists are fetched by id, since
+ * a selection can span pages.
+ */
+export const exportSelection = async (
+  entity: BulkEntity,
+  ids: number[],
+  { term, teacherPolicy, subjects = [] }: ExportContext
+): Promise<CsvRows> => {
+  const params = { filters: { ids: ids.join(",") } };
+  switch (entity) {
+    case "students":
+      return studentRows(await listAllPages((page) => listStudentPage(term, page), params));
+    case "teachers":
+      return teacherRows(await listAllPages((page) => listTeacherPage(term, page), params), teacherPolicy);
+    case "grades":
+      return gradeRows(await listAllPages((page) => listGradePage(term, page), params));
+    case "subjects":
+      return subjectRows(subjects.filter((subject) => ids.includes(subject.id)));
+  }
+};
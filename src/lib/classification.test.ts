@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  categoriesFor,
+  classify,
+  STUDENT_GWA_POLICY,
+  SUBJECT_PASS_RATE_POLICY,
+  TEACHER_FAILURE_POLICY,
+} from "@/lib/classification";
+
+describe("categoriesFor", () => {
+  it("labels lower-is-better bands from the previous limit plus one step", () => {
+    expect(categoriesFor(TEACHER_FAILURE_POLICY).map((c) => c.label)).toEqual([
+      "GREEN (0%)",
+      "GREEN (0.01%-10%)",
+      "YELLOW (10.01%-40%)",
+      "RED (40.01%-100%)",
+    ]);
+  });
+
+  it("labels higher-is-better bands down to the next limit less one step", () => {
+    expect(categoriesFor(SUBJECT_PASS_RATE_POLICY).map((c) => c.label)).toEqual([
+      "GREEN (80%-100%)",
+      "YELLOW (60%-79.99%)",
+      "RED (0%-59.99%)",
+    ]);
+  });
+});
+
+describe("classify", () => {
+  it.each([
+    [0, "GREEN (0%)"],
+    [0.01, "GREEN (0.01%-10%)"],
+    [10, "GREEN (0.01%-10%)"],
+    [10.01, "YELLOW (10.01%-40%)"],
+    [40, "YELLOW (10.01%-40%)"],
+    [40.01, "RED (40.01%-100%)"],
+    [100, "RED (40.01%-100%)"],
+  ])("puts a %s%% failure rate in %s", (value, label) => {
+    expect(classify(value, TEACHER_FAILURE_POLICY)?.label).toBe(label);
+  });
+
+  it.each([
+    [100, "GREEN (80%-100%)"],
+    [80, "GREEN (80%-100%)"],
+    [79.99, "YELLOW (60%-79.99%)"],
+    [60, "YELLOW (60%-79.99%)"],
+    [59.99, "RED (0%-59.99%)"],
+    [0, "RED (0%-59.99%)"],
+  ])("puts a %s%% pass rate in %s", (value, label) => {
+    expect(classify(value, SUBJECT_PASS_RATE_POLICY)?.label).toBe(label);
+  });
+
+  it.each([
+    [2, "green"],
+    [2.01, "yellow"],
+    [3, "yellow"],
+    [3.01, "red"],
+  ])("puts a GWA of %s in the %s zone", (value, zone) => {
+    expect(classify(value, STUDENT_GWA_POLICY)?.zone).toBe(zone);
+  });
+
+  it("puts values past the last limit in the last band", () => {
+    expect(classify(120, TEACHER_FAILURE_POLICY)?.zone).toBe("red");
+    expect(classify(-5, SUBJECT_PASS_RATE_POLICY)?.zone).toBe("red");
+  });
+
+  it("returns null for missing or non-numeric values", () => {
+    expect(classify(null, TEACHER_FAILURE_POLICY)).toBeNull();
+    expect(classify(undefined, TEACHER_FAILURE_POLICY)).toBeNull();
+    expect(classify(Number.NaN, SUBJECT_PASS_RATE_POLICY)).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+import type { GradeScaleId } from "@/lib/gwa";
+import type { Teacher, TeacherSnapshot, Zone } from "@/lib/schemas";
+
+/**
+ * Zone/category classification.
+ *
+ * A threshold policy is an ordered list of bands. For "lower-is-better"
+ * metrics (failure rate, GWA on the 1.0-5.0 scale) a value falls in the first
+ * band whose limit it does not exceed; for "higher-is-better" metrics (pass
+ * rate) it falls in the first band whose limit it reaches. The last band
+ * catches everything else, so every finite value gets a category.
+ */
+
+export type PolicyDirection = "lower-is-better" | "higher-is-better";
+
+export interface ThresholdBand {
+  zone: Zone;
+  limit: number;
+}
+
+export interface ThresholdPolicy {
+  direction: PolicyDirection;
+  // Appended to numbers in generated labels ("%" for rates, "" for GWA)
+  unit: string;
+  // Bounds of the scale, used for the open ends of the first and last band
+  min: number;
+  max: number;
+  // Smallest step between two bands, e.g. 0.01 gives "10.01%-40%"
+  step: number;
+  bands: ThresholdBand[];
+  // Student GWA policies only: the scale the bands are on and the statuses GWAs leave out
+  grade_scale?: GradeScaleId;
+  excluded_statuses?: string[];
+}
+
+export interface Category {
+  zone: Zone;
+  label: string;
+  range: { min: number; max: number };
+}
+
+export const TEACHER_FAILURE_POLICY: ThresholdPolicy = {
+  direction: "lower-is-better",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 0.01,
+  bands: [
+    { zone: "green", limit: 0 },
+    { zone: "green", limit: 10 },
+    { zone: "yellow", limit: 40 },
+    { zone: "red", limit: 100 },
+  ],
+};
+
+export const SUBJECT_PASS_RATE_POLICY: ThresholdPolicy = {
+  direction: "higher-is-better",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 0.01,
+  bands: [
+    { zone: "green", limit: 80 },
+    { zone: "yellow", limit: 60 },
+    { zone: "red", limit: 0 },
+  ],
+};
+
+export const STUDENT_GWA_POLICY: ThresholdPolicy = {
+  direction: "lower-is-better",
+  unit: "",
+  min: 1,
+  max: 5,
+  step: 0.01,
+  bands: [
+    { zone: "green", limit: 2 },
+    { zone: "yellow", limit: 3 },
+    { zone: "red", limit: 5 },
+  ],
+  grade_scale: "philippine",
+  excluded_statuses: ["Dropped", "Incomplete"],
+};
+
+// The same cut-offs for a GWA kept as a percentage: 2.0 is 80% and 3.0 is 60%
+export const STUDENT_GWA_PERCENT_POLICY: ThresholdPolicy = {
+  direction: "higher-is-better",
+  unit: "%",
+  min: 0,
+  max: 100,
+  step: 0.01,
+  bands: [
+    { zone: "green", limit: 80 },
+    { zone: "yellow", limit: 60 },
+    { zone: "red", limit: 0 },
+  ],
+  grade_scale: "percentage",
+  excluded_statuses: ["Dropped", "Incomplete"],
+};
+
+/** The metrics a policy can be saved for; mirrors ThresholdPolicyModel::KINDS. */
+export type PolicyKind = "teacher_failure" | "subject_pass" | "student_gwa";
+
+export const POLICY_KINDS: PolicyKind[] = ["teacher_failure", "subject_pass", "student_gwa"];
+
+export const POLICY_KIND_LABELS: Record<PolicyKind, string> = {
+  teacher_failure: "Teacher failure rate",
+  subject_pass: "Subject pass rate",
+  student_gwa: "Student GWA",
+};
+
+/** Built-in policies, used until a policy is saved for a term. */
+export const DEFAULT_POLICIES: Record<PolicyKind, ThresholdPolicy> = {
+  teacher_failure: TEACHER_FAILURE_POLICY,
+  subject_pass: SUBJECT_PASS_RATE_POLICY,
+  student_gwa: STUDENT_GWA_POLICY,
+};
+
+export const ZONE_COLORS: Record<Zone, string> = {
+  green: "#22c55e", // green-500
+  yellow: "#facc15", // yellow-400
+  red: "#ef4444", // red-500
+};
+
+export const ZONES: Zone[] = ["green", "yellow", "red"];
+
+export const ZONE_LABELS: Record<Zone, string> = { green: "Green Zone", yellow: "Yellow Zone", red: "Red Zone" };
+
+// For zone values that arrive as plain strings, e.g. list facets
+export const zoneLabel = (zone: string) => ZONE_LABELS[zone as Zone] ?? zone;
+
+const round = (value: number, step: number) => {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return Number(value.toFixed(decimals));
+};
+
+const formatNumber = (value: number) => String(round(value, 0.0001));
+
+const sortedBands = (policy: ThresholdPolicy) =>
+  [...policy.bands].sort((a, b) =>
+    policy.direction === "lower-is-better" ? a.limit - b.limit : b.limit - a.limit
+  );
+
+const formatLabel = (zone: Zone, min: number, max: number, unit: string) => {
+  const range = min === max
+    ? `${formatNumber(min)}${unit}`
+    : `${formatNumber(min)}${unit}-${formatNumber(max)}${unit}`;
+  return `${zone.toUpperCase()} (${range})`;
+};
+
+/**
+ * Every category a policy can produce, in band order, with generated labels
+ * such as "GREEN (0%)", "GREEN (0.01%-10%)" and "YELLOW (10.01%-40%)".
+ */
+export const categoriesFor = (policy: ThresholdPolicy): Category[] => {
+  const bands = sortedBands(policy);
+  return bands.map((band, index) => {
+    const last = index === bands.length - 1;
+    const previous = bands[index - 1];
+    let min: number;
+    let max: number;
+    if (policy.direction === "lower-is-better") {
+      min = previous ? round(previous.limit + policy.step, policy.step) : policy.min;
+      max = last ? policy.max : band.limit;
+    } else {
+      min = last ? policy.min : band.limit;
+      max = previous ? round(previous.limit - policy.step, policy.step) : policy.max;
+    }
+    return { zone: band.zone, label: formatLabel(band.zone, min, max, policy.unit), range: { min, max } };
+  });
+};
+
+/** Classifies a value under a policy; returns null for missing or non-numeric values. */
+export const classify = (
+  value: number | null | undefined,
+  policy: ThresholdPolicy
+): Category | null => {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null;
+  const bands = sortedBands(policy);
+  const categories = categoriesFor(policy);
+  const index = bands.findIndex((band) =>
+    policy.direction === "lower-is-better" ? value <= band.limit : value >= band.limit
+  );
+  return categories[index === -1 ? categories.length - 1 : index];
+};
+
+/**
+ * Reads a category label stored by an older import ("YELLOW (10.01%-40%)")
+ * back into a Category. Returns null when the label has no zone prefix.
+ */
+export const parseCategoryLabel = (label: string | null | undefined): Category | null => {
+  const text = (label || "").trim();
+  const zone = ZONES.find((z) => text.toUpperCase().startsWith(z.toUpperCase()));
+  if (!zone) return null;
+  const numbers = (text.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+  const min = numbers[0] ?? NaN;
+  const max = numbers[1] ?? min;
+  return { zone, label: text, range: { min, max } };
+};
+
+export const failurePercent = (failed?: number | string, enrolled?: number | string) => {
+  const f = Number(failed);
+  const e = Number(enrolled);
+  if (!isFinite(f) || !isFinite(e) || e <= 0) return null;
+  return (f / e) * 100;
+};
+
+/** Prefers the percentage computed from counts, falling back to the stored one. */
+export const percentFromData = (
+  storedPercent?: number | string,
+  failed?: number | string,
+  enrolled?: number | string
+) => {
+  const calc = failurePercent(failed, enrolled);
+  if (calc !== null) return calc;
+  const direct = Number(storedPercent);
+  if (storedPercent !== undefined && storedPercent !== null && isFinite(direct)) return direct;
+  return null;
+};
+
+export type Period = "p1" | "p2" | "p3";
+export const PERIODS: Period[] = ["p1", "p2", "p3"];
+
+export interface PeriodPerformance {
+  failed: number;
+  percent: number | null;
+  category: Category | null;
+}
+
+/**
+ * A teacher's failure figures for one grading period, classified under the
+ * given policy. Falls back to the stored category label when no percentage
+ * can be derived.
+ */
+export const teacherPeriodPerformance = (
+  teacher: Teacher,
+  period: Period,
+  policy: ThresholdPolicy = TEACHER_FAILURE_POLICY
+): PeriodPerformance =>
+  periodPerformance(
+    {
+      failed: teacher[`${period}_failed`],
+      percent: teacher[`${period}_percent`],
+      category: teacher[`${period}_category`],
+      enrolled_students: teacher.enrolled_students,
+    },
+    policy
+  );
+
+/** Same as teacherPeriodPerformance, for a stored per-term snapshot. */
+export const periodPerformance = (
+  figures: Pick<TeacherSnapshot, "failed" | "percent" | "category" | "enrolled_students">,
+  policy: ThresholdPolicy = TEACHER_FAILURE_POLICY
+): PeriodPerformance => {
+  const percent = percentFromData(figures.percent, figures.failed, figures.enrolled_students);
+  const category = percent !== null
+    ? classify(percent, policy)
+    : parseCategoryLabel(figures.category);
+  return { failed: Number(figures.failed) || 0, percent, category };
+};
@@ -0,0 +1,407 @@
+import { z } from "zod";
+import { apiRequest } from "@/lib/api";
+import type { PolicyKind, ThresholdPolicy } from "@/lib/classification";
+import {
+  activePoliciesSchema,
+  activityEventSchema,
+  auditActorSchema,
+  auditPageSchema,
+  bulkResultSchema,
+  createdSchema,
+  deletedRecordSchema,
+  gradeSchema,
+  gradeSheetResultSchema,
+  gwaSummarySchema,
+  inviteSchema,
+  managedUserSchema,
+  pageSchema,
+  programSchema,
+  registeredUserSchema,
+  sessionTokensSchema,
+  studentSchema,
+  subjectSchema,
+  successSchema,
+  teacherSchema,
+  teacherSnapshotSchema,
+  thresholdPolicySchema,
+  uploadResultSchema,
+  zoneRecalculationSchema,
+  type ActivePolicies,
+  type ActivityType,
+  type AuditEntity,
+  type AuditSource,
+  type Page,
+  type ThresholdPolicyRecord,
+  type Zone,
+} from "@/lib/schemas";
+
+export interface StudentInput {
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string;
+  email?: string;
+  program_id?: number | null;
+  year_level: number;
+  semester: string;
+  academic_year: string;
+  status: string;
+  zone: Zone;
+  at_risk: boolean;
+  notes?: string;
+  // Required when zone or at_risk differ from what the grades give, see backend/models/StudentStanding.php
+  zone_override_reason?: string;
+  // Drops the override; zone and at_risk are then recomputed from grades
+  clear_override?: boolean;
+}
+
+export interface TeacherInput {
+  teacher_id: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string;
+  email?: string;
+  department: string;
+  position?: string;
+  status: string;
+  zone: Zone;
+  notes?: string;
+}
+
+export interface SubjectInput {
+  subject_code: string;
+  subject_name: string;
+  description?: string;
+  units: number;
+  year_level: number;
+  semester: string;
+  program_id?: number | null;
+  // Subjects name their program by code
+  program_name?: string;
+  cutoff_grade: number;
+}
+
+export interface ProgramInput {
+  program_code: string;
+  program_name: string;
+  description?: string;
+  duration_years: number;
+}
+
+// Changes to an existing record, with the updated_at it had when the edit was
+// opened; the server refuses the save with a 409 when it has changed since
+export type RecordEdit<Input> = Partial<Input> & { expected_updated_at?: string };
+
+export interface UserInput {
+  username: string;
+  // Omitted when invite is set; the user then picks one from the invite link
+  password?: string;
+  invite?: boolean;
+  role: string;
+  department?: string;
+  program_ids?: number[];
+}
+
+// Everything an admin can change on an existing account
+export interface UserUpdate {
+  role?: string;
+  department?: string;
+  program_ids?: number[];
+  disabled?: boolean;
+  password?: string;
+}
+
+export interface GradeInput {
+  student_id: number;
+  subject_id: number;
+  academic_year: string;
+  semester: string;
+  midterm_grade?: number | null;
+  final_grade?: number | null;
+  final_rating?: number | null;
+  status: string;
+}
+
+export interface PolicyInput extends ThresholdPolicy {
+  kind: PolicyKind;
+  name: string;
+  academic_year: string;
+  semester: string;
+  notes?: string;
+}
+
+export interface Term {
+  academic_year?: string;
+  semester?: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+// Paging, sorting and filters for a list endpoint; see backend/config/pagination.php
+export interface ListParams {
+  page: number;
+  size: number;
+  sort?: string;
+  dir?: SortDirection;
+  q?: string;
+  // Column filters by name; a comma list matches any of the values
+  filters?: Record<string, string>;
+}
+
+const listQuery = (term: Term, { filters, ...params }: ListParams) => ({ ...filters, ...term, ...params });
+
+// Largest page the list endpoints serve (Pagination::MAX_SIZE)
+const MAX_PAGE_SIZE = 200;
+
+/** Every row of a paged list that matches the params, e.g. a selection that spans pages. */
+export const listAllPages = async <Row>(
+  listPage: (params: ListParams) => Promise<Page<Row>>,
+  params: Omit<ListParams, 'page' | 'size'>
+) => {
+  const rows: Row[] = [];
+  for (let page = 1; ; page++) {
+    const result = await listPage({ ...params, page, size: MAX_PAGE_SIZE });
+    rows.push(...result.rows);
+    if (page * MAX_PAGE_SIZE >= result.total) return rows;
+  }
+};
+
+export type UploadType = 'students' | 'teachers' | 'subjects' | 'programs';
+
+export interface AuditFilters {
+  entity?: AuditEntity;
+  entity_id?: number | string;
+  user_id?: number;
+  source?: AuditSource;
+  action?: 'create' | 'update' | 'delete';
+  batch_id?: string;
+  // Dates as YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ActivityFilters {
+  type?: ActivityType;
+  // YYYY-MM-DD
+  since?: string;
+  limit?: number;
+}
+
+// Students
+export const listStudents = (term: Term = {}, signal?: AbortSignal) =>
+  apiRequest('students.php', z.array(studentSchema), { query: { ...term }, signal });
+
+export const getStudent = (id: number, signal?: AbortSignal) =>
+  apiRequest('students.php', studentSchema, { query: { id }, signal });
+
+export const listStudentPage = (term: Term, params: ListParams, signal?: AbortSignal) =>
+  apiRequest('students.php', pageSchema(studentSchema), { query: listQuery(term, params), signal });
+
+export const createStudent = (data: StudentInput) =>
+  apiRequest('students.php', createdSchema, { method: 'POST', body: data });
+
+export const updateStudent = (id: number, data: RecordEdit<StudentInput>) =>
+  apiRequest('students.php', successSchema, { method: 'PUT', query: { id }, body: data });
+
+export const deleteStudent = (id: number) =>
+  apiRequest('students.php', successSchema, { method: 'DELETE', query: { id } });
+
+// Teachers
+export const listTeachers = (term: Term = {}, signal?: AbortSignal) =>
+  apiRequest('teachers.php', z.array(teacherSchema), { query: { ...term }, signal });
+
+export const listTeacherPage = (term: Term, params: ListParams, signal?: AbortSignal) =>
+  apiRequest('teachers.php', pageSchema(teacherSchema), { query: listQuery(term, params), signal });
+
+export const getTeacher = (id: number, signal?: AbortSignal) =>
+  apiRequest('teachers.php', teacherSchema, { query: { id }, signal });
+
+export const listTeacherSnapshots = (teacherId: number, signal?: AbortSignal) =>
+  apiRequest('teacher_performance.php', z.array(teacherSnapshotSchema), { query: { teacher_id: teacherId }, signal });
+
+export const createTeacher = (data: TeacherInput) =>
+  apiRequest('teachers.php', createdSchema, { method: 'POST', body: data });
+
+export const updateTeacher = (id: number, data: RecordEdit<TeacherInput>) =>
+  apiRequest('teachers.php', successSchema, { method: 'PUT', query: { id }, body: data });
+
+export const deleteTeacher = (id: number) =>
+  apiRequest('teachers.php', successSchema, { method: 'DELETE', query: { id } });
+
+// Subjects
+export const listSubjects = (term: Term = {}, signal?: AbortSignal) =>
+  apiRequest('subjects.php', z.array(subjectSchema), { query: { ...term }, signal });
+
+export const createSubject = (data: SubjectInput) =>
+  apiRequest('subjects.php', createdSchema, { method: 'POST', body: data });
+
+export const updateSubject = (id: number, data: RecordEdit<SubjectInput>) =>
+  apiRequest('subjects.php', successSchema, { method: 'PUT', query: { id }, body: data });
+
+export const deleteSubject = (id: number) =>
+  apiRequest('subjects.php', successSchema, { method: 'DELETE', query: { id } });
+
+// Programs
+export const listPrograms = (term: Term = {}, signal?: AbortSignal) =>
+  apiRequest('programs.php', z.array(programSchema), { query: { ...term }, signal });
+
+export const getProgram = (id: number, signal?: AbortSignal) =>
+  apiRequest('programs.php', programSchema, { query: { id }, signal });
+
+export const createProgram = (data: ProgramInput) =>
+  apiRequest('programs.php', createdSchema, { method: 'POST', body: data });
+
+export const updateProgram = (id: number, data: RecordEdit<ProgramInput>) =>
+  apiRequest('programs.php', successSchema, { method: 'PUT', query: { id }, body: data });
+
+export const deleteProgram = (id: number) =>
+  apiRequest('programs.php', successSchema, { method: 'DELETE', query: { id } });
+
+// Grades
+export const listGrades = (term: Term = {}, signal?: AbortSignal) =>
+  apiRequest('grades.php', z.array(gradeSchema), { query: { ...term }, signal });
+
+// Every grade of one student, oldest term first
+export const listStudentGrades = (studentId: number, signal?: AbortSignal) =>
+  apiRequest('grades.php', z.array(gradeSchema), { query: { student_id: studentId }, signal });
+
+// Mean student GWAs per program and overall, instead of every grade of the term
+export const getGwaSummary = (term: Term, signal?: AbortSignal) =>
+  apiRequest('grades.php', gwaSummarySchema, { query: { gwa: 1, ...term }, signal });
+
+export const listGradePage = (term: Term, params: ListParams, signal?: AbortSignal) =>
+  apiRequest('grades.php', pageSchema(gradeSchema), { query: listQuery(term, params), signal });
+
+export const createGrade = (data: GradeInput) =>
+  apiRequest('grades.php', createdSchema, { method: 'POST', body: data });
+
+export const updateGrade = (id: number, data: RecordEdit<GradeInput>) =>
+  apiRequest('grades.php', successSchema, { method: 'PUT', query: { id }, body: data });
+
+export const deleteGrade = (id: number) =>
+  apiRequest('grades.php', successSchema, { method: 'DELETE', query: { id } });
+
+// Threshold policies
+export const listPolicies = (signal?: AbortSignal) =>
+  apiRequest('policies.php', z.array(thresholdPolicySchema), { signal }) as Promise<ThresholdPolicyRecord[]>;
+
+export const getActivePolicies = (term: Term, signal?: AbortSignal) =>
+  apiRequest('policies.php', activePoliciesSchema, { query: { active: 1, ...term }, signal }) as Promise<ActivePolicies>;
+
+export const createPolicy = (data: PolicyInput) =>
+  apiRequest('policies.php', createdSchema, { method: 'POST', body: data });
+
+export const deletePolicy = (id: number) =>
+  apiRequest('policies.php', successSchema, { method: 'DELETE', query: { id } });
+
+// Uploads
+export interface UploadOptions {
+  // Report what would be created, updated or skipped without writing
+  dryRun?: boolean;
+  onProgress?: (fraction: number) => void;
+}
+
+// Rows without their own academic_year/semester are tagged with the term
+export const uploadRecords = (
+  type: UploadType,
+  file: File,
+  term: Term = {},
+  options: UploadOptions = {},
+  signal?: AbortSignal
+) => {
+  const form = new FormData();
+  form.append('file', file);
+  form.append('type', type);
+  if (term.academic_year) form.append('academic_year', term.academic_year);
+  if (term.semester) form.append('semester', term.semester);
+  if (options.dryRun) form.append('dry_run', '1');
+  return apiRequest('upload.php', uploadResultSchema, {
+    method: 'POST',
+    body: form,
+    signal,
+    onUploadProgress: options.onProgress,
+  });
+};
+
+// Registrar grade sheet; creates missing students, subjects and teachers and updates grades already imported
+export const uploadGradeSheet = (file: File, options: UploadOptions = {}, signal?: AbortSignal) => {
+  const form = new FormData();
+  form.append('file', file);
+  return apiRequest('upload_grades.php', gradeSheetResultSchema, {
+    method: 'POST',
+    body: form,
+    signal,
+    onUploadProgress: options.onProgress,
+  });
+};
+
+// Auth
+export const login = (credentials: { username: string; password: string }) =>
+  apiRequest('login.php', sessionTokensSchema, { method: 'POST', body: credentials });
+
+export const refreshSession = (refreshToken: string) =>
+  apiRequest('refresh.php', sessionTokensSchema, { method: 'POST', body: { refresh_token: refreshToken } });
+
+export const logout = () => apiRequest('logout.php', successSchema, { method: 'POST' });
+
+// Invites
+export const getInvite = (token: string, signal?: AbortSignal) =>
+  apiRequest('invite.php', z.object({ username: z.string() }), { query: { token }, signal });
+
+export const acceptInvite = (token: string, password: string) =>
+  apiRequest('invite.php', sessionTokensSchema, { method: 'POST', body: { token, password } });
+
+// Users
+export const listUsers = (signal?: AbortSignal) =>
+  apiRequest('users.php', z.array(managedUserSchema), { signal });
+
+export const createUser = (data: UserInput) =>
+  apiRequest('register.php', registeredUserSchema, { method: 'POST', body: data });
+
+export const updateUser = (id: number, data: UserUpdate) =>
+  apiRequest('users.php', successSchema, { method: 'PUT', query: { id }, body: data });
+
+export const inviteUser = (id: number) =>
+  apiRequest('users.php', inviteSchema, { method: 'POST', query: { id } });
+
+// Audit log
+export const listAudit = (filters: AuditFilters = {}, signal?: AbortSignal) =>
+  apiRequest('audit.php', auditPageSchema, { query: { ...filters }, signal });
+
+export const listAuditActors = (signal?: AbortSignal) =>
+  apiRequest('audit.php', z.array(auditActorSchema), { query: { actors: 1 }, signal });
+
+export const listActivity = (filters: ActivityFilters = {}, signal?: AbortSignal) =>
+  apiRequest('audit.php', z.array(activityEventSchema), { query: { activity: 1, ...filters }, signal });
+
+// Deleted records; deletes are soft and can be undone, see backend/models/RecordTables.php
+export type RecordEntity = 'students' | 'teachers' | 'subjects' | 'programs' | 'grades';
+
+export const listDeleted = (entity: RecordEntity, signal?: AbortSignal) =>
+  apiRequest(`${entity}.php`, z.array(deletedRecordSchema), { query: { deleted: 1 }, signal });
+
+export const restoreRecord = (entity: RecordEntity, id: number) =>
+  apiRequest(`${entity}.php`, successSchema, { method: 'POST', query: { id, restore: 1 } });
+
+// Bulk actions
+export type BulkEntity = 'students' | 'teachers' | 'subjects' | 'grades';
+export type BulkActionName = 'status' | 'program' | 'at_risk' | 'zone' | 'delete';
+
+// One change for many records; see backend/models/BulkAction.php
+export interface BulkRequest {
+  action: BulkActionName;
+  ids: number[];
+  // A status, program id, at-risk flag or zone, by action
+  value?: string | number | boolean;
+  // Required for a zone or at-risk override; kept in the audit log
+  reason?: string;
+}
+
+export const runBulkAction = (entity: BulkEntity, request: BulkRequest) =>
+  apiRequest('bulk.php', bulkResultSchema, { method: 'POST', query: { entity }, body: request });
+
+// Zones
+export const recalculateZones = (term: Required<Term>, dryRun = false) =>
+  apiRequest('zones.php', zoneRecalculationSchema, { method: 'POST', body: { ...term, dry_run: dryRun } });
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("splits plain rows", () => {
+    expect(parseCsv("a,b,c\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("keeps commas and line breaks inside quoted fields", () => {
+    expect(parseCsv('name,notes\n"Cruz, Ana","line one\nline two"\n')).toEqual([
+      ["name", "notes"],
+      ["Cruz, Ana", "line one\nline two"],
+    ]);
+  });
+
+  it("reads a doubled quote as one quote", () => {
+    expect(parseCsv('a,b\n"say ""hi""",x\n')).toEqual([
+      ["a", "b"],
+      ['say "hi"', "x"],
+    ]);
+  });
+
+  it("treats a quote inside an unquoted field as text", () => {
+    expect(parseCsv('a,b\n5" tall,x\n')).toEqual([
+      ["a", "b"],
+      ['5" tall', "x"],
+    ]);
+  });
+
+  it("drops a UTF-8 BOM", () => {
+    expect(parseCsv("\uFEFFid,name\n1,Ana")[0]).toEqual(["id", "name"]);
+  });
+
+  it.each([
+    ["CRLF", "a,b\r\n1,2\r\n"],
+    ["LF", "a,b\n1,2\n"],
+    ["CR", "a,b\r1,2\r"],
+  ])("reads %s line endings", (_, text) => {
+    expect(parseCsv(text)).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps a CRLF inside a quoted field", () => {
+    expect(parseCsv('a\r\n"x\r\ny"\r\n')).toEqual([["a"], ["x\r\ny"]]);
+  });
+
+  it.each([
+    ["semicolons", "a;b;c\n1,5;2;3\n", [["a", "b", "c"], ["1,5", "2", "3"]]],
+    ["tabs", "a\tb\n1\t2\n", [["a", "b"], ["1", "2"]]],
+    ["commas", "a,b;c\n1,2;3\n", [["a", "b;c"], ["1", "2;3"]]],
+  ])("detects %s from the header line", (_, text, rows) => {
+    expect(parseCsv(text)).toEqual(rows);
+  });
+
+  it("uses the delimiter given over the detected one", () => {
+    expect(parseCsv("a;b,c\n", ",")).toEqual([["a;b", "c"]]);
+  });
+
+  it("keeps empty fields and drops blank lines", () => {
+    expect(parseCsv("a,,c\n\n , \n1,,\n")).toEqual([
+      ["a", "", "c"],
+      ["1", "", ""],
+    ]);
+  });
+
+  it("reads a last row without a line break", () => {
+    expect(parseCsv("a,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only the cells that need it and round-trips through parseCsv", () => {
+    const rows = [
+      ["id", "note"],
+      ["1", 'Cruz, "Ana"'],
+      ["2", "two\nlines"],
+    ];
+    const csv = toCsv(rows);
+    expect(csv).toBe('id,note\n1,"Cruz, ""Ana"""\n2,"two\nlines"\n');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Minimal RFC 4180 CSV reader/writer for the import wizard.
+ *
+ * Handles quoted fields with embedded commas, quotes ("") and line breaks,
+ * CRLF/LF line endings, a UTF-8 BOM, and semicolon- or tab-separated exports
+ * from spreadsheet programs set to a non-English locale.
+ */
+
+export type CsvRows = string[][];
+
+// Picks whichever candidate splits the header line into the most columns
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  let best = ",";
+  let bestCount = firstLine.split(",").length;
+  for (const candidate of [";", "\t"]) {
+    const count = firstLine.split(candidate).length;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+export const parseCsv = (input: string, delimiter?: string): CsvRows => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const sep = delimiter ?? detectDelimiter(text);
+  const rows: CsvRows = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Spreadsheet exports often end with blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+const escapeCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: CsvRows) =>
+  rows.map((row) => row.map((cell) => escapeCell(cell ?? "")).join(",")).join("\n") + "\n";
+
+export const readFileText = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+
+export const downloadCsv = (content: string, fileName: string) => {
+  const url = window.URL.createObjectURL(new Blob([content], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
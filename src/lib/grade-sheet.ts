@@ -0,0 +1,72 @@
+import { toCsv, type CsvRows } from "@/lib/csv";
+import { academicYear } from "@/lib/record-forms";
+
+/**
+ * The registrar's 21-column grade sheet read by upload_grades.php. Columns
+ * are positional, so the browser only checks the cells the server relies on
+ * and strips any header rows before sending.
+ */
+
+export const GRADE_SHEET_COLUMNS = [
+  { key: "academic_year", label: "Academic Year" },
+  { key: "college", label: "College" },
+  { key: "program", label: "Program" },
+  { key: "student_id", label: "Student ID" },
+  { key: "student_name", label: "Student Name" },
+  { key: "middle_name", label: "Middle Name" },
+  { key: "year_semester", label: "Year/Sem" },
+  { key: "subject_code", label: "Subject Code" },
+  { key: "subject_name", label: "Subject Name" },
+  { key: "subject_type", label: "Subject Type" },
+  { key: "units", label: "Units" },
+  { key: "section", label: "Section" },
+  { key: "teacher_name", label: "Teacher" },
+  { key: "schedule", label: "Schedule" },
+  { key: "student_type", label: "Student Type" },
+  { key: "enrollment_type", label: "Enrollment Type" },
+  { key: "gender", label: "Gender" },
+  { key: "grade", label: "Grade" },
+  { key: "remarks", label: "Remarks" },
+  { key: "other1", label: "Other 1" },
+  { key: "other2", label: "Other 2" },
+] as const;
+
+export type GradeSheetKey = (typeof GRADE_SHEET_COLUMNS)[number]["key"];
+
+// Rows with fewer cells are ignored by the server
+export const MIN_GRADE_SHEET_COLUMNS = 15;
+
+const column = (key: GradeSheetKey) => GRADE_SHEET_COLUMNS.findIndex((c) => c.key === key);
+
+// Grades the registrar leaves blank for dropped or incomplete enrolments
+const NO_GRADE = ["", "NA", "-"];
+
+/** Problems with one data row, keyed by column index. */
+export const gradeRowErrors = (row: string[]) => {
+  const errors: Record<number, string> = {};
+  const cell = (key: GradeSheetKey) => (row[column(key)] ?? "").trim();
+
+  if (row.length < MIN_GRADE_SHEET_COLUMNS) {
+    errors[row.length] = `Only ${row.length} columns; the grade sheet has ${GRADE_SHEET_COLUMNS.length}`;
+    return errors;
+  }
+  if (!cell("student_id")) errors[column("student_id")] = "Required";
+  if (!cell("subject_code")) errors[column("subject_code")] = "Required";
+  const year = academicYear.safeParse(cell("academic_year"));
+  if (cell("academic_year") && !year.success) {
+    errors[column("academic_year")] = year.error.issues[0].message;
+  }
+  const grade = cell("grade");
+  if (!NO_GRADE.includes(grade) && !Number.isFinite(Number(grade))) {
+    errors[column("grade")] = "Must be a number, NA or -";
+  }
+  return errors;
+};
+
+/** Data rows as the headerless CSV upload_grades.php expects. */
+export const toGradeSheetCsv = (rows: CsvRows) =>
+  toCsv(
+    rows.map((row) =>
+      GRADE_SHEET_COLUMNS.map((_, index) => (row[index] ?? "").trim())
+    )
+  );
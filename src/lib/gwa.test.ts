@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeGwa,
+  DEFAULT_GWA_OPTIONS,
+  describeGwaOptions,
+  gwaByProgram,
+  gwaByStudent,
+  gwaOptionsOf,
+  isPassingGwa,
+  meanGwa,
+} from "@/lib/gwa";
+import { STUDENT_GWA_POLICY } from "@/lib/classification";
+import type { Grade } from "@/lib/schemas";
+
+let nextId = 1;
+
+const grade = (fields: Partial<Grade>): Grade => ({
+  id: nextId++,
+  student_id: 1,
+  subject_id: 1,
+  academic_year: "2024-2025",
+  semester: "1st",
+  status: "Passed",
+  first_name: "",
+  last_name: "",
+  student_id_str: "",
+  subject_code: "",
+  subject_name: "",
+  created_at: "2024-08-01 00:00:00",
+  ...fields,
+});
+
+describe("computeGwa", () => {
+  it("weights ratings by units", () => {
+    const result = computeGwa([
+      grade({ rating_philippine: 1, units: 3 }),
+      grade({ rating_philippine: 3, units: 1 }),
+    ]);
+    expect(result).toEqual({ value: 1.5, units: 4 });
+  });
+
+  it("counts subjects without units, or with zero units, once", () => {
+    const result = computeGwa([
+      grade({ rating_philippine: 1, units: undefined }),
+      grade({ rating_philippine: 2, units: 0 }),
+      grade({ rating_philippine: 3, units: 2 }),
+    ]);
+    expect(result.units).toBe(4);
+    expect(result.value).toBeCloseTo(2.25);
+  });
+
+  it("leaves out the excluded statuses", () => {
+    const grades = [
+      grade({ rating_philippine: 1.5, units: 3 }),
+      grade({ rating_philippine: 5, units: 3, status: "Dropped" }),
+      grade({ rating_philippine: 5, units: 3, status: "Incomplete" }),
+    ];
+    expect(computeGwa(grades).value).toBe(1.5);
+    expect(computeGwa(grades, { scale: "philippine", excludedStatuses: [] }).value).toBeCloseTo(34.5 / 9);
+  });
+
+  it("reads the rating of the chosen scale", () => {
+    const grades = [
+      grade({ rating_philippine: 1, rating_percentage: 100, units: 1 }),
+      grade({ rating_philippine: 3, rating_percentage: 60, units: 1 }),
+    ];
+    expect(computeGwa(grades, { scale: "percentage", excludedStatuses: [] }).value).toBe(80);
+  });
+
+  it("skips grades without a rating and gives null when nothing counts", () => {
+    expect(computeGwa([grade({ rating_philippine: undefined, units: 3 })])).toEqual({ value: null, units: 0 });
+    expect(computeGwa([])).toEqual({ value: null, units: 0 });
+  });
+});
+
+describe("meanGwa", () => {
+  it("averages the values and leaves nulls out", () => {
+    expect(meanGwa([1, null, 2, 3])).toBe(2);
+  });
+
+  it("gives null when every value is null", () => {
+    expect(meanGwa([null, null])).toBeNull();
+    expect(meanGwa([])).toBeNull();
+  });
+});
+
+describe("gwaByStudent and gwaByProgram", () => {
+  const grades = [
+    grade({ student_id: 1, student_program_id: 10, rating_philippine: 1, units: 3 }),
+    grade({ student_id: 1, student_program_id: 10, rating_philippine: 2, units: 1 }),
+    grade({ student_id: 2, student_program_id: 10, rating_philippine: 3, units: 3 }),
+    // Only an excluded grade, so no GWA
+    grade({ student_id: 3, student_program_id: 10, rating_philippine: 5, units: 3, status: "Dropped" }),
+    grade({ student_id: 4, student_program_id: 20, rating_philippine: 2.5, units: 3 }),
+    // No program: a student GWA, but no program mean
+    grade({ student_id: 5, student_program_id: undefined, rating_philippine: 1, units: 3 }),
+  ];
+
+  it("computes each student's GWA", () => {
+    const byStudent = gwaByStudent(grades);
+    expect(byStudent.get(1)).toBe(1.25);
+    expect(byStudent.get(2)).toBe(3);
+    expect(byStudent.get(3)).toBeNull();
+    expect(byStudent.get(5)).toBe(1);
+  });
+
+  it("averages student GWAs per program, leaving out students without one", () => {
+    const byProgram = gwaByProgram(grades);
+    expect(byProgram.get(10)).toBe(2.125);
+    expect(byProgram.get(20)).toBe(2.5);
+    expect(byProgram.size).toBe(2);
+  });
+});
+
+describe("gwaOptionsOf", () => {
+  it("falls back to the defaults for a policy without GWA settings", () => {
+    expect(gwaOptionsOf({ ...STUDENT_GWA_POLICY, grade_scale: undefined, excluded_statuses: undefined })).toEqual(
+      DEFAULT_GWA_OPTIONS
+    );
+  });
+
+  it("reads the scale and statuses of the policy", () => {
+    expect(gwaOptionsOf({ ...STUDENT_GWA_POLICY, grade_scale: "percentage", excluded_statuses: [] })).toEqual({
+      scale: "percentage",
+      excludedStatuses: [],
+    });
+  });
+});
+
+describe("isPassingGwa", () => {
+  it.each([
+    [3, "philippine", true],
+    [3.01, "philippine", false],
+    [60, "percentage", true],
+    [59.9, "percentage", false],
+  ] as const)("treats %s on the %s scale as passing: %s", (value, scale, passing) => {
+    expect(isPassingGwa(value, scale)).toBe(passing);
+  });
+});
+
+describe("describeGwaOptions", () => {
+  it("names the scale and the statuses left out", () => {
+    expect(describeGwaOptions(DEFAULT_GWA_OPTIONS)).toBe(
+      "Weighted by units on the 1.0-5.0 scale; Dropped and Incomplete are left out"
+    );
+    expect(describeGwaOptions({ scale: "percentage", excludedStatuses: [] })).toBe(
+      "Weighted by units on the Percentage scale; every status counts"
+    );
+  });
+});
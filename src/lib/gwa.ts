@@ -0,0 +1,143 @@
+import {
+  STUDENT_GWA_PERCENT_POLICY,
+  STUDENT_GWA_POLICY,
+  type ThresholdPolicy,
+} from "@/lib/classification";
+import type { Grade } from "@/lib/schemas";
+
+/**
+ * General weighted average (GWA): the unit-weighted mean of final ratings.
+ *
+ * The student GWA policy in force for a term names the grade scale and the
+ * statuses left out, and the server's zones use the same settings (see
+ * backend/models/GradeScale.php). The server also converts each rating to
+ * both scales (rating_philippine, rating_percentage), so nothing here
+ * converts grades.
+ */
+
+export type GradeScaleId = "philippine" | "percentage";
+
+export interface GradeScale {
+  id: GradeScaleId;
+  label: string;
+  description: string;
+  // 1.0 is the best Philippine grade, 100 the best percentage
+  lowerIsBetter: boolean;
+  passing: number;
+  decimals: number;
+  // The grade field holding ratings on this scale
+  column: "rating_philippine" | "rating_percentage";
+  // Bands a GWA policy on this scale starts from
+  policy: ThresholdPolicy;
+}
+
+export const GRADE_SCALES: Record<GradeScaleId, GradeScale> = {
+  philippine: {
+    id: "philippine",
+    label: "1.0-5.0",
+    description: "1.0 is the highest grade and 3.0 the lowest passing grade",
+    lowerIsBetter: true,
+    passing: 3,
+    decimals: 2,
+    column: "rating_philippine",
+    policy: STUDENT_GWA_POLICY,
+  },
+  percentage: {
+    id: "percentage",
+    label: "Percentage",
+    description: "100 is the highest grade and 60 the lowest passing grade",
+    lowerIsBetter: false,
+    passing: 60,
+    decimals: 1,
+    column: "rating_percentage",
+    policy: STUDENT_GWA_PERCENT_POLICY,
+  },
+};
+
+export const GRADE_STATUSES = ["Passed", "Failed", "Incomplete", "Dropped"];
+
+export interface GwaOptions {
+  scale: GradeScaleId;
+  // Grades with these statuses carry no weight
+  excludedStatuses: string[];
+}
+
+export const DEFAULT_GWA_OPTIONS: GwaOptions = {
+  scale: "philippine",
+  excludedStatuses: ["Dropped", "Incomplete"],
+};
+
+/** The GWA settings of a student GWA policy. */
+export const gwaOptionsOf = (policy: ThresholdPolicy): GwaOptions => ({
+  scale: policy.grade_scale ?? DEFAULT_GWA_OPTIONS.scale,
+  excludedStatuses: policy.excluded_statuses ?? DEFAULT_GWA_OPTIONS.excludedStatuses,
+});
+
+// The rating as entered, for display
+export const gradeRating = (grade: Pick<Grade, "final_rating" | "final_grade">) => grade.final_rating ?? grade.final_grade;
+
+export interface GwaResult {
+  // Null when no grade counts
+  value: number | null;
+  // Units that counted towards the average
+  units: number;
+}
+
+/** Unit-weighted average of the grades on the chosen scale; subjects without units count once. */
+export const computeGwa = (
+  grades: Pick<Grade, "rating_philippine" | "rating_percentage" | "status" | "units">[],
+  options: GwaOptions = DEFAULT_GWA_OPTIONS
+): GwaResult => {
+  const { column } = GRADE_SCALES[options.scale];
+  let weighted = 0;
+  let units = 0;
+  grades.forEach((grade) => {
+    const rating = grade[column];
+    if (rating === undefined || rating === null || options.excludedStatuses.includes(grade.status)) return;
+    const weight = Math.max(1, grade.units ?? 1);
+    weighted += rating * weight;
+    units += weight;
+  });
+  return { value: units > 0 ? weighted / units : null, units };
+};
+
+/** The mean of several averages, e.g. the students of a program; nulls are left out. */
+export const meanGwa = (values: (number | null)[]) => {
+  const counted = values.filter((value): value is number => value !== null);
+  return counted.length > 0 ? counted.reduce((sum, value) => sum + value, 0) / counted.length : null;
+};
+
+/** Each student's GWA over the given grades, keyed by student id. */
+export const gwaByStudent = (grades: Grade[], options: GwaOptions = DEFAULT_GWA_OPTIONS) => {
+  const byStudent = new Map<number, Grade[]>();
+  grades.forEach((grade) => byStudent.set(grade.student_id, [...(byStudent.get(grade.student_id) ?? []), grade]));
+  return new Map([...byStudent].map(([id, studentGrades]) => [id, computeGwa(studentGrades, options).value]));
+};
+
+/** Each program's mean student GWA over the given grades, keyed by program id. */
+export const gwaByProgram = (grades: Grade[], options: GwaOptions = DEFAULT_GWA_OPTIONS) => {
+  const programOf = new Map(grades.map((grade) => [grade.student_id, grade.student_program_id]));
+  const byProgram = new Map<number, (number | null)[]>();
+  gwaByStudent(grades, options).forEach((value, studentId) => {
+    const programId = programOf.get(studentId);
+    if (programId === undefined || programId === null) return;
+    byProgram.set(programId, [...(byProgram.get(programId) ?? []), value]);
+  });
+  return new Map([...byProgram].map(([id, values]) => [id, meanGwa(values)]));
+};
+
+export const formatGwa = (value: number | null | undefined, scale: GradeScaleId) =>
+  value === null || value === undefined ? "N/A" : value.toFixed(GRADE_SCALES[scale].decimals);
+
+export const isPassingGwa = (value: number, scale: GradeScaleId) => {
+  const { lowerIsBetter, passing } = GRADE_SCALES[scale];
+  return lowerIsBetter ? value <= passing : value >= passing;
+};
+
+/** e.g. "Weighted by units on the 1.0-5.0 scale; Dropped and Incomplete are left out" */
+export const describeGwaOptions = (options: GwaOptions) => {
+  const scale = `Weighted by units on the ${GRADE_SCALES[options.scale].label} scale`;
+  const excluded = options.excludedStatuses;
+  if (excluded.length === 0) return `${scale}; every status counts`;
+  return `${scale}; ${excluded.join(" and ")} ${excluded.length === 1 ? "is" : "are"} left out`;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMapping,
+  autoMap,
+  buildImportReport,
+  IMPORT_DEFINITIONS,
+  importReportCsv,
+  mappingProblems,
+  rowHasErrors,
+  toUploadCsv,
+} from "@/lib/import";
+import type { UploadResult } from "@/lib/schemas";
+
+const programs = IMPORT_DEFINITIONS.programs;
+
+describe("autoMap", () => {
+  it("matches headers by key, label or alias, ignoring case and punctuation", () => {
+    expect(autoMap(["Program Code", "TITLE", "duration_years", "Extra"], programs)).toEqual({
+      "Program Code": "program_code",
+      TITLE: "program_name",
+      duration_years: "duration_years",
+      Extra: null,
+    });
+  });
+
+  it("maps a field to the first matching header only", () => {
+    expect(autoMap(["Code", "ProgramCode"], programs)).toEqual({ Code: "program_code", ProgramCode: null });
+  });
+});
+
+describe("mappingProblems", () => {
+  it("reports unmapped required fields and fields mapped twice", () => {
+    expect(mappingProblems({ A: "program_code", B: "program_code", C: null }, programs)).toEqual([
+      'No column is mapped to "Program name".',
+      'More than one column is mapped to "Program code".',
+    ]);
+  });
+});
+
+describe("applyMapping", () => {
+  const headers = ["Code", "Name", "Years"];
+  const mapping = { Code: "program_code", Name: "program_name", Years: "duration_years" };
+
+  it("numbers rows by their source line and trims values", () => {
+    const rows = applyMapping(headers, [[" BSIT ", "Information Technology", "4"]], mapping, programs, 5);
+    expect(rows).toEqual([
+      {
+        line: 5,
+        values: { program_code: "BSIT", program_name: "Information Technology", duration_years: "4" },
+        fieldErrors: {},
+        rowErrors: [],
+      },
+    ]);
+  });
+
+  it("flags missing required values and invalid ones", () => {
+    const [row] = applyMapping(headers, [["", "Nursing", "twelve"]], mapping, programs);
+    expect(row.line).toBe(2);
+    expect(Object.keys(row.fieldErrors).sort()).toEqual(["duration_years", "program_code"]);
+    expect(row.fieldErrors.program_code).toBe("Required");
+    expect(rowHasErrors(row)).toBe(true);
+  });
+
+  it("runs the row-level checks", () => {
+    const [row] = applyMapping(["FacultyNo"], [["24-219-F"]], { FacultyNo: "teacher_id" }, IMPORT_DEFINITIONS.teachers);
+    expect(row.rowErrors).toEqual(["Needs a full name or a first name"]);
+  });
+});
+
+describe("toUploadCsv", () => {
+  it("writes the mapped fields under their canonical keys, in definition order", () => {
+    const mapping = { Years: "duration_years", Code: "program_code", Ignored: null };
+    const rows = applyMapping(["Years", "Code", "Ignored"], [["4", "BSIT", "x"]], mapping, programs);
+    expect(toUploadCsv(rows, mapping, programs)).toBe("program_code,duration_years\nBSIT,4\n");
+  });
+});
+
+describe("buildImportReport", () => {
+  const headers = ["Code", "Name"];
+  const mapping = { Code: "program_code", Name: "program_name" };
+  // Source lines 2-5; the row on line 3 fails validation and is not sent
+  const mapped = applyMapping(
+    headers,
+    [
+      ["BSIT", "Information Technology"],
+      ["", "No code"],
+      ["BSN", "Nursing"],
+      ["BSED", "Education"],
+    ],
+    mapping,
+    programs
+  );
+  const sent = mapped.filter((row) => !rowHasErrors(row));
+  const heldBack = mapped.filter(rowHasErrors);
+  const result: UploadResult = {
+    success: true,
+    message: "",
+    count: 2,
+    errors: [],
+    // Lines of the generated CSV: its header is line 1, so sent[0] is line 2
+    rows: [
+      { line: 2, key: "BSIT", action: "create", changes: [] },
+      { line: 3, key: "BSN", action: "update", changes: [{ field: "program_name", from: "BS Nursing", to: "Nursing" }] },
+      { line: 4, key: null, action: "skip", changes: [], reason: "Duplicate code" },
+    ],
+  };
+
+  it("maps server lines back to source lines and merges the held-back rows in order", () => {
+    expect(buildImportReport(sent, heldBack, result, programs)).toEqual([
+      { line: 2, identifier: "BSIT", status: "ok", action: "create", message: "Created" },
+      { line: 3, identifier: "", status: "error", message: "Program code: Required" },
+      { line: 4, identifier: "BSN", status: "ok", action: "update", message: "Updated: program name" },
+      { line: 5, identifier: "BSED", status: "error", action: "skip", message: "Duplicate code" },
+    ]);
+  });
+
+  it("keeps the server line when it has no source row", () => {
+    const report = buildImportReport([], [], { ...result, rows: [{ line: 9, key: "X", action: "unchanged", changes: [] }] }, programs);
+    expect(report).toEqual([{ line: 9, identifier: "X", status: "ok", action: "unchanged", message: "No changes" }]);
+  });
+
+  it("writes the report as CSV", () => {
+    expect(importReportCsv(buildImportReport(sent, heldBack, result, programs)).split("\n").slice(0, 3)).toEqual([
+      "row,identifier,status,message",
+      "2,BSIT,OK,Created",
+      "3,,ERROR,Program code: Required",
+    ]);
+  });
+});
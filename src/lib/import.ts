@@ -0,0 +1,320 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import type { UploadType } from "@/lib/client";
+import type { ImportAction, UploadResult } from "@/lib/schemas";
+import { parseCategoryLabel } from "@/lib/classification";
+import { toCsv, type CsvRows } from "@/lib/csv";
+import {
+  academicYear,
+  cutoffGrade,
+  durationYears,
+  emailAddress,
+  facultyNumber,
+  studentNumber,
+  subjectUnits,
+  yearLevel,
+} from "@/lib/record-forms";
+
+/**
+ * Column mapping and row validation for the import wizard.
+ *
+ * A source sheet is mapped column by column onto the target fields of an
+ * upload type. Rows are validated in the browser, then re-serialized with the
+ * canonical field keys as headers, which are the column names upload.php
+ * reads. Nothing is sent while a mapped row still has errors.
+ */
+
+export interface ImportField {
+  // Canonical column name written to the upload CSV
+  key: string;
+  label: string;
+  required?: boolean;
+  // Source headers matched automatically, compared without case, spaces or punctuation
+  aliases?: string[];
+  // Returns an error message for a non-empty value, or null when valid
+  validate?: (value: string) => string | null;
+}
+
+export interface ImportDefinition {
+  // Field that identifies a record in reports
+  identifier: string;
+  fields: ImportField[];
+  // Checks that span several fields; returns row-level error messages
+  validateRow?: (values: Record<string, string>) => string[];
+}
+
+// Source header -> target field key, or null to ignore the column
+export type ColumnMapping = Record<string, string | null>;
+
+export interface MappedRow {
+  // 1-based line in the source file, counting the header row
+  line: number;
+  values: Record<string, string>;
+  fieldErrors: Record<string, string>;
+  rowErrors: string[];
+}
+
+// A field rule shared with the Add and Edit forms, see lib/record-forms
+const rule = (schema: ZodType<string, ZodTypeDef, string>) => (value: string) => {
+  const result = schema.safeParse(value);
+  return result.success ? null : result.error.issues[0].message;
+};
+
+const integer = (value: string) =>
+  /^-?\d+$/.test(value) ? null : "Must be a whole number";
+
+const between = (min: number, max: number) => (value: string) => {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return "Must be a number";
+  return n < min || n > max ? `Must be between ${min} and ${max}` : null;
+};
+
+const category = (value: string) =>
+  parseCategoryLabel(value) ? null : 'Expected a label such as "GREEN (0.01%-10%)"';
+
+const periodFields = (period: "p1" | "p2" | "p3"): ImportField[] => {
+  const P = period.toUpperCase();
+  return [
+    { key: `${period}_failed`, label: `${P} failed`, aliases: [`${P}_Failed`, `${P} Failed`, `${P} No. of Failed`], validate: integer },
+    { key: `${period}_percent`, label: `${P} % failed`, aliases: [`${P}_Percent`, `${P} %`, `${P} Percent Failed`], validate: between(0, 100) },
+    { key: `${period}_category`, label: `${P} category`, aliases: [`${P}_Category`, `${P} Categorization`], validate: category },
+  ];
+};
+
+export const IMPORT_DEFINITIONS: Record<UploadType, ImportDefinition> = {
+  students: {
+    identifier: "student_id",
+    fields: [
+      { key: "student_id", label: "Student ID", required: true, aliases: ["StudentNo", "Student No", "ID Number"], validate: rule(studentNumber) },
+      { key: "first_name", label: "First name", required: true, aliases: ["FirstName", "Given Name"] },
+      { key: "last_name", label: "Last name", required: true, aliases: ["LastName", "Surname", "Family Name"] },
+      { key: "email", label: "Email", aliases: ["Email Address"], validate: rule(emailAddress) },
+      { key: "program", label: "Program code", aliases: ["Program", "Course", "ProgramCode"] },
+      { key: "year_level", label: "Year level", aliases: ["Year", "YearLevel"], validate: rule(yearLevel) },
+      { key: "academic_year", label: "Academic year", aliases: ["AY", "SchoolYear"], validate: rule(academicYear) },
+      { key: "semester", label: "Semester", aliases: ["Sem", "Term"] },
+      { key: "status", label: "Status" },
+      { key: "notes", label: "Notes", aliases: ["Remarks"] },
+    ],
+  },
+  teachers: {
+    identifier: "teacher_id",
+    fields: [
+      { key: "teacher_id", label: "Faculty number", required: true, aliases: ["FacultyNo", "Faculty No", "Employee No", "TeacherID"], validate: rule(facultyNumber) },
+      { key: "full_name", label: "Full name", aliases: ["FacultyName", "Faculty Name", "Name"] },
+      { key: "first_name", label: "First name", aliases: ["FirstName"] },
+      { key: "last_name", label: "Last name", aliases: ["LastName", "Surname"] },
+      { key: "department", label: "Department", aliases: ["Dept", "College"] },
+      { key: "position", label: "Position", aliases: ["Rank", "Designation"] },
+      { key: "email", label: "Email", validate: rule(emailAddress) },
+      { key: "enrolled_students", label: "Enrolled students", aliases: ["EnrolledStudents", "Enrolled", "No. of Students"], validate: integer },
+      ...periodFields("p1"),
+      ...periodFields("p2"),
+      ...periodFields("p3"),
+    ],
+    validateRow: (values) =>
+      values.full_name || values.first_name ? [] : ["Needs a full name or a first name"],
+  },
+  subjects: {
+    identifier: "subject_code",
+    fields: [
+      { key: "subject_code", label: "Subject code", required: true, aliases: ["Code", "SubjectCode", "Course Code"] },
+      { key: "subject_name", label: "Subject name", required: true, aliases: ["Name", "Title", "Descriptive Title"] },
+      { key: "description", label: "Description" },
+      { key: "units", label: "Units", aliases: ["Credit Units", "Credits"], validate: rule(subjectUnits) },
+      { key: "year_level", label: "Year level", aliases: ["Year"], validate: rule(yearLevel) },
+      { key: "semester", label: "Semester", aliases: ["Sem"] },
+      { key: "program", label: "Program", aliases: ["Course", "ProgramCode"] },
+      { key: "cutoff", label: "Cutoff grade", aliases: ["Cutoff Grade", "Passing Grade"], validate: rule(cutoffGrade) },
+    ],
+  },
+  programs: {
+    identifier: "program_code",
+    fields: [
+      { key: "program_code", label: "Program code", required: true, aliases: ["Code", "ProgramCode"] },
+      { key: "program_name", label: "Program name", required: true, aliases: ["Name", "Program", "Title"] },
+      { key: "description", label: "Description" },
+      { key: "duration_years", label: "Duration (years)", aliases: ["Duration", "Years"], validate: rule(durationYears) },
+    ],
+  },
+};
+
+const normalize = (header: string) => header.toLowerCase().replace(/[^a-z0-9%]/g, "");
+
+/** Maps each source header to the field whose key, label or alias matches it. */
+export const autoMap = (headers: string[], definition: ImportDefinition): ColumnMapping => {
+  const taken = new Set<string>();
+  const mapping: ColumnMapping = {};
+  headers.forEach((header) => {
+    const h = normalize(header);
+    const field = definition.fields.find(
+      (f) =>
+        !taken.has(f.key) &&
+        [f.key, f.label, ...(f.aliases ?? [])].some((candidate) => normalize(candidate) === h)
+    );
+    mapping[header] = field?.key ?? null;
+    if (field) taken.add(field.key);
+  });
+  return mapping;
+};
+
+/** Problems with the mapping itself: unmapped required fields and fields mapped twice. */
+export const mappingProblems = (mapping: ColumnMapping, definition: ImportDefinition) => {
+  const problems: string[] = [];
+  const targets = Object.values(mapping).filter((key): key is string => !!key);
+  definition.fields
+    .filter((f) => f.required && !targets.includes(f.key))
+    .forEach((f) => problems.push(`No column is mapped to "${f.label}".`));
+  definition.fields
+    .filter((f) => targets.filter((t) => t === f.key).length > 1)
+    .forEach((f) => problems.push(`More than one column is mapped to "${f.label}".`));
+  return problems;
+};
+
+/** Applies a mapping to the data rows of a sheet and validates every row. */
+export const applyMapping = (
+  headers: string[],
+  dataRows: CsvRows,
+  mapping: ColumnMapping,
+  definition: ImportDefinition,
+  // Line of the first data row in the source, for error messages
+  firstLine = 2
+): MappedRow[] =>
+  dataRows.map((cells, index) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      const key = mapping[header];
+      if (key) values[key] = (cells[column] ?? "").trim();
+    });
+
+    const fieldErrors: Record<string, string> = {};
+    definition.fields.forEach((field) => {
+      const value = values[field.key] ?? "";
+      if (!value) {
+        if (field.required) fieldErrors[field.key] = "Required";
+        return;
+      }
+      const error = field.validate?.(value);
+      if (error) fieldErrors[field.key] = error;
+    });
+
+    return {
+      line: firstLine + index,
+      values,
+      fieldErrors,
+      rowErrors: definition.validateRow?.(values) ?? [],
+    };
+  });
+
+export const rowHasErrors = (row: MappedRow) =>
+  row.rowErrors.length > 0 || Object.keys(row.fieldErrors).length > 0;
+
+/** Serializes mapped rows to the CSV upload.php expects, with canonical headers. */
+export const toUploadCsv = (rows: MappedRow[], mapping: ColumnMapping, definition: ImportDefinition) => {
+  const mapped = new Set(Object.values(mapping).filter(Boolean));
+  const keys = definition.fields.map((f) => f.key).filter((key) => mapped.has(key));
+  return toCsv([keys, ...rows.map((row) => keys.map((key) => row.values[key] ?? ""))]);
+};
+
+// Import report: one line per source row, whether it was sent or not
+
+export interface ImportReportRow {
+  line: number;
+  identifier: string;
+  status: "ok" | "error";
+  action?: ImportAction;
+  message: string;
+}
+
+const ACTION_MESSAGES: Record<ImportAction, string> = {
+  create: "Created",
+  update: "Updated",
+  unchanged: "No changes",
+  skip: "Skipped",
+};
+
+/**
+ * Merges the server's per-row results for the rows that were sent with the
+ * rows held back in the browser because they failed validation.
+ */
+export const buildImportReport = (
+  sent: MappedRow[],
+  heldBack: MappedRow[],
+  result: UploadResult,
+  definition: ImportDefinition
+): ImportReportRow[] => {
+  const fieldLabel = (key: string) => definition.fields.find((f) => f.key === key)?.label ?? key;
+  const fromServer = result.rows.map((row): ImportReportRow => {
+    // Server lines count rows of the generated CSV, header included
+    const source = sent[row.line - 2];
+    const changed = row.changes.map((c) => c.field.replace(/_/g, " ")).join(", ");
+    return {
+      line: source?.line ?? row.line,
+      identifier: row.key ?? source?.values[definition.identifier] ?? "",
+      status: row.action === "skip" ? "error" : "ok",
+      action: row.action,
+      message: row.action === "skip"
+        ? row.reason ?? "Rejected by the server"
+        : row.action === "update" && changed
+          ? `${ACTION_MESSAGES.update}: ${changed}`
+          : ACTION_MESSAGES[row.action],
+    };
+  });
+  const fromBrowser = heldBack.map((row): ImportReportRow => ({
+    line: row.line,
+    identifier: row.values[definition.identifier] ?? "",
+    status: "error",
+    message: [
+      ...Object.entries(row.fieldErrors).map(([key, message]) => `${fieldLabel(key)}: ${message}`),
+      ...row.rowErrors,
+    ].join("; "),
+  }));
+  return [...fromServer, ...fromBrowser].sort((a, b) => a.line - b.line);
+};
+
+export const importReportCsv = (rows: ImportReportRow[]) =>
+  toCsv([
+    ["row", "identifier", "status", "message"],
+    ...rows.map((row) => [String(row.line), row.identifier, row.status === "ok" ? "OK" : "ERROR", row.message]),
+  ]);
+
+// Saved mappings, kept per browser so a registrar export only has to be mapped once
+
+export interface SavedMapping {
+  name: string;
+  type: UploadType;
+  headers: string[];
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+const STORAGE_KEY = "importMappings";
+
+const readAll = (): SavedMapping[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadSavedMappings = (type: UploadType) =>
+  readAll().filter((m) => m.type === type);
+
+export const saveMapping = (entry: Omit<SavedMapping, "savedAt">) => {
+  const others = readAll().filter((m) => !(m.type === entry.type && m.name === entry.name));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...others, { ...entry, savedAt: new Date().toISOString() }]));
+};
+
+export const deleteSavedMapping = (type: UploadType, name: string) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(readAll().filter((m) => !(m.type === type && m.name === name))));
+
+/** A saved mapping made for a sheet with exactly these headers, if any. */
+export const findSavedMapping = (type: UploadType, headers: string[]) => {
+  const signature = headers.map(normalize).sort().join("|");
+  return loadSavedMappings(type).find((m) => m.headers.map(normalize).sort().join("|") === signature);
+};
+
+/** Restricts a saved mapping to the headers of the current sheet. */
+export const mappingForHeaders = (saved: ColumnMapping, headers: string[]): ColumnMapping =>
+  Object.fromEntries(headers.map((header) => [header, saved[header] ?? null]));
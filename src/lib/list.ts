@@ -0,0 +1,69 @@
+import type { ListParams, SortDirection } from "@/lib/client";
+import type { Facet, Page } from "@/lib/schemas";
+
+/**
+ * Paging, sorting and filtering in the browser, for lists that are loaded
+ * whole (subjects, programs). Follows backend/config/pagination.php so the
+ * same DataTable and URL parameters work for both kinds of list: filters are
+ * exact matches where a comma list matches any value, q is matched against
+ * the search fields, and facets are counted before filters and search.
+ */
+
+type Value = string | number | null | undefined;
+
+export interface LocalListSpec<Row> {
+  sort: Record<string, (row: Row) => Value>;
+  default?: [string, SortDirection];
+  search?: (row: Row) => Value[];
+  filters?: Record<string, (row: Row) => Value>;
+  facets?: Record<string, (row: Row) => Value>;
+  // Tie-breaker, so the order is stable between renders
+  id: (row: Row) => number;
+}
+
+const text = (value: Value) => (value === null || value === undefined ? "" : String(value));
+
+const compare = (a: Value, b: Value) => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return text(a).localeCompare(text(b), undefined, { numeric: true, sensitivity: "base" });
+};
+
+const facetCounts = <Row>(rows: Row[], value: (row: Row) => Value): Facet[] => {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    const key = text(value(row));
+    if (key !== "") counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort(([a], [b]) => compare(a, b))
+    .map(([value, count]) => ({ value, count }));
+};
+
+export const localPage = <Row>(all: Row[], params: ListParams, spec: LocalListSpec<Row>): Page<Row> => {
+  let rows = all;
+  Object.entries(params.filters ?? {}).forEach(([name, filter]) => {
+    const value = spec.filters?.[name];
+    const options = filter.split(",").filter(Boolean);
+    if (value && options.length > 0) rows = rows.filter((row) => options.includes(text(value(row))));
+  });
+  const q = params.q?.trim().toLowerCase();
+  if (q && spec.search) {
+    rows = rows.filter((row) => spec.search(row).map(text).join(" ").toLowerCase().includes(q));
+  }
+
+  const [defaultSort, defaultDir] = spec.default ?? [undefined, "asc"];
+  const sort = params.sort && spec.sort[params.sort] ? params.sort : defaultSort;
+  const dir = params.dir ?? (sort === defaultSort ? defaultDir : "asc");
+  const key = sort ? spec.sort[sort] : undefined;
+  const sign = dir === "desc" ? -1 : 1;
+  rows = [...rows].sort((a, b) => sign * ((key ? compare(key(a), key(b)) : 0) || spec.id(a) - spec.id(b)));
+
+  const total = rows.length;
+  const page = Math.min(Math.max(1, params.page), Math.max(1, Math.ceil(total / params.size)));
+  const facets: Record<string, Facet[]> = {};
+  Object.entries(spec.facets ?? {}).forEach(([name, value]) => {
+    facets[name] = facetCounts(all, value);
+  });
+
+  return { rows: rows.slice((page - 1) * params.size, page * params.size), total, page, size: params.size, facets };
+};
@@ -0,0 +1,41 @@
+/**
+ * Permission names from backend/config/permissions.php. The server decides
+ * which ones a role has and sends the list with the session, so the browser
+ * only uses them to hide what the user cannot do; the routes still enforce it.
+ */
+
+export type Permission =
+  | "students.view"
+  | "students.manage"
+  | "teachers.view"
+  | "teachers.manage"
+  | "subjects.view"
+  | "subjects.manage"
+  | "programs.view"
+  | "programs.manage"
+  | "grades.view"
+  | "grades.manage"
+  | "records.import"
+  | "grades.import"
+  | "reports.view"
+  | "policies.manage"
+  | "users.manage"
+  | "audit.view"
+  | "zones.recalculate";
+
+export const ROLES = ["admin", "registrar", "dean", "chair", "faculty", "committee"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrator",
+  registrar: "Registrar",
+  dean: "Dean",
+  chair: "Program Chair",
+  faculty: "Faculty",
+  committee: "Committee Member",
+};
+
+export const roleLabel = (role: string) => ROLE_LABELS[role as Role] ?? role;
+
+export const hasPermission = (user: { permissions?: string[] } | null | undefined, permission: Permission) =>
+  !!user?.permissions?.includes(permission);
@@ -0,0 +1,365 @@
+import { z, type ZodType, type ZodTypeDef } from "zod";
+import { ApiError } from "@/lib/api";
+import type { GradeInput, ProgramInput, StudentInput, SubjectInput, TeacherInput } from "@/lib/client";
+import { zoneSchema, type Grade, type Program, type Student, type Subject, type Teacher } from "@/lib/schemas";
+
+/**
+ * Schemas for the Add and Edit forms of the record pages. A form holds its
+ * fields as the inputs do, mostly strings; each entity has a schema for those
+ * values, *Form to fill them from a record and *Input to turn valid values
+ * into the body the API expects.
+ *
+ * The field rules are also what the import wizard checks cells with (see
+ * lib/import.ts), so a value a form refuses is refused on import too.
+ */
+
+const isBlank = (value: string) => value.trim() === "";
+
+const isNumberIn = (value: string, min: number, max: number, integer: boolean) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max && (!integer || Number.isInteger(number));
+};
+
+const requiredText = (message: string) => z.string().refine((value) => !isBlank(value), message);
+
+// A number typed into a text input; empty passes unless required
+const numberText = (min: number, max: number, message: string, { integer = false, required = false } = {}) =>
+  z.string().refine((value) => (isBlank(value) ? !required : isNumberIn(value.trim(), min, max, integer)), message);
+
+// Field rules
+
+// e.g. 2024-BSIT-001: enrolment year, program code, sequence
+export const studentNumber = z
+  .string()
+  .refine((value) => !isBlank(value), "Enter the student number")
+  .refine((value) => /^\d{4}-[A-Z]+-\d{3,}$/i.test(value.trim()), "Use the form 2024-BSIT-001");
+
+// e.g. 14-007-F, as on the registrar's faculty performance sheets
+export const facultyNumber = z
+  .string()
+  .refine((value) => !isBlank(value), "Enter the faculty number")
+  .refine((value) => /^\d{2}-\d{3}-F$/i.test(value.trim()), "Use the form 14-007-F");
+
+// e.g. 2024-2025: two consecutive years
+export const academicYear = z.string().refine((value) => {
+  const match = /^(\d{4})-(\d{4})$/.exec(value.trim());
+  return !!match && Number(match[2]) === Number(match[1]) + 1;
+}, "Use the form 2024-2025");
+
+export const emailAddress = z
+  .string()
+  .refine((value) => isBlank(value) || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim()), "Enter a valid email address");
+
+export const yearLevel = numberText(1, 6, "Year level is a whole number from 1 to 6", { integer: true, required: true });
+
+export const gradeValue = numberText(0, 100, "Grades are from 0 to 100");
+
+export const subjectUnits = numberText(1, 10, "Units must be a whole number from 1 to 10", { integer: true, required: true });
+
+export const cutoffGrade = numberText(0, 100, "The cutoff is a percentage from 0 to 100", { required: true });
+
+export const durationYears = numberText(1, 6, "Duration is 1 to 6 years", { integer: true, required: true });
+
+const optionalNumber = (value: string) => (isBlank(value) ? null : Number(value));
+
+/**
+ * The newer version of a record the server sent back when it refused a save
+ * because the record changed after the form was opened (HTTP 409), or null
+ * for any other error.
+ */
+export const editConflict = <Row>(error: unknown, schema: ZodType<Row, ZodTypeDef, unknown>): Row | null => {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const parsed = schema.safeParse(error.payload.current);
+  return parsed.success ? parsed.data : null;
+};
+
+// The term new records default to
+interface FormTerm {
+  academicYear: string;
+  semester: string;
+}
+
+// Students
+
+const studentFields = z.object({
+  student_id: studentNumber,
+  first_name: requiredText("Enter a first name"),
+  last_name: requiredText("Enter a last name"),
+  middle_name: z.string(),
+  email: emailAddress,
+  program_id: z.string(),
+  year_level: yearLevel,
+  semester: requiredText("Choose a semester"),
+  academic_year: academicYear,
+  status: requiredText("Choose a status"),
+  zone: zoneSchema,
+  at_risk: z.boolean(),
+  notes: z.string(),
+  // The zone and flag the form was opened with, and whether they were set by hand
+  standing: z.object({ zone: zoneSchema, at_risk: z.boolean(), overridden: z.boolean(), override_reason: z.string() }),
+  zone_override_reason: z.string(),
+  clear_override: z.boolean(),
+});
+export type StudentForm = z.infer<typeof studentFields>;
+
+/**
+ * True when the form sets a zone or at-risk flag other than the one it was
+ * opened with. Zones and flags come from grades, so that is an override and
+ * needs a reason (see backend/models/StudentStanding.php).
+ */
+export const isStandingOverride = (form: StudentForm) =>
+  !form.clear_override && (form.zone !== form.standing.zone || form.at_risk !== form.standing.at_risk);
+
+export const studentFormSchema = studentFields.superRefine((form, ctx) => {
+  if (isStandingOverride(form) && isBlank(form.zone_override_reason)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["zone_override_reason"],
+      message: "Give a reason for setting the zone or at-risk flag by hand",
+    });
+  }
+});
+
+export const newStudentForm = ({ academicYear, semester }: FormTerm): StudentForm => ({
+  student_id: "",
+  first_name: "",
+  last_name: "",
+  middle_name: "",
+  email: "",
+  program_id: "",
+  year_level: "1",
+  semester,
+  academic_year: academicYear,
+  status: "Active",
+  zone: "green",
+  at_risk: false,
+  notes: "",
+  standing: { zone: "green", at_risk: false, overridden: false, override_reason: "" },
+  zone_override_reason: "",
+  clear_override: false,
+});
+
+export const studentForm = (student: Student): StudentForm => ({
+  student_id: student.student_id,
+  first_name: student.first_name,
+  last_name: student.last_name,
+  middle_name: student.middle_name ?? "",
+  email: student.email ?? "",
+  program_id: student.program_id ? String(student.program_id) : "",
+  year_level: String(student.year_level),
+  semester: student.semester,
+  academic_year: student.academic_year,
+  status: student.status,
+  zone: student.zone,
+  at_risk: student.at_risk,
+  notes: student.notes ?? "",
+  standing: {
+    zone: student.zone,
+    at_risk: student.at_risk,
+    overridden: student.zone_override,
+    override_reason: student.zone_override_reason ?? "",
+  },
+  zone_override_reason: "",
+  clear_override: false,
+});
+
+export const studentInput = (form: StudentForm): StudentInput => ({
+  student_id: form.student_id.trim(),
+  first_name: form.first_name.trim(),
+  last_name: form.last_name.trim(),
+  middle_name: form.middle_name.trim(),
+  email: form.email.trim(),
+  program_id: form.program_id ? Number(form.program_id) : null,
+  year_level: Number(form.year_level),
+  semester: form.semester,
+  academic_year: form.academic_year.trim(),
+  status: form.status,
+  zone: form.zone,
+  at_risk: form.at_risk,
+  notes: form.notes,
+  zone_override_reason: isStandingOverride(form) ? form.zone_override_reason.trim() : undefined,
+  clear_override: form.clear_override || undefined,
+});
+
+// Teachers
+
+export const teacherFormSchema = z.object({
+  teacher_id: facultyNumber,
+  first_name: requiredText("Enter a first name"),
+  last_name: requiredText("Enter a last name"),
+  middle_name: z.string(),
+  email: emailAddress,
+  department: requiredText("Enter a department"),
+  position: z.string(),
+  status: requiredText("Choose a status"),
+  zone: zoneSchema,
+  notes: z.string(),
+});
+export type TeacherForm = z.infer<typeof teacherFormSchema>;
+
+export const newTeacherForm = (): TeacherForm => ({
+  teacher_id: "",
+  first_name: "",
+  last_name: "",
+  middle_name: "",
+  email: "",
+  department: "",
+  position: "",
+  status: "Active",
+  zone: "green",
+  notes: "",
+});
+
+export const teacherForm = (teacher: Teacher): TeacherForm => ({
+  teacher_id: teacher.teacher_id,
+  first_name: teacher.first_name,
+  last_name: teacher.last_name,
+  middle_name: teacher.middle_name ?? "",
+  email: teacher.email ?? "",
+  department: teacher.department,
+  position: teacher.position ?? "",
+  status: teacher.status,
+  zone: teacher.zone,
+  notes: teacher.notes ?? "",
+});
+
+export const teacherInput = (form: TeacherForm): TeacherInput => ({
+  teacher_id: form.teacher_id.trim(),
+  first_name: form.first_name.trim(),
+  last_name: form.last_name.trim(),
+  middle_name: form.middle_name.trim(),
+  email: form.email.trim(),
+  department: form.department.trim(),
+  position: form.position.trim(),
+  status: form.status,
+  zone: form.zone,
+  notes: form.notes,
+});
+
+// Subjects
+
+export const subjectFormSchema = z.object({
+  subject_code: requiredText("Enter the subject code"),
+  subject_name: requiredText("Enter the subject name"),
+  description: z.string(),
+  units: subjectUnits,
+  year_level: yearLevel,
+  semester: requiredText("Choose a semester"),
+  // A program code; subjects name their program by code
+  program_name: requiredText("Choose a program"),
+  cutoff_grade: cutoffGrade,
+});
+export type SubjectForm = z.infer<typeof subjectFormSchema>;
+
+export const newSubjectForm = (): SubjectForm => ({
+  subject_code: "",
+  subject_name: "",
+  description: "",
+  units: "",
+  year_level: "",
+  semester: "",
+  program_name: "",
+  cutoff_grade: "60",
+});
+
+export const subjectForm = (subject: Subject): SubjectForm => ({
+  subject_code: subject.subject_code,
+  subject_name: subject.subject_name,
+  description: subject.description ?? "",
+  units: String(subject.units),
+  year_level: String(subject.year_level),
+  semester: subject.semester,
+  program_name: subject.program_name ?? "",
+  cutoff_grade: String(subject.cutoff_grade),
+});
+
+export const subjectInput = (form: SubjectForm): SubjectInput => ({
+  subject_code: form.subject_code.trim(),
+  subject_name: form.subject_name.trim(),
+  description: form.description.trim(),
+  units: Number(form.units),
+  year_level: Number(form.year_level),
+  semester: form.semester,
+  program_name: form.program_name,
+  cutoff_grade: Number(form.cutoff_grade),
+});
+
+// Programs
+
+export const programFormSchema = z.object({
+  program_code: requiredText("Enter the program code"),
+  program_name: requiredText("Enter the program name"),
+  description: z.string(),
+  duration_years: durationYears,
+});
+export type ProgramForm = z.infer<typeof programFormSchema>;
+
+export const newProgramForm = (): ProgramForm => ({
+  program_code: "",
+  program_name: "",
+  description: "",
+  duration_years: "4",
+});
+
+export const programForm = (program: Program): ProgramForm => ({
+  program_code: program.program_code,
+  program_name: program.program_name,
+  description: program.description ?? "",
+  duration_years: String(program.duration_years),
+});
+
+export const programInput = (form: ProgramForm): ProgramInput => ({
+  program_code: form.program_code.trim(),
+  program_name: form.program_name.trim(),
+  description: form.description.trim(),
+  duration_years: Number(form.duration_years),
+});
+
+// Grades; the Edit dialog keeps the student and subject it was opened with
+
+export const gradeFormSchema = z.object({
+  student_id: requiredText("Choose a student"),
+  subject_id: requiredText("Choose a subject"),
+  academic_year: academicYear,
+  semester: requiredText("Choose a semester"),
+  midterm_grade: gradeValue,
+  final_grade: gradeValue,
+  final_rating: gradeValue,
+  status: requiredText("Choose a status"),
+});
+export type GradeForm = z.infer<typeof gradeFormSchema>;
+
+export const newGradeForm = ({ academicYear, semester }: FormTerm): GradeForm => ({
+  student_id: "",
+  subject_id: "",
+  academic_year: academicYear,
+  semester,
+  midterm_grade: "",
+  final_grade: "",
+  final_rating: "",
+  status: "Failed",
+});
+
+const gradeText = (value: number | undefined) => (value === undefined || value === null ? "" : String(value));
+
+export const gradeForm = (grade: Grade): GradeForm => ({
+  student_id: String(grade.student_id),
+  subject_id: String(grade.subject_id),
+  academic_year: grade.academic_year,
+  semester: grade.semester,
+  midterm_grade: gradeText(grade.midterm_grade),
+  final_grade: gradeText(grade.final_grade),
+  final_rating: gradeText(grade.final_rating),
+  status: grade.status,
+});
+
+export const gradeInput = (form: GradeForm): GradeInput => ({
+  student_id: Number(form.student_id),
+  subject_id: Number(form.subject_id),
+  academic_year: form.academic_year.trim(),
+  semester: form.semester,
+  midterm_grade: optionalNumber(form.midterm_grade),
+  final_grade: optionalNumber(form.final_grade),
+  final_rating: optionalNumber(form.final_rating),
+  status: form.status,
+});
@@ -0,0 +1,112 @@
+import type { CsvRows } from "@/lib/csv";
+import { PERIODS, teacherPeriodPerformance, type ThresholdPolicy } from "@/lib/classification";
+import type { Grade, Student, Subject, Teacher, Zone } from "@/lib/schemas";
+
+/**
+ * Reports offered by the Dashboard report builder. Each one is a CSV built
+ * from the records already loaded for the selected term. The row builders
+ * also export the rows selected in a list.
+ */
+
+export type ReportKind = "students" | "at_risk" | "subjects" | "teachers";
+
+export const REPORTS: Record<ReportKind, { label: string; description: string }> = {
+  students: { label: "Students by zone", description: "Every student with their program, status and zone" },
+  at_risk: { label: "At-risk students", description: "Students flagged at risk or in the red zone" },
+  subjects: { label: "Subject pass rates", description: "Enrolment, passing students and pass rate per subject" },
+  teachers: { label: "Teacher failure rates", description: "Failure rate per grading period for each teacher" },
+};
+
+export interface ReportOptions {
+  zones: Zone[];
+  // Students and subjects only; teachers are not tied to a program
+  programId?: number;
+}
+
+export interface ReportData {
+  students: Student[];
+  subjects: Subject[];
+  teachers: Teacher[];
+  teacherPolicy: ThresholdPolicy;
+}
+
+const percent = (value: number | null) => (value === null ? "" : value.toFixed(2));
+
+const inProgram = (programId: number | undefined, record: { program_id?: number }) =>
+  programId === undefined || record.program_id === programId;
+
+export const studentRows = (students: Student[]): CsvRows => [
+  ["Student ID", "Last Name", "First Name", "Program", "Year Level", "Status", "Zone", "At Risk"],
+  ...students.map((s) => [
+    s.student_id,
+    s.last_name,
+    s.first_name,
+    s.program_code ?? s.program_name ?? "",
+    String(s.year_level),
+    s.status,
+    s.zone,
+    s.at_risk ? "Yes" : "No",
+  ]),
+];
+
+export const subjectRows = (subjects: Subject[]): CsvRows => [
+  ["Code", "Subject", "Program", "Units", "Enrolled", "Passing", "Pass Rate (%)", "Zone"],
+  ...subjects.map((s) => [
+    s.subject_code,
+    s.subject_name,
+    s.program_name ?? "",
+    String(s.units),
+    String(s.enrolled_students),
+    String(s.passing_students),
+    percent(s.enrolled_students > 0 ? (s.passing_students / s.enrolled_students) * 100 : null),
+    s.zone,
+  ]),
+];
+
+export const teacherRows = (teachers: Teacher[], policy: ThresholdPolicy): CsvRows => [
+  ["Teacher ID", "Last Name", "First Name", "Department", "Enrolled", ...PERIODS.map((p) => `${p.toUpperCase()} Failure (%)`), "Zone"],
+  ...teachers.map((t) => [
+    t.teacher_id,
+    t.last_name,
+    t.first_name,
+    t.department,
+    t.enrolled_students === undefined ? "" : String(t.enrolled_students),
+    ...PERIODS.map((p) => percent(teacherPeriodPerformance(t, p, policy).percent)),
+    t.zone,
+  ]),
+];
+
+const grade = (value: number | undefined) => (value === undefined ? "" : String(value));
+
+export const gradeRows = (grades: Grade[]): CsvRows => [
+  ["Student ID", "Last Name", "First Name", "Subject", "Academic Year", "Semester", "Midterm", "Final", "Rating", "Status"],
+  ...grades.map((g) => [
+    g.student_id_str,
+    g.last_name,
+    g.first_name,
+    g.subject_code,
+    g.academic_year,
+    g.semester,
+    grade(g.midterm_grade),
+    grade(g.final_grade),
+    grade(g.final_rating),
+    g.status,
+  ]),
+];
+
+/** The report as CSV rows, header first. */
+export const buildReport = (kind: ReportKind, data: ReportData, { zones, programId }: ReportOptions): CsvRows => {
+  const inZones = (zone: Zone) => zones.includes(zone);
+  switch (kind) {
+    case "students":
+      return studentRows(data.students.filter((s) => inZones(s.zone) && inProgram(programId, s)));
+    case "at_risk":
+      return studentRows(
+        data.students.filter((s) => (s.at_risk || s.zone === "red") && inZones(s.zone) && inProgram(programId, s))
+      );
+    case "subjects":
+      return subjectRows(data.subjects.filter((s) => inZones(s.zone) && inProgram(programId, s)));
+    case "teachers":
+      return teacherRows(data.teachers.filter((t) => inZones(t.zone)), data.teacherPolicy);
+  }
+};
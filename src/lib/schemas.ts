@@ -0,0 +1,460 @@
+import { z } from "zod";
+import type { PolicyKind, ThresholdPolicy } from "@/lib/classification";
+
+// MySQL DECIMAL columns arrive as strings and TINYINT flags as 0/1, so
+// numbers and booleans are coerced at the boundary.
+const num = z.coerce.number();
+const optionalNum = z.preprocess(
+  (value) => (value === null || value === undefined || value === '' ? undefined : value),
+  z.coerce.number().optional()
+);
+const flag = z.preprocess(
+  (value) => value === true || value === 1 || value === '1' || value === 'true',
+  z.boolean()
+);
+const optionalText = z.string().nullish().transform((value) => value ?? undefined);
+
+export const zoneSchema = z.enum(["green", "yellow", "red"]);
+export type Zone = z.infer<typeof zoneSchema>;
+
+export const studentSchema = z.object({
+  id: num,
+  student_id: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  middle_name: optionalText,
+  email: optionalText,
+  program_id: optionalNum,
+  program_name: optionalText,
+  program_code: optionalText,
+  year_level: num,
+  semester: z.string(),
+  academic_year: z.string(),
+  status: z.string(),
+  zone: zoneSchema,
+  at_risk: flag,
+  // Why the grades put the student in this zone, see backend/models/StudentStanding.php
+  zone_reason: optionalText,
+  // The zone and flag were set by hand, for zone_override_reason
+  zone_override: flag,
+  zone_override_reason: optionalText,
+  notes: optionalText,
+  created_at: z.string(),
+  // The row version an edit sends back, see backend/models/RecordTables.php
+  updated_at: optionalText,
+});
+export type Student = z.infer<typeof studentSchema>;
+
+export const teacherSchema = z.object({
+  id: num,
+  teacher_id: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  middle_name: optionalText,
+  email: optionalText,
+  department: z.string(),
+  position: optionalText,
+  status: z.string(),
+  zone: zoneSchema,
+  notes: optionalText,
+  enrolled_students: optionalNum,
+  failed_students: optionalNum,
+  failure_percentage: optionalNum,
+  p1_failed: optionalNum,
+  p1_percent: optionalNum,
+  p1_category: optionalText,
+  p2_failed: optionalNum,
+  p2_percent: optionalNum,
+  p2_category: optionalText,
+  p3_failed: optionalNum,
+  p3_percent: optionalNum,
+  p3_category: optionalText,
+  created_at: z.string(),
+  updated_at: optionalText,
+});
+export type Teacher = z.infer<typeof teacherSchema>;
+
+// One teacher's figures for one grading period of one term
+export const teacherSnapshotSchema = z.object({
+  id: num,
+  teacher_id: num,
+  academic_year: z.string(),
+  semester: z.string(),
+  period: z.enum(['p1', 'p2', 'p3']),
+  enrolled_students: num,
+  failed: num,
+  percent: optionalNum,
+  category: optionalText,
+  updated_at: optionalText,
+});
+export type TeacherSnapshot = z.infer<typeof teacherSnapshotSchema>;
+
+export const subjectSchema = z.object({
+  id: num,
+  subject_code: z.string(),
+  subject_name: z.string(),
+  description: optionalText,
+  units: num,
+  year_level: num,
+  semester: z.string(),
+  program_id: optionalNum,
+  program_name: optionalText,
+  enrolled_students: num,
+  passing_students: num,
+  cutoff_grade: num,
+  zone: zoneSchema,
+  created_at: z.string(),
+  updated_at: optionalText,
+});
+export type Subject = z.infer<typeof subjectSchema>;
+
+export const programSchema = z.object({
+  id: num,
+  program_code: z.string(),
+  program_name: z.string(),
+  description: optionalText,
+  duration_years: num,
+  student_count: num,
+  red_zone_count: num,
+  yellow_zone_count: num,
+  green_zone_count: num,
+  created_at: z.string(),
+  updated_at: optionalText,
+});
+export type Program = z.infer<typeof programSchema>;
+
+export const gradeSchema = z.object({
+  id: num,
+  student_id: num,
+  subject_id: num,
+  academic_year: z.string(),
+  semester: z.string(),
+  midterm_grade: optionalNum,
+  final_grade: optionalNum,
+  final_rating: optionalNum,
+  status: z.string(),
+  first_name: z.string().nullish().transform((value) => value ?? ''),
+  last_name: z.string().nullish().transform((value) => value ?? ''),
+  student_id_str: z.string().nullish().transform((value) => value ?? ''),
+  subject_code: z.string().nullish().transform((value) => value ?? ''),
+  subject_name: z.string().nullish().transform((value) => value ?? ''),
+  // The subject's units and the student's program, for GWAs (see lib/gwa.ts)
+  units: optionalNum,
+  student_program_id: optionalNum,
+  // The final rating on each grade scale, converted by the server (see backend/models/GradeScale.php)
+  rating_philippine: optionalNum,
+  rating_percentage: optionalNum,
+  created_at: z.string(),
+  updated_at: optionalText,
+});
+export type Grade = z.infer<typeof gradeSchema>;
+
+// Mean student GWA for a term, computed by the server on the scale of the
+// student GWA policy in force; gwa is missing when no grade counts
+const gwaMeanSchema = z.object({
+  gwa: optionalNum,
+  students: num,
+});
+
+export const gwaSummarySchema = z.object({
+  overall: gwaMeanSchema,
+  programs: z.array(gwaMeanSchema.extend({ program_id: num })).default([]),
+});
+export type GwaSummary = z.infer<typeof gwaSummarySchema>;
+
+// A soft-deleted record as the Recently deleted list shows it
+export const deletedRecordSchema = z.object({
+  id: num,
+  label: z.string().nullable(),
+  deleted_at: z.string(),
+});
+export type DeletedRecord = z.infer<typeof deletedRecordSchema>;
+
+const thresholdBandSchema = z.object({
+  zone: zoneSchema,
+  limit: num,
+});
+
+export const thresholdPolicySchema = z.object({
+  // Built-in defaults come back without id/version
+  id: optionalNum,
+  kind: z.enum(['teacher_failure', 'subject_pass', 'student_gwa']),
+  name: z.string(),
+  academic_year: optionalText,
+  semester: optionalText,
+  version: optionalNum,
+  direction: z.enum(['lower-is-better', 'higher-is-better']),
+  unit: z.string(),
+  min: num,
+  max: num,
+  step: num,
+  bands: z.array(thresholdBandSchema).min(1),
+  // Student GWA policies only, see lib/gwa.ts
+  grade_scale: z.enum(['philippine', 'percentage']).optional(),
+  excluded_statuses: z.array(z.string()).optional(),
+  notes: optionalText,
+  created_at: optionalText,
+});
+// Without strictNullChecks zod infers every field as optional; the intersection
+// restores the required shape the classification helpers expect.
+export type ThresholdPolicyRecord = z.infer<typeof thresholdPolicySchema> & ThresholdPolicy;
+
+export const activePoliciesSchema = z.object({
+  teacher_failure: thresholdPolicySchema,
+  subject_pass: thresholdPolicySchema,
+  student_gwa: thresholdPolicySchema,
+});
+export type ActivePolicies = Record<PolicyKind, ThresholdPolicyRecord>;
+
+// Write endpoints answer with { id } on create and { success } on update/delete
+export const createdSchema = z.object({
+  id: num,
+  success: z.boolean().optional(),
+});
+export type Created = z.infer<typeof createdSchema>;
+
+export const successSchema = z.object({
+  success: z.boolean(),
+});
+export type Success = z.infer<typeof successSchema>;
+
+export const importActionSchema = z.enum(["create", "update", "unchanged", "skip"]);
+export type ImportAction = z.infer<typeof importActionSchema>;
+
+// One field of a record before and after a change
+export const fieldChangeSchema = z.object({ field: z.string(), from: z.unknown(), to: z.unknown() });
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+
+export const importRowResultSchema = z.object({
+  // Line in the uploaded CSV, counting the header row
+  line: num,
+  key: z.string().nullish(),
+  action: importActionSchema,
+  changes: z.array(fieldChangeSchema).default([]),
+  reason: optionalText,
+});
+export type ImportRowResult = z.infer<typeof importRowResultSchema>;
+
+export const uploadResultSchema = z.object({
+  success: z.boolean(),
+  dry_run: flag.optional(),
+  message: z.string(),
+  count: num,
+  errors: z.array(z.string()).default([]),
+  summary: z.record(importActionSchema, num).optional(),
+  rows: z.array(importRowResultSchema).default([]),
+});
+export type UploadResult = z.infer<typeof uploadResultSchema>;
+
+// A student, subject or teacher the grade sheet touched
+const gradeSheetRecordSchema = z.object({
+  id: num,
+  name: z.string().nullish().transform((value) => value ?? ""),
+  created: flag,
+});
+
+export const gradeSheetResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  count: num,
+  // Grades already on record for the student, subject and term are updated
+  grades_created: num,
+  grades_updated: num,
+  students_created: num,
+  subjects_created: num,
+  teachers_created: num,
+  students: z.array(gradeSheetRecordSchema.extend({ student_id: z.string() })).default([]),
+  subjects: z.array(gradeSheetRecordSchema.extend({ subject_code: z.string() })).default([]),
+  teachers: z.array(gradeSheetRecordSchema).default([]),
+  errors: z.array(z.string()).default([]),
+});
+export type GradeSheetResult = z.infer<typeof gradeSheetResultSchema>;
+
+export const userSchema = z.object({
+  id: num,
+  username: z.string(),
+  role: z.string().default("committee"),
+  // Granted by the server's permission matrix for the role
+  permissions: z.array(z.string()).default([]),
+  // Programs a chair is limited to
+  program_ids: z.array(num).default([]),
+});
+export type User = z.infer<typeof userSchema>;
+
+// An account as the Users page lists it
+export const managedUserSchema = userSchema.omit({ permissions: true }).extend({
+  department: z.string().nullable().default(null),
+  disabled: z.coerce.boolean(),
+  last_login_at: z.string().nullable().default(null),
+  created_at: z.string().nullable().default(null),
+  // Activated by following an invite link rather than with a password
+  invite_pending: z.coerce.boolean(),
+  invite_expires_at: z.string().nullable().default(null),
+});
+export type ManagedUser = z.infer<typeof managedUserSchema>;
+
+export const inviteSchema = z.object({
+  invite_token: z.string(),
+  invite_expires_at: z.string(),
+});
+export type Invite = z.infer<typeof inviteSchema>;
+
+export const registeredUserSchema = z.object({
+  id: num,
+  username: z.string(),
+  role: z.string(),
+  invite_token: z.string().optional(),
+  invite_expires_at: z.string().optional(),
+});
+export type RegisteredUser = z.infer<typeof registeredUserSchema>;
+
+// Returned by login.php and refresh.php; expires_at is a Unix timestamp
+export const sessionTokensSchema = z.object({
+  user: userSchema,
+  token: z.string(),
+  expires_at: num,
+  refresh_token: z.string(),
+});
+export type SessionTokens = z.infer<typeof sessionTokensSchema>;
+
+export const auditEntitySchema = z.enum(["students", "teachers", "subjects", "programs", "grades", "policies", "users"]);
+export type AuditEntity = z.infer<typeof auditEntitySchema>;
+
+export const auditSourceSchema = z.enum(["manual", "import", "bulk"]);
+export type AuditSource = z.infer<typeof auditSourceSchema>;
+
+export const auditEntrySchema = z.object({
+  id: num,
+  // Null for changes made before anyone signed in, e.g. the first account
+  user_id: optionalNum,
+  username: optionalText,
+  entity: auditEntitySchema,
+  entity_id: z.coerce.string(),
+  entity_label: optionalText,
+  action: z.enum(["create", "update", "delete"]),
+  source: auditSourceSchema,
+  changes: z.array(fieldChangeSchema).default([]),
+  // Shared by every entry written by one import
+  batch_id: optionalText,
+  // The uploaded file name for imports
+  context: optionalText,
+  created_at: z.string(),
+});
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+export const auditPageSchema = z.object({
+  entries: z.array(auditEntrySchema),
+  total: num,
+});
+export type AuditPage = z.infer<typeof auditPageSchema>;
+
+// One page of a list endpoint called with ?page= (backend/config/pagination.php).
+// facets count rows per value of a column before the filters are applied.
+const facetSchema = z.object({ value: z.string(), count: num });
+export type Facet = z.infer<typeof facetSchema>;
+
+export interface Page<Row> {
+  rows: Row[];
+  total: number;
+  page: number;
+  size: number;
+  facets: Record<string, Facet[]>;
+}
+
+export const pageSchema = <Row extends z.ZodTypeAny>(row: Row): z.ZodType<Page<z.output<Row>>, z.ZodTypeDef, unknown> =>
+  z.object({
+    rows: z.array(row),
+    total: num,
+    page: num,
+    size: num,
+    // PHP sends an empty object as []
+    facets: z.record(z.array(facetSchema)).catch({}),
+  }) as z.ZodType<Page<z.output<Row>>, z.ZodTypeDef, unknown>;
+
+export const auditActorSchema = z.object({
+  user_id: num,
+  username: z.string().nullish().transform((value) => value ?? ""),
+});
+export type AuditActor = z.infer<typeof auditActorSchema>;
+
+export const activityTypeSchema = z.enum(["zone", "import", "edit"]);
+export type ActivityType = z.infer<typeof activityTypeSchema>;
+
+// Zones in the log are whatever was stored, so anything else reads as none
+const loggedZone = zoneSchema.nullish().catch(null);
+
+// One event of the dashboard feed; which fields are set depends on the type
+export const activityEventSchema = z.object({
+  id: z.string(),
+  type: activityTypeSchema,
+  created_at: z.string(),
+  user_id: optionalNum,
+  username: optionalText,
+  // zone and edit events concern one record
+  entity: auditEntitySchema.optional(),
+  entity_id: z.coerce.string().optional(),
+  entity_label: optionalText,
+  // Set while the student still exists
+  student_number: optionalText,
+  action: z.enum(["create", "update", "delete"]).optional(),
+  zone_from: loggedZone,
+  zone_to: loggedZone,
+  // Fields an edit changed
+  fields: z.array(z.string()).default([]),
+  // import events cover one uploaded file
+  entities: z.array(z.string()).default([]),
+  context: optionalText,
+  batch_id: optionalText,
+  created: optionalNum,
+  updated: optionalNum,
+});
+export type ActivityEvent = z.infer<typeof activityEventSchema>;
+
+// What a zone recalculation changed for one kind of record
+const zoneRecalculationPartSchema = z.object({
+  total: num,
+  changed: num,
+  unchanged: num,
+  // No figures for the term, so the zone was left alone
+  skipped: num,
+  // Students whose zone was set by hand and kept
+  overridden: num.default(0),
+  // Students with grades in a later term, whose standing comes from that term
+  later_term: num.default(0),
+  zones: z.record(zoneSchema, num),
+  moves: z.array(
+    z.object({
+      id: num,
+      label: optionalText,
+      // Null for a subject's first recalculation in the term
+      from: loggedZone,
+      to: zoneSchema,
+      // GWA for students, pass rate for subjects, failure rate for teachers
+      value: optionalNum,
+      // Why a student moved, e.g. "Failed 9 units in 1st sem 2024-2025"
+      reason: optionalText,
+    })
+  ),
+});
+export type ZoneRecalculationPart = z.infer<typeof zoneRecalculationPartSchema>;
+
+export const zoneRecalculationSchema = z.object({
+  academic_year: z.string(),
+  semester: z.string(),
+  dry_run: flag,
+  students: zoneRecalculationPartSchema,
+  subjects: zoneRecalculationPartSchema,
+  teachers: zoneRecalculationPartSchema,
+});
+export type ZoneRecalculation = z.infer<typeof zoneRecalculationSchema>;
+
+// What a bulk action changed; missing ids were deleted by someone else meanwhile
+export const bulkResultSchema = z.object({
+  entity: z.string(),
+  action: z.string(),
+  requested: num,
+  changed: num,
+  unchanged: num,
+  missing: num,
+});
+export type BulkResult = z.infer<typeof bulkResultSchema>;
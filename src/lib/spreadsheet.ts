@@ -0,0 +1,75 @@
+import readXlsxFile, { readSheetNames, type CellValue } from "read-excel-file";
+import { parseCsv, readFileText, type CsvRows } from "@/lib/csv";
+
+/**
+ * Reads an uploaded CSV file or Excel workbook into plain string rows, so
+ * both go through the same mapping and validation in the import wizard.
+ */
+
+export interface SourceFile {
+  fileName: string;
+  // Worksheet names; a CSV file has none
+  sheets: string[];
+  sheet: string | null;
+  rows: CsvRows;
+}
+
+export const ACCEPTED_EXTENSIONS = [".csv", ".xlsx"];
+
+const extension = (file: File) => file.name.split(".").pop()?.toLowerCase() ?? "";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Dates come back as Date objects at UTC midnight; the backend expects YYYY-MM-DD
+const cellText = (value: CellValue | null) => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+  }
+  return String(value);
+};
+
+export const readSheetRows = async (file: File, sheet: string): Promise<CsvRows> => {
+  const rows = await readXlsxFile(file, { sheet });
+  return rows
+    .map((row) => row.map(cellText))
+    .filter((row) => row.some((cell) => cell.trim() !== ""));
+};
+
+export const readSourceFile = async (file: File): Promise<SourceFile> => {
+  const ext = extension(file);
+  if (ext === "csv") {
+    return { fileName: file.name, sheets: [], sheet: null, rows: parseCsv(await readFileText(file)) };
+  }
+  if (ext === "xlsx") {
+    const sheets = await readSheetNames(file);
+    if (sheets.length === 0) throw new Error("The workbook has no worksheets.");
+    return { fileName: file.name, sheets, sheet: sheets[0], rows: await readSheetRows(file, sheets[0]) };
+  }
+  if (ext === "xls") {
+    throw new Error("Old .xls workbooks are not supported. Open the file in Excel and save it as .xlsx.");
+  }
+  throw new Error("Please choose a CSV or Excel (.xlsx) file.");
+};
+
+/**
+ * Guesses which of the first rows holds the column headers: the first row
+ * that is as wide as the widest one, which skips the title lines registrar
+ * exports put above the table.
+ */
+export const guessHeaderRow = (rows: CsvRows, lookahead = 10) => {
+  const filled = rows.slice(0, lookahead).map((row) => row.filter((cell) => cell.trim() !== "").length);
+  const widest = Math.max(0, ...filled);
+  return Math.max(0, filled.indexOf(widest));
+};
+
+/** Header cells of the chosen row, with blanks named and duplicates numbered. */
+export const headerNames = (row: string[], width: number) => {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const base = (row[i] ?? "").trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+};
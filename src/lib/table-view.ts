@@ -0,0 +1,38 @@
+/**
+ * Saved view settings of the list tables: column order, hidden columns and
+ * page size. They are kept in this browser per signed-in user and table, so
+ * two people sharing a workstation keep their own layouts.
+ */
+
+export interface TableView {
+  // Column ids in display order; columns added since are appended
+  order?: string[];
+  hidden?: string[];
+  size?: number;
+}
+
+const STORAGE_KEY = "tableViews";
+
+type SavedViews = Record<string, TableView>;
+
+const readAll = (): SavedViews => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const viewKey = (userId: number, table: string) => `${userId}:${table}`;
+
+export const loadTableView = (userId: number, table: string): TableView => readAll()[viewKey(userId, table)] ?? {};
+
+/** Merges the patch into the saved view; null forgets the view. */
+export const saveTableView = (userId: number, table: string, patch: TableView | null) => {
+  const views = readAll();
+  const key = viewKey(userId, table);
+  if (patch === null) delete views[key];
+  else views[key] = { ...views[key], ...patch };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+};
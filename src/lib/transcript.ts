@@ -0,0 +1,114 @@
+import { computeGwa, DEFAULT_GWA_OPTIONS, type GwaOptions } from "@/lib/gwa";
+import type { AuditEntry, AuditSource, Grade, Student, Zone } from "@/lib/schemas";
+import { zoneSchema } from "@/lib/schemas";
+
+/**
+ * A student's record as the detail page shows it: grades grouped by term with
+ * each term's GWA (see lib/gwa), and the zone and intervention history read
+ * back from the audit log.
+ */
+
+// Statuses that need a follow-up from the committee
+export const UNRESOLVED_STATUSES = ["Failed", "Incomplete"];
+
+const SEMESTER_ORDER = ["1st", "2nd", "Summer"];
+
+export const unitsOf = (grades: Grade[], status?: string) =>
+  grades.filter((grade) => !status || grade.status === status).reduce((sum, grade) => sum + (grade.units ?? 0), 0);
+
+export interface TranscriptTerm {
+  academic_year: string;
+  semester: string;
+  grades: Grade[];
+  gwa: number | null;
+}
+
+/** Grades grouped by academic year and semester, oldest term first. */
+export const transcriptTerms = (grades: Grade[], options: GwaOptions = DEFAULT_GWA_OPTIONS): TranscriptTerm[] => {
+  const terms = new Map<string, Grade[]>();
+  grades.forEach((grade) => {
+    const key = `${grade.academic_year}|${grade.semester}`;
+    terms.set(key, [...(terms.get(key) ?? []), grade]);
+  });
+  const semesterRank = (semester: string) => {
+    const rank = SEMESTER_ORDER.indexOf(semester);
+    return rank === -1 ? SEMESTER_ORDER.length : rank;
+  };
+  return [...terms.values()]
+    .map((termGrades) => ({
+      academic_year: termGrades[0].academic_year,
+      semester: termGrades[0].semester,
+      grades: termGrades,
+      gwa: computeGwa(termGrades, options).value,
+    }))
+    .sort(
+      (a, b) =>
+        a.academic_year.localeCompare(b.academic_year) || semesterRank(a.semester) - semesterRank(b.semester)
+    );
+};
+
+export const termLabel = (term: Pick<Grade, "academic_year" | "semester">) =>
+  `${term.semester === "Summer" ? "Summer" : `${term.semester} Semester`} ${term.academic_year}`;
+
+/** Why the student is in their zone: the override's justification, or what their grades show. */
+export const standingReason = (student: Student) =>
+  student.zone_override ? `Set by hand: ${student.zone_override_reason ?? "no reason recorded"}` : student.zone_reason;
+
+// History from the audit log, oldest first
+
+export interface HistoryEvent {
+  at: string;
+  by: string;
+  source: AuditSource;
+  // The imported file, for changes made by an import
+  context?: string;
+}
+
+export interface ZoneChange extends HistoryEvent {
+  from: Zone | null;
+  to: Zone;
+}
+
+const asZone = (value: unknown) => {
+  const parsed = zoneSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+const historyEvent = (entry: AuditEntry): HistoryEvent => ({
+  at: entry.created_at,
+  by: entry.username ?? "system",
+  source: entry.source,
+  context: entry.context,
+});
+
+/** Every zone the student was placed in, starting with the one they were created with. */
+export const zoneTimeline = (entries: AuditEntry[]): ZoneChange[] =>
+  [...entries].reverse().flatMap((entry) => {
+    const change = entry.changes.find((c) => c.field === "zone");
+    const to = asZone(change?.to);
+    return change && to ? [{ ...historyEvent(entry), from: asZone(change.from), to }] : [];
+  });
+
+export interface Intervention extends HistoryEvent {
+  // The at-risk flag as set by this change, when it changed
+  atRisk?: boolean;
+  // The notes as they read after this change, when they changed
+  notes?: string;
+}
+
+const asFlag = (value: unknown) => value === true || value === 1 || value === "1" || value === "true";
+
+/** Changes to the at-risk flag and the notes, which is where follow-ups are recorded. */
+export const interventions = (entries: AuditEntry[]): Intervention[] =>
+  [...entries].reverse().flatMap((entry) => {
+    const atRisk = entry.changes.find((c) => c.field === "at_risk");
+    const notes = entry.changes.find((c) => c.field === "notes");
+    if (!atRisk && !notes) return [];
+    return [
+      {
+        ...historyEvent(entry),
+        atRisk: atRisk ? asFlag(atRisk.to) : undefined,
+        notes: notes ? String(notes.to ?? "") : undefined,
+      },
+    ];
+  });
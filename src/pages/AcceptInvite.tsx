@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { errorMessage } from "@/lib/api";
+import { acceptInvite } from "@/lib/auth";
+import { getInvite } from "@/lib/client";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/** Where an invited user, or one whose password was reset, chooses a password. */
+const AcceptInvite = () => {
+  const { token = "" } = useParams();
+  const navigate = useNavigate();
+  const invite = useQuery({
+    queryKey: ["invite", token],
+    queryFn: ({ signal }) => getInvite(token, signal),
+    retry: false,
+    // An invalid link is shown on the page rather than as a toast
+    meta: { silent: true },
+  });
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("The passwords do not match");
+      return;
+    }
+    setIsLoading(true);
+    setError("");
+    try {
+      await acceptInvite(token, password);
+      navigate("/", { replace: true });
+    } catch (err) {
+      setError(errorMessage(err, "Could not set your password"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            Set your password
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Deliberation System
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{invite.data ? `Welcome, ${invite.data.username}` : "Account setup"}</CardTitle>
+            <CardDescription>
+              Choose a password to finish setting up your account
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {invite.isLoading && (
+              <div className="flex items-center justify-center gap-2 py-6">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                <span>Checking your link...</span>
+              </div>
+            )}
+            {invite.isError && (
+              <div className="space-y-4">
+                <Alert variant="destructive">
+                  <AlertDescription>{errorMessage(invite.error)}</AlertDescription>
+                </Alert>
+                <p className="text-sm text-muted-foreground">
+                  Ask an administrator for a new link, or <Link to="/login" className="underline">sign in</Link> if
+                  you already have a password.
+                </p>
+              </div>
+            )}
+            {invite.data && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm_password">Confirm password</Label>
+                  <Input
+                    id="confirm_password"
+                    type="password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Set password and sign in"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
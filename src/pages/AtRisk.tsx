@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Eye, Loader2, Search } from "lucide-react";
+import TermSelector from "@/components/TermSelector";
+import ZoneBadge from "@/components/ZoneBadge";
+import { usePrograms, useStudents } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import type { Student } from "@/lib/schemas";
+import { standingReason } from "@/lib/transcript";
+
+type Flag = "at_risk" | "red" | "yellow" | "all";
+
+const FLAGS: { value: Flag; label: string; matches: (student: Student) => boolean }[] = [
+  { value: "at_risk", label: "Flagged at risk", matches: (s) => s.at_risk },
+  { value: "red", label: "Red zone", matches: (s) => s.zone === "red" },
+  { value: "yellow", label: "Yellow zone", matches: (s) => s.zone === "yellow" },
+  { value: "all", label: "All", matches: (s) => s.at_risk || s.zone !== "green" },
+];
+
+// Select items cannot have an empty value, so "all" stands for no filter
+const ALL = "all";
+
+/**
+ * Students who need review: flagged at risk or outside the green zone.
+ * The flag and program filters live in the URL so the Dashboard can link
+ * straight to a filtered list.
+ */
+const AtRisk = () => {
+  const { term, search } = useTerm();
+  const { data: students = [], isLoading: loading } = useStudents(term);
+  const { data: programs = [] } = usePrograms(term);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const flag = FLAGS.find((f) => f.value === searchParams.get("flag")) ?? FLAGS[0];
+  const programId = searchParams.get("program") ?? ALL;
+
+  const setParam = (key: string, value: string, fallback: string) =>
+    setSearchParams((params) => {
+      if (value === fallback) params.delete(key);
+      else params.set(key, value);
+      return params;
+    }, { replace: true });
+
+  const worklist = useMemo(() => {
+    const query = searchTerm.trim().toLowerCase();
+    return students
+      .filter(flag.matches)
+      .filter((s) => programId === ALL || String(s.program_id) === programId)
+      .filter((s) =>
+        !query ||
+        `${s.student_id} ${s.first_name} ${s.last_name}`.toLowerCase().includes(query)
+      )
+      // Red before yellow, then by name
+      .sort((a, b) =>
+        Number(b.zone === "red") - Number(a.zone === "red") ||
+        `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`)
+      );
+  }, [students, flag, programId, searchTerm]);
+
+  const studentLink = (student: Student) => {
+    const params = new URLSearchParams(search);
+    params.set("q", student.student_id);
+    return { pathname: "/students", search: `?${params}` };
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading students...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">At-Risk Review</h1>
+        <p className="text-muted-foreground">
+          Students flagged at risk or outside the green zone
+        </p>
+      </div>
+
+      <TermSelector showPeriod={false} />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {FLAGS.slice(0, 3).map(({ value, label, matches }) => (
+          <Card key={value}>
+            <CardContent className="p-6">
+              <div className="text-2xl font-bold">{students.filter(matches).length}</div>
+              <p className="text-xs text-muted-foreground">{label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Worklist</CardTitle>
+              <CardDescription>{worklist.length} students to review</CardDescription>
+            </div>
+            <Tabs value={flag.value} onValueChange={(value) => setParam("flag", value, "at_risk")}>
+              <TabsList>
+                {FLAGS.map(({ value, label }) => (
+                  <TabsTrigger key={value} value={value}>{label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <Search className="h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search students..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="max-w-sm"
+            />
+            <Select value={programId} onValueChange={(value) => setParam("program", value, ALL)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All programs</SelectItem>
+                {programs.map((program) => (
+                  <SelectItem key={program.id} value={String(program.id)}>
+                    {program.program_code} - {program.program_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {worklist.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No students need review.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Year Level</TableHead>
+                  <TableHead>Zone</TableHead>
+                  <TableHead>At Risk</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {worklist.map((student) => (
+                  <TableRow key={student.id}>
+                    <TableCell className="font-medium">{student.student_id}</TableCell>
+                    <TableCell>{`${student.first_name} ${student.last_name}`}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{student.program_name || 'No Program'}</Badge>
+                    </TableCell>
+                    <TableCell>Year {student.year_level}</TableCell>
+                    <TableCell>
+                      <ZoneBadge zone={student.zone} />
+                    </TableCell>
+                    <TableCell>
+                      {student.at_risk ? (
+                        <div className="flex items-center gap-1 text-destructive">
+                          <AlertTriangle className="h-4 w-4" />
+                          <span className="text-sm">Yes</span>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">No</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-xs text-sm" title={standingReason(student)}>
+                      {standingReason(student) || '—'}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                      {student.notes || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={studentLink(student)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Open
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AtRisk;
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { AuditActionBadge, AuditChangeList } from "@/components/AuditHistory";
+import { useAuditActors, useAuditLog } from "@/hooks/use-resources";
+import { AUDIT_ENTITY_LABELS, AUDIT_SOURCE_LABELS } from "@/lib/audit";
+import type { AuditFilters } from "@/lib/client";
+import { auditEntitySchema, auditSourceSchema, type AuditEntity, type AuditSource } from "@/lib/schemas";
+
+const PAGE_SIZE = 50;
+
+// Select items cannot have an empty value, so "all" stands for no filter
+const ALL = "all";
+
+/** Every change made to the records, filterable by record type, user and source. */
+const Audit = () => {
+  const [entity, setEntity] = useState<AuditEntity | typeof ALL>(ALL);
+  const [userId, setUserId] = useState<string>(ALL);
+  const [source, setSource] = useState<AuditSource | typeof ALL>(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const filters: AuditFilters = {
+    entity: entity === ALL ? undefined : entity,
+    user_id: userId === ALL ? undefined : Number(userId),
+    source: source === ALL ? undefined : source,
+    from: from || undefined,
+    to: to || undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  };
+  const { data, isLoading, isFetching } = useAuditLog(filters);
+  const { data: actors = [] } = useAuditActors();
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any filter change starts over from the newest entries
+  const filterBy = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setEntity(ALL);
+    setUserId(ALL);
+    setSource(ALL);
+    setFrom("");
+    setTo("");
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Who created, changed or deleted records, when, and whether by hand, import or bulk action
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>
+            {total} {total === 1 ? "entry" : "entries"}
+            {isFetching && !isLoading && <Loader2 className="inline h-3 w-3 ml-2 animate-spin" />}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-6 items-end">
+            <div className="space-y-2">
+              <Label>Record type</Label>
+              <Select value={entity} onValueChange={filterBy((value: string) => setEntity(value as AuditEntity | typeof ALL))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All records</SelectItem>
+                  {auditEntitySchema.options.map((option) => (
+                    <SelectItem key={option} value={option}>{AUDIT_ENTITY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={userId} onValueChange={filterBy(setUserId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {actors.map((actor) => (
+                    <SelectItem key={actor.user_id} value={String(actor.user_id)}>
+                      {actor.username || `User #${actor.user_id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select value={source} onValueChange={filterBy((value: string) => setSource(value as AuditSource | typeof ALL))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sources</SelectItem>
+                  {auditSourceSchema.options.map((option) => (
+                    <SelectItem key={option} value={option}>{AUDIT_SOURCE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit_from">From</Label>
+              <Input id="audit_from" type="date" value={from} onChange={(e) => filterBy(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit_to">To</Label>
+              <Input id="audit_to" type="date" value={to} onChange={(e) => filterBy(setTo)(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32 gap-2">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Loading audit log...</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{entry.username ?? "system"}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.entity_label ?? `#${entry.entity_id}`}</div>
+                      <div className="text-xs text-muted-foreground">{AUDIT_ENTITY_LABELS[entry.entity]}</div>
+                    </TableCell>
+                    <TableCell>
+                      <AuditActionBadge action={entry.action} />
+                    </TableCell>
+                    <TableCell>
+                      <div>{AUDIT_SOURCE_LABELS[entry.source]}</div>
+                      {entry.context && <div className="text-xs text-muted-foreground">{entry.context}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <AuditChangeList entry={entry} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No changes match these filters
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Audit;
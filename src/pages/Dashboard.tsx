@@ -1,7 +1,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import TermSelector from "@/components/TermSelector";
 import ZoneBadge from "@/components/ZoneBadge";
+import ActivityFeed from "@/components/ActivityFeed";
+import ReportBuilder from "@/components/ReportBuilder";
+import ZoneRecalculationDialog from "@/components/ZoneRecalculationDialog";
 import { 
   GraduationCap, 
   Users, 
@@ -10,19 +14,24 @@ import {
   TrendingUp,
   TrendingDown,
   FileText,
-  Download,
   RefreshCw,
-  Loader2
+  Loader2,
+  Calculator
 } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
-import { useState, useEffect } from "react";
-import { apiUrl } from "@/lib/api";
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useGwaOptions, useGwaSummary, useStudents, useSubjects, useTeachers } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { useCan } from "@/hooks/use-session";
+import { describeGwaOptions, formatGwa } from "@/lib/gwa";
 
 interface DashboardStats {
   totalStudents: number;
   atRiskStudents: number;
   totalTeachers: number;
   totalSubjects: number;
+  // Mean of the students' GWAs for the term, null without rated grades
+  averageGwa: number | null;
   zoneDistribution: {
     green: number;
     yellow: number;
@@ -31,87 +40,40 @@ interface DashboardStats {
 }
 
 const Dashboard = () => {
-  const [stats, setStats] = useState<DashboardStats>({
-    totalStudents: 0,
-    atRiskStudents: 0,
-    totalTeachers: 0,
-    totalSubjects: 0,
-    zoneDistribution: { green: 0, yellow: 0, red: 0 }
-  });
-  const [loading, setLoading] = useState(true);
-  const { toast } = useToast();
+  const { term, search } = useTerm();
+  const can = useCan();
+  const navigate = useNavigate();
+  const studentsQuery = useStudents(term);
+  const teachersQuery = useTeachers(term);
+  const subjectsQuery = useSubjects(term);
+  const gwaQuery = useGwaSummary(term);
+  const gwaOptions = useGwaOptions(term);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isZonesOpen, setIsZonesOpen] = useState(false);
 
-  useEffect(() => {
-    fetchDashboardStats();
-  }, []);
+  const loading = studentsQuery.isLoading || teachersQuery.isLoading || subjectsQuery.isLoading || gwaQuery.isLoading;
 
-  const fetchDashboardStats = async () => {
-    try {
-      setLoading(true);
-      
-      // Fetch students data
-      const studentsResponse = await fetch(apiUrl('students.php'));
-      const students = await studentsResponse.json();
-      
-      // Fetch teachers data
-      const teachersResponse = await fetch(apiUrl('teachers.php'));
-      const teachers = await teachersResponse.json();
-      
-      // Fetch subjects data
-      const subjectsResponse = await fetch(apiUrl('subjects.php'));
-      const subjects = await subjectsResponse.json();
+  const stats = useMemo<DashboardStats>(() => {
+    const students = studentsQuery.data ?? [];
+    return {
+      totalStudents: students.length,
+      atRiskStudents: students.filter((s) => s.at_risk).length,
+      totalTeachers: teachersQuery.data?.length ?? 0,
+      totalSubjects: subjectsQuery.data?.length ?? 0,
+      averageGwa: gwaQuery.data?.overall.gwa ?? null,
+      zoneDistribution: {
+        green: students.filter((s) => s.zone === 'green').length,
+        yellow: students.filter((s) => s.zone === 'yellow').length,
+        red: students.filter((s) => s.zone === 'red').length,
+      },
+    };
+  }, [studentsQuery.data, teachersQuery.data, subjectsQuery.data, gwaQuery.data]);
 
-      // Calculate stats
-      const totalStudents = students.length;
-      const atRiskStudents = students.filter((s: any) => s.at_risk).length;
-      const totalTeachers = teachers.length;
-      const totalSubjects = subjects.length;
+  const handleGenerateReports = () => setIsReportOpen(true);
 
-      const zoneDistribution = {
-        green: students.filter((s: any) => s.zone === 'green').length,
-        yellow: students.filter((s: any) => s.zone === 'yellow').length,
-        red: students.filter((s: any) => s.zone === 'red').length,
-      };
+  const handleReviewAtRisk = () => navigate({ pathname: "/at-risk", search });
 
-      setStats({
-        totalStudents,
-        atRiskStudents,
-        totalTeachers,
-        totalSubjects,
-        zoneDistribution
-      });
-    } catch (error) {
-      console.error('Error fetching dashboard stats:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load dashboard data",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleGenerateReports = () => {
-    toast({
-      title: "Generating reports",
-      description: "Academic reports are being prepared..."
-    });
-  };
-
-  const handleReviewAtRisk = () => {
-    toast({
-      title: "Reviewing at-risk students",
-      description: "Opening at-risk student analysis..."
-    });
-  };
-
-  const handleUpdateZones = () => {
-    toast({
-      title: "Updating zones",
-      description: "Performance zones are being recalculated..."
-    });
-  };
+  const handleUpdateZones = () => setIsZonesOpen(true);
 
   const statCards = [
     {
@@ -141,6 +103,13 @@ const Dashboard = () => {
       icon: BookOpen,
       description: "Courses offered",
       trend: "up"
+    },
+    {
+      title: "Average GWA",
+      value: formatGwa(stats.averageGwa, gwaOptions.scale),
+      icon: Calculator,
+      description: describeGwaOptions(gwaOptions),
+      trend: "up"
     }
   ];
 
@@ -164,8 +133,10 @@ const Dashboard = () => {
         </p>
       </div>
 
+      <TermSelector showPeriod={false} />
+
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         {statCards.map((stat) => {
           const Icon = stat.icon;
           const TrendIcon = stat.trend === "up" ? TrendingUp : TrendingDown;
@@ -234,19 +205,21 @@ const Dashboard = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            <Button 
-              variant="outline" 
-              className="w-full justify-start gap-3 h-auto p-4"
-              onClick={handleGenerateReports}
-            >
-              <FileText className="h-4 w-4 text-primary" />
-              <div className="text-left">
-                <div className="text-sm font-medium">Generate Reports</div>
-                <div className="text-xs text-muted-foreground">
-                  Create comprehensive academic reports
+            {can("reports.view") && (
+              <Button 
+                variant="outline" 
+                className="w-full justify-start gap-3 h-auto p-4"
+                onClick={handleGenerateReports}
+              >
+                <FileText className="h-4 w-4 text-primary" />
+                <div className="text-left">
+                  <div className="text-sm font-medium">Generate Reports</div>
+                  <div className="text-xs text-muted-foreground">
+                    Create comprehensive academic reports
+                  </div>
                 </div>
-              </div>
-            </Button>
+              </Button>
+            )}
             
             <Button 
               variant="outline" 
@@ -262,53 +235,29 @@ const Dashboard = () => {
               </div>
             </Button>
             
-            <Button 
-              variant="outline" 
-              className="w-full justify-start gap-3 h-auto p-4"
-              onClick={handleUpdateZones}
-            >
-              <RefreshCw className="h-4 w-4 text-primary" />
-              <div className="text-left">
-                <div className="text-sm font-medium">Update Zone Classifications</div>
-                <div className="text-xs text-muted-foreground">
-                  Refresh performance zones
+            {can("zones.recalculate") && (
+              <Button 
+                variant="outline" 
+                className="w-full justify-start gap-3 h-auto p-4"
+                onClick={handleUpdateZones}
+              >
+                <RefreshCw className="h-4 w-4 text-primary" />
+                <div className="text-left">
+                  <div className="text-sm font-medium">Update Zone Classifications</div>
+                  <div className="text-xs text-muted-foreground">
+                    Recalculate zones under the active policies
+                  </div>
                 </div>
-              </div>
-            </Button>
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
 
-      {/* Recent Activity */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Activity</CardTitle>
-          <CardDescription>
-            Latest updates and changes in the system
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            <div className="flex items-center gap-3 text-sm">
-              <div className="w-2 h-2 bg-accent rounded-full"></div>
-              <span className="text-muted-foreground">2 hours ago</span>
-              <span>Sarah Williams moved to Red Zone</span>
-            </div>
-            
-            <div className="flex items-center gap-3 text-sm">
-              <div className="w-2 h-2 bg-primary rounded-full"></div>
-              <span className="text-muted-foreground">4 hours ago</span>
-              <span>New batch of students uploaded via CSV</span>
-            </div>
-            
-            <div className="flex items-center gap-3 text-sm">
-              <div className="w-2 h-2 bg-zone-green rounded-full"></div>
-              <span className="text-muted-foreground">1 day ago</span>
-              <span>Emma Johnson achieved Green Zone status</span>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      {can("audit.view") && <ActivityFeed />}
+
+      {can("reports.view") && <ReportBuilder open={isReportOpen} onOpenChange={setIsReportOpen} />}
+      {can("zones.recalculate") && <ZoneRecalculationDialog open={isZonesOpen} onOpenChange={setIsZonesOpen} />}
     </div>
   );
 };
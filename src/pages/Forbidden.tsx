@@ -0,0 +1,23 @@
+import { Link } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+import { roleLabel } from "@/lib/permissions";
+
+const Forbidden = () => {
+  const role = useSession()?.user.role ?? "";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-4 text-xl text-gray-600">
+          Your role ({roleLabel(role)}) does not have access to this page
+        </p>
+        <Link to="/" className="text-blue-500 underline hover:text-blue-700">
+          Return to Home
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,223 +1,127 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Label } from "@/components/ui/label";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Search, Edit, Eye, Loader2, BookOpen, User, TrendingUp, TrendingDown } from "lucide-react";
+import { Form } from "@/components/ui/form";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Edit, Eye, Loader2, BookOpen, User, TrendingUp, TrendingDown, Upload, Trash2 } from "lucide-react";
+import GradeSheetImport from "@/components/GradeSheetImport";
+import { HistoryTabs } from "@/components/AuditHistory";
+import BulkActions from "@/components/BulkActions";
+import DataTable, { type DataTableColumn } from "@/components/DataTable";
+import DeletedRecords from "@/components/DeletedRecords";
+import DeleteRecordDialog from "@/components/DeleteRecordDialog";
+import RecordEditDialog from "@/components/RecordEditDialog";
+import { GradeFields } from "@/components/RecordFields";
+import TermSelector from "@/components/TermSelector";
+import { useTerm } from "@/hooks/use-term";
+import { useCan } from "@/hooks/use-session";
+import { useListParams } from "@/hooks/use-list-params";
+import { useRecordEditor } from "@/hooks/use-record-editor";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { apiUrl } from "@/lib/api";
-
-interface Grade {
-  id: number;
-  student_id: number;
-  subject_id: number;
-  academic_year: string;
-  semester: string;
-  midterm_grade?: number;
-  final_grade?: number;
-  final_rating?: number;
-  status: string;
-  first_name: string;
-  last_name: string;
-  student_id_str: string;
-  subject_code: string;
-  subject_name: string;
-  created_at: string;
-}
+import {
+  useCreateGrade,
+  useDeleteGrade,
+  useGradePage,
+  useStudents,
+  useSubjects,
+  useUpdateGrade,
+} from "@/hooks/use-resources";
+import { errorMessage } from "@/lib/api";
+import { gradeForm, gradeFormSchema, gradeInput, newGradeForm, type GradeForm } from "@/lib/record-forms";
+import { gradeSchema, type Grade } from "@/lib/schemas";
 
-interface Student {
-  id: number;
-  student_id: string;
-  first_name: string;
-  last_name: string;
-  program_name?: string;
-}
+const GRADE_FILTERS = ["status"] as const;
 
-interface Subject {
-  id: number;
-  subject_code: string;
-  subject_name: string;
-  program_name?: string;
-}
+// The status tab that shows every grade
+const ALL_STATUSES = "all";
 
 const Grades = () => {
-  const [grades, setGrades] = useState<Grade[]>([]);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [subjects, setSubjects] = useState<Subject[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
+  const { academicYear, semester, term } = useTerm();
+  const can = useCan();
+  const list = useListParams({ table: "grades", filters: GRADE_FILTERS });
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<number>>(new Set());
+  const gradePage = useGradePage(term, list.params);
+  const statusCounts = gradePage.data?.facets.status ?? [];
+  const statusCount = (status: string) => statusCounts.find((f) => f.value === status)?.count ?? 0;
+  const totalGrades = statusCounts.reduce((sum, f) => sum + f.count, 0);
+  const { data: students = [], isLoading: studentsLoading } = useStudents();
+  const { data: subjects = [], isLoading: subjectsLoading } = useSubjects();
+  const createGrade = useCreateGrade();
+  const updateGrade = useUpdateGrade();
+  const deleteGrade = useDeleteGrade();
+  const editor = useRecordEditor({ schema: gradeSchema, formSchema: gradeFormSchema, toForm: gradeForm });
+  const addForm = useForm<GradeForm>({ resolver: zodResolver(gradeFormSchema), defaultValues: newGradeForm({ academicYear, semester }) });
+  const loading = studentsLoading || subjectsLoading;
   const [selectedGrade, setSelectedGrade] = useState<Grade | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<{ id: number; label: string } | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState("all");
-  const [academicYear, setAcademicYear] = useState("2024-2025");
-  const [semester, setSemester] = useState("1st");
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
 
-  // Generate academic years from 2023 to present
-  const currentYear = new Date().getFullYear();
-  const academicYears = [];
-  for (let year = 2023; year <= currentYear; year++) {
-    academicYears.push(`${year}-${year + 1}`);
-  }
-
-  const [newGrade, setNewGrade] = useState<{
-    student_id: string;
-    subject_id: string;
-    academic_year: string;
-    semester: string;
-    midterm_grade: string;
-    final_grade: string;
-    final_rating: string;
-    status: string;
-  }>({
-    student_id: "",
-    subject_id: "",
-    academic_year: new Date().getFullYear() + "-" + (new Date().getFullYear() + 1),
-    semester: "1st",
-    midterm_grade: "",
-    final_grade: "",
-    final_rating: "",
-    status: "Failed"
-  });
-
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const handleAdd = () => {
+    addForm.reset(newGradeForm({ academicYear, semester }));
+    setIsAddDialogOpen(true);
+  };
 
-  const fetchData = async () => {
+  const handleAddGrade = addForm.handleSubmit(async (values) => {
     try {
-      setLoading(true);
-      const [gradesRes, studentsRes, subjectsRes] = await Promise.all([
-        fetch(apiUrl('grades.php')),
-        fetch(apiUrl('students.php')),
-        fetch(apiUrl('subjects.php'))
-      ]);
-      
-      const [gradesData, studentsData, subjectsData] = await Promise.all([
-        gradesRes.json(),
-        studentsRes.json(),
-        subjectsRes.json()
-      ]);
-      
-      setGrades(gradesData);
-      setStudents(studentsData);
-      setSubjects(subjectsData);
+      await createGrade.mutateAsync(gradeInput(values));
+
+      toast({
+        title: "Success",
+        description: "Grade added successfully"
+      });
+      setIsAddDialogOpen(false);
     } catch (error) {
-      console.error('Error fetching data:', error);
       toast({
-        title: "Error",
-        description: "Failed to load data",
+        title: "Failed to add grade",
+        description: errorMessage(error),
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
-
-  const filteredGrades = grades.filter(grade => {
-    const matchesSearch = 
-      grade.first_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      grade.last_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      grade.student_id_str.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      grade.subject_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      grade.subject_name.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    if (activeTab === "passed") return matchesSearch && grade.status === "Passed";
-    if (activeTab === "failed") return matchesSearch && grade.status === "Failed";
-    if (activeTab === "incomplete") return matchesSearch && grade.status === "Incomplete";
-    
-    return matchesSearch;
   });
 
-  const handleAddGrade = async () => {
-    if (!newGrade.student_id || !newGrade.subject_id) {
-      toast({
-        title: "Error",
-        description: "Please select both student and subject",
-        variant: "destructive"
-      });
-      return;
-    }
+  const handleEditGrade = (grade: Grade) => editor.open(grade);
 
+  const handleUpdateGrade = async () => {
+    const grade = editor.row;
+    if (!grade) return;
     try {
-      const gradeData = {
-        ...newGrade,
-        student_id: parseInt(newGrade.student_id),
-        subject_id: parseInt(newGrade.subject_id),
-        midterm_grade: newGrade.midterm_grade ? parseFloat(newGrade.midterm_grade) : null,
-        final_grade: newGrade.final_grade ? parseFloat(newGrade.final_grade) : null,
-        final_rating: newGrade.final_rating ? parseFloat(newGrade.final_rating) : null,
-      };
-
-      const response = await fetch(apiUrl('grades.php'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(gradeData),
-      });
-
-      if (response.ok) {
+      const saved = await editor.save((form, version) =>
+        updateGrade.mutateAsync({ id: grade.id, data: { ...gradeInput(form), expected_updated_at: version } })
+      );
+      if (saved) {
         toast({
-          title: "Success",
-          description: "Grade added successfully"
-        });
-        setNewGrade({
-          student_id: "",
-          subject_id: "",
-          academic_year: new Date().getFullYear() + "-" + (new Date().getFullYear() + 1),
-          semester: "1st",
-          midterm_grade: "",
-          final_grade: "",
-          final_rating: "",
-          status: "Failed"
+          title: "Grade updated",
+          description: `${grade.subject_code} for ${grade.first_name} ${grade.last_name} was saved.`
         });
-        setIsAddDialogOpen(false);
-        fetchData();
-      } else {
-        throw new Error('Failed to add grade');
       }
     } catch (error) {
-      console.error('Error adding grade:', error);
       toast({
-        title: "Error",
-        description: "Failed to add grade",
+        title: "Failed to update grade",
+        description: errorMessage(error),
         variant: "destructive"
       });
     }
   };
 
-  const handleEditGrade = (grade: Grade) => {
-    setSelectedGrade(grade);
-    setIsEditDialogOpen(true);
-  };
+  const handleDeleteGrade = (grade: Grade) =>
+    setDeleteTarget({ id: grade.id, label: `${grade.subject_code} for ${grade.first_name} ${grade.last_name}` });
+
+  // A deleted grade no longer counts as selected
+  const handleGradeDeleted = (id: number) =>
+    setSelectedIds((ids) => new Set([...ids].filter((selected) => selected !== id)));
 
   const handleViewGrade = (grade: Grade) => {
     setSelectedGrade(grade);
@@ -239,12 +143,14 @@ const Grades = () => {
     }
   };
 
+  // Grades are kept as entered, so values up to 5 are on the 1.0-5.0 scale
   const getGradeColor = (grade?: number) => {
     if (!grade) return "text-muted-foreground";
-    if (grade >= 90) return "text-green-600 font-semibold";
-    if (grade >= 80) return "text-blue-600";
-    if (grade >= 70) return "text-yellow-600";
-    if (grade >= 60) return "text-orange-600";
+    const onScale = grade <= 5;
+    if (onScale ? grade <= 1.5 : grade >= 90) return "text-green-600 font-semibold";
+    if (onScale ? grade <= 2 : grade >= 80) return "text-blue-600";
+    if (onScale ? grade <= 2.5 : grade >= 70) return "text-yellow-600";
+    if (onScale ? grade <= 3 : grade >= 60) return "text-orange-600";
     return "text-red-600 font-semibold";
   };
 
@@ -259,6 +165,88 @@ const Grades = () => {
     );
   }
 
+  const gradeCell = (grade?: number) => (
+    <span className={getGradeColor(grade)}>
+      {grade ? grade.toFixed(1) : 'N/A'}
+    </span>
+  );
+
+  const columns: DataTableColumn<Grade>[] = [
+    {
+      id: "student",
+      header: "Student",
+      sort: "name",
+      cell: (grade) => (
+        <div className="flex items-center gap-2">
+          <User className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <div className="font-medium">{grade.first_name} {grade.last_name}</div>
+            <div className="text-sm text-muted-foreground">{grade.student_id_str}</div>
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: "subject",
+      header: "Subject",
+      sort: "subject",
+      cell: (grade) => (
+        <div className="flex items-center gap-2">
+          <BookOpen className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <div className="font-medium">{grade.subject_code}</div>
+            <div className="text-sm text-muted-foreground">{grade.subject_name}</div>
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: "term",
+      header: "Academic Year",
+      sort: "term",
+      cell: (grade) => (
+        <div className="text-sm">
+          <div>{grade.academic_year}</div>
+          <div className="text-muted-foreground">{grade.semester}</div>
+        </div>
+      ),
+    },
+    { id: "midterm_grade", header: "Midterm", sort: "midterm_grade", cell: (grade) => gradeCell(grade.midterm_grade) },
+    { id: "final_grade", header: "Final", sort: "final_grade", cell: (grade) => gradeCell(grade.final_grade) },
+    { id: "final_rating", header: "Rating", sort: "final_rating", cell: (grade) => gradeCell(grade.final_rating) },
+    { id: "status", header: "Status", sort: "status", cell: (grade) => getStatusBadge(grade.status) },
+    {
+      id: "actions",
+      header: "Actions",
+      fixed: true,
+      cell: (grade) => (
+        <div className="flex items-center gap-2">
+          {can("grades.manage") && (
+            <Button variant="ghost" size="sm" onClick={() => handleEditGrade(grade)}>
+              <Edit className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => handleViewGrade(grade)}>
+            <Eye className="h-4 w-4 mr-1" />
+            View
+          </Button>
+          {can("grades.manage") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => handleDeleteGrade(grade)}
+              aria-label="Delete grade"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -268,307 +256,90 @@ const Grades = () => {
             Manage student grades and academic performance tracking
           </p>
         </div>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
+        <div className="flex gap-2">
+          {can("grades.manage") && <DeletedRecords entity="grades" noun="grades" />}
+          {can("grades.import") && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Grade Sheet
+            </Button>
+          )}
+          {can("grades.manage") && (
+            <Button onClick={handleAdd}>
               <Plus className="h-4 w-4 mr-2" />
               Add Grade
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle>Add New Grade</DialogTitle>
-              <DialogDescription>
-                Enter grade information below.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="student_id">Student</Label>
-                  <Select 
-                    value={newGrade.student_id} 
-                    onValueChange={(value) => setNewGrade({...newGrade, student_id: value})}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select student" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {students.map((student) => (
-                        <SelectItem key={student.id} value={student.id.toString()}>
-                          {student.student_id} - {student.first_name} {student.last_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="subject_id">Subject</Label>
-                  <Select 
-                    value={newGrade.subject_id} 
-                    onValueChange={(value) => setNewGrade({...newGrade, subject_id: value})}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select subject" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {subjects.map((subject) => (
-                        <SelectItem key={subject.id} value={subject.id.toString()}>
-                          {subject.subject_code} - {subject.subject_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="academic_year">Academic Year</Label>
-                  <Input
-                    id="academic_year"
-                    value={newGrade.academic_year}
-                    onChange={(e) => setNewGrade({...newGrade, academic_year: e.target.value})}
-                    placeholder="2024-2025"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="semester">Semester</Label>
-                  <Select 
-                    value={newGrade.semester} 
-                    onValueChange={(value) => setNewGrade({...newGrade, semester: value})}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="1st">1st Semester</SelectItem>
-                      <SelectItem value="2nd">2nd Semester</SelectItem>
-                      <SelectItem value="Summer">Summer</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="midterm_grade">Midterm Grade</Label>
-                  <Input
-                    id="midterm_grade"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    max="100"
-                    value={newGrade.midterm_grade}
-                    onChange={(e) => setNewGrade({...newGrade, midterm_grade: e.target.value})}
-                    placeholder="85.5"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="final_grade">Final Grade</Label>
-                  <Input
-                    id="final_grade"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    max="100"
-                    value={newGrade.final_grade}
-                    onChange={(e) => setNewGrade({...newGrade, final_grade: e.target.value})}
-                    placeholder="88.0"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="final_rating">Final Rating</Label>
-                  <Input
-                    id="final_rating"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    max="100"
-                    value={newGrade.final_rating}
-                    onChange={(e) => setNewGrade({...newGrade, final_rating: e.target.value})}
-                    placeholder="87.0"
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select 
-                  value={newGrade.status} 
-                  onValueChange={(value) => setNewGrade({...newGrade, status: value})}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Passed">Passed</SelectItem>
-                    <SelectItem value="Failed">Failed</SelectItem>
-                    <SelectItem value="Incomplete">Incomplete</SelectItem>
-                    <SelectItem value="Dropped">Dropped</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="flex justify-end gap-2">
-                <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleAddGrade}>
-                  Add Grade
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      </div>
-
-      {/* Academic Year and Semester Selectors */}
-      <div className="flex items-center gap-4">
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">Academic Year:</span>
-          <Select value={academicYear} onValueChange={setAcademicYear}>
-            <SelectTrigger className="w-32 h-8 text-sm">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {academicYears.map((year) => (
-                <SelectItem key={year} value={year}>
-                  {year}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">Semester:</span>
-          <Select value={semester} onValueChange={setSemester}>
-            <SelectTrigger className="w-24 h-8 text-sm">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="1st">1st</SelectItem>
-              <SelectItem value="2nd">2nd</SelectItem>
-            </SelectContent>
-          </Select>
+          )}
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Add New Grade</DialogTitle>
+                <DialogDescription>
+                  Enter grade information below.
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...addForm}>
+                <form onSubmit={handleAddGrade} className="space-y-4">
+                  <GradeFields form={addForm} students={students} subjects={subjects} />
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={createGrade.isPending}>
+                      Add Grade
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
 
-      {/* Search and Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Search & Filter</CardTitle>
-          <CardDescription>
-            Find grades by student, subject, or other criteria
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-center space-x-2">
-            <Search className="h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search grades..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="max-w-sm"
-            />
-          </div>
-        </CardContent>
-      </Card>
+      <TermSelector showPeriod={false} />
 
       {/* Grades Table with Tabs */}
       <Card>
         <CardHeader>
           <CardTitle>Grade Records</CardTitle>
           <CardDescription>
-            {filteredGrades.length} grades found
+            Find grades by student, subject, or other criteria
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <Tabs
+            value={list.params.filters?.status ?? ALL_STATUSES}
+            onValueChange={(value) => list.setFilter("status", value === ALL_STATUSES ? undefined : value)}
+          >
             <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="all">All Grades</TabsTrigger>
-              <TabsTrigger value="passed">Passed</TabsTrigger>
-              <TabsTrigger value="failed">Failed</TabsTrigger>
-              <TabsTrigger value="incomplete">Incomplete</TabsTrigger>
+              <TabsTrigger value={ALL_STATUSES}>All Grades</TabsTrigger>
+              <TabsTrigger value="Passed">Passed</TabsTrigger>
+              <TabsTrigger value="Failed">Failed</TabsTrigger>
+              <TabsTrigger value="Incomplete">Incomplete</TabsTrigger>
             </TabsList>
-            
-            <TabsContent value={activeTab} className="mt-4">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Student</TableHead>
-                    <TableHead>Subject</TableHead>
-                    <TableHead>Academic Year</TableHead>
-                    <TableHead>Midterm</TableHead>
-                    <TableHead>Final</TableHead>
-                    <TableHead>Rating</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredGrades.map((grade) => (
-                    <TableRow key={grade.id}>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <User className="h-4 w-4 text-muted-foreground" />
-                          <div>
-                            <div className="font-medium">{grade.first_name} {grade.last_name}</div>
-                            <div className="text-sm text-muted-foreground">{grade.student_id_str}</div>
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <BookOpen className="h-4 w-4 text-muted-foreground" />
-                          <div>
-                            <div className="font-medium">{grade.subject_code}</div>
-                            <div className="text-sm text-muted-foreground">{grade.subject_name}</div>
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="text-sm">
-                          <div>{grade.academic_year}</div>
-                          <div className="text-muted-foreground">{grade.semester}</div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <span className={getGradeColor(grade.midterm_grade)}>
-                          {grade.midterm_grade ? grade.midterm_grade.toFixed(1) : 'N/A'}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <span className={getGradeColor(grade.final_grade)}>
-                          {grade.final_grade ? grade.final_grade.toFixed(1) : 'N/A'}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <span className={getGradeColor(grade.final_rating)}>
-                          {grade.final_rating ? grade.final_rating.toFixed(1) : 'N/A'}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        {getStatusBadge(grade.status)}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Button variant="ghost" size="sm" onClick={() => handleEditGrade(grade)}>
-                            <Edit className="h-4 w-4 mr-1" />
-                            Edit
-                          </Button>
-                          <Button variant="ghost" size="sm" onClick={() => handleViewGrade(grade)}>
-                            <Eye className="h-4 w-4 mr-1" />
-                            View
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TabsContent>
           </Tabs>
+          <div className="mt-4">
+            <DataTable
+              columns={columns}
+              data={gradePage.data}
+              list={list}
+              loading={gradePage.isLoading}
+              fetching={gradePage.isPlaceholderData}
+              rowKey={(grade) => grade.id}
+              selected={selectedIds}
+              onSelectedChange={setSelectedIds}
+              selectionActions={
+                <BulkActions
+                  entity="grades"
+                  noun="grades"
+                  selected={selectedIds}
+                  onDeleted={() => setSelectedIds(new Set())}
+                />
+              }
+              noun="grades"
+              searchPlaceholder="Search grades..."
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -576,7 +347,7 @@ const Grades = () => {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardContent className="p-6">
-            <div className="text-2xl font-bold">{grades.length}</div>
+            <div className="text-2xl font-bold">{totalGrades}</div>
             <p className="text-xs text-muted-foreground">Total Grades</p>
           </CardContent>
         </Card>
@@ -584,7 +355,7 @@ const Grades = () => {
         <Card>
           <CardContent className="p-6">
             <div className="text-2xl font-bold text-green-600">
-              {grades.filter(g => g.status === 'Passed').length}
+              {statusCount('Passed')}
             </div>
             <p className="text-xs text-muted-foreground">Passed</p>
           </CardContent>
@@ -593,7 +364,7 @@ const Grades = () => {
         <Card>
           <CardContent className="p-6">
             <div className="text-2xl font-bold text-red-600">
-              {grades.filter(g => g.status === 'Failed').length}
+              {statusCount('Failed')}
             </div>
             <p className="text-xs text-muted-foreground">Failed</p>
           </CardContent>
@@ -602,13 +373,52 @@ const Grades = () => {
         <Card>
           <CardContent className="p-6">
             <div className="text-2xl font-bold">
-              {grades.length > 0 ? (grades.filter(g => g.status === 'Passed').length / grades.length * 100).toFixed(1) : 0}%
+              {totalGrades > 0 ? (statusCount('Passed') / totalGrades * 100).toFixed(1) : 0}%
             </div>
             <p className="text-xs text-muted-foreground">Pass Rate</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Edit Dialog */}
+      <RecordEditDialog
+        open={editor.row !== null}
+        onClose={editor.close}
+        title="Edit Grade"
+        description="Update this grade. Changes are recorded in the audit log."
+        noun="grade"
+        form={editor.form}
+        conflict={editor.conflict !== null}
+        onLoadLatest={editor.loadLatest}
+        onSave={handleUpdateGrade}
+        saving={updateGrade.isPending}
+      >
+        {editor.row && (
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="font-medium">Student:</span>
+              <div>{editor.row.first_name} {editor.row.last_name}</div>
+              <div className="text-muted-foreground">{editor.row.student_id_str}</div>
+            </div>
+            <div>
+              <span className="font-medium">Subject:</span>
+              <div>{editor.row.subject_code}</div>
+              <div className="text-muted-foreground">{editor.row.subject_name}</div>
+            </div>
+          </div>
+        )}
+        <GradeFields form={editor.form} />
+      </RecordEditDialog>
+
+      <DeleteRecordDialog
+        entity="grades"
+        noun="grade"
+        target={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        remove={(id) => deleteGrade.mutateAsync(id)}
+        onDeleted={handleGradeDeleted}
+      />
+
       {/* View Dialog */}
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-md">
@@ -620,48 +430,50 @@ const Grades = () => {
           </DialogHeader>
           {selectedGrade && (
             <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="font-medium">Student:</span>
-                  <div>{selectedGrade.first_name} {selectedGrade.last_name}</div>
-                  <div className="text-muted-foreground">{selectedGrade.student_id_str}</div>
-                </div>
-                <div>
-                  <span className="font-medium">Subject:</span>
-                  <div>{selectedGrade.subject_code}</div>
-                  <div className="text-muted-foreground">{selectedGrade.subject_name}</div>
-                </div>
-                <div>
-                  <span className="font-medium">Academic Year:</span>
-                  <div>{selectedGrade.academic_year}</div>
-                </div>
-                <div>
-                  <span className="font-medium">Semester:</span>
-                  <div>{selectedGrade.semester}</div>
-                </div>
-                <div>
-                  <span className="font-medium">Midterm Grade:</span>
-                  <div className={getGradeColor(selectedGrade.midterm_grade)}>
-                    {selectedGrade.midterm_grade ? selectedGrade.midterm_grade.toFixed(1) : 'N/A'}
+              <HistoryTabs entity="grades" entityId={selectedGrade.id}>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="font-medium">Student:</span>
+                    <div>{selectedGrade.first_name} {selectedGrade.last_name}</div>
+                    <div className="text-muted-foreground">{selectedGrade.student_id_str}</div>
                   </div>
-                </div>
-                <div>
-                  <span className="font-medium">Final Grade:</span>
-                  <div className={getGradeColor(selectedGrade.final_grade)}>
-                    {selectedGrade.final_grade ? selectedGrade.final_grade.toFixed(1) : 'N/A'}
+                  <div>
+                    <span className="font-medium">Subject:</span>
+                    <div>{selectedGrade.subject_code}</div>
+                    <div className="text-muted-foreground">{selectedGrade.subject_name}</div>
                   </div>
-                </div>
-                <div>
-                  <span className="font-medium">Final Rating:</span>
-                  <div className={getGradeColor(selectedGrade.final_rating)}>
-                    {selectedGrade.final_rating ? selectedGrade.final_rating.toFixed(1) : 'N/A'}
+                  <div>
+                    <span className="font-medium">Academic Year:</span>
+                    <div>{selectedGrade.academic_year}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Semester:</span>
+                    <div>{selectedGrade.semester}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Midterm Grade:</span>
+                    <div className={getGradeColor(selectedGrade.midterm_grade)}>
+                      {selectedGrade.midterm_grade ? selectedGrade.midterm_grade.toFixed(1) : 'N/A'}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Final Grade:</span>
+                    <div className={getGradeColor(selectedGrade.final_grade)}>
+                      {selectedGrade.final_grade ? selectedGrade.final_grade.toFixed(1) : 'N/A'}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Final Rating:</span>
+                    <div className={getGradeColor(selectedGrade.final_rating)}>
+                      {selectedGrade.final_rating ? selectedGrade.final_rating.toFixed(1) : 'N/A'}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Status:</span>
+                    <div>{getStatusBadge(selectedGrade.status)}</div>
                   </div>
                 </div>
-                <div>
-                  <span className="font-medium">Status:</span>
-                  <div>{getStatusBadge(selectedGrade.status)}</div>
-                </div>
-              </div>
+              </HistoryTabs>
               <div className="flex justify-end">
                 <Button onClick={() => setIsViewDialogOpen(false)}>
                   Close
@@ -671,6 +483,8 @@ const Grades = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      <GradeSheetImport open={isImportOpen} onOpenChange={setIsImportOpen} />
     </div>
   );
 };
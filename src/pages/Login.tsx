@@ -1,12 +1,14 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2 } from "lucide-react";
-import { apiUrl } from "@/lib/api";
+import { ApiError, errorMessage } from "@/lib/api";
+import { login } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
 
 const Login = () => {
   const [formData, setFormData] = useState({
@@ -16,6 +18,11 @@ const Login = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const navigate = useNavigate();
+  const location = useLocation();
+  const session = useSession();
+  // The page a protected route sent us here from
+  const from = (location.state as { from?: Location } | null)?.from;
+  const destination = from ? `${from.pathname}${from.search}${from.hash}` : "/";
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -33,36 +40,23 @@ const Login = () => {
     setError("");
 
     try {
-      const response = await fetch(apiUrl('login.php'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        // Store user data in localStorage
-        localStorage.setItem('user', JSON.stringify({
-          id: data.id,
-          username: data.username,
-          token: data.token
-        }));
-        
-        // Redirect to dashboard
-        navigate('/');
+      await login(formData);
+      navigate(destination, { replace: true });
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(errorMessage(err, 'Login failed'));
       } else {
-        setError(data.error || 'Login failed');
+        setError('Network error. Please check if the server is running.');
       }
-    } catch (err) {
-      setError('Network error. Please check if the server is running.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (session && !isLoading) {
+    return <Navigate to={destination} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -1,229 +1,162 @@
-import { useState, useEffect } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import { Plus, Search, Edit, Eye, Loader2, GraduationCap, Users, AlertTriangle } from "lucide-react";
+import { Form } from "@/components/ui/form";
+import { Plus, Edit, Eye, Loader2, GraduationCap, Users, AlertTriangle, Trash2 } from "lucide-react";
 import { Upload, Download } from "lucide-react";
+import DataTable, { DataTableFilter, type DataTableColumn } from "@/components/DataTable";
+import DeletedRecords from "@/components/DeletedRecords";
+import DeleteRecordDialog from "@/components/DeleteRecordDialog";
+import RecordEditDialog from "@/components/RecordEditDialog";
+import { ProgramFields } from "@/components/RecordFields";
+import TermSelector from "@/components/TermSelector";
 import ZoneBadge from "@/components/ZoneBadge";
+import { HistoryTabs } from "@/components/AuditHistory";
+import { useListParams } from "@/hooks/use-list-params";
+import { useRecordEditor } from "@/hooks/use-record-editor";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTerm } from "@/hooks/use-term";
+import { useCan } from "@/hooks/use-session";
+import ImportWizard from "@/components/ImportWizard";
 import { useToast } from "@/hooks/use-toast";
-import { apiUrl } from "@/lib/api";
+import {
+  useCreateProgram,
+  useDeleteProgram,
+  useGwaOptions,
+  useGwaSummary,
+  usePrograms,
+  useUpdateProgram,
+  useUploadRecords,
+} from "@/hooks/use-resources";
+import { errorMessage } from "@/lib/api";
+import { ZONES, zoneLabel } from "@/lib/classification";
+import { describeGwaOptions, formatGwa } from "@/lib/gwa";
+import { localPage, type LocalListSpec } from "@/lib/list";
+import { newProgramForm, programForm, programFormSchema, programInput, type ProgramForm } from "@/lib/record-forms";
+import { programSchema, type Program, type Zone } from "@/lib/schemas";
+
+const programZone = (program: Program): Zone => {
+  const total = program.student_count;
+  if (total === 0) return 'green';
+  const redPercentage = (program.red_zone_count / total) * 100;
+  const yellowPercentage = (program.yellow_zone_count / total) * 100;
+
+  if (redPercentage > 20) return 'red';
+  if (redPercentage > 10 || yellowPercentage > 30) return 'yellow';
+  return 'green';
+};
 
-interface Program {
-  id: number;
-  program_code: string;
-  program_name: string;
-  description?: string;
-  duration_years: number;
-  student_count: number;
-  red_zone_count: number;
-  yellow_zone_count: number;
-  green_zone_count: number;
-  created_at: string;
-}
+const PROGRAM_FILTERS = ["zone", "duration"] as const;
+
+// Programs are loaded whole, so the list is paged in the browser
+const PROGRAM_LIST: LocalListSpec<Program> = {
+  sort: {
+    code: (p) => p.program_code,
+    name: (p) => p.program_name,
+    duration: (p) => p.duration_years,
+    students: (p) => p.student_count,
+    at_risk: (p) => p.red_zone_count + p.yellow_zone_count,
+    zone: (p) => ZONES.indexOf(programZone(p)),
+  },
+  default: ["code", "asc"],
+  search: (p) => [p.program_code, p.program_name, p.description],
+  filters: { zone: programZone, duration: (p) => p.duration_years },
+  facets: { zone: programZone, duration: (p) => p.duration_years },
+  id: (p) => p.id,
+};
 
 const Programs = () => {
-  const [programs, setPrograms] = useState<Program[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
+  const { term } = useTerm();
+  const can = useCan();
+  const { data: programs = [], isLoading: loading } = usePrograms(term);
+  const { data: gwaSummary } = useGwaSummary(term);
+  const gwaOptions = useGwaOptions(term);
+  const programGwas = useMemo(
+    () => new Map((gwaSummary?.programs ?? []).map((mean) => [mean.program_id, mean.gwa])),
+    [gwaSummary]
+  );
+  const programGwa = (program: Program) => formatGwa(programGwas.get(program.id), gwaOptions.scale);
+  const createProgram = useCreateProgram();
+  const updateProgram = useUpdateProgram();
+  const deleteProgram = useDeleteProgram();
+  const editor = useRecordEditor({ schema: programSchema, formSchema: programFormSchema, toForm: programForm });
+  const addForm = useForm<ProgramForm>({ resolver: zodResolver(programFormSchema), defaultValues: newProgramForm() });
+  const uploadPrograms = useUploadRecords('programs', term);
+  const list = useListParams({ table: "programs", filters: PROGRAM_FILTERS });
+  const programPage = useMemo(() => localPage(programs, list.params, PROGRAM_LIST), [programs, list.params]);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<number>>(new Set());
   const [selectedProgram, setSelectedProgram] = useState<Program | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<{ id: number; label: string } | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [academicYear, setAcademicYear] = useState("2024-2025");
-  const [semester, setSemester] = useState("1st");
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
 
-  // Generate academic years from 2023 to present
-  const currentYear = new Date().getFullYear();
-  const academicYears = [];
-  for (let year = 2023; year <= currentYear; year++) {
-    academicYears.push(`${year}-${year + 1}`);
-  }
-
-  const [newProgram, setNewProgram] = useState<{
-    program_code: string;
-    program_name: string;
-    description: string;
-    duration_years: number;
-  }>({
-    program_code: "",
-    program_name: "",
-    description: "",
-    duration_years: 4
-  });
-
-  useEffect(() => {
-    fetchPrograms();
-  }, []);
+  const handleAdd = () => {
+    addForm.reset(newProgramForm());
+    setIsAddDialogOpen(true);
+  };
 
-  const fetchPrograms = async () => {
+  const handleAddProgram = addForm.handleSubmit(async (values) => {
     try {
-      setLoading(true);
-      const response = await fetch(apiUrl('programs.php'));
-      const data = await response.json();
-      setPrograms(data);
+      await createProgram.mutateAsync(programInput(values));
+
+      toast({
+        title: "Success",
+        description: "Program added successfully"
+      });
+      setIsAddDialogOpen(false);
     } catch (error) {
-      console.error('Error fetching programs:', error);
       toast({
-        title: "Error",
-        description: "Failed to load programs data",
+        title: "Failed to add program",
+        description: errorMessage(error),
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
-
-  const filteredPrograms = programs.filter(program => {
-    return program.program_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-           program.program_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-           (program.description && program.description.toLowerCase().includes(searchTerm.toLowerCase()));
   });
 
-  const handleAddProgram = async () => {
-    if (!newProgram.program_code || !newProgram.program_name) {
-      toast({
-        title: "Error",
-        description: "Please fill in all required fields",
-        variant: "destructive"
-      });
-      return;
-    }
+  const handleEditProgram = (program: Program) => editor.open(program);
 
+  const handleUpdateProgram = async () => {
+    const program = editor.row;
+    if (!program) return;
     try {
-      const response = await fetch(apiUrl('programs.php'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(newProgram),
-      });
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Program added successfully"
-        });
-        setNewProgram({
-          program_code: "",
-          program_name: "",
-          description: "",
-          duration_years: 4
-        });
-        setIsAddDialogOpen(false);
-        fetchPrograms();
-      } else {
-        throw new Error('Failed to add program');
+      const saved = await editor.save((form, version) =>
+        updateProgram.mutateAsync({ id: program.id, data: { ...programInput(form), expected_updated_at: version } })
+      );
+      if (saved) {
+        toast({ title: "Program updated", description: `${program.program_code} was saved.` });
       }
     } catch (error) {
-      console.error('Error adding program:', error);
       toast({
-        title: "Error",
-        description: "Failed to add program",
+        title: "Failed to update program",
+        description: errorMessage(error),
         variant: "destructive"
       });
     }
   };
 
-  const handleEditProgram = (program: Program) => {
-    setSelectedProgram(program);
-    setIsEditDialogOpen(true);
-  };
+  const handleDeleteProgram = (program: Program) =>
+    setDeleteTarget({ id: program.id, label: program.program_code });
+
+  // A deleted program no longer counts as selected
+  const handleProgramDeleted = (id: number) =>
+    setSelectedIds((ids) => new Set([...ids].filter((selected) => selected !== id)));
 
   const handleViewProgram = (program: Program) => {
     setSelectedProgram(program);
     setIsViewDialogOpen(true);
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const allowedTypes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel',
-      'text/csv'
-    ];
-
-    if (!allowedTypes.includes(file.type)) {
-      toast({
-        title: "Invalid file type",
-        description: "Please upload CSV files. Excel files may require additional setup.",
-        variant: "destructive"
-      });
-      return;
-    }
-
-    setIsUploading(true);
-    setUploadProgress(0);
-
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('type', 'Programs');
-
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return prev;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      const response = await fetch(apiUrl('upload.php'), {
-        method: 'POST',
-        body: formData
-      });
-
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-
-      const result = await response.json();
-
-      if (response.ok && result.success) {
-        toast({ title: "Upload successful", description: result.message });
-        fetchPrograms();
-      } else {
-        toast({ title: "Upload failed", description: result.error || 'Failed to upload file', variant: 'destructive' });
-      }
-    } catch (error) {
-      toast({ title: "Upload failed", description: "Network error occurred during upload", variant: 'destructive' });
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
-    }
-  };
-
   const downloadTemplate = () => {
     const csvContent = "program_code,program_name,description,duration_years\n" +
       "BSCS,Bachelor of Science in Computer Science,4-year computer science program,4\n" +
@@ -238,16 +171,104 @@ const Programs = () => {
     window.URL.revokeObjectURL(url);
   };
 
-  const getProgramZone = (program: Program) => {
-    const total = program.student_count;
-    if (total === 0) return 'green';
-    const redPercentage = (program.red_zone_count / total) * 100;
-    const yellowPercentage = (program.yellow_zone_count / total) * 100;
-    
-    if (redPercentage > 20) return 'red';
-    if (redPercentage > 10 || yellowPercentage > 30) return 'yellow';
-    return 'green';
-  };
+  const columns: DataTableColumn<Program>[] = [
+    {
+      id: "code",
+      header: "Program Code",
+      sort: "code",
+      className: "font-medium",
+      cell: (program) => program.program_code,
+    },
+    {
+      id: "name",
+      header: "Program Name",
+      sort: "name",
+      cell: (program) => (
+        <div className="flex items-center gap-2">
+          <GraduationCap className="h-4 w-4 text-muted-foreground" />
+          {program.program_name}
+        </div>
+      ),
+    },
+    {
+      id: "duration",
+      header: "Duration",
+      sort: "duration",
+      cell: (program) => (
+        <Badge variant="outline">
+          {program.duration_years} years
+        </Badge>
+      ),
+    },
+    {
+      id: "students",
+      header: "Students",
+      sort: "students",
+      cell: (program) => (
+        <div className="text-sm">
+          <div className="flex items-center gap-1">
+            <Users className="h-3 w-3" />
+            Total: {program.student_count}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Green: {program.green_zone_count} | Yellow: {program.yellow_zone_count} | Red: {program.red_zone_count}
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: "performance",
+      header: "Performance",
+      sort: "at_risk",
+      cell: (program) => (
+        <div className="text-sm">
+          <div className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3 text-destructive" />
+            At Risk: {program.red_zone_count + program.yellow_zone_count}
+          </div>
+          <div className="text-xs text-muted-foreground" title={describeGwaOptions(gwaOptions)}>
+            Average GWA: {programGwa(program)}
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: "zone",
+      header: "Zone",
+      sort: "zone",
+      cell: (program) => <ZoneBadge zone={programZone(program)} />,
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      fixed: true,
+      cell: (program) => (
+        <div className="flex items-center gap-2">
+          {can("programs.manage") && (
+            <Button variant="ghost" size="sm" onClick={() => handleEditProgram(program)}>
+              <Edit className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => handleViewProgram(program)}>
+            <Eye className="h-4 w-4 mr-1" />
+            View
+          </Button>
+          {can("programs.manage") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => handleDeleteProgram(program)}
+              aria-label="Delete program"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
 
   if (loading) {
     return (
@@ -270,31 +291,26 @@ const Programs = () => {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={downloadTemplate}>
-            <Download className="h-4 w-4 mr-2" />
-            Download Template
-          </Button>
-          <div className="relative">
-            <input
-              type="file"
-              accept=".csv,.xlsx,.xls"
-              onChange={handleFileUpload}
-              disabled={isUploading}
-              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              aria-label="Upload CSV file"
-            />
-            <Button disabled={isUploading}>
-              <Upload className="h-4 w-4 mr-2" />
-              {isUploading ? `Uploading... ${uploadProgress}%` : "Upload CSV"}
+          {can("programs.manage") && <DeletedRecords entity="programs" noun="programs" />}
+          {can("records.import") && (
+            <>
+              <Button variant="outline" onClick={downloadTemplate}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Template
+              </Button>
+              <Button onClick={() => setIsImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import File
+              </Button>
+            </>
+          )}
+          {can("programs.manage") && (
+            <Button onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Program
             </Button>
-          </div>
+          )}
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Program
-              </Button>
-            </DialogTrigger>
           <DialogContent className="max-w-md">
             <DialogHeader>
               <DialogTitle>Add New Program</DialogTitle>
@@ -302,199 +318,57 @@ const Programs = () => {
                 Enter program information below.
               </DialogDescription>
             </DialogHeader>
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="program_code">Program Code</Label>
-                  <Input
-                    id="program_code"
-                    value={newProgram.program_code}
-                    onChange={(e) => setNewProgram({...newProgram, program_code: e.target.value})}
-                    placeholder="BSCRIM"
-                  />
+            <Form {...addForm}>
+              <form onSubmit={handleAddProgram} className="space-y-4">
+                <ProgramFields form={addForm} />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createProgram.isPending}>
+                    Add Program
+                  </Button>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="duration_years">Duration (Years)</Label>
-                  <Select 
-                    value={newProgram.duration_years.toString()} 
-                    onValueChange={(value) => setNewProgram({...newProgram, duration_years: parseInt(value)})}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select duration" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {[2, 3, 4, 5].map((years) => (
-                        <SelectItem key={years} value={years.toString()}>
-                          {years} years
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="program_name">Program Name</Label>
-                <Input
-                  id="program_name"
-                  value={newProgram.program_name}
-                  onChange={(e) => setNewProgram({...newProgram, program_name: e.target.value})}
-                  placeholder="Bachelor of Science in Criminology"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={newProgram.description}
-                  onChange={(e) => setNewProgram({...newProgram, description: e.target.value})}
-                  placeholder="Program description..."
-                />
-              </div>
-
-              <div className="flex justify-end gap-2">
-                <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleAddProgram}>
-                  Add Program
-                </Button>
-              </div>
-            </div>
+              </form>
+            </Form>
           </DialogContent>
           </Dialog>
         </div>
       </div>
 
-      {/* Academic Year and Semester Selectors */}
-      <div className="flex items-center gap-4">
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">Academic Year:</span>
-          <Select value={academicYear} onValueChange={setAcademicYear}>
-            <SelectTrigger className="w-32 h-8 text-sm">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {academicYears.map((year) => (
-                <SelectItem key={year} value={year}>
-                  {year}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">Semester:</span>
-          <Select value={semester} onValueChange={setSemester}>
-            <SelectTrigger className="w-24 h-8 text-sm">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="1st">1st</SelectItem>
-              <SelectItem value="2nd">2nd</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-      </div>
-
-      {/* Search and Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Search & Filter</CardTitle>
-          <CardDescription>
-            Find programs by name, code, or description
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-center space-x-2">
-            <Search className="h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search programs..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="max-w-sm"
-            />
-          </div>
-        </CardContent>
-      </Card>
+      <TermSelector showPeriod={false} />
 
       {/* Programs Table */}
       <Card>
         <CardHeader>
           <CardTitle>Program List</CardTitle>
           <CardDescription>
-            {filteredPrograms.length} programs found
+            Find programs by name, code, or description
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Program Code</TableHead>
-                <TableHead>Program Name</TableHead>
-                <TableHead>Duration</TableHead>
-                <TableHead>Students</TableHead>
-                <TableHead>Performance</TableHead>
-                <TableHead>Zone</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredPrograms.map((program) => (
-                <TableRow key={program.id}>
-                  <TableCell className="font-medium">
-                    {program.program_code}
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      <GraduationCap className="h-4 w-4 text-muted-foreground" />
-                      {program.program_name}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant="outline">
-                      {program.duration_years} years
-                    </Badge>
-                  </TableCell>
-                  <TableCell>
-                    <div className="text-sm">
-                      <div className="flex items-center gap-1">
-                        <Users className="h-3 w-3" />
-                        Total: {program.student_count}
-                      </div>
-                      <div className="text-xs text-muted-foreground">
-                        Green: {program.green_zone_count} | Yellow: {program.yellow_zone_count} | Red: {program.red_zone_count}
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="text-sm">
-                      <div className="flex items-center gap-1">
-                        <AlertTriangle className="h-3 w-3 text-destructive" />
-                        At Risk: {program.red_zone_count + program.yellow_zone_count}
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <ZoneBadge zone={getProgramZone(program)} />
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      <Button variant="ghost" size="sm" onClick={() => handleEditProgram(program)}>
-                        <Edit className="h-4 w-4 mr-1" />
-                        Edit
-                      </Button>
-                      <Button variant="ghost" size="sm" onClick={() => handleViewProgram(program)}>
-                        <Eye className="h-4 w-4 mr-1" />
-                        View
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+          <DataTable
+            columns={columns}
+            data={programPage}
+            list={list}
+            rowKey={(program) => program.id}
+            selected={selectedIds}
+            onSelectedChange={setSelectedIds}
+            noun="programs"
+            searchPlaceholder="Search programs..."
+            toolbar={
+              <>
+                <DataTableFilter list={list} name="zone" title="Zone" options={programPage.facets.zone} format={zoneLabel} />
+                <DataTableFilter
+                  list={list}
+                  name="duration"
+                  title="Duration"
+                  options={programPage.facets.duration}
+                  format={(value) => `${value} years`}
+                />
+              </>
+            }
+          />
         </CardContent>
       </Card>
 
@@ -519,7 +393,7 @@ const Programs = () => {
         <Card>
           <CardContent className="p-6">
             <div className="text-2xl font-bold">
-              {programs.filter(p => getProgramZone(p) === 'red').length}
+              {programs.filter(p => programZone(p) === 'red').length}
             </div>
             <p className="text-xs text-muted-foreground">Programs Needing Attention</p>
           </CardContent>
@@ -528,13 +402,38 @@ const Programs = () => {
         <Card>
           <CardContent className="p-6">
             <div className="text-2xl font-bold">
-              {programs.filter(p => getProgramZone(p) === 'green').length}
+              {programs.filter(p => programZone(p) === 'green').length}
             </div>
             <p className="text-xs text-muted-foreground">High Performing Programs</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Edit Dialog */}
+      <RecordEditDialog
+        open={editor.row !== null}
+        onClose={editor.close}
+        title="Edit Program"
+        description="Update program information. Changes are recorded in the audit log."
+        noun="program"
+        form={editor.form}
+        conflict={editor.conflict !== null}
+        onLoadLatest={editor.loadLatest}
+        onSave={handleUpdateProgram}
+        saving={updateProgram.isPending}
+      >
+        <ProgramFields form={editor.form} />
+      </RecordEditDialog>
+
+      <DeleteRecordDialog
+        entity="programs"
+        noun="program"
+        target={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        remove={(id) => deleteProgram.mutateAsync(id)}
+        onDeleted={handleProgramDeleted}
+      />
+
       {/* View Dialog */}
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-md">
@@ -546,34 +445,41 @@ const Programs = () => {
           </DialogHeader>
           {selectedProgram && (
             <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="font-medium">Program Code:</span>
-                  <div>{selectedProgram.program_code}</div>
-                </div>
-                <div>
-                  <span className="font-medium">Duration:</span>
-                  <div>{selectedProgram.duration_years} years</div>
-                </div>
-                <div className="col-span-2">
-                  <span className="font-medium">Program Name:</span>
-                  <div>{selectedProgram.program_name}</div>
-                </div>
-                <div className="col-span-2">
-                  <span className="font-medium">Description:</span>
-                  <div className="text-sm text-muted-foreground mt-1">
-                    {selectedProgram.description || "No description available"}
+              <HistoryTabs entity="programs" entityId={selectedProgram.id}>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="font-medium">Program Code:</span>
+                    <div>{selectedProgram.program_code}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Duration:</span>
+                    <div>{selectedProgram.duration_years} years</div>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="font-medium">Program Name:</span>
+                    <div>{selectedProgram.program_name}</div>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="font-medium">Description:</span>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {selectedProgram.description || "No description available"}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Total Students:</span>
+                    <div>{selectedProgram.student_count}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Performance Zone:</span>
+                    <div><ZoneBadge zone={programZone(selectedProgram)} /></div>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="font-medium">Average GWA:</span>
+                    <div>{programGwa(selectedProgram)}</div>
+                    <div className="text-xs text-muted-foreground">{describeGwaOptions(gwaOptions)}</div>
                   </div>
                 </div>
-                <div>
-                  <span className="font-medium">Total Students:</span>
-                  <div>{selectedProgram.student_count}</div>
-                </div>
-                <div>
-                  <span className="font-medium">Performance Zone:</span>
-                  <div><ZoneBadge zone={getProgramZone(selectedProgram)} /></div>
-                </div>
-              </div>
+              </HistoryTabs>
               <div className="flex justify-end">
                 <Button onClick={() => setIsViewDialogOpen(false)}>
                   Close
@@ -583,6 +489,14 @@ const Programs = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      <ImportWizard
+        type="programs"
+        title="Import Programs"
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        upload={(file, options) => uploadPrograms.mutateAsync({ file, ...options })}
+      />
     </div>
   );
 };
@@ -0,0 +1,415 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import TermSelector from "@/components/TermSelector";
+import ZoneBadge from "@/components/ZoneBadge";
+import { useTerm } from "@/hooks/use-term";
+import { useToast } from "@/hooks/use-toast";
+import { useActivePolicies, useCreatePolicy, useDeletePolicy, usePolicies } from "@/hooks/use-resources";
+import { errorMessage } from "@/lib/api";
+import { describeGwaOptions, GRADE_SCALES, GRADE_STATUSES, gwaOptionsOf, type GradeScaleId, type GwaOptions } from "@/lib/gwa";
+import {
+  categoriesFor,
+  POLICY_KIND_LABELS,
+  POLICY_KINDS,
+  ZONES,
+  type PolicyKind,
+  type ThresholdBand,
+  type ThresholdPolicy,
+} from "@/lib/classification";
+import type { ThresholdPolicyRecord, Zone } from "@/lib/schemas";
+
+const POLICY_KIND_DESCRIPTIONS: Record<PolicyKind, string> = {
+  teacher_failure: "Share of a teacher's enrolled students who failed in a grading period. Lower is better.",
+  subject_pass: "Share of enrolled students who passed a subject. Higher is better.",
+  student_gwa: "Unit-weighted general weighted average, on the grade scale chosen below. GWAs are shown the same way everywhere.",
+};
+
+type PolicyWithMeta = ThresholdPolicy & Partial<Pick<ThresholdPolicyRecord, "id" | "name" | "version" | "academic_year" | "semester">>;
+
+// Problems that would make the policy ambiguous; an empty list means it can be saved
+const validateBands = (policy: ThresholdPolicy, bands: ThresholdBand[]) => {
+  const problems: string[] = [];
+  if (bands.length < 2) problems.push("A policy needs at least two bands.");
+  bands.forEach((band, index) => {
+    if (!Number.isFinite(band.limit)) {
+      problems.push(`Band ${index + 1} needs a numeric limit.`);
+    } else if (band.limit < policy.min || band.limit > policy.max) {
+      problems.push(`Band ${index + 1} must be between ${policy.min} and ${policy.max}.`);
+    }
+  });
+  const limits = bands.map((band) => band.limit);
+  if (new Set(limits).size !== limits.length) problems.push("Two bands cannot share the same limit.");
+  // As the server checks: zones never get better as the value gets worse
+  const ordered = [...bands].sort((a, b) => (policy.direction === "lower-is-better" ? a.limit - b.limit : b.limit - a.limit));
+  if (ordered.some((band, i) => i > 0 && ZONES.indexOf(band.zone) < ZONES.indexOf(ordered[i - 1].zone))) {
+    problems.push("Bands must run from green to red as the value gets worse.");
+  }
+  return problems;
+};
+
+interface PolicyEditorProps {
+  kind: PolicyKind;
+  active: PolicyWithMeta;
+  academicYear: string;
+  semester: string;
+  history: ThresholdPolicyRecord[];
+}
+
+const PolicyEditor = ({ kind, active, academicYear, semester, history }: PolicyEditorProps) => {
+  const createPolicy = useCreatePolicy();
+  const deletePolicy = useDeletePolicy();
+  const { toast } = useToast();
+  const [name, setName] = useState(active.name ?? POLICY_KIND_LABELS[kind]);
+  const [notes, setNotes] = useState("");
+  const [bands, setBands] = useState<ThresholdBand[]>(active.bands.map((band) => ({ ...band })));
+  const [gwa, setGwa] = useState<GwaOptions>(gwaOptionsOf(active));
+
+  // A GWA policy's bands run the way its scale does, so another scale starts from that scale's bands
+  const isGwa = kind === "student_gwa";
+  const activeScale = gwaOptionsOf(active).scale;
+  const base: ThresholdPolicy = isGwa && gwa.scale !== activeScale ? GRADE_SCALES[gwa.scale].policy : active;
+  const gwaFields = isGwa ? { grade_scale: gwa.scale, excluded_statuses: gwa.excludedStatuses } : {};
+  const draft: ThresholdPolicy = { ...base, bands, ...gwaFields };
+  const problems = validateBands(base, bands);
+  const preview = problems.length === 0 ? categoriesFor(draft) : [];
+  const activeCategories = categoriesFor(active);
+  const inheritedFrom = active.id && (active.academic_year !== academicYear || active.semester !== semester)
+    ? `${active.academic_year} ${active.semester} semester`
+    : null;
+  const nextVersion = Math.max(0, ...history
+    .filter((p) => p.academic_year === academicYear && p.semester === semester)
+    .map((p) => p.version ?? 0)) + 1;
+
+  const updateBand = (index: number, patch: Partial<ThresholdBand>) =>
+    setBands(bands.map((band, i) => (i === index ? { ...band, ...patch } : band)));
+
+  const changeScale = (scale: GradeScaleId) => {
+    setGwa({ ...gwa, scale });
+    setBands((scale === activeScale ? active : GRADE_SCALES[scale].policy).bands.map((band) => ({ ...band })));
+  };
+
+  const toggleStatus = (status: string, excluded: boolean) =>
+    setGwa({
+      ...gwa,
+      excludedStatuses: excluded ? [...gwa.excludedStatuses, status] : gwa.excludedStatuses.filter((s) => s !== status),
+    });
+
+  const handleSave = async () => {
+    try {
+      await createPolicy.mutateAsync({
+        kind,
+        name,
+        academic_year: academicYear,
+        semester,
+        direction: base.direction,
+        unit: base.unit,
+        min: base.min,
+        max: base.max,
+        step: base.step,
+        bands,
+        ...gwaFields,
+        notes: notes || undefined,
+      });
+      toast({
+        title: "Policy saved",
+        description: `${POLICY_KIND_LABELS[kind]} v${nextVersion} is now in force for ${academicYear} ${semester} semester.`,
+      });
+      setNotes("");
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save policy"), variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (policy: ThresholdPolicyRecord) => {
+    if (!policy.id || !confirm(`Delete version ${policy.version} for ${policy.academic_year} ${policy.semester}?`)) return;
+    try {
+      await deletePolicy.mutateAsync(policy.id);
+      toast({ title: "Policy deleted", description: "Pages fall back to the previous version." });
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete policy"), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>In force for {academicYear} {semester} semester</CardTitle>
+          <CardDescription>
+            {active.id
+              ? `${active.name} (v${active.version})${inheritedFrom ? `, carried over from ${inheritedFrom}` : ""}`
+              : "Built-in default. No policy has been saved for this term or any earlier one."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {activeCategories.map((category) => (
+              <ZoneBadge key={category.label} category={category} label={category.label} />
+            ))}
+          </div>
+          {isGwa && <p className="text-sm text-muted-foreground">{describeGwaOptions(gwaOptionsOf(active))}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Edit bands</CardTitle>
+          <CardDescription>{POLICY_KIND_DESCRIPTIONS[kind]} Saving creates version {nextVersion} for this term.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-name`}>Policy Name</Label>
+            <Input id={`${kind}-name`} value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          {isGwa && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="gwa-scale">Grade scale</Label>
+                <Select value={gwa.scale} onValueChange={(value) => changeScale(value as GradeScaleId)}>
+                  <SelectTrigger id="gwa-scale">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(GRADE_SCALES).map((scale) => (
+                      <SelectItem key={scale.id} value={scale.id}>{scale.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{GRADE_SCALES[gwa.scale].description}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Leave out grades that are</Label>
+                <div className="flex flex-wrap gap-4">
+                  {GRADE_STATUSES.map((status) => (
+                    <label key={status} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={gwa.excludedStatuses.includes(status)}
+                        onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+                      />
+                      {status}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{describeGwaOptions(gwa)}. Subjects without units count once.</p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Bands ({base.direction === "lower-is-better" ? "upper limit" : "lower limit"} per band, {base.min}-{base.max}{base.unit})</Label>
+            {bands.map((band, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={band.zone} onValueChange={(value) => updateBand(index, { zone: value as Zone })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ZONES.map((zone) => (
+                      <SelectItem key={zone} value={zone}>{zone.toUpperCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  className="w-32"
+                  step={base.step}
+                  min={base.min}
+                  max={base.max}
+                  value={Number.isFinite(band.limit) ? band.limit : ""}
+                  onChange={(e) => updateBand(index, { limit: e.target.value === "" ? NaN : Number(e.target.value) })}
+                  aria-label={`Band ${index + 1} limit`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setBands(bands.filter((_, i) => i !== index))}
+                  disabled={bands.length <= 2}
+                  aria-label={`Remove band ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBands([...bands, { zone: "red", limit: base.direction === "lower-is-better" ? base.max : base.min }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Band
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            {problems.length > 0 ? (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {problems.map((problem) => <li key={problem}>{problem}</li>)}
+              </ul>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {preview.map((category) => (
+                  <ZoneBadge key={category.label} category={category} label={category.label} />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-notes`}>Notes</Label>
+            <Textarea
+              id={`${kind}-notes`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Committee resolution, reason for the change..."
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={problems.length > 0 || !name.trim() || createPolicy.isPending}>
+              {createPolicy.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save as v{nextVersion}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+          <CardDescription>Every saved version of the {POLICY_KIND_LABELS[kind].toLowerCase()} policy</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No versions saved yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Bands</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell>{policy.academic_year} {policy.semester}</TableCell>
+                    <TableCell>v{policy.version}</TableCell>
+                    <TableCell>
+                      <div>{policy.name}</div>
+                      {policy.notes && <div className="text-xs text-muted-foreground">{policy.notes}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {categoriesFor(policy).map((category) => (
+                          <ZoneBadge key={category.label} category={category} label={category.label} />
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{policy.created_at ? new Date(policy.created_at).toLocaleDateString() : "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(policy)} aria-label="Delete version">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+const Settings = () => {
+  const { academicYear, semester, term } = useTerm();
+  const [kind, setKind] = useState<PolicyKind>("teacher_failure");
+  const { data: policies = [], isLoading: loading } = usePolicies();
+  const active = useActivePolicies(term);
+
+  const historyByKind = useMemo(() => {
+    const grouped: Record<PolicyKind, ThresholdPolicyRecord[]> = { teacher_failure: [], subject_pass: [], student_gwa: [] };
+    policies.forEach((policy) => grouped[policy.kind].push(policy));
+    return grouped;
+  }, [policies]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading policies...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground">
+          Zone threshold policies used by the deliberation committee, versioned per term
+        </p>
+      </div>
+
+
+      <TermSelector showPeriod={false} />
+
+      <Tabs value={kind} onValueChange={(value) => setKind(value as PolicyKind)}>
+        <TabsList>
+          {POLICY_KINDS.map((k) => (
+            <TabsTrigger key={k} value={k}>{POLICY_KIND_LABELS[k]}</TabsTrigger>
+          ))}
+        </TabsList>
+        {POLICY_KINDS.map((k) => {
+          const policy: PolicyWithMeta = active[k];
+          return (
+            <TabsContent key={k} value={k}>
+              {/* Keyed so the draft resets when the term or the version in force changes */}
+              <PolicyEditor
+                key={`${academicYear}-${semester}-${policy.id ?? "default"}-${policy.version ?? 0}`}
+                kind={k}
+                active={policy}
+                academicYear={academicYear}
+                semester={semester}
+                history={historyByKind[k]}
+              />
+            </TabsContent>
+          );
+        })}
+      </Tabs>
+    </div>
+  );
+};
+
+export default Settings;
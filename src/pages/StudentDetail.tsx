@@ -0,0 +1,304 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, Loader2 } from "lucide-react";
+import ZoneBadge from "@/components/ZoneBadge";
+import { useAuditLog, useGwaOptions, useStudent, useStudentGrades } from "@/hooks/use-resources";
+import { useCan } from "@/hooks/use-session";
+import { useTerm } from "@/hooks/use-term";
+import { AUDIT_SOURCE_LABELS } from "@/lib/audit";
+import { computeGwa, describeGwaOptions, formatGwa, gradeRating, isPassingGwa } from "@/lib/gwa";
+import type { Grade } from "@/lib/schemas";
+import {
+  interventions,
+  standingReason,
+  termLabel,
+  transcriptTerms,
+  unitsOf,
+  UNRESOLVED_STATUSES,
+  zoneTimeline,
+  type HistoryEvent,
+} from "@/lib/transcript";
+
+const formatGrade = (value: number | undefined) => (value === undefined || value === null ? "—" : value);
+
+const statusVariant = (status: string) =>
+  status === "Passed" ? "secondary" : status === "Failed" ? "destructive" : "outline";
+
+const EventMeta = ({ event }: { event: HistoryEvent }) => (
+  <p className="text-xs text-muted-foreground">
+    {new Date(event.at).toLocaleString()} · {event.by} · {AUDIT_SOURCE_LABELS[event.source]}
+    {event.context ? ` · ${event.context}` : ""}
+  </p>
+);
+
+const StudentDetail = () => {
+  const { id } = useParams();
+  const studentId = Number(id);
+  const navigate = useNavigate();
+  const { term, search } = useTerm();
+  const can = useCan();
+  // Zone history and interventions come from the audit log
+  const canViewHistory = can("audit.view");
+  const gwaOptions = useGwaOptions(term);
+  const { data: student, isLoading: studentLoading } = useStudent(studentId);
+  const { data: grades = [], isLoading: gradesLoading } = useStudentGrades(studentId);
+  const { data: audit } = useAuditLog(
+    { entity: "students", entity_id: studentId, limit: 200 },
+    canViewHistory && Number.isFinite(studentId)
+  );
+
+  const terms = transcriptTerms(grades, gwaOptions);
+  const cumulative = computeGwa(grades, gwaOptions).value;
+  const unresolved = grades.filter((grade) => UNRESOLVED_STATUSES.includes(grade.status));
+  const zones = zoneTimeline(audit?.entries ?? []);
+  const followUps = interventions(audit?.entries ?? []);
+
+  const backToStudents = () => navigate({ pathname: "/students", search });
+
+  if (studentLoading || gradesLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading student...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!student) {
+    return (
+      <div className="space-y-4">
+        <p className="text-muted-foreground">Student not found.</p>
+        <Button variant="outline" onClick={backToStudents}>
+          Back to Students
+        </Button>
+      </div>
+    );
+  }
+
+  const gradeRow = (grade: Grade, showTerm = false) => (
+    <TableRow key={grade.id}>
+      <TableCell className="font-medium">{grade.subject_code}</TableCell>
+      <TableCell>{grade.subject_name}</TableCell>
+      {showTerm && <TableCell>{termLabel(grade)}</TableCell>}
+      <TableCell>{grade.units ?? "—"}</TableCell>
+      <TableCell>{formatGrade(grade.midterm_grade)}</TableCell>
+      <TableCell>{formatGrade(gradeRating(grade))}</TableCell>
+      <TableCell>
+        <Badge variant={statusVariant(grade.status)}>{grade.status}</Badge>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{student.first_name} {student.last_name}</h1>
+          <p className="text-muted-foreground">
+            {student.student_id} · {student.program_name || "No Program"} · Year {student.year_level} · {student.status}
+          </p>
+          {standingReason(student) && <p className="text-sm text-muted-foreground">{standingReason(student)}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          {student.at_risk && (
+            <Badge variant="destructive">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              At Risk
+            </Badge>
+          )}
+          <ZoneBadge zone={student.zone} />
+          {student.zone_override && <Badge variant="outline">Manual</Badge>}
+          <Button variant="outline" onClick={backToStudents}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Students
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Cumulative GWA</CardDescription>
+            <CardTitle className={cumulative !== null && !isPassingGwa(cumulative, gwaOptions.scale) ? "text-zone-red" : ""}>
+              {formatGwa(cumulative, gwaOptions.scale)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">{describeGwaOptions(gwaOptions)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Units earned</CardDescription>
+            <CardTitle>{unitsOf(grades, "Passed")} of {unitsOf(grades)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            Across {terms.length} {terms.length === 1 ? "term" : "terms"}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Failed or incomplete</CardDescription>
+            <CardTitle className={unresolved.length > 0 ? "text-zone-red" : ""}>{unresolved.length}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {unitsOf(grades, "Failed")} failed units
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transcript</CardTitle>
+          <CardDescription>Every recorded grade by term, oldest first, with the GWA of each term</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {terms.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No grades recorded for this student yet.</p>
+          ) : (
+            terms.map((term) => (
+              <div key={`${term.academic_year}|${term.semester}`} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{termLabel(term)}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    {unitsOf(term.grades)} units · GWA {formatGwa(term.gwa, gwaOptions.scale)}
+                  </span>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Units</TableHead>
+                      <TableHead>Midterm</TableHead>
+                      <TableHead>Final Rating</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>{term.grades.map((grade) => gradeRow(grade))}</TableBody>
+                </Table>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Failed and Incomplete Subjects</CardTitle>
+          <CardDescription>Subjects the student still has to retake or complete</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {unresolved.length === 0 ? (
+            <p className="text-sm text-muted-foreground">None.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Units</TableHead>
+                  <TableHead>Midterm</TableHead>
+                  <TableHead>Final Rating</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>{unresolved.map((grade) => gradeRow(grade, true))}</TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {canViewHistory ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Zone History</CardTitle>
+              <CardDescription>Each time the student was placed in a zone, oldest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {zones.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No zone changes recorded.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {zones.map((change, index) => (
+                    <li key={index} className="flex items-start gap-3">
+                      <div className="flex items-center gap-1 shrink-0">
+                        {change.from && (
+                          <>
+                            <ZoneBadge zone={change.from} />
+                            <span className="text-muted-foreground">→</span>
+                          </>
+                        )}
+                        <ZoneBadge zone={change.to} />
+                      </div>
+                      <EventMeta event={change} />
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes and Interventions</CardTitle>
+              <CardDescription>Changes to the at-risk flag and notes, oldest first</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {student.notes && (
+                <div>
+                  <span className="font-medium text-sm">Current notes:</span>
+                  <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{student.notes}</p>
+                </div>
+              )}
+              {followUps.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No interventions recorded.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {followUps.map((event, index) => (
+                    <li key={index} className="space-y-1">
+                      {event.atRisk !== undefined && (
+                        <Badge variant={event.atRisk ? "destructive" : "secondary"}>
+                          {event.atRisk ? "Flagged at risk" : "At-risk flag cleared"}
+                        </Badge>
+                      )}
+                      {event.notes !== undefined && (
+                        <p className="text-sm whitespace-pre-wrap">{event.notes || "Notes cleared"}</p>
+                      )}
+                      <EventMeta event={event} />
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        student.notes && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{student.notes}</p>
+            </CardContent>
+          </Card>
+        )
+      )}
+    </div>
+  );
+};
+
+export default StudentDetail;
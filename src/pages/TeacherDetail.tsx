@@ -0,0 +1,229 @@
+import { useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import CategoryBadge from "@/components/CategoryBadge";
+import ZoneBadge from "@/components/ZoneBadge";
+import { useActivePoliciesByTerm, useTeacher, useTeacherSnapshots } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { categoriesFor, periodPerformance, ZONE_COLORS } from "@/lib/classification";
+
+const TeacherDetail = () => {
+  const { id } = useParams();
+  const teacherId = Number(id);
+  const navigate = useNavigate();
+  const { search, term: viewedTerm } = useTerm();
+  const { data: teacher, isLoading: teacherLoading } = useTeacher(teacherId);
+  const { data: snapshots = [], isLoading: snapshotsLoading } = useTeacherSnapshots(teacherId);
+
+  const terms = useMemo(() => {
+    const seen = new Map<string, { academic_year: string; semester: string }>();
+    snapshots.forEach((s) => seen.set(`${s.academic_year}|${s.semester}`, { academic_year: s.academic_year, semester: s.semester }));
+    return [...seen.values()];
+  }, [snapshots]);
+  const policiesFor = useActivePoliciesByTerm(terms);
+
+  // Each snapshot is classified under the policy that was in force for its term
+  const history = snapshots.map((snapshot) => {
+    const policy = policiesFor(snapshot).teacher_failure;
+    const { percent, category } = periodPerformance(snapshot, policy);
+    return {
+      ...snapshot,
+      label: `${snapshot.academic_year} ${snapshot.semester} ${snapshot.period.toUpperCase()}`,
+      percentValue: percent === null ? null : Number(percent.toFixed(2)),
+      category,
+    };
+  });
+
+  // Zone bands behind the chart use the policy of the term being viewed
+  const bands = categoriesFor(policiesFor(viewedTerm).teacher_failure);
+
+  const latest = history[history.length - 1];
+  const previous = history[history.length - 2];
+  const change = latest?.percentValue != null && previous?.percentValue != null
+    ? latest.percentValue - previous.percentValue
+    : null;
+
+  const chartConfig = {
+    percentValue: { label: "% Failed", color: "hsl(var(--primary))" },
+  };
+
+  if (teacherLoading || snapshotsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading teacher...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!teacher) {
+    return (
+      <div className="space-y-4">
+        <p className="text-muted-foreground">Teacher not found.</p>
+        <Button variant="outline" onClick={() => navigate({ pathname: "/teachers", search })}>
+          Back to Teachers
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{teacher.first_name} {teacher.last_name}</h1>
+          <p className="text-muted-foreground">
+            {teacher.teacher_id} · {teacher.department}
+            {teacher.position ? ` · ${teacher.position}` : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <ZoneBadge zone={teacher.zone} />
+          <Button variant="outline" onClick={() => navigate({ pathname: "/teachers", search })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Teachers
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Latest period</CardDescription>
+            <CardTitle>{latest ? latest.label : "No data"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CategoryBadge category={latest?.category} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Latest failure rate</CardDescription>
+            <CardTitle>{latest?.percentValue != null ? `${latest.percentValue}%` : "N/A"}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {latest ? `${latest.failed} of ${latest.enrolled_students} students failed` : "No imports yet"}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Change since previous period</CardDescription>
+            <CardTitle className={change === null ? "" : change <= 0 ? "text-zone-green" : "text-zone-red"}>
+              {change === null ? "N/A" : `${change > 0 ? "+" : ""}${change.toFixed(2)} pts`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {previous ? `Compared with ${previous.label}` : "Needs at least two periods"}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Failure Percent Across Terms</CardTitle>
+          <CardDescription>
+            One point per grading period; shaded bands show the zones in force for the selected term
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No performance snapshots yet. Snapshots are recorded when a teacher performance CSV is imported for a term.
+            </p>
+          ) : (
+            <ChartContainer config={chartConfig}>
+              <LineChart data={history}>
+                {bands.map((band) => (
+                  <ReferenceArea
+                    key={band.label}
+                    y1={band.range.min}
+                    y2={band.range.max}
+                    fill={ZONE_COLORS[band.zone]}
+                    fillOpacity={0.08}
+                    ifOverflow="hidden"
+                  />
+                ))}
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={0} angle={-30} dy={20} height={60} />
+                <YAxis tickFormatter={(v) => `${v}%`} domain={[0, 100]} />
+                <ChartTooltip content={<ChartTooltipContent nameKey="percentValue" />} />
+                <Line
+                  type="monotone"
+                  dataKey="percentValue"
+                  stroke="var(--color-percentValue)"
+                  strokeWidth={2}
+                  connectNulls
+                  dot={({ cx, cy, payload, index }) => (
+                    <circle
+                      key={index}
+                      cx={cx}
+                      cy={cy}
+                      r={5}
+                      fill={payload.category ? ZONE_COLORS[payload.category.zone] : "hsl(var(--muted-foreground))"}
+                    />
+                  )}
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Performance History</CardTitle>
+          <CardDescription>Figures as imported for each term and grading period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Academic Year</TableHead>
+                <TableHead>Semester</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Enrolled</TableHead>
+                <TableHead>Failed</TableHead>
+                <TableHead>% of Failed</TableHead>
+                <TableHead>Categorization</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...history].reverse().map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>{row.academic_year}</TableCell>
+                  <TableCell>{row.semester}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{row.period.toUpperCase()}</Badge>
+                  </TableCell>
+                  <TableCell>{row.enrolled_students}</TableCell>
+                  <TableCell>{row.failed}</TableCell>
+                  <TableCell>{row.percentValue === null ? "N/A" : `${row.percentValue.toFixed(2)}%`}</TableCell>
+                  <TableCell>
+                    <CategoryBadge category={row.category} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeacherDetail;
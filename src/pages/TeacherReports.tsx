@@ -1,142 +1,66 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, PieChart, Pie, Cell } from "recharts";
 import { useNavigate } from "react-router-dom";
-import { apiUrl } from "@/lib/api";
+import TermSelector from "@/components/TermSelector";
+import { useActivePolicies, useTeachers } from "@/hooks/use-resources";
+import { useTerm } from "@/hooks/use-term";
+import { ZONE_COLORS, classify, teacherPeriodPerformance } from "@/lib/classification";
 import { Loader2, BarChart3 } from "lucide-react";
 
-type Zone = "green" | "yellow" | "red";
-
-interface Teacher {
-  id: number;
-  teacher_id: string;
-  first_name: string;
-  last_name: string;
-  department: string;
-  zone: Zone;
-  enrolled_students?: number;
-  p1_failed?: number; p1_percent?: number; p1_category?: string;
-  p2_failed?: number; p2_percent?: number; p2_category?: string;
-  p3_failed?: number; p3_percent?: number; p3_category?: string;
-}
-
 const TeacherReports = () => {
-  const [teachers, setTeachers] = useState<Teacher[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [period, setPeriod] = useState<"P1" | "P2" | "P3">("P1");
+  const { period: periodKey, term, search } = useTerm();
+  const { data: teachers = [], isLoading: loading } = useTeachers(term);
+  const { teacher_failure: failurePolicy } = useActivePolicies(term);
   const navigate = useNavigate();
 
-  useEffect(() => {
-    const fetchTeachers = async () => {
-      try {
-        setLoading(true);
-        const response = await fetch(apiUrl('teachers.php'));
-        const data = await response.json();
-        setTeachers(Array.isArray(data) ? data : []);
-      } catch (err) {
-        console.error('Error fetching teachers for reports:', err);
-        setTeachers([]);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchTeachers();
-  }, []);
-
-  const calcPercent = (failed?: number | string, enrolled?: number | string) => {
-    const f = Number(failed);
-    const e = Number(enrolled);
-    if (!isFinite(f) || !isFinite(e) || e <= 0) return null;
-    return (f / e) * 100;
-  };
-
-  const percentFromData = (
-    dbPercent?: number | string,
-    failed?: number | string,
-    enrolled?: number | string
-  ) => {
-    const direct = Number(dbPercent);
-    const calc = calcPercent(failed, enrolled);
-    if (calc !== null) return calc;
-    if (isFinite(direct)) return direct;
-    return null;
-  };
-
-  const categoryFromPercentValue = (pct: number) => {
-    if (pct === 0) return 'GREEN (0%)';
-    if (pct <= 10) return 'GREEN (0.01%-10%)';
-    if (pct <= 40) return 'YELLOW (10.01%-40%)';
-    return 'RED (40.01%-100%)';
-  };
-
-  // Keys based on selected period
-  const periodKey = period.toLowerCase(); // p1 | p2 | p3
-  const failedKey = `${periodKey}_failed` as keyof Teacher;
-  const percentKey = `${periodKey}_percent` as keyof Teacher;
-  const categoryKey = `${periodKey}_category` as keyof Teacher;
+  const period = periodKey.toUpperCase();
 
   const topPercentData = useMemo(() => {
     const rows = (teachers || [])
       .map((t) => {
-        const pct = percentFromData(t[percentKey] as any, t[failedKey] as any, t.enrolled_students);
-        return pct === null ? null : {
+        const { percent } = teacherPeriodPerformance(t, periodKey, failurePolicy);
+        return percent === null ? null : {
           name: `${t.first_name} ${t.last_name}`,
           teacherId: t.teacher_id,
-          percent: Number(pct.toFixed(2))
+          percent: Number(percent.toFixed(2))
         };
       })
       .filter(Boolean) as { name: string; teacherId: string; percent: number }[];
     return rows.sort((a, b) => b.percent - a.percent).slice(0, 10);
-  }, [teachers, percentKey, failedKey]);
+  }, [teachers, periodKey, failurePolicy]);
 
   const totalsData = useMemo(() => {
     const totalEnrolled = (teachers || []).reduce((sum, t) => sum + (Number(t.enrolled_students) || 0), 0);
-    const totalFailed = (teachers || []).reduce((sum, t) => sum + (Number(t[failedKey] as any) || 0), 0);
+    const totalFailed = (teachers || []).reduce((sum, t) => sum + teacherPeriodPerformance(t, periodKey, failurePolicy).failed, 0);
     return [{ label: `Totals ${period}`, enrolled: totalEnrolled, failed: totalFailed }];
-  }, [teachers, failedKey, period]);
+  }, [teachers, periodKey, period, failurePolicy]);
 
   const categoryDistribution = useMemo(() => {
     const counts = { green: 0, yellow: 0, red: 0 };
     (teachers || []).forEach((t) => {
-      const pct = percentFromData(t[percentKey] as any, t[failedKey] as any, t.enrolled_students);
-      let bucket: Zone | null = null;
-      if (pct !== null) {
-        const label = categoryFromPercentValue(pct);
-        if (label.startsWith('GREEN')) bucket = 'green';
-        else if (label.startsWith('YELLOW')) bucket = 'yellow';
-        else bucket = 'red';
-      } else {
-        const cat = (t[categoryKey] as string) || '';
-        if (cat.startsWith('GREEN')) bucket = 'green';
-        else if (cat.startsWith('YELLOW')) bucket = 'yellow';
-        else if (cat.startsWith('RED')) bucket = 'red';
-      }
-      if (bucket) counts[bucket] += 1;
+      const { category } = teacherPeriodPerformance(t, periodKey, failurePolicy);
+      if (category) counts[category.zone] += 1;
     });
     return [
       { name: 'GREEN', value: counts.green },
       { name: 'YELLOW', value: counts.yellow },
       { name: 'RED', value: counts.red },
     ];
-  }, [teachers, percentKey, failedKey, categoryKey]);
+  }, [teachers, periodKey, failurePolicy]);
 
   const percentChartConfig = {
     percent: { label: "% Failed" },
   };
 
-  const COLOR_GREEN = "#22c55e"; // green-500
-  const COLOR_YELLOW = "#facc15"; // yellow-400
-  const COLOR_RED = "#ef4444"; // red-500
+  const COLOR_GREEN = ZONE_COLORS.green;
+  const COLOR_YELLOW = ZONE_COLORS.yellow;
+  const COLOR_RED = ZONE_COLORS.red;
 
-  const getColorForPercent = (pct: number) => {
-    if (pct === 0) return COLOR_GREEN;
-    if (pct <= 10) return COLOR_GREEN;
-    if (pct <= 40) return COLOR_YELLOW;
-    return COLOR_RED;
-  };
+  const getColorForPercent = (pct: number) =>
+    ZONE_COLORS[classify(pct, failurePolicy)?.zone ?? 'red'];
 
   const totalsChartConfig = {
     enrolled: { label: "Enrolled", color: COLOR_GREEN },
@@ -174,35 +98,22 @@ const TeacherReports = () => {
           <p className="text-muted-foreground">Charts and insights based on faculty performance</p>
         </div>
         <div className="flex items-center gap-2">
-          <Button variant="outline" onClick={() => navigate('/teachers')}>
+          <Button variant="outline" onClick={() => navigate({ pathname: '/teachers', search })}>
             Back to Teachers
           </Button>
-          <Button onClick={() => navigate('/teachers')}>
+          <Button onClick={() => navigate({ pathname: '/teachers', search })}>
             <BarChart3 className="h-4 w-4 mr-2" />
             Manage Teachers
           </Button>
         </div>
       </div>
 
+      <TermSelector />
+
       <Card>
-        <CardHeader className="flex flex-row items-center justify-between">
-          <div>
-            <CardTitle>Failure Percent by Teacher (Top 10)</CardTitle>
-            <CardDescription>Sorted by highest % in the selected period</CardDescription>
-          </div>
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">Period:</span>
-            <Select value={period} onValueChange={(v) => setPeriod(v as any)}>
-              <SelectTrigger className="w-24">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="P1">P1</SelectItem>
-                <SelectItem value="P2">P2</SelectItem>
-                <SelectItem value="P3">P3</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+        <CardHeader>
+          <CardTitle>Failure Percent by Teacher (Top 10)</CardTitle>
+          <CardDescription>Sorted by highest % in {period}</CardDescription>
         </CardHeader>
         <CardContent>
           <ChartContainer config={percentChartConfig}>
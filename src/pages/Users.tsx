@@ -0,0 +1,516 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Search, Edit, KeyRound, Ban, CheckCircle2, Copy, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { useCreateUser, useInviteUser, usePrograms, useUpdateUser, useUsers } from "@/hooks/use-resources";
+import { errorMessage } from "@/lib/api";
+import { ROLES, ROLE_LABELS, roleLabel } from "@/lib/permissions";
+import type { Invite, ManagedUser } from "@/lib/schemas";
+
+interface UserForm {
+  username: string;
+  role: string;
+  department: string;
+  program_ids: number[];
+  access: "invite" | "password";
+  password: string;
+}
+
+const EMPTY_FORM: UserForm = {
+  username: "",
+  role: "committee",
+  department: "",
+  program_ids: [],
+  access: "invite",
+  password: "",
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+const statusBadge = (user: ManagedUser) => {
+  if (user.disabled) return <Badge variant="destructive">Disabled</Badge>;
+  if (user.invite_pending) {
+    const expired = user.invite_expires_at && new Date(user.invite_expires_at) < new Date();
+    return <Badge variant="outline">{expired ? "Invite expired" : "Invite pending"}</Badge>;
+  }
+  return <Badge className="bg-zone-green text-white hover:bg-zone-green">Active</Badge>;
+};
+
+const Users = () => {
+  const currentUserId = useSession()?.user.id;
+  const { data: users = [], isLoading: loading } = useUsers();
+  const { data: programs = [] } = usePrograms();
+  const createUser = useCreateUser();
+  const updateUser = useUpdateUser();
+  const inviteUser = useInviteUser();
+  const { toast } = useToast();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [form, setForm] = useState<UserForm>(EMPTY_FORM);
+  const [editing, setEditing] = useState<ManagedUser | null>(null);
+  const [resetting, setResetting] = useState<ManagedUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  // The link to hand to a user after inviting them or resetting their password
+  const [invite, setInvite] = useState<{ username: string; link: Invite } | null>(null);
+
+  const filteredUsers = users.filter((user) => {
+    const term = searchTerm.toLowerCase();
+    return user.username.toLowerCase().includes(term) ||
+      roleLabel(user.role).toLowerCase().includes(term) ||
+      (user.department ?? "").toLowerCase().includes(term);
+  });
+
+  const programCodes = (ids: number[]) =>
+    ids.map((id) => programs.find((program) => program.id === id)?.program_code ?? `#${id}`).join(", ");
+
+  const toggleProgram = (id: number, checked: boolean) =>
+    setForm((prev) => ({
+      ...prev,
+      program_ids: checked ? [...prev.program_ids, id] : prev.program_ids.filter((p) => p !== id),
+    }));
+
+  const handleAddUser = async () => {
+    if (!form.username.trim()) {
+      toast({ title: "Error", description: "Enter a username", variant: "destructive" });
+      return;
+    }
+    if (form.access === "password" && form.password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Error",
+        description: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const created = await createUser.mutateAsync({
+        username: form.username.trim(),
+        role: form.role,
+        department: form.department.trim(),
+        program_ids: form.role === "chair" ? form.program_ids : [],
+        ...(form.access === "invite" ? { invite: true } : { password: form.password }),
+      });
+      setIsAddDialogOpen(false);
+      setForm(EMPTY_FORM);
+      if (created.invite_token && created.invite_expires_at) {
+        setInvite({
+          username: created.username,
+          link: { invite_token: created.invite_token, invite_expires_at: created.invite_expires_at },
+        });
+      } else {
+        toast({ title: "Success", description: `${created.username} can now sign in` });
+      }
+    } catch (error) {
+      toast({ title: "Failed to add user", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleEditUser = (user: ManagedUser) => {
+    setEditing(user);
+    setForm({
+      ...EMPTY_FORM,
+      username: user.username,
+      role: user.role,
+      department: user.department ?? "",
+      program_ids: user.program_ids,
+    });
+  };
+
+  const handleSaveUser = async () => {
+    if (!editing) return;
+    try {
+      await updateUser.mutateAsync({
+        id: editing.id,
+        data: {
+          role: form.role,
+          department: form.department.trim(),
+          program_ids: form.role === "chair" ? form.program_ids : [],
+        },
+      });
+      toast({ title: "Success", description: `${editing.username} updated` });
+      setEditing(null);
+    } catch (error) {
+      toast({ title: "Failed to update user", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleSetPassword = async () => {
+    if (!resetting) return;
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Error",
+        description: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await updateUser.mutateAsync({ id: resetting.id, data: { password: newPassword } });
+      toast({ title: "Password reset", description: `${resetting.username} has been signed out everywhere` });
+      setResetting(null);
+      setNewPassword("");
+    } catch (error) {
+      toast({ title: "Failed to reset password", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleSendResetLink = async () => {
+    if (!resetting) return;
+    try {
+      const link = await inviteUser.mutateAsync(resetting.id);
+      setInvite({ username: resetting.username, link });
+      setResetting(null);
+    } catch (error) {
+      toast({ title: "Failed to create link", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleToggleDisabled = async (user: ManagedUser) => {
+    if (!user.disabled && !confirm(`Disable ${user.username}? They will be signed out immediately.`)) return;
+    try {
+      await updateUser.mutateAsync({ id: user.id, data: { disabled: !user.disabled } });
+      toast({ title: user.disabled ? "Account enabled" : "Account disabled", description: user.username });
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite.link.invite_token));
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually", variant: "destructive" });
+    }
+  };
+
+  const roleFields = (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="role">Role</Label>
+          <Select
+            value={form.role}
+            onValueChange={(role) => setForm({ ...form, role })}
+            disabled={editing?.id === currentUserId}
+          >
+            <SelectTrigger id="role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="department">Department</Label>
+          <Input
+            id="department"
+            value={form.department}
+            onChange={(e) => setForm({ ...form, department: e.target.value })}
+            placeholder="College of Computing"
+          />
+        </div>
+      </div>
+
+      {form.role === "chair" && (
+        <div className="space-y-2">
+          <Label>Programs chaired</Label>
+          <p className="text-xs text-muted-foreground">Chairs only see students and grades in these programs.</p>
+          <div className="border rounded-md p-3 max-h-40 overflow-y-auto space-y-2">
+            {programs.length === 0 && <p className="text-sm text-muted-foreground">No programs yet</p>}
+            {programs.map((program) => (
+              <label key={program.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.program_ids.includes(program.id)}
+                  onCheckedChange={(checked) => toggleProgram(program.id, checked === true)}
+                />
+                <span className="font-medium">{program.program_code}</span>
+                <span className="text-muted-foreground">{program.program_name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading users...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Users</h1>
+          <p className="text-muted-foreground">
+            Manage accounts, roles and access to the system
+          </p>
+        </div>
+        <Button onClick={() => { setForm(EMPTY_FORM); setIsAddDialogOpen(true); }}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>User List</CardTitle>
+          <CardDescription>
+            {filteredUsers.length} of {users.length} accounts
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Search className="h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by username, role or department..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="max-w-sm"
+            />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredUsers.map((user) => (
+                <TableRow key={user.id} className={user.disabled ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">
+                    {user.username}
+                    {user.id === currentUserId && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{roleLabel(user.role)}</Badge>
+                    {user.role === "chair" && user.program_ids.length > 0 && (
+                      <div className="text-xs text-muted-foreground mt-1">{programCodes(user.program_ids)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{user.department || "—"}</TableCell>
+                  <TableCell className="text-sm">{formatDateTime(user.last_login_at)}</TableCell>
+                  <TableCell>{statusBadge(user)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditUser(user)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => { setNewPassword(""); setResetting(user); }}
+                        disabled={user.disabled}
+                      >
+                        <KeyRound className="h-4 w-4 mr-1" />
+                        Reset Password
+                      </Button>
+                      {user.id !== currentUserId && (
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleDisabled(user)}>
+                          {user.disabled ? (
+                            <>
+                              <CheckCircle2 className="h-4 w-4 mr-1" />
+                              Enable
+                            </>
+                          ) : (
+                            <>
+                              <Ban className="h-4 w-4 mr-1" />
+                              Disable
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Add User Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+            <DialogDescription>
+              Invite someone to choose their own password, or set one for them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                placeholder="jdelacruz"
+              />
+            </div>
+            {roleFields}
+            <div className="space-y-2">
+              <Label>Sign-in</Label>
+              <RadioGroup
+                value={form.access}
+                onValueChange={(access) => setForm({ ...form, access: access as UserForm["access"] })}
+              >
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="invite" />
+                  Create an invite link valid for 7 days
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="password" />
+                  Set a password now
+                </label>
+              </RadioGroup>
+              {form.access === "password" && (
+                <Input
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                />
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleAddUser} disabled={createUser.isPending}>Add User</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit User Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit {editing?.username}</DialogTitle>
+            <DialogDescription>
+              Role changes apply the next time their session refreshes, within 15 minutes.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">{roleFields}</div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSaveUser} disabled={updateUser.isPending}>Save Changes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Dialog */}
+      <Dialog open={!!resetting} onOpenChange={(open) => !open && setResetting(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset password for {resetting?.username}</DialogTitle>
+            <DialogDescription>
+              Send them a link to choose a new password, or set one yourself.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Button variant="outline" className="w-full" onClick={handleSendResetLink} disabled={inviteUser.isPending}>
+              Create a reset link
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="new_password">Or set a new password</Label>
+              <Input
+                id="new_password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              />
+              <p className="text-xs text-muted-foreground">They will be signed out of every device.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetting(null)}>Cancel</Button>
+            <Button onClick={handleSetPassword} disabled={!newPassword || updateUser.isPending}>Set Password</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invite Link Dialog */}
+      <Dialog open={!!invite} onOpenChange={(open) => !open && setInvite(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Link for {invite?.username}</DialogTitle>
+            <DialogDescription>
+              Send this link to {invite?.username}. It works once and expires{" "}
+              {invite && new Date(invite.link.invite_expires_at).toLocaleString()}. It is not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          {invite && (
+            <div className="flex gap-2">
+              <Input readOnly value={inviteUrl(invite.link.invite_token)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={copyInviteLink}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setInvite(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Users;